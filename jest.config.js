@@ -8,6 +8,7 @@ export default {
   injectGlobals: true,
   roots: ['<rootDir>/tests'],
   testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/tests/setup-env.ts'],
   collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1'
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+// Script to run the mock x402 gateway locally for offline development
+
+import { MockGateway, MOCK_API_KEY, MOCK_GATEWAY_WALLET } from '../src/mock/gateway.js';
+import { DEFAULT_MOCK_PUBLISHERS } from '../src/mock/fixtures.js';
+
+async function main() {
+  const port = Number(process.env.MOCK_GATEWAY_PORT ?? 4020);
+  const gateway = new MockGateway();
+  const url = await gateway.start(port);
+
+  console.log(`🧪 Mock x402 gateway listening on ${url}`);
+  console.log(`   Payments go to ${MOCK_GATEWAY_WALLET}; nothing is settled on-chain`);
+  console.log(`   Admin API key: ${MOCK_API_KEY}`);
+  console.log('\n📋 Publishers:');
+  for (const { publisher, price, billing } of DEFAULT_MOCK_PUBLISHERS) {
+    console.log(`  - ${publisher.name} (${publisher.id}) ${publisher.publisherType}, ${Number(price) / 1e6} USDC per call${billing === 'credits' ? ' from prepaid credits' : ''}`);
+  }
+  console.log(`\n💡 Point the server or a script at it with X402_GATEWAY_URL=${url}`);
+
+  const shutdown = async () => {
+    await gateway.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to start mock gateway:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// ABOUTME: Command-line entry point of the x402-mcp-server binary
+// ABOUTME: Runs `keystore` subcommands before the MCP server module reads config, opens the ledger or loads wallets
+
+if (process.argv[2] === 'keystore') {
+  // `x402-mcp-server keystore ...` manages keystores instead of starting the server
+  const { runKeystoreCommand } = await import('./cli/keystore.js');
+  process.exit(await runKeystoreCommand(process.argv.slice(3)));
+}
+
+await import('./index.js');
@@ -0,0 +1,138 @@
+// ABOUTME: `x402-mcp-server keystore` subcommand to create, import and export V3 keystores
+// ABOUTME: Passphrases come from --passphrase-file or a hidden terminal prompt
+
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  KeystoreError,
+  promptHidden,
+  readKeystoreFile,
+  readPassphrase,
+  writeKeystoreFile,
+  type KeystoreKdf,
+} from '../wallet/keystore.js';
+
+export const DEFAULT_KEYSTORE_PATH = join(homedir(), '.x402-mcp-server', 'keystore.json');
+
+const USAGE = `Usage: x402-mcp-server keystore <command> [options]
+
+Commands:
+  create    Generate a new key and save it as an encrypted keystore
+  import    Encrypt an existing private key into a keystore
+  export    Decrypt a keystore and print its private key
+
+Options:
+  --keystore <path>         Keystore file (default: ${DEFAULT_KEYSTORE_PATH})
+  --passphrase-file <path>  Read the passphrase from a file instead of prompting
+  --key-file <path>         import: read the private key from a file instead of prompting
+  --kdf <scrypt|pbkdf2>     create/import: key derivation function (default: scrypt)
+`;
+
+/**
+ * Run the keystore subcommand
+ * @returns Process exit code
+ */
+export async function runKeystoreCommand(args: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseKeystoreArgs>;
+  try {
+    parsed = parseKeystoreArgs(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : 'Invalid arguments');
+    console.error(USAGE);
+    return 1;
+  }
+
+  const { command, values } = parsed;
+  const keystorePath = values.keystore ?? DEFAULT_KEYSTORE_PATH;
+
+  try {
+    switch (command) {
+      case 'create':
+      case 'import': {
+        const privateKey = command === 'create'
+          ? generatePrivateKey()
+          : await readPrivateKey(values['key-file']);
+        const passphrase = await readNewPassphrase(values['passphrase-file']);
+        const keystore = encryptKeystore(privateKey, passphrase, { kdf: values.kdf as KeystoreKdf | undefined });
+        await writeKeystoreFile(keystorePath, keystore);
+        console.error(`Keystore written to ${keystorePath}`);
+        console.log(privateKeyToAccount(privateKey).address);
+        return 0;
+      }
+      case 'export': {
+        const keystore = await readKeystoreFile(keystorePath);
+        const passphrase = await readPassphrase(values['passphrase-file']);
+        const privateKey = decryptKeystore(keystore, passphrase);
+        console.error('WARNING: Anyone with this private key controls the wallet.');
+        console.log(privateKey);
+        return 0;
+      }
+      default:
+        console.error(USAGE);
+        return command ? 1 : 0;
+    }
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'EEXIST') {
+      console.error(`Keystore ${keystorePath} already exists`);
+      return 1;
+    }
+    console.error(error instanceof Error ? error.message : 'Unknown error');
+    return 1;
+  }
+}
+
+function parseKeystoreArgs(args: string[]) {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      keystore: { type: 'string' },
+      'passphrase-file': { type: 'string' },
+      'key-file': { type: 'string' },
+      kdf: { type: 'string' },
+    },
+  });
+
+  if (values.kdf && values.kdf !== 'scrypt' && values.kdf !== 'pbkdf2') {
+    throw new Error(`Unsupported --kdf: ${values.kdf}`);
+  }
+  return { command: positionals[0], values };
+}
+
+/**
+ * Read a private key for import from a file or a hidden prompt
+ */
+async function readPrivateKey(keyFile?: string): Promise<`0x${string}`> {
+  const raw = keyFile
+    ? (await readFile(keyFile, 'utf8')).trim()
+    : await promptHidden('Private key: ');
+  const key = raw.startsWith('0x') ? raw : `0x${raw}`;
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+    throw new KeystoreError('Private key must be 0x followed by 64 hex characters');
+  }
+  return key as `0x${string}`;
+}
+
+/**
+ * Read a new passphrase, asking twice when prompting
+ */
+async function readNewPassphrase(passphraseFile?: string): Promise<string> {
+  const passphrase = await readPassphrase(passphraseFile, 'New keystore passphrase: ');
+  if (!passphrase) {
+    throw new KeystoreError('Passphrase must not be empty');
+  }
+
+  if (!passphraseFile) {
+    const confirmation = await promptHidden('Repeat passphrase: ');
+    if (confirmation !== passphrase) {
+      throw new KeystoreError('Passphrases do not match');
+    }
+  }
+  return passphrase;
+}
@@ -3,20 +3,35 @@
 
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { homedir } from 'os';
+import { join } from 'path';
 
 dotenv.config({ path: '.env.local' });
 
+// Decimal USDC amount such as "10" or "0.05"
+const usdcAmount = z.string().regex(/^\d+(\.\d{1,6})?$/, 'Must be a decimal USDC amount');
+
 const configSchema = z.object({
   // Gateway - handles payment verification and on-chain settlement
   X402_GATEWAY_URL: z.string().url().default('https://x402.serendb.com'),
 
   // Wallet - how user signs EIP-712 authorizations
   WALLET_TYPE: z.enum(['browser', 'walletconnect', 'hardware']).default('browser'),
+  // Encrypted V3 keystore used instead of WALLET_PRIVATE_KEY when set
+  WALLET_KEYSTORE_PATH: z.string().optional(),
+  WALLET_PASSPHRASE_FILE: z.string().optional(), // prompts on a terminal when unset
+  // Named wallet profiles and publisher routing rules (JSON); single-wallet mode when the file is absent
+  WALLET_PROFILES_PATH: z.string().default(join(homedir(), '.x402-mcp-server', 'wallets.json')),
   WALLETCONNECT_PROJECT_ID: z.string().optional(),
+  WALLETCONNECT_STORAGE_PATH: z.string().default(join(homedir(), '.x402-mcp-server', 'walletconnect')), // persisted sessions
+  HARDWARE_WALLET_PATH: z.string().default("44'/60'/0'/0/0"), // BIP-32 path of the Ledger account
+
+  // Payment network: Base mainnet or Base Sepolia testnet
+  NETWORK: z.enum(['base', 'base-sepolia']).default('base'),
 
-  // Direct RPC - only needed for balance checks, not settlement
-  // Settlement is handled by the gateway
-  BASE_RPC_URL: z.string().url().default('https://mainnet.base.org'),
+  // Direct RPC - reads on-chain USDC/ETH balances for check_wallet_balance and pre-flight checks
+  // Settlement is handled by the gateway. Defaults to the public RPC of NETWORK.
+  BASE_RPC_URL: z.string().url().optional(),
 
   // Development
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -26,7 +41,45 @@ const configSchema = z.object({
   QUERY_TIMEOUT_MS: z.coerce.number().int().positive().default(120000), // 2 minutes default
   QUERY_RETRY_ATTEMPTS: z.coerce.number().int().min(0).max(5).default(2),
   QUERY_RETRY_DELAY_MS: z.coerce.number().int().positive().default(1000), // 1 second delay between retries
-});
+  QUERY_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(10000), // cap on backoff and Retry-After waits
+
+  // Per-endpoint circuit breaker for gateway calls
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5), // consecutive failures that open it
+  CIRCUIT_BREAKER_RESET_MS: z.coerce.number().int().positive().default(30000), // how long it stays open before a trial call
+
+  // Spending limits in USDC (e.g., "0.50"). Unset limits are not enforced.
+  MAX_PAYMENT_PER_CALL_USDC: usdcAmount.optional(),
+  MAX_DAILY_SPEND_USDC: usdcAmount.optional(), // rolling 24h window
+  MAX_PUBLISHER_DAILY_SPEND_USDC: usdcAmount.optional(), // rolling 24h window, per publisher
+
+  // Payment requirement checks applied before signing
+  // Comma-separated gateway wallets allowed as payTo; every payTo is rejected when unset
+  PAYMENT_PAYTO_ALLOWLIST: z.string().optional().transform((value) =>
+    (value ?? '').split(',').map((address) => address.trim()).filter(Boolean)
+  ).pipe(z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Must be a comma-separated list of addresses'))),
+  // Explicit opt-out of the allowlist: accept any payTo when PAYMENT_PAYTO_ALLOWLIST is unset
+  PAYMENT_PAYTO_ALLOW_ANY: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  MAX_PAYMENT_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(900),
+  // How to choose among several acceptable 402 requirements: lowest price or gateway order
+  PAYMENT_SELECTION_STRATEGY: z.enum(['cheapest', 'gateway_order']).default('cheapest'),
+
+  // Opt-in automatic credit top-up when a prepaid-credit query runs out of balance
+  AUTO_TOPUP_AMOUNT_USDC: usdcAmount.optional(), // deposited per top-up, raised to the gateway minimum
+  AUTO_TOPUP_MONTHLY_LIMIT_USDC: usdcAmount.optional(), // required when AUTO_TOPUP_AMOUNT_USDC is set
+
+  // Opt-in self-settlement: when the gateway answers a paid retry with another 402, broadcast the
+  // signed authorization ourselves (DirectRelay, then PalomaRelay) and credit it with confirmDeposit
+  SELF_SETTLEMENT: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  RELAY_PRIVATE_KEY: z.string().regex(/^(0x)?[0-9a-fA-F]{64}$/, 'Must be a 32-byte hex private key').optional(), // pays DirectRelay gas
+  PALOMA_RELAY_URL: z.string().url().optional(), // defaults to the public Paloma relay
+
+  // Local SQLite ledger recording every signed payment authorization
+  PAYMENT_LEDGER_PATH: z.string().default(join(homedir(), '.x402-mcp-server', 'payments.db')),
+}).transform((env) => ({
+  ...env,
+  BASE_RPC_URL: env.BASE_RPC_URL
+    ?? (env.NETWORK === 'base-sepolia' ? 'https://sepolia.base.org' : 'https://mainnet.base.org'),
+}));
 
 export const config = configSchema.parse(process.env);
 
@@ -34,3 +87,7 @@ export const config = configSchema.parse(process.env);
 if (config.WALLET_TYPE === 'walletconnect' && !config.WALLETCONNECT_PROJECT_ID) {
   throw new Error('WALLETCONNECT_PROJECT_ID required when WALLET_TYPE=walletconnect');
 }
+
+if (config.AUTO_TOPUP_AMOUNT_USDC && !config.AUTO_TOPUP_MONTHLY_LIMIT_USDC) {
+  throw new Error('AUTO_TOPUP_MONTHLY_LIMIT_USDC required when AUTO_TOPUP_AMOUNT_USDC is set');
+}
@@ -0,0 +1,54 @@
+// ABOUTME: Supported payment networks (Base mainnet and Base Sepolia)
+// ABOUTME: Resolves chain, USDC contract, RPC URL and requirement network names from NETWORK
+
+import type { Chain } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+import { config } from './index.js';
+import { USDC_CONTRACTS, DEFAULT_RPC_URLS } from '../relay/types.js';
+
+export type NetworkName = 'base' | 'base-sepolia';
+
+export interface NetworkConfig {
+  name: NetworkName;
+  chainId: number;
+  chain: Chain;
+  /** Native USDC contract, also the EIP-712 verifyingContract */
+  usdc: `0x${string}`;
+  rpcUrl: string;
+  /** Names gateways use for this network in payment requirements */
+  aliases: string[];
+}
+
+export const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  base: {
+    name: 'base',
+    chainId: 8453,
+    chain: base,
+    usdc: USDC_CONTRACTS[8453],
+    rpcUrl: DEFAULT_RPC_URLS[8453],
+    aliases: ['base', 'base-mainnet', 'eip155:8453'],
+  },
+  'base-sepolia': {
+    name: 'base-sepolia',
+    chainId: 84532,
+    chain: baseSepolia,
+    usdc: USDC_CONTRACTS[84532],
+    rpcUrl: DEFAULT_RPC_URLS[84532],
+    aliases: ['base-sepolia', 'eip155:84532'],
+  },
+};
+
+/**
+ * Get a network (the configured NETWORK by default), using BASE_RPC_URL for the configured one
+ */
+export function getNetwork(name: NetworkName = config.NETWORK): NetworkConfig {
+  const network = NETWORKS[name];
+  return name === config.NETWORK ? { ...network, rpcUrl: config.BASE_RPC_URL } : network;
+}
+
+/**
+ * Check whether a requirement's network name refers to this network
+ */
+export function matchesNetwork(network: NetworkConfig, requirementNetwork: string): boolean {
+  return network.aliases.includes(requirementNetwork.toLowerCase());
+}
@@ -0,0 +1,152 @@
+// ABOUTME: Per-endpoint circuit breaker for gateway calls (closed, open, half-open)
+// ABOUTME: Stops calling an endpoint after repeated failures and lets one trial call through once it has rested
+
+import { config } from '../config/index.js';
+import { CircuitOpenError } from './errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call is allowed */
+  resetTimeoutMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Breaker state reported on /health
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  /** Consecutive failures since the last success */
+  failures: number;
+  /** When the circuit last opened (ISO 8601) */
+  openedAt?: string;
+  /** Time left before a trial call is allowed, while open */
+  retryAfterMs?: number;
+}
+
+/**
+ * Circuit breaker for a single endpoint
+ * Closed: calls go through and consecutive failures are counted.
+ * Open: calls are refused with CircuitOpenError until resetTimeoutMs has passed.
+ * Half-open: one trial call goes through; success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    public readonly endpoint: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Claim permission to call the endpoint
+   * @throws CircuitOpenError while open, or while a half-open trial call is in flight
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const retryAfterMs = this.retryAfterMs();
+      if (retryAfterMs > 0) {
+        throw new CircuitOpenError(this.endpoint, retryAfterMs);
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.endpoint, this.resetTimeoutMs);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Record a call the endpoint answered, closing the circuit
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call, opening the circuit after a failed trial or too many failures
+   */
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.retryAfterMs() === 0) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    return {
+      state,
+      failures: this.failures,
+      ...(this.openedAt !== undefined && { openedAt: new Date(this.openedAt).toISOString() }),
+      ...(state === 'open' && { retryAfterMs: this.retryAfterMs() }),
+    };
+  }
+
+  private retryAfterMs(): number {
+    return Math.max(0, (this.openedAt ?? 0) + this.resetTimeoutMs - this.now());
+  }
+}
+
+/**
+ * Circuit breakers keyed by endpoint, created on first use
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.options);
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(): Record<string, CircuitBreakerSnapshot> {
+    return Object.fromEntries([...this.breakers].map(([endpoint, breaker]) => [endpoint, breaker.snapshot()]));
+  }
+}
+
+/**
+ * Build a registry from the CIRCUIT_BREAKER_* environment settings
+ */
+export function createCircuitBreakersFromConfig(): CircuitBreakerRegistry {
+  return new CircuitBreakerRegistry({
+    failureThreshold: config.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+    resetTimeoutMs: config.CIRCUIT_BREAKER_RESET_MS,
+  });
+}
+
+// Shared by every GatewayClient in the process so /health reports one view of each endpoint
+export const gatewayCircuitBreakers = createCircuitBreakersFromConfig();
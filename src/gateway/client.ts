@@ -1,5 +1,5 @@
 // ABOUTME: HTTP client for x402 gateway communication
-// ABOUTME: Handles 402 responses and payment header encoding
+// ABOUTME: Handles 402 responses and payment headers through the versioned x402 codec, behind per-endpoint circuit breakers
 
 import { config } from '../config/index.js';
 import type {
@@ -12,12 +12,34 @@ import type {
   QueryResult,
   CreditBalance,
 } from './types.js';
+import {
+  PAYMENT_REQUIRED_HEADER,
+  decodePaymentRequired,
+  decodeSettlementResponse,
+  encodePaymentHeader,
+  readPaymentResponseHeader,
+  type SettlementResponse,
+} from './x402.js';
+import {
+  GatewayHttpError,
+  GatewayTimeoutError,
+  InvalidSqlError,
+  PublisherNotFoundError,
+  type GatewayRequestDetails,
+  type GatewayResponseDetails,
+} from './errors.js';
+import { gatewayCircuitBreakers, type CircuitBreakerRegistry } from './circuitBreaker.js';
+import { parseRetryAfter } from '../utils/retry.js';
+
+type ErrorBody = Record<string, unknown> & { error?: unknown; message?: unknown };
 
 export class GatewayClient {
   private baseUrl: string;
+  private readonly circuitBreakers: CircuitBreakerRegistry;
 
-  constructor(baseUrl?: string) {
+  constructor(baseUrl?: string, options: { circuitBreakers?: CircuitBreakerRegistry } = {}) {
     this.baseUrl = baseUrl ?? config.X402_GATEWAY_URL;
+    this.circuitBreakers = options.circuitBreakers ?? gatewayCircuitBreakers;
   }
 
   /**
@@ -32,12 +54,12 @@ export class GatewayClient {
     if (options?.type) params.set('type', options.type);
 
     const url = `${this.baseUrl}/api/catalog${params.toString() ? '?' + params : ''}`;
-    const response = await fetch(url);
+    const response = await this.send('/api/catalog', url);
 
     if (!response.ok) {
       // Consume error response body to ensure connection is closed
       await response.text().catch(() => '');
-      throw new Error(`Failed to list publishers: ${response.status}`);
+      throw new GatewayHttpError(`Failed to list publishers: ${response.status}`, response.status, this.responseDetails(response));
     }
 
     // Manually parse to ensure robustness against subtle fetch/environment issues
@@ -67,12 +89,19 @@ export class GatewayClient {
    * Get details for a specific publisher
    */
   async getPublisher(publisherId: string): Promise<Publisher> {
-    const response = await fetch(`${this.baseUrl}/api/catalog/${publisherId}`);
+    const response = await this.send('/api/catalog', `${this.baseUrl}/api/catalog/${publisherId}`);
 
     if (!response.ok) {
       // Consume error response body to ensure connection is closed
-      await response.text().catch(() => '');
-      throw new Error(`Publisher not found: ${publisherId}`);
+      const body = await this.readErrorBody(response);
+      if (response.status === 404) {
+        throw new PublisherNotFoundError(publisherId, this.responseDetails(response, body));
+      }
+      throw new GatewayHttpError(
+        `Failed to get publisher ${publisherId}: ${response.status}`,
+        response.status,
+        this.responseDetails(response, body)
+      );
     }
 
     return response.json() as Promise<Publisher>;
@@ -82,15 +111,15 @@ export class GatewayClient {
    * Get detailed pricing configuration for a specific publisher
    */
   async getPublisherPricing(publisherId: string): Promise<PublisherPricingConfig> {
-    const response = await fetch(`${this.baseUrl}/api/publishers/${publisherId}/pricing`);
+    const response = await this.send('/api/publishers', `${this.baseUrl}/api/publishers/${publisherId}/pricing`);
 
     if (!response.ok) {
       // Consume error response body to ensure connection is closed
       await response.text().catch(() => '');
-      if (response.status === 404) {
-        throw new Error(`Pricing configuration not found for publisher: ${publisherId}`);
-      }
-      throw new Error(`Failed to get pricing for publisher ${publisherId}: ${response.status}`);
+      const message = response.status === 404
+        ? `Pricing configuration not found for publisher: ${publisherId}`
+        : `Failed to get pricing for publisher ${publisherId}: ${response.status}`;
+      throw new GatewayHttpError(message, response.status, this.responseDetails(response));
     }
 
     return response.json() as Promise<PublisherPricingConfig>;
@@ -113,39 +142,41 @@ export class GatewayClient {
     };
 
     if (paymentPayload) {
-      headers['X-PAYMENT'] = this.encodePaymentPayload(paymentPayload);
+      const paymentHeader = encodePaymentHeader(paymentPayload);
+      headers[paymentHeader.name] = paymentHeader.value;
     }
 
     const url = `${this.baseUrl}/api/proxy`;
     const body = JSON.stringify(request);
 
-    const response = await fetch(url, {
+    const response = await this.send('/api/proxy', url, {
       method: 'POST',
       headers,
       body,
     });
 
     if (response.status === 402) {
-      const paymentRequired = await response.json() as PaymentRequirementsResponse;
-      return { status: 402, paymentRequired };
+      return { status: 402, paymentRequired: await this.readPaymentRequired(response) };
     }
 
     if (!response.ok) {
-      const errorText = await response.text();
-      let errorBody: { error?: string };
-      try {
-        errorBody = JSON.parse(errorText);
-      } catch {
-        errorBody = { error: errorText || 'Unknown error' };
+      const errorBody = await this.readErrorBody(response);
+      const details = this.responseDetails(response, errorBody, {
+        url,
+        publisherId: request.publisherId,
+        hasPayment: !!paymentPayload,
+      });
+      if (response.status === 404) {
+        throw new PublisherNotFoundError(request.publisherId, details);
       }
       const errorMessage = typeof errorBody.error === 'string'
         ? errorBody.error
         : JSON.stringify(errorBody.error) ?? response.status;
-      throw new Error(`Proxy request failed: ${errorMessage}`);
+      throw new GatewayHttpError(`Proxy request failed: ${errorMessage}`, response.status, details);
     }
 
     const data = await response.json();
-    const paymentResponse = response.headers.get('X-PAYMENT-RESPONSE') ?? undefined;
+    const paymentResponse = readPaymentResponseHeader(response.headers);
 
     return { status: 200, data, paymentResponse };
   }
@@ -168,7 +199,8 @@ export class GatewayClient {
     };
 
     if (paymentPayload) {
-      headers['X-PAYMENT'] = this.encodePaymentPayload(paymentPayload);
+      const paymentHeader = encodePaymentHeader(paymentPayload);
+      headers[paymentHeader.name] = paymentHeader.value;
     }
 
     const url = `${this.baseUrl}/api/query`;
@@ -178,9 +210,15 @@ export class GatewayClient {
     const timeout = timeoutMs ?? config.QUERY_TIMEOUT_MS;
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const requestDetails: GatewayRequestDetails = {
+      url,
+      publisherId: request.publisherId,
+      sql: request.sql,
+      hasPayment: !!paymentPayload,
+    };
 
     try {
-      const response = await fetch(url, {
+      const response = await this.send('/api/query', url, {
         method: 'POST',
         headers,
         body,
@@ -190,17 +228,14 @@ export class GatewayClient {
       clearTimeout(timeoutId);
 
     if (response.status === 402) {
-      const paymentRequired = await response.json() as PaymentRequirementsResponse;
-      return { status: 402, paymentRequired };
+      return { status: 402, paymentRequired: await this.readPaymentRequired(response) };
     }
 
       if (!response.ok) {
-        const errorText = await response.text();
-        let errorBody: Record<string, unknown>;
-        try {
-          errorBody = JSON.parse(errorText);
-        } catch {
-          errorBody = { error: errorText || 'Unknown error', rawResponse: errorText };
+        const errorBody = await this.readErrorBody(response);
+        const details = this.responseDetails(response, errorBody, requestDetails);
+        if (response.status === 404) {
+          throw new PublisherNotFoundError(request.publisherId, details);
         }
         
         // Build detailed error message
@@ -219,23 +254,15 @@ export class GatewayClient {
           errorParts.push(`Full error response: ${errorBodyStr}`);
         }
         
-        // Create error with full details
-        const error = new Error(errorParts.join('\n'));
-        // Attach additional context as properties for programmatic access
-        (error as any).statusCode = response.status;
-        (error as any).statusText = response.statusText;
-        (error as any).errorBody = errorBody;
-        (error as any).requestDetails = {
-          url,
-          publisherId: request.publisherId,
-          sql: request.sql,
-          hasPayment: !!paymentPayload
-        };
-        throw error;
+        // The gateway rejects malformed or disallowed SQL before running it
+        if (response.status === 400 || response.status === 422) {
+          throw new InvalidSqlError(errorParts.join('\n'), details);
+        }
+        throw new GatewayHttpError(errorParts.join('\n'), response.status, details);
       }
 
       const data = await response.json() as QueryResult;
-      const paymentResponse = response.headers.get('X-PAYMENT-RESPONSE') ?? undefined;
+      const paymentResponse = readPaymentResponseHeader(response.headers);
 
       return { status: 200, data, paymentResponse };
     } catch (error) {
@@ -243,21 +270,7 @@ export class GatewayClient {
       
       // Handle timeout/abort errors
       if (error instanceof Error && error.name === 'AbortError') {
-        const timeoutError = new Error(`Query request timed out after ${timeout}ms`);
-        (timeoutError as any).statusCode = 408; // Request Timeout
-        (timeoutError as any).statusText = 'Request Timeout';
-        (timeoutError as any).errorBody = { 
-          error: 'Request timeout', 
-          details: `Query exceeded timeout of ${timeout}ms`,
-          timeoutMs: timeout 
-        };
-        (timeoutError as any).requestDetails = {
-          url,
-          publisherId: request.publisherId,
-          sql: request.sql,
-          hasPayment: !!paymentPayload
-        };
-        throw timeoutError;
+        throw new GatewayTimeoutError(timeout, requestDetails);
       }
       
       // Note: fetch API automatically closes connections when response body is consumed
@@ -272,15 +285,15 @@ export class GatewayClient {
    * Get credit balance for an agent wallet
    */
   async getCreditBalance(agentWallet: string): Promise<CreditBalance> {
-    const response = await fetch(`${this.baseUrl}/api/credits/${agentWallet}`);
+    const response = await this.send('/api/credits', `${this.baseUrl}/api/credits/${agentWallet}`);
 
     if (!response.ok) {
       // Consume error response body to ensure connection is closed
-      const errorText = await response.text().catch(() => '');
-      if (response.status === 404) {
-        throw new Error('Credit balance not found');
-      }
-      throw new Error(`Failed to get credit balance: ${response.status}`);
+      await response.text().catch(() => '');
+      const message = response.status === 404
+        ? 'Credit balance not found'
+        : `Failed to get credit balance: ${response.status}`;
+      throw new GatewayHttpError(message, response.status, this.responseDetails(response));
     }
 
     return response.json() as Promise<CreditBalance>;
@@ -294,24 +307,18 @@ export class GatewayClient {
     txHash: string,
     amount: string
   ): Promise<CreditBalance> {
-    const response = await fetch(`${this.baseUrl}/api/credits/confirm-deposit`, {
+    const response = await this.send('/api/credits', `${this.baseUrl}/api/credits/confirm-deposit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ agentWallet, txHash, amount }),
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      let errorBody: { error?: string };
-      try {
-        errorBody = JSON.parse(errorText);
-      } catch {
-        errorBody = { error: errorText || 'Unknown error' };
-      }
-      if (errorBody.error) {
-        throw new Error(errorBody.error);
-      }
-      throw new Error(`Failed to confirm deposit: ${response.status}`);
+      const errorBody = await this.readErrorBody(response);
+      const message = typeof errorBody.error === 'string' && errorBody.error
+        ? errorBody.error
+        : `Failed to confirm deposit: ${response.status}`;
+      throw new GatewayHttpError(message, response.status, this.responseDetails(response, errorBody));
     }
 
     return response.json() as Promise<CreditBalance>;
@@ -330,29 +337,22 @@ export class GatewayClient {
       'Authorization': `Bearer ${apiKey}`,
     };
 
-    const response = await fetch(url, {
+    const response = await this.send('/api/publishers', url, {
       method: 'PATCH',
       headers,
       body: JSON.stringify({ connectionString }),
     });
 
     if (!response.ok) {
-      // Consume error response body to ensure connection is closed
-      const errorText = await response.text();
-      let errorBody: { error?: string; message?: string };
-      try {
-        errorBody = JSON.parse(errorText);
-      } catch {
-        errorBody = { error: errorText || 'Unknown error' };
-      }
-
+      const errorBody = await this.readErrorBody(response);
       const errorMessage = errorBody.error || errorBody.message || `Failed to update publisher connection: ${response.status}`;
-      
+      const details = this.responseDetails(response, errorBody);
+
       if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed: ${errorMessage}`);
+        throw new GatewayHttpError(`Authentication failed: ${errorMessage}`, response.status, details);
       }
-      
-      throw new Error(errorMessage);
+
+      throw new GatewayHttpError(String(errorMessage), response.status, details);
     }
 
     const data = await response.json() as { message?: string };
@@ -383,29 +383,27 @@ export class GatewayClient {
     };
 
     if (paymentPayload) {
-      headers['X-PAYMENT'] = this.encodePaymentPayload(paymentPayload);
+      const paymentHeader = encodePaymentHeader(paymentPayload);
+      headers[paymentHeader.name] = paymentHeader.value;
     }
 
-    const response = await fetch(`${this.baseUrl}/api/credits/deposit`, {
+    const response = await this.send('/api/credits', `${this.baseUrl}/api/credits/deposit`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ amount }),
     });
 
     if (response.status === 402) {
-      const paymentRequired = await response.json() as PaymentRequirementsResponse;
-      return { status: 402, paymentRequired };
+      return { status: 402, paymentRequired: await this.readPaymentRequired(response) };
     }
 
     if (!response.ok) {
-      const errorText = await response.text();
-      let errorBody: { error?: string };
-      try {
-        errorBody = JSON.parse(errorText);
-      } catch {
-        errorBody = { error: errorText || 'Unknown error' };
-      }
-      throw new Error(`Deposit failed: ${errorBody.error ?? response.status}`);
+      const errorBody = await this.readErrorBody(response);
+      throw new GatewayHttpError(
+        `Deposit failed: ${errorBody.error ?? response.status}`,
+        response.status,
+        this.responseDetails(response, errorBody)
+      );
     }
 
     const data = await response.json() as {
@@ -418,17 +416,80 @@ export class GatewayClient {
   }
 
   /**
-   * Encode payment payload to base64 for X-PAYMENT header
+   * Encode payment payload as the value of its version's payment header (X-PAYMENT or PAYMENT-SIGNATURE)
    */
   encodePaymentPayload(payload: PaymentPayload): string {
-    return Buffer.from(JSON.stringify(payload)).toString('base64');
+    return encodePaymentHeader(payload).value;
+  }
+
+  /**
+   * Decode the X-PAYMENT-RESPONSE / PAYMENT-RESPONSE header
+   * @throws X402ProtocolError when the header is not base64 JSON
+   */
+  decodePaymentResponse(encoded: string): SettlementResponse {
+    return decodeSettlementResponse(encoded);
+  }
+
+  /**
+   * Call an endpoint through its circuit breaker
+   * Network errors, timeouts, 5xx and 429 count as failures; any other answer shows the endpoint is up.
+   * @throws CircuitOpenError without sending anything while the endpoint's circuit is open
+   */
+  private async send(endpoint: string, ...request: [url: string, init?: RequestInit]): Promise<Response> {
+    const breaker = this.circuitBreakers.get(`${this.baseUrl}${endpoint}`);
+    breaker.acquire();
+
+    let response: Response;
+    try {
+      response = await fetch(...request);
+    } catch (error) {
+      breaker.recordFailure();
+      throw error;
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+    return response;
+  }
+
+  /**
+   * Details of a failed response, including the Retry-After the gateway sends with 429 and 503
+   */
+  private responseDetails(response: Response, body?: unknown, request?: GatewayRequestDetails): GatewayResponseDetails {
+    const sendsRetryAfter = response.status === 429 || response.status === 503;
+    return {
+      statusText: response.statusText,
+      body,
+      request,
+      retryAfterMs: sendsRetryAfter ? parseRetryAfter(response.headers.get('Retry-After')) : undefined,
+    };
+  }
+
+  /**
+   * Read an error response as JSON, falling back to the raw text as the error message
+   */
+  private async readErrorBody(response: Response): Promise<ErrorBody> {
+    const errorText = await response.text().catch(() => '');
+    try {
+      const parsed: unknown = JSON.parse(errorText);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as ErrorBody;
+      }
+    } catch {
+      // Not JSON; keep the text below
+    }
+    return { error: errorText || 'Unknown error', rawResponse: errorText };
   }
 
   /**
-   * Decode X-PAYMENT-RESPONSE header
+   * Read 402 requirements from the body, or from the PAYMENT-REQUIRED header of v2 gateways
    */
-  decodePaymentResponse(encoded: string): unknown {
-    return JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+  private async readPaymentRequired(response: Response): Promise<PaymentRequirementsResponse> {
+    const body = await response.json().catch(() => undefined);
+    return decodePaymentRequired(body, response.headers.get(PAYMENT_REQUIRED_HEADER));
   }
 }
 
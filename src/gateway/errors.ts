@@ -0,0 +1,223 @@
+// ABOUTME: Typed errors for gateway failures: HTTP errors, timeouts, open circuits, payments, credit, publishers and SQL
+// ABOUTME: Each error knows the HTTP status web routes answer with and whether the request may be retried
+
+import type { FailedPaymentOutcome } from '../payment/types.js';
+
+export type GatewayErrorKind =
+  | 'gateway_http'
+  | 'gateway_timeout'
+  | 'circuit_open'
+  | 'payment_rejected'
+  | 'insufficient_credit'
+  | 'publisher_not_found'
+  | 'invalid_sql';
+
+/**
+ * Serializable summary of a gateway error, returned in tool and service results
+ */
+export interface GatewayErrorInfo {
+  kind: GatewayErrorKind;
+  /** HTTP status web routes answer with */
+  status: number;
+  /** Whether sending the same request again may succeed */
+  retryable: boolean;
+}
+
+/**
+ * Response details kept on a GatewayHttpError
+ */
+export interface GatewayResponseDetails {
+  statusText?: string;
+  body?: unknown;
+  request?: GatewayRequestDetails;
+  /** Wait the gateway asked for in its Retry-After header */
+  retryAfterMs?: number;
+}
+
+/**
+ * Request that failed, kept for error messages and debugging
+ */
+export interface GatewayRequestDetails {
+  url: string;
+  publisherId?: string;
+  sql?: string;
+  hasPayment?: boolean;
+}
+
+/**
+ * Base class of every gateway failure
+ */
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: GatewayErrorKind,
+    public readonly status: number,
+    public readonly retryable = false,
+    /** Earliest time a retry may succeed, when the gateway or circuit breaker knows it */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+    Object.setPrototypeOf(this, GatewayError.prototype);
+  }
+
+  toInfo(): GatewayErrorInfo {
+    return { kind: this.kind, status: this.status, retryable: this.retryable };
+  }
+}
+
+/**
+ * Non-2xx gateway response
+ * Client errors keep their status; server errors answer 502 since the failure is upstream of this server.
+ */
+export class GatewayHttpError extends GatewayError {
+  constructor(
+    message: string,
+    /** Status the gateway responded with */
+    public readonly statusCode: number,
+    public readonly details: GatewayResponseDetails = {},
+    kind: GatewayErrorKind = 'gateway_http',
+    status: number = statusCode >= 500 ? 502 : statusCode
+  ) {
+    super(message, kind, status, isRetryableStatus(statusCode, details.body), details.retryAfterMs);
+    this.name = 'GatewayHttpError';
+    Object.setPrototypeOf(this, GatewayHttpError.prototype);
+  }
+}
+
+/**
+ * Gateway did not answer within the request timeout
+ */
+export class GatewayTimeoutError extends GatewayError {
+  constructor(
+    public readonly timeoutMs: number,
+    public readonly request?: GatewayRequestDetails
+  ) {
+    super(`Query request timed out after ${timeoutMs}ms`, 'gateway_timeout', 504, true);
+    this.name = 'GatewayTimeoutError';
+    Object.setPrototypeOf(this, GatewayTimeoutError.prototype);
+  }
+}
+
+/**
+ * Circuit breaker refused the call because the endpoint kept failing
+ * No request was sent; retryAfterMs is when the breaker lets a trial call through.
+ */
+export class CircuitOpenError extends GatewayError {
+  constructor(
+    public readonly endpoint: string,
+    retryAfterMs: number
+  ) {
+    super(
+      `Gateway endpoint ${endpoint} is unavailable after repeated failures. Retry in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      'circuit_open',
+      503,
+      true,
+      retryAfterMs
+    );
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Gateway refused or failed to settle a signed payment
+ */
+export class PaymentRejectedError extends GatewayError {
+  constructor(message: string) {
+    super(message, 'payment_rejected', 402);
+    this.name = 'PaymentRejectedError';
+    Object.setPrototypeOf(this, PaymentRejectedError.prototype);
+  }
+}
+
+/**
+ * Prepaid-credit publisher refused the call because the balance is too low
+ */
+export class InsufficientCreditBalanceError extends GatewayError {
+  constructor(
+    public readonly minimumRequired: string,
+    public readonly depositEndpoint: string
+  ) {
+    super(
+      `Insufficient credit balance. Minimum required: ${minimumRequired} USDC. Please deposit funds to continue.`,
+      'insufficient_credit',
+      402
+    );
+    this.name = 'InsufficientCreditBalanceError';
+    Object.setPrototypeOf(this, InsufficientCreditBalanceError.prototype);
+  }
+}
+
+/**
+ * Publisher is not in the gateway catalog
+ */
+export class PublisherNotFoundError extends GatewayHttpError {
+  constructor(
+    public readonly publisherId: string,
+    details: GatewayResponseDetails = {}
+  ) {
+    super(`Publisher not found: ${publisherId}`, 404, details, 'publisher_not_found', 404);
+    this.name = 'PublisherNotFoundError';
+    Object.setPrototypeOf(this, PublisherNotFoundError.prototype);
+  }
+}
+
+/**
+ * SQL refused before it ran, locally (only SELECT is allowed) or by the gateway
+ */
+export class InvalidSqlError extends GatewayHttpError {
+  constructor(
+    message: string,
+    details: GatewayResponseDetails = {}
+  ) {
+    super(message, 400, details, 'invalid_sql', 400);
+    this.name = 'InvalidSqlError';
+    Object.setPrototypeOf(this, InvalidSqlError.prototype);
+  }
+}
+
+/**
+ * Summarize an error for a tool or service result
+ * @returns undefined for errors that are not gateway errors
+ */
+export function getGatewayErrorInfo(error: unknown): GatewayErrorInfo | undefined {
+  return error instanceof GatewayError ? error.toInfo() : undefined;
+}
+
+/**
+ * Gateway error behind a failed payment outcome
+ * Refusals made locally before signing (budget, max_cost, requirement checks, user rejection) have none.
+ */
+export function gatewayErrorFromOutcome(outcome: FailedPaymentOutcome): GatewayError | undefined {
+  switch (outcome.status) {
+    case 'insufficient_credit':
+      return new InsufficientCreditBalanceError(outcome.minimumRequired, outcome.depositEndpoint);
+    case 'settlement_failed':
+      return new PaymentRejectedError(outcome.error);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * HTTP status a web route answers with for a failed result
+ */
+export function httpStatusFor(info: GatewayErrorInfo | undefined, fallback = 500): number {
+  return info?.status ?? fallback;
+}
+
+/**
+ * Failures that may clear up on retry: rate limiting, unavailable or timed-out upstreams,
+ * and 500s whose details report a timeout or dropped database connection
+ */
+function isRetryableStatus(statusCode: number, body: unknown): boolean {
+  if (statusCode === 429 || statusCode === 502 || statusCode === 503 || statusCode === 504) {
+    return true;
+  }
+  if (statusCode < 500 || statusCode >= 600) {
+    return false;
+  }
+  const details = (body as { details?: unknown } | undefined)?.details;
+  return typeof details === 'string' && (details.includes('timeout') || details.includes('Connection terminated'));
+}
@@ -0,0 +1,150 @@
+// ABOUTME: fetch-compatible x402 client for any payment-protected URL, not just the Seren gateway
+// ABOUTME: Runs the shared 402 -> sign -> retry flow with the same budget, validation and ledger safeguards
+
+import type { WalletProvider } from '../wallet/types.js';
+import { ensureWalletConnected, executeWithPayment } from '../payment/orchestrator.js';
+import type { FailedPaymentOutcome, PaymentContext, PaymentOutcome, QuoteOutcome, SendWithPayment } from '../payment/types.js';
+import type { PaymentPayload } from './types.js';
+import {
+  PAYMENT_REQUIRED_HEADER,
+  decodePaymentRequired,
+  decodeSettlementResponse,
+  encodePaymentHeader,
+  readPaymentResponseHeader,
+} from './x402.js';
+
+/**
+ * fetch options plus the payment controls of the paid tools
+ */
+export interface X402RequestInit extends RequestInit {
+  /** Stop at the 402 and return the quote instead of paying */
+  dryRun?: boolean;
+  /** Refuse to pay when the quote exceeds this amount (atomic units) */
+  maxCost?: string;
+}
+
+/**
+ * Error thrown when the paid retry of a request fails, so the payment may not have been settled
+ */
+export class X402FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(message);
+    this.name = 'X402FetchError';
+    Object.setPrototypeOf(this, X402FetchError.prototype);
+  }
+}
+
+/**
+ * Error thrown by X402Fetch.fetch when a 402 was not paid (budget, validation, rejection, dry run, ...)
+ */
+export class X402PaymentError extends Error {
+  constructor(public readonly outcome: FailedPaymentOutcome | QuoteOutcome) {
+    super(outcome.status === 'quote' ? `Payment of ${outcome.quote.price} required` : outcome.error);
+    this.name = 'X402PaymentError';
+    Object.setPrototypeOf(this, X402PaymentError.prototype);
+  }
+}
+
+/**
+ * Pays x402-protected URLs with the configured wallet
+ * Prepaid-credit top-ups and self-settlement only apply to the Seren gateway and are not used here.
+ */
+export class X402Fetch {
+  private readonly payment: PaymentContext;
+
+  /**
+   * @param payment - Budget, ledger, requirement policy and other safeguards shared with the paid tools
+   * @param fetchImpl - fetch implementation (defaults to the global fetch)
+   */
+  constructor(
+    private readonly wallet: WalletProvider,
+    payment: PaymentContext = {},
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    const { autoTopUp: _autoTopUp, selfSettlement: _selfSettlement, ...safeguards } = payment;
+    this.payment = safeguards;
+  }
+
+  /**
+   * Fetch a URL like fetch(), paying a 402 response once
+   * Non-402 responses are returned as they are, whatever their status.
+   * @throws X402PaymentError when a required payment was not made
+   * @throws X402FetchError when the paid retry fails
+   */
+  async fetch(input: string | URL, init: X402RequestInit = {}): Promise<Response> {
+    const outcome = await this.fetchWithPayment(input, init);
+    if (outcome.status === 'free' || outcome.status === 'paid') {
+      return outcome.data as Response;
+    }
+    throw new X402PaymentError(outcome);
+  }
+
+  /**
+   * Fetch a URL and return the typed payment outcome instead of throwing for unpaid 402s
+   * @throws X402FetchError when the paid retry fails
+   */
+  async fetchWithPayment(input: string | URL, init: X402RequestInit = {}): Promise<PaymentOutcome<Response>> {
+    const url = parseHttpUrl(input);
+    const { dryRun, maxCost, ...requestInit } = init;
+    if (requestInit.body instanceof ReadableStream) {
+      throw new Error('Streaming request bodies cannot be resent after a 402; pass a string, buffer or form instead');
+    }
+
+    const agentWallet = await ensureWalletConnected(this.wallet);
+    const send: SendWithPayment<Response> = (paymentPayload) => this.send(url, requestInit, paymentPayload);
+
+    return executeWithPayment(send, {
+      ...this.payment,
+      wallet: this.wallet,
+      agentWallet,
+      dryRun,
+      maxCost,
+      request: `${(requestInit.method ?? 'GET').toUpperCase()} ${url.href}`,
+      decodePaymentResponse: decodeSettlementResponse,
+    });
+  }
+
+  private async send(url: URL, init: RequestInit, paymentPayload?: PaymentPayload) {
+    const headers = new Headers(init.headers);
+    if (paymentPayload) {
+      const paymentHeader = encodePaymentHeader(paymentPayload);
+      headers.set(paymentHeader.name, paymentHeader.value);
+    }
+
+    const response = await this.fetchImpl(url, { ...init, headers });
+
+    if (response.status === 402) {
+      const body = await response.json().catch(() => undefined);
+      return { status: 402, paymentRequired: decodePaymentRequired(body, response.headers.get(PAYMENT_REQUIRED_HEADER)) };
+    }
+
+    // A failed paid retry must reach the ledger as failed rather than settled
+    if (paymentPayload && !response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new X402FetchError(`Paid request to ${url.href} failed: HTTP ${response.status}`, response.status, body);
+    }
+
+    return { status: response.status, data: response, paymentResponse: readPaymentResponseHeader(response.headers) };
+  }
+}
+
+/**
+ * Parse an http(s) URL
+ * @throws Error for other protocols or malformed URLs
+ */
+function parseHttpUrl(input: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new Error(`Invalid URL: ${String(input)}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  return url;
+}
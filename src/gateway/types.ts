@@ -21,6 +21,8 @@ export interface PaymentRequirement {
       chainId: number;
       verifyingContract: string;
     };
+    /** How the asset is moved: transferWithAuthorization (default), receiveWithAuthorization or permit */
+    assetTransferMethod?: string;
     [key: string]: unknown;
   };
 }
@@ -35,16 +37,40 @@ export interface PaymentPayload {
   x402Version: number;
   scheme: string;
   network: string;
-  payload: {
-    signature: string;
-    authorization: {
-      from: string;
-      to: string;
-      value: string;
-      validAfter: string;
-      validBefore: string;
-      nonce: string;
-    };
+  payload: AuthorizationPayload | PermitPayload;
+  /** Requirement being paid; echoed back to v2 gateways, never sent to v1 */
+  accepted?: PaymentRequirement;
+}
+
+/**
+ * Signed EIP-3009 authorization (transferWithAuthorization or receiveWithAuthorization)
+ */
+export interface AuthorizationPayload {
+  signature: string;
+  /** Omitted for transferWithAuthorization */
+  assetTransferMethod?: 'transferWithAuthorization' | 'receiveWithAuthorization';
+  authorization: {
+    from: string;
+    to: string;
+    value: string;
+    validAfter: string;
+    validBefore: string;
+    nonce: string;
+  };
+}
+
+/**
+ * Signed EIP-2612 permit letting payTo pull the amount with transferFrom
+ */
+export interface PermitPayload {
+  signature: string;
+  assetTransferMethod: 'permit';
+  permit: {
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    deadline: string;
   };
 }
 
@@ -0,0 +1,242 @@
+// ABOUTME: Versioned x402 codec for 402 bodies, payment headers and settlement responses
+// ABOUTME: Negotiates the protocol version and maps v1 (X-PAYMENT) and v2 (PAYMENT-SIGNATURE) wire formats
+
+import type { PaymentPayload, PaymentRequirement, PaymentRequirementsResponse } from './types.js';
+
+export type X402Version = 1 | 2;
+
+/** Protocol versions this client can pay, oldest first */
+export const SUPPORTED_X402_VERSIONS: readonly X402Version[] = [1, 2];
+
+/**
+ * HTTP headers used by a protocol version
+ */
+export interface X402HeaderNames {
+  /** Request header carrying the signed payment */
+  payment: string;
+  /** Response header carrying the settlement result */
+  paymentResponse: string;
+}
+
+export const X402_HEADERS: Record<X402Version, X402HeaderNames> = {
+  1: { payment: 'X-PAYMENT', paymentResponse: 'X-PAYMENT-RESPONSE' },
+  2: { payment: 'PAYMENT-SIGNATURE', paymentResponse: 'PAYMENT-RESPONSE' },
+};
+
+/** v2 response header carrying the 402 requirements as base64 JSON */
+export const PAYMENT_REQUIRED_HEADER = 'PAYMENT-REQUIRED';
+
+/**
+ * Settlement result returned in the payment response header
+ */
+export interface SettlementResponse {
+  success: boolean;
+  /** Settlement transaction hash; empty when nothing was settled */
+  transaction: string;
+  network: string;
+  /** Address that paid */
+  payer?: string;
+  /** Why settlement failed */
+  errorReason?: string;
+}
+
+/**
+ * A payment header ready to attach to a request
+ */
+export interface PaymentHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Error thrown when a gateway speaks an x402 version or format we cannot handle
+ */
+export class X402ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'X402ProtocolError';
+    Object.setPrototypeOf(this, X402ProtocolError.prototype);
+  }
+}
+
+/**
+ * v2 requirement: amount replaces maxAmountRequired and resource details move to the 402 body
+ */
+interface V2Requirement {
+  scheme: string;
+  network: string;
+  amount: string;
+  asset: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  extra?: PaymentRequirement['extra'];
+}
+
+/**
+ * Pick the protocol version to pay with from a 402 body (x402Version, defaulting to 1)
+ * @throws X402ProtocolError when the gateway requires a version this client does not support
+ */
+export function negotiateVersion(paymentRequired?: { x402Version?: number }): X402Version {
+  const version = paymentRequired?.x402Version ?? 1;
+  if (!SUPPORTED_X402_VERSIONS.includes(version as X402Version)) {
+    throw new X402ProtocolError(
+      `Gateway requires x402 version ${version}; this client supports ${SUPPORTED_X402_VERSIONS.join(', ')}`
+    );
+  }
+  return version as X402Version;
+}
+
+/**
+ * Read a 402 response into v1-shaped requirements
+ * v2 gateways may send the requirements in the PAYMENT-REQUIRED header instead of the body.
+ * Bodies of unsupported versions are returned unchanged so negotiateVersion can reject them.
+ */
+export function decodePaymentRequired(
+  body: unknown,
+  header?: string | null
+): PaymentRequirementsResponse {
+  const source = (header ? decodeBase64Json(header, 'PAYMENT-REQUIRED header') : body) as
+    | (PaymentRequirementsResponse & { resource?: { url?: string; description?: string; mimeType?: string } })
+    | undefined;
+
+  if (!source || typeof source !== 'object') {
+    return { x402Version: 1, accepts: [] };
+  }
+  if (source.x402Version !== 2) {
+    return source;
+  }
+
+  const { resource, ...rest } = source;
+  const accepts = (source.accepts ?? []) as unknown as Array<V2Requirement & Partial<PaymentRequirement>>;
+  return {
+    ...rest,
+    accepts: accepts.map((requirement) => fromV2Requirement(requirement, resource)),
+  };
+}
+
+/**
+ * Encode a signed payload as the payment header of its protocol version
+ */
+export function encodePaymentHeader(paymentPayload: PaymentPayload): PaymentHeader {
+  const version = negotiateVersion(paymentPayload);
+
+  if (version === 1) {
+    const { accepted: _accepted, ...v1Payload } = paymentPayload;
+    return { name: X402_HEADERS[1].payment, value: encodeBase64Json(v1Payload) };
+  }
+
+  const accepted = paymentPayload.accepted ?? { scheme: paymentPayload.scheme, network: paymentPayload.network };
+  return {
+    name: X402_HEADERS[2].payment,
+    value: encodeBase64Json({
+      x402Version: 2,
+      accepted: 'maxAmountRequired' in accepted ? toV2Requirement(accepted) : accepted,
+      payload: paymentPayload.payload,
+    }),
+  };
+}
+
+/**
+ * Decode a payment header of any supported version into a PaymentPayload
+ * @throws X402ProtocolError when the header is not base64 JSON
+ */
+export function decodePaymentHeader(value: string): PaymentPayload {
+  return normalizePaymentPayload(decodeBase64Json(value, 'payment header'));
+}
+
+/**
+ * Map a decoded v2 payload ({ accepted, payload }) to a PaymentPayload; v1 payloads are returned unchanged
+ */
+export function normalizePaymentPayload(decoded: unknown): PaymentPayload {
+  const wire = decoded as PaymentPayload & { accepted?: V2Requirement & Partial<PaymentRequirement> };
+  if (wire?.x402Version !== 2 || !wire.accepted) {
+    return wire;
+  }
+
+  const accepted = fromV2Requirement(wire.accepted);
+  return {
+    x402Version: 2,
+    scheme: accepted.scheme,
+    network: accepted.network,
+    payload: wire.payload,
+    accepted,
+  };
+}
+
+/**
+ * Find the payment response header of any supported version
+ */
+export function readPaymentResponseHeader(headers: Pick<Headers, 'get'>): string | undefined {
+  for (const version of [...SUPPORTED_X402_VERSIONS].reverse()) {
+    const value = headers.get(X402_HEADERS[version].paymentResponse);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode a payment response header into a settlement response
+ * Older gateways send only txHash or transaction, which count as a successful settlement.
+ * @throws X402ProtocolError when the header is not base64 JSON
+ */
+export function decodeSettlementResponse(encoded: string): SettlementResponse {
+  const decoded = decodeBase64Json(encoded, 'payment response header') as Record<string, unknown> | null;
+  const field = (key: string) => (typeof decoded?.[key] === 'string' ? (decoded[key] as string) : undefined);
+
+  const transaction = field('transaction') ?? field('txHash') ?? '';
+  return {
+    success: typeof decoded?.success === 'boolean' ? decoded.success : transaction !== '',
+    transaction,
+    network: field('network') ?? '',
+    ...(field('payer') && { payer: field('payer') }),
+    ...(field('errorReason') && { errorReason: field('errorReason') }),
+  };
+}
+
+/**
+ * Encode a settlement response for the payment response header
+ */
+export function encodeSettlementResponse(response: SettlementResponse): string {
+  return encodeBase64Json(response);
+}
+
+function fromV2Requirement(
+  requirement: V2Requirement & Partial<PaymentRequirement>,
+  resource?: { url?: string; description?: string; mimeType?: string }
+): PaymentRequirement {
+  const { amount, ...rest } = requirement;
+  return {
+    resource: resource?.url ?? '',
+    description: resource?.description ?? '',
+    mimeType: resource?.mimeType ?? 'application/json',
+    outputSchema: null,
+    ...rest,
+    maxAmountRequired: requirement.maxAmountRequired ?? amount,
+  };
+}
+
+function toV2Requirement(requirement: PaymentRequirement): V2Requirement {
+  return {
+    scheme: requirement.scheme,
+    network: requirement.network,
+    amount: requirement.maxAmountRequired,
+    asset: requirement.asset,
+    payTo: requirement.payTo,
+    maxTimeoutSeconds: requirement.maxTimeoutSeconds,
+    ...(requirement.extra && { extra: requirement.extra }),
+  };
+}
+
+function encodeBase64Json(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+function decodeBase64Json(value: string, label: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(value, 'base64').toString('utf8'));
+  } catch {
+    throw new X402ProtocolError(`Invalid ${label}: expected base64-encoded JSON`);
+  }
+}
@@ -6,18 +6,40 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import { config } from './config/index.js';
+import { getNetwork } from './config/networks.js';
 import { payForQuery } from './tools/payForQuery.js';
+import { fetchX402Url } from './tools/fetchX402Url.js';
 import { queryDatabase } from './tools/queryDatabase.js';
 import { listPublishers } from './tools/listPublishers.js';
 import { getPublisherDetails } from './tools/getPublisherDetails.js';
 import { getPublisherPricingDetails } from './tools/getPublisherPricingDetails.js';
 import { checkCreditBalance } from './tools/checkCreditBalance.js';
-import { depositCredits } from './tools/depositCredits.js';
+import { checkWalletBalance } from './tools/checkWalletBalance.js';
+import { depositContext, depositCredits } from './tools/depositCredits.js';
 import { confirmDeposit } from './tools/confirmDeposit.js';
 import { GatewayClient } from './gateway/client.js';
-import { PrivateKeyWalletProvider } from './wallet/privatekey.js';
+import { HardwareWalletProvider } from './wallet/hardware.js';
+import { WalletConnectProvider } from './wallet/walletconnect.js';
+import { createLocalWalletFromConfig } from './wallet/local.js';
+import { WalletBalanceReader } from './wallet/balance.js';
+import { loadWalletProfiles } from './wallet/profiles.js';
 import type { WalletProvider } from './wallet/types.js';
+import { WalletNotConnectedError } from './wallet/types.js';
 import { SerenService } from './services/serenService.js';
+import { createSpendingLimiterFromConfig } from './payment/budget.js';
+import { PaymentLedger } from './payment/ledger.js';
+import { createAutoTopUpFromConfig } from './payment/topup.js';
+import { createSelfSettlementFromConfig } from './payment/settlement.js';
+import type { PaymentContext } from './payment/types.js';
+import { listPayments } from './tools/listPayments.js';
+import { listAuthorizations } from './tools/listAuthorizations.js';
+import { inspectPayment } from './tools/inspectPayment.js';
+import { cancelAuthorization } from './tools/cancelAuthorization.js';
+import { NonceRegistry } from './payment/nonces.js';
+import { DirectRelay } from './relay/direct.js';
+import { listWallets } from './tools/listWallets.js';
+import { connectWallet } from './tools/connectWallet.js';
+import { toolErrorFor } from './tools/errors.js';
 
 const server = new McpServer(
   {
@@ -34,30 +56,118 @@ const server = new McpServer(
 // Initialize gateway client (singleton)
 const gatewayClient = new GatewayClient();
 
+// Spending limits, payment ledger and balance checks shared by every paid tool
+const paymentLedger = new PaymentLedger(config.PAYMENT_LEDGER_PATH);
+// On-chain balance reader for check_wallet_balance and pre-flight checks
+const balanceReader = new WalletBalanceReader();
+
+// Signed authorizations for list_authorizations and cancel_authorization
+const nonceRegistry = new NonceRegistry();
+// Pays gas for cancel_authorization with RELAY_PRIVATE_KEY
+const cancellationRelay = new DirectRelay({
+  rpcUrl: nonceRegistry.network.rpcUrl,
+  chainId: nonceRegistry.network.chainId,
+  privateKey: config.RELAY_PRIVATE_KEY,
+});
+
+const paymentContext: PaymentContext = {
+  budget: createSpendingLimiterFromConfig(),
+  ledger: paymentLedger,
+  autoTopUp: createAutoTopUpFromConfig(),
+  balanceReader,
+  selfSettlement: createSelfSettlementFromConfig(
+    (agentWallet, txHash, amount) => gatewayClient.confirmDeposit(agentWallet, txHash, amount)
+  ),
+  nonceRegistry,
+};
+
+// Local signing wallet from WALLET_KEYSTORE_PATH or WALLET_PRIVATE_KEY
+const localWallet = createLocalWalletFromConfig();
+
+// Hardware and WalletConnect wallets sign on a device; every other wallet type signs with localWallet
+const signsLocally = config.WALLET_TYPE !== 'hardware' && config.WALLET_TYPE !== 'walletconnect';
+
 // Initialize shared service for SQL queries (used by both MCP tools and Web API)
-const serenService = process.env.WALLET_PRIVATE_KEY && config.X402_GATEWAY_URL
-  ? new SerenService(process.env.WALLET_PRIVATE_KEY, config.X402_GATEWAY_URL)
+// It always signs with localWallet, so it is only built when that is the selected wallet
+const serenService = signsLocally && localWallet && config.X402_GATEWAY_URL
+  ? new SerenService(localWallet, config.X402_GATEWAY_URL, paymentContext)
   : null;
 
 // Wallet provider will be initialized on first use
 let walletProvider: WalletProvider | null = null;
 
+// WalletConnect client shared by paid tools and connect_wallet
+let walletConnectProvider: WalletConnectProvider | null = null;
+
+async function getWalletConnectProvider(): Promise<WalletConnectProvider> {
+  if (!walletConnectProvider) {
+    const provider = new WalletConnectProvider({
+      chainId: getNetwork().chainId,
+      storagePath: config.WALLETCONNECT_STORAGE_PATH,
+    });
+    await provider.init(config.WALLETCONNECT_PROJECT_ID);
+    walletConnectProvider = provider;
+  }
+  return walletConnectProvider;
+}
+
 async function getWalletProvider(): Promise<WalletProvider> {
   if (walletProvider) {
     return walletProvider;
   }
 
-  // For now, only support private key wallet
-  // WalletConnect integration will require additional setup
-  const privateKey = process.env.WALLET_PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error('WALLET_PRIVATE_KEY environment variable required');
+  if (config.WALLET_TYPE === 'walletconnect') {
+    // Not cached: the session can be deleted from the wallet side at any time
+    const provider = await getWalletConnectProvider();
+    if (!provider.restoreSession() && !provider.hasPendingPairing()) {
+      throw new WalletNotConnectedError('No WalletConnect session. Call connect_wallet to pair a mobile wallet.');
+    }
+    return provider;
+  }
+
+  if (config.WALLET_TYPE === 'hardware') {
+    const provider = new HardwareWalletProvider({ derivationPath: config.HARDWARE_WALLET_PATH });
+    await provider.connect();
+    walletProvider = provider;
+    return provider;
+  }
+
+  // Other wallet types (signsLocally) use a local keystore or private key
+  if (!localWallet) {
+    throw new Error('WALLET_KEYSTORE_PATH or WALLET_PRIVATE_KEY environment variable required');
   }
 
-  const provider = new PrivateKeyWalletProvider();
-  await provider.connect(privateKey);
-  walletProvider = provider;
-  return provider;
+  await localWallet.connect();
+  walletProvider = localWallet;
+  return localWallet;
+}
+
+// Named wallet profiles; without a profiles file the single configured wallet is used
+const walletProfiles = loadWalletProfiles(config.WALLET_PROFILES_PATH);
+
+const walletArg = z.string().optional().describe('Wallet profile to use (defaults to the routing rules, then the default profile)');
+
+/**
+ * Pick the wallet for a tool call from its `wallet` argument and the publisher routing rules
+ */
+async function resolveWallet(target: {
+  wallet?: string;
+  publisherId?: string;
+}): Promise<{ wallet: WalletProvider; walletProfile?: string }> {
+  if (!walletProfiles) {
+    if (target.wallet) {
+      throw new Error(`Wallet profile "${target.wallet}" requested but no profiles file found at ${config.WALLET_PROFILES_PATH}`);
+    }
+    return { wallet: await getWalletProvider() };
+  }
+
+  // Category routes need the publisher's categories from the gateway
+  const categories = !target.wallet && target.publisherId && walletProfiles.hasCategoryRoutes()
+    ? (await gatewayClient.getPublisher(target.publisherId)).categories
+    : undefined;
+
+  const walletProfile = walletProfiles.resolve({ ...target, categories });
+  return { wallet: await walletProfiles.getWallet(walletProfile), walletProfile };
 }
 
 // Register pay_for_query tool
@@ -73,12 +183,93 @@ server.registerTool(
         body: z.any().optional().describe('Request body for POST/PUT'),
         headers: z.record(z.string()).optional().describe('Additional headers'),
       }),
+      dry_run: z.boolean().optional().describe('Return the price quote (amount, asset, network, payTo, timeout) without paying'),
+      max_cost: z.string().optional().describe('Refuse to pay if the quoted price exceeds this USDC amount (e.g., "0.10")'),
+      wallet: walletArg,
+    }),
+  },
+  async (args) => {
+    try {
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet, publisherId: args.publisher_id });
+      const result = await payForQuery(args, wallet, gatewayClient, { ...paymentContext, walletProfile });
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                data: result.data,
+                cost: result.cost,
+                txHash: result.txHash,
+                walletProfile,
+                dryRun: result.dryRun,
+                quote: result.quote,
+                topUp: result.topUp,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                budgetExceeded: result.budgetExceeded,
+                quote: result.quote,
+                selfSettlement: result.selfSettlement,
+                topUp: result.topUp,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register fetch_x402_url tool
+server.registerTool(
+  'fetch_x402_url',
+  {
+    description: 'Fetch any x402-protected URL (not just the Seren gateway). Pays a 402 response once with the configured wallet, applying the same budget, payTo allowlist and requirement checks as pay_for_query, and returns the response.',
+    inputSchema: z.object({
+      url: z.string().describe('http(s) URL to fetch'),
+      method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional().describe('HTTP method (defaults to GET)'),
+      headers: z.record(z.string()).optional().describe('Request headers'),
+      body: z.any().optional().describe('Request body; non-string values are sent as JSON'),
+      dry_run: z.boolean().optional().describe('Return the price quote (amount, asset, network, payTo, timeout) without paying'),
+      max_cost: z.string().optional().describe('Refuse to pay if the quoted price exceeds this USDC amount (e.g., "0.10")'),
+      wallet: walletArg,
     }),
   },
   async (args) => {
     try {
-      const wallet = await getWalletProvider();
-      const result = await payForQuery(args, wallet, gatewayClient);
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
+      const result = await fetchX402Url(args, wallet, { ...paymentContext, walletProfile });
 
       if (result.success) {
         return {
@@ -87,9 +278,15 @@ server.registerTool(
               type: 'text' as const,
               text: JSON.stringify({
                 success: true,
+                status: result.status,
                 data: result.data,
+                truncated: result.truncated,
                 cost: result.cost,
                 txHash: result.txHash,
+                settlement: result.settlement,
+                walletProfile,
+                dryRun: result.dryRun,
+                quote: result.quote,
               }, null, 2),
             },
           ],
@@ -101,7 +298,16 @@ server.registerTool(
               type: 'text' as const,
               text: JSON.stringify({
                 success: false,
+                status: result.status,
                 error: result.error,
+                data: result.data,
+                cost: result.cost,
+                txHash: result.txHash,
+                budgetExceeded: result.budgetExceeded,
+                quote: result.quote,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -116,6 +322,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -133,15 +340,21 @@ server.registerTool(
     inputSchema: z.object({
       publisher_id: z.string().describe('UUID of the database publisher'),
       sql: z.string().describe('SQL SELECT query to execute'),
+      dry_run: z.boolean().optional().describe('Return the price quote (amount, asset, network, payTo, timeout) without paying'),
+      max_cost: z.string().optional().describe('Refuse to pay if the quoted price exceeds this USDC amount (e.g., "0.10")'),
+      wallet: walletArg,
     }),
   },
   async (args) => {
     try {
       // Use shared service if available, otherwise fall back to original implementation
-      if (serenService) {
+      // The shared service signs with the single local wallet, so profiles and an explicit wallet skip it
+      if (serenService && !walletProfiles && !args.wallet) {
         const result = await serenService.executeQuery({
           sql: args.sql,
           providerId: args.publisher_id,
+          dryRun: args.dry_run,
+          maxCost: args.max_cost,
         });
 
         if (result.success) {
@@ -157,6 +370,9 @@ server.registerTool(
                   actualCost: result.actualCost,
                   executionTime: result.executionTime,
                   txHash: result.txHash,
+                  dryRun: result.dryRun,
+                  quote: result.quote,
+                  topUp: result.topUp,
                 }, null, 2),
               },
             ],
@@ -169,6 +385,14 @@ server.registerTool(
                 text: JSON.stringify({
                   success: false,
                   error: result.error,
+                  budgetExceeded: result.budgetExceeded,
+                  quote: result.quote,
+                  selfSettlement: result.selfSettlement,
+                  topUp: result.topUp,
+                  gatewayError: result.gatewayError,
+                  code: result.code,
+                  retryable: result.retryable,
+                  nextTool: result.nextTool,
                 }, null, 2),
               },
             ],
@@ -178,8 +402,8 @@ server.registerTool(
       }
 
       // Fallback to original implementation
-      const wallet = await getWalletProvider();
-      const result = await queryDatabase(args, wallet, gatewayClient);
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet, publisherId: args.publisher_id });
+      const result = await queryDatabase(args, wallet, gatewayClient, { ...paymentContext, walletProfile });
 
       if (result.success) {
         return {
@@ -194,6 +418,10 @@ server.registerTool(
                 actualCost: result.actualCost,
                 executionTime: result.executionTime,
                 txHash: result.txHash,
+                walletProfile,
+                dryRun: result.dryRun,
+                quote: result.quote,
+                topUp: result.topUp,
               }, null, 2),
             },
           ],
@@ -206,6 +434,14 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                budgetExceeded: result.budgetExceeded,
+                quote: result.quote,
+                selfSettlement: result.selfSettlement,
+                topUp: result.topUp,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -220,6 +456,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -264,6 +501,10 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -278,6 +519,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -320,6 +562,10 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -334,6 +580,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -376,6 +623,10 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -390,6 +641,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -404,11 +656,13 @@ server.registerTool(
   'check_credit_balance',
   {
     description: 'Check your prepaid credit balance. Returns current balance, reserved amount, and available funds.',
-    inputSchema: z.object({}),
+    inputSchema: z.object({
+      wallet: walletArg,
+    }),
   },
-  async () => {
+  async (args) => {
     try {
-      const wallet = await getWalletProvider();
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
       const result = await checkCreditBalance(wallet, gatewayClient);
 
       if (result.success) {
@@ -419,6 +673,7 @@ server.registerTool(
               text: JSON.stringify({
                 success: true,
                 wallet: result.wallet,
+                walletProfile,
                 balance: result.balance,
                 reserved: result.reserved,
                 available: result.available,
@@ -434,6 +689,10 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -448,6 +707,75 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register check_wallet_balance tool
+server.registerTool(
+  'check_wallet_balance',
+  {
+    description: 'Check the on-chain USDC and ETH balances of your wallet on Base, optionally with recent USDC transfers. Use this before paying to confirm the wallet can cover a query.',
+    inputSchema: z.object({
+      include_transfers: z.boolean().optional().describe('Also list recent USDC transfers into and out of the wallet'),
+      wallet: walletArg,
+    }),
+  },
+  async (args) => {
+    try {
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
+      const result = await checkWalletBalance(args, wallet, balanceReader);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                wallet: result.wallet,
+                walletProfile,
+                network: result.network,
+                usdc: result.usdc,
+                eth: result.eth,
+                usdcContract: result.usdcContract,
+                recentTransfers: result.recentTransfers,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -461,15 +789,16 @@ server.registerTool(
 server.registerTool(
   'deposit_credits',
   {
-    description: 'Deposit USDC to your prepaid credit balance via x402 payment flow. Signs and submits the payment automatically.',
+    description: 'Deposit USDC to your prepaid credit balance via x402 payment flow. Signs and submits the payment automatically. Deposits count against the per-call and daily spending limits.',
     inputSchema: z.object({
       amount: z.string().describe('Amount of USDC to deposit (e.g., "10.00")'),
+      wallet: walletArg,
     }),
   },
   async (args) => {
     try {
-      const wallet = await getWalletProvider();
-      const result = await depositCredits(args, wallet, gatewayClient);
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
+      const result = await depositCredits(args, wallet, gatewayClient, { ...depositContext(paymentContext), walletProfile });
 
       if (result.success) {
         return {
@@ -481,6 +810,7 @@ server.registerTool(
                 deposited: result.deposited,
                 balance: result.balance,
                 txHash: result.txHash,
+                walletProfile,
               }, null, 2),
             },
           ],
@@ -493,6 +823,11 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                budgetExceeded: result.budgetExceeded,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -507,6 +842,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -524,11 +860,12 @@ server.registerTool(
     inputSchema: z.object({
       txHash: z.string().describe('The transaction hash of your USDC transfer (0x followed by 64 hex characters)'),
       amount: z.string().describe('Amount of USDC deposited (e.g., "10.00")'),
+      wallet: walletArg,
     }),
   },
   async (args) => {
     try {
-      const wallet = await getWalletProvider();
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
       const result = await confirmDeposit(args, wallet, gatewayClient);
 
       if (result.success) {
@@ -539,6 +876,7 @@ server.registerTool(
               text: JSON.stringify({
                 success: true,
                 wallet: result.wallet,
+                walletProfile,
                 balance: result.balance,
                 reserved: result.reserved,
                 available: result.available,
@@ -554,6 +892,398 @@ server.registerTool(
               text: JSON.stringify({
                 success: false,
                 error: result.error,
+                gatewayError: result.gatewayError,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_payments tool
+server.registerTool(
+  'list_payments',
+  {
+    description: 'List payments signed by this server from the local payment ledger. Filter by date range, publisher, or settlement status.',
+    inputSchema: z.object({
+      from: z.string().optional().describe('Start date, inclusive (ISO 8601, e.g., "2025-01-01")'),
+      to: z.string().optional().describe('End date, inclusive (ISO 8601, e.g., "2025-01-31")'),
+      publisher_id: z.string().optional().describe('Only payments to this publisher'),
+      wallet: z.string().optional().describe('Only payments signed by this wallet profile'),
+      status: z.enum(['pending', 'settled', 'failed']).optional().describe('Settlement status'),
+      limit: z.number().int().positive().max(1000).optional().describe('Maximum number of payments (defaults to 100)'),
+    }),
+  },
+  async (args) => {
+    try {
+      const result = await listPayments(args, paymentLedger);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                payments: result.payments,
+                count: result.count,
+                totalSettled: result.totalSettled,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register inspect_payment tool
+server.registerTool(
+  'inspect_payment',
+  {
+    description: 'Audit a payment payload before or after signing: recovers the EIP-712 signer, checks it matches the payer (authorization.from or permit.owner), and summarizes exactly what is authorized (amount, recipient, validity window).',
+    inputSchema: z.object({
+      payment: z.string().describe('Payment payload as JSON, or the base64 X-PAYMENT / PAYMENT-SIGNATURE header value'),
+      eip712_name: z.string().optional().describe('EIP-712 domain name the payload was signed under (defaults to "USD Coin")'),
+      eip712_version: z.string().optional().describe('EIP-712 domain version (defaults to "2")'),
+    }),
+  },
+  async (args) => {
+    try {
+      const result = await inspectPayment(args);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                ...result.inspection,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_authorizations tool
+server.registerTool(
+  'list_authorizations',
+  {
+    description: 'List payment authorizations signed since the server started, with their on-chain state from USDC authorizationState: unused (can still be settled or canceled), used, canceled, or expired.',
+    inputSchema: z.object({
+      status: z.enum(['unused', 'used', 'canceled', 'expired']).optional().describe('Only authorizations in this state'),
+    }),
+  },
+  async (args) => {
+    try {
+      const result = await listAuthorizations(args, nonceRegistry);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                authorizations: result.authorizations,
+                count: result.count,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register cancel_authorization tool
+server.registerTool(
+  'cancel_authorization',
+  {
+    description: 'Cancel an unused payment authorization on-chain (USDC cancelAuthorization) so it can no longer be settled. Use after aborting a paid request; the paying wallet signs the cancellation and RELAY_PRIVATE_KEY pays gas.',
+    inputSchema: z.object({
+      nonce: z.string().describe('Authorization nonce (from list_authorizations or list_payments)'),
+      wallet: walletArg,
+    }),
+  },
+  async (args) => {
+    try {
+      const { wallet, walletProfile } = await resolveWallet({ wallet: args.wallet });
+      const result = await cancelAuthorization(args, wallet, nonceRegistry, cancellationRelay);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                nonce: result.nonce,
+                txHash: result.txHash,
+                confirmed: result.confirmed,
+                walletProfile,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_wallets tool
+server.registerTool(
+  'list_wallets',
+  {
+    description: 'List configured wallet profiles with each address, prepaid credit balance and settled payment total. Profiles are defined in the wallet profiles file (WALLET_PROFILES_PATH).',
+    inputSchema: z.object({}),
+  },
+  async () => {
+    try {
+      if (!walletProfiles) {
+        throw new Error(`No wallet profiles file found at ${config.WALLET_PROFILES_PATH}`);
+      }
+
+      const result = await listWallets(walletProfiles, gatewayClient, paymentLedger);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                wallets: result.wallets,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register connect_wallet tool
+server.registerTool(
+  'connect_wallet',
+  {
+    description: 'Pair a mobile wallet via WalletConnect (requires WALLET_TYPE=walletconnect). Returns a pairing URI and terminal QR code to show the user; call again with wait_for_approval to wait until the wallet approves. Sessions persist across restarts.',
+    inputSchema: z.object({
+      wait_for_approval: z.boolean().optional().describe('Wait until the wallet approves the pending pairing'),
+      timeout_seconds: z.number().int().positive().max(600).optional().describe('How long to wait for approval (defaults to 120)'),
+    }),
+  },
+  async (args) => {
+    try {
+      if (config.WALLET_TYPE !== 'walletconnect') {
+        throw new Error('connect_wallet requires WALLET_TYPE=walletconnect');
+      }
+
+      const provider = await getWalletConnectProvider();
+      const result = await connectWallet(args, provider);
+
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: true,
+                status: result.status,
+                address: result.address,
+                pairingUri: result.pairingUri,
+                qrCode: result.qrCode,
+              }, null, 2),
+            },
+          ],
+        };
+      } else {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                status: result.status,
+                pairingUri: result.pairingUri,
+                error: result.error,
+                code: result.code,
+                retryable: result.retryable,
+                nextTool: result.nextTool,
               }, null, 2),
             },
           ],
@@ -568,6 +1298,7 @@ server.registerTool(
             text: JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : 'Unknown error',
+              ...toolErrorFor(error),
             }, null, 2),
           },
         ],
@@ -0,0 +1,142 @@
+// ABOUTME: Seed publishers for the mock x402 gateway
+// ABOUTME: Mirrors the catalog entries the scripts and e2e suite use, with canned upstream responses
+
+import type { Publisher, PublisherPricingConfig } from '../gateway/types.js';
+
+/**
+ * Upstream request forwarded through /api/proxy
+ */
+export interface MockUpstreamRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A publisher served by the mock gateway
+ */
+export interface MockPublisher {
+  publisher: Publisher;
+  /** Price per proxied call or per query, in atomic USDC */
+  price: string;
+  /** x402 (pay every call, default) or credits (charged to the prepaid balance) */
+  billing?: 'x402' | 'credits';
+  pricing?: PublisherPricingConfig;
+  /** Upstream response for API publishers (defaults to an echo of the request) */
+  respond?: (request: MockUpstreamRequest) => unknown;
+  /** Rows returned for a SQL query on database publishers (defaults to no rows) */
+  query?: (sql: string) => unknown[];
+}
+
+export const SPORTS_ODDS_PUBLISHER_ID = 'ffa2f05f-7481-4534-b47b-cf67501df20c';
+export const SEC_FILINGS_PUBLISHER_ID = '4d4f0175-7fed-411e-8ad5-c206b9824e28';
+export const TREASURY_PUBLISHER_ID = '9b1c3f4e-2d6a-4e8b-9f0c-5a7d1e3b2c40';
+
+const ARSENAL_EVENT = {
+  id: 'epl-2026-ars-che',
+  league: 'Premier League',
+  home_team: 'Arsenal',
+  away_team: 'Chelsea',
+  commence_time: '2026-10-24T16:30:00Z',
+};
+
+const ARSENAL_ODDS = {
+  eventId: ARSENAL_EVENT.id,
+  league: 'Premier League',
+  home_team: 'Arsenal',
+  away_team: 'Chelsea',
+  bookmakers: [{ key: 'mockbet', markets: [{ key: 'h2h', outcomes: [{ name: 'Arsenal', price: 1.85 }, { name: 'Chelsea', price: 4.2 }, { name: 'Draw', price: 3.6 }] }] }],
+};
+
+function sportsOdds(request: MockUpstreamRequest): unknown {
+  const path = request.path.split('?')[0];
+  if (path === '/sports') {
+    return [{ key: 'soccer', title: 'Soccer' }, { key: 'basketball', title: 'Basketball' }];
+  }
+  if (path === '/sports/soccer/events') {
+    return [ARSENAL_EVENT];
+  }
+  if (path === '/sports/soccer/odds' || path === `/sports/soccer/events/${ARSENAL_EVENT.id}/odds`) {
+    return [ARSENAL_ODDS];
+  }
+  return [];
+}
+
+function secFilings(sql: string): unknown[] {
+  if (/information_schema/i.test(sql)) {
+    return [
+      { table_name: 'filing', column_name: 'filing_date', data_type: 'date' },
+      { table_name: 'filing', column_name: 'filing_type', data_type: 'text' },
+    ];
+  }
+  if (/count\s*\(/i.test(sql)) {
+    return [{ filing_date_count: 7412 }];
+  }
+  return [
+    { accession_number: '0000320193-26-000012', company: 'Apple Inc.', filing_type: '10-Q', filing_date: '2026-08-01' },
+    { accession_number: '0000789019-26-000034', company: 'Microsoft Corp.', filing_type: '10-K', filing_date: '2026-07-30' },
+  ];
+}
+
+function treasuryDebt(): unknown {
+  return {
+    data: [
+      { record_date: '2026-10-16', tot_pub_debt_out_amt: '37912345678901.23' },
+      { record_date: '2026-10-15', tot_pub_debt_out_amt: '37901234567890.12' },
+    ],
+    meta: { count: 2 },
+  };
+}
+
+/**
+ * Publishers every mock gateway starts with unless others are given
+ */
+export const DEFAULT_MOCK_PUBLISHERS: MockPublisher[] = [
+  {
+    publisher: {
+      id: SPORTS_ODDS_PUBLISHER_ID,
+      name: 'Sports Odds',
+      resourceDescription: 'Live odds and fixtures for major sports leagues',
+      publisherType: 'api',
+      pricePerCall: '0.01',
+      categories: ['sports'],
+      upstreamApiUrl: 'https://odds.mock',
+    },
+    price: '10000',
+    respond: sportsOdds,
+  },
+  {
+    publisher: {
+      id: SEC_FILINGS_PUBLISHER_ID,
+      name: 'SEC Filings Intelligence',
+      resourceDescription: 'SEC EDGAR filings with filing dates and form types',
+      publisherType: 'database',
+      categories: ['finance'],
+    },
+    price: '50000',
+    pricing: {
+      id: 'pricing-sec-filings',
+      providerId: SEC_FILINGS_PUBLISHER_ID,
+      basePricePer1000Rows: 0.05,
+      markupMultiplier: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    },
+    query: secFilings,
+  },
+  {
+    publisher: {
+      id: TREASURY_PUBLISHER_ID,
+      name: 'Treasury Debt to the Penny',
+      resourceDescription: 'Daily total public debt outstanding (prepaid credits)',
+      publisherType: 'api',
+      pricePerCall: '0.02',
+      categories: ['finance', 'government'],
+      upstreamApiUrl: 'https://treasury.mock',
+    },
+    price: '20000',
+    billing: 'credits',
+    respond: treasuryDebt,
+  },
+];
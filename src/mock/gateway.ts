@@ -0,0 +1,425 @@
+// ABOUTME: In-memory mock of the x402 gateway for offline development and end-to-end tests
+// ABOUTME: Serves catalog, proxy, query and credit routes, returns 402 requirements and verifies EIP-712 payments
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import express, { type Request, type Response } from 'express';
+import { keccak256 } from 'viem';
+import type {
+  CreditBalance,
+  InsufficientCreditError,
+  PaymentPayload,
+  PaymentRequirement,
+  PaymentRequirementsResponse,
+  QueryResult,
+} from '../gateway/types.js';
+import {
+  X402_HEADERS,
+  X402ProtocolError,
+  decodePaymentHeader,
+  encodeSettlementResponse,
+  type X402Version,
+} from '../gateway/x402.js';
+import { buildRequirementDomain } from '../payment/orchestrator.js';
+import { verifyPaymentSignature } from '../signing/inspect.js';
+import { getPaymentTerms } from '../signing/schemes.js';
+import { getNetwork, matchesNetwork, type NetworkConfig } from '../config/networks.js';
+import { atomicToDecimal, decimalToAtomic, isDecimalAmount } from '../utils/usdc.js';
+import { DEFAULT_MOCK_PUBLISHERS, type MockPublisher, type MockUpstreamRequest } from './fixtures.js';
+
+/** Gateway wallet payments are made to, unless configured otherwise */
+export const MOCK_GATEWAY_WALLET = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/** Bearer token accepted by PATCH /api/publishers/update, unless configured otherwise */
+export const MOCK_API_KEY = 'mock-api-key';
+
+export interface MockGatewayOptions {
+  /** Catalog served by the gateway (defaults to DEFAULT_MOCK_PUBLISHERS) */
+  publishers?: MockPublisher[];
+  /** Gateway wallet used as payTo */
+  payTo?: `0x${string}`;
+  /** Network requirements are issued on (defaults to NETWORK) */
+  network?: NetworkConfig;
+  apiKey?: string;
+  /** Clock used to check authorization windows (ms) */
+  now?: () => number;
+}
+
+/**
+ * A payment the mock gateway accepted
+ */
+export interface MockSettlement {
+  payer: string;
+  /** Atomic USDC */
+  amount: string;
+  /** Fake transaction hash derived from the signature */
+  transaction: `0x${string}`;
+  resource: string;
+  nonce: string;
+}
+
+type VerifiedPayment =
+  | { valid: true; payer: string; settlement: MockSettlement; version: X402Version }
+  | { valid: false; error: string };
+
+/**
+ * Mock x402 gateway: nothing is settled on-chain, but every signature is verified as a real gateway would
+ * Credits are an in-memory ledger; confirm-deposit trusts the transaction hash it is given.
+ */
+export class MockGateway {
+  readonly app: express.Express;
+  /** Payments accepted so far, oldest first */
+  readonly settlements: MockSettlement[] = [];
+
+  private readonly publishers: Map<string, MockPublisher>;
+  private readonly payTo: `0x${string}`;
+  private readonly network: NetworkConfig;
+  private readonly apiKey: string;
+  private readonly now: () => number;
+  private readonly credits = new Map<string, bigint>();
+  private readonly usedNonces = new Set<string>();
+  private readonly confirmedDeposits = new Set<string>();
+  private server?: Server;
+
+  constructor(options: MockGatewayOptions = {}) {
+    this.publishers = new Map(
+      (options.publishers ?? DEFAULT_MOCK_PUBLISHERS).map((entry) => [entry.publisher.id, entry])
+    );
+    this.payTo = options.payTo ?? MOCK_GATEWAY_WALLET;
+    this.network = options.network ?? getNetwork();
+    this.apiKey = options.apiKey ?? MOCK_API_KEY;
+    this.now = options.now ?? Date.now;
+    this.app = this.createApp();
+  }
+
+  /**
+   * Listen on the given port (0 picks a free one) and return the gateway URL
+   */
+  async start(port = 0): Promise<string> {
+    const server = createServer(this.app);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Prepaid credit balance of a wallet in atomic USDC
+   */
+  getCredits(agentWallet: string): bigint {
+    return this.credits.get(agentWallet.toLowerCase()) ?? 0n;
+  }
+
+  /**
+   * Add (or, with a negative amount, remove) prepaid credits
+   */
+  addCredits(agentWallet: string, amount: bigint): CreditBalance {
+    this.credits.set(agentWallet.toLowerCase(), this.getCredits(agentWallet) + amount);
+    return this.creditBalance(agentWallet);
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    app.get(['/api/catalog', '/api/publishers'], (req, res) => {
+      const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+      const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+      const publishers = [...this.publishers.values()]
+        .map((entry) => entry.publisher)
+        .filter((publisher) => !category || publisher.categories?.includes(category))
+        .filter((publisher) => !type || publisher.publisherType === type || publisher.publisherType === 'both');
+      res.json({ publishers });
+    });
+
+    app.get('/api/catalog/:id', (req, res) => {
+      const entry = this.publishers.get(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: `Publisher not found: ${req.params.id}` });
+      }
+      res.json(entry.publisher);
+    });
+
+    app.get('/api/publishers/:id/pricing', (req, res) => {
+      const pricing = this.publishers.get(req.params.id)?.pricing;
+      if (!pricing) {
+        return res.status(404).json({ error: `Pricing configuration not found for publisher: ${req.params.id}` });
+      }
+      res.json(pricing);
+    });
+
+    app.patch('/api/publishers/update', (req, res) => {
+      if (req.get('authorization') !== `Bearer ${this.apiKey}`) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+      if (typeof req.body?.connectionString !== 'string' || !req.body.connectionString) {
+        return res.status(400).json({ error: 'connectionString is required' });
+      }
+      res.json({ message: 'Connection string updated successfully' });
+    });
+
+    app.post('/api/proxy', async (req, res) => {
+      const { publisherId, agentWallet, request } = req.body ?? {};
+      const entry = this.publishers.get(publisherId);
+      if (!entry || entry.publisher.publisherType === 'database') {
+        return res.status(404).json({ error: `Publisher not found: ${publisherId}` });
+      }
+      if (typeof request?.path !== 'string') {
+        return res.status(400).json({ error: 'request.path is required' });
+      }
+
+      const upstream = request as MockUpstreamRequest;
+      const description = `${entry.publisher.name} ${upstream.method ?? 'GET'} ${upstream.path}`;
+      const respond = entry.respond ?? (() => ({ publisherId, ...upstream }));
+      await this.charge(req, res, entry, agentWallet, description, () => respond(upstream));
+    });
+
+    app.post('/api/query', async (req, res) => {
+      const { publisherId, agentWallet, sql } = req.body ?? {};
+      const entry = this.publishers.get(publisherId);
+      if (!entry || entry.publisher.publisherType === 'api') {
+        return res.status(404).json({ error: `Publisher not found: ${publisherId}` });
+      }
+      if (typeof sql !== 'string' || !/^\s*(select|with)\b/i.test(sql)) {
+        return res.status(400).json({ error: 'Only SELECT queries are allowed' });
+      }
+
+      const startedAt = this.now();
+      await this.charge(req, res, entry, agentWallet, `Query ${entry.publisher.name}`, (settlement): QueryResult => {
+        const rows = entry.query?.(sql) ?? [];
+        const cost = atomicToDecimal(entry.price);
+        return {
+          rows,
+          rowCount: rows.length,
+          estimatedCost: cost,
+          actualCost: cost,
+          executionTime: this.now() - startedAt,
+          ...(settlement && {
+            settlement: { payer: settlement.payer, transaction: settlement.transaction, network: this.network.name },
+          }),
+        };
+      });
+    });
+
+    app.get('/api/credits/:agentWallet', (req, res) => {
+      res.json(this.creditBalance(req.params.agentWallet));
+    });
+
+    app.post('/api/credits/deposit', async (req, res) => {
+      const amount = req.body?.amount;
+      if (typeof amount !== 'string' || !isDecimalAmount(amount) || BigInt(decimalToAtomic(amount)) === 0n) {
+        return res.status(400).json({ error: 'amount must be a positive decimal USDC amount' });
+      }
+
+      const requirement = this.requirement(req, decimalToAtomic(amount), `Deposit ${amount} USDC of prepaid credits`);
+      const payment = await this.verifyPayment(req, requirement);
+      if (!payment.valid) {
+        return this.paymentRequired(res, requirement, payment.error);
+      }
+
+      const balance = this.addCredits(payment.payer, BigInt(requirement.maxAmountRequired));
+      this.settle(res, payment);
+      res.json({
+        message: 'Deposit successful',
+        deposited: amount,
+        balance,
+        transaction: payment.settlement.transaction,
+      });
+    });
+
+    app.post('/api/credits/confirm-deposit', (req, res) => {
+      const { agentWallet, txHash, amount } = req.body ?? {};
+      if (typeof agentWallet !== 'string' || typeof txHash !== 'string' || typeof amount !== 'string' || !isDecimalAmount(amount)) {
+        return res.status(400).json({ error: 'agentWallet, txHash and a decimal amount are required' });
+      }
+      if (this.confirmedDeposits.has(txHash.toLowerCase())) {
+        return res.status(409).json({ error: `Deposit ${txHash} was already confirmed` });
+      }
+
+      this.confirmedDeposits.add(txHash.toLowerCase());
+      res.json(this.addCredits(agentWallet, BigInt(decimalToAtomic(amount))));
+    });
+
+    app.get('/health', (_req, res) => {
+      res.json({ status: 'ok', mock: true, network: this.network.name });
+    });
+
+    return app;
+  }
+
+  /**
+   * Charge a call to the publisher's billing and send its result
+   * x402 publishers need a valid payment header; credit publishers are debited from the prepaid balance.
+   */
+  private async charge(
+    req: Request,
+    res: Response,
+    entry: MockPublisher,
+    agentWallet: unknown,
+    description: string,
+    produce: (settlement?: MockSettlement) => unknown
+  ): Promise<void> {
+    if (entry.billing === 'credits') {
+      if (typeof agentWallet !== 'string') {
+        res.status(400).json({ error: 'agentWallet is required' });
+        return;
+      }
+      if (this.getCredits(agentWallet) < BigInt(entry.price)) {
+        const body: InsufficientCreditError = {
+          error: 'Insufficient credit balance',
+          minimumRequired: atomicToDecimal(entry.price),
+          depositEndpoint: '/api/credits/deposit',
+        };
+        res.status(402).json(body);
+        return;
+      }
+      this.addCredits(agentWallet, -BigInt(entry.price));
+      res.json(produce());
+      return;
+    }
+
+    const requirement = this.requirement(req, entry.price, description);
+    const payment = await this.verifyPayment(req, requirement);
+    if (!payment.valid) {
+      this.paymentRequired(res, requirement, payment.error);
+      return;
+    }
+    this.settle(res, payment);
+    res.json(produce(payment.settlement));
+  }
+
+  private requirement(req: Request, amount: string, description: string): PaymentRequirement {
+    return {
+      scheme: 'exact',
+      network: this.network.name,
+      maxAmountRequired: amount,
+      asset: this.network.usdc,
+      payTo: this.payTo,
+      resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      description,
+      mimeType: 'application/json',
+      outputSchema: null,
+      maxTimeoutSeconds: 300,
+      extra: {
+        paymentRequestId: randomUUID(),
+        estimatedCost: atomicToDecimal(amount),
+        name: 'USD Coin',
+        version: '2',
+      },
+    };
+  }
+
+  private paymentRequired(res: Response, requirement: PaymentRequirement, error: string): void {
+    const body: PaymentRequirementsResponse = { x402Version: 1, error, accepts: [requirement] };
+    res.status(402).json(body);
+  }
+
+  /**
+   * Verify the payment header of a request against the requirement it answers
+   * Checks scheme, network, recipient, amount, validity window, nonce reuse and the EIP-712 signature.
+   */
+  private async verifyPayment(req: Request, requirement: PaymentRequirement): Promise<VerifiedPayment> {
+    const v2Header = req.get(X402_HEADERS[2].payment);
+    const header = v2Header ?? req.get(X402_HEADERS[1].payment);
+    if (!header) {
+      return { valid: false, error: `${X402_HEADERS[1].payment} header is required` };
+    }
+
+    let paymentPayload: PaymentPayload;
+    try {
+      paymentPayload = decodePaymentHeader(header);
+    } catch (error) {
+      if (error instanceof X402ProtocolError) {
+        return { valid: false, error: error.message };
+      }
+      throw error;
+    }
+
+    if (paymentPayload.scheme !== requirement.scheme || !matchesNetwork(this.network, paymentPayload.network ?? '')) {
+      return { valid: false, error: `Payment must use scheme "${requirement.scheme}" on ${this.network.name}` };
+    }
+
+    let terms: ReturnType<typeof getPaymentTerms>;
+    try {
+      terms = getPaymentTerms(paymentPayload);
+    } catch {
+      return { valid: false, error: 'Malformed payment payload' };
+    }
+
+    if (terms.to.toLowerCase() !== requirement.payTo.toLowerCase()) {
+      return { valid: false, error: `Payment is to ${terms.to}, not the gateway wallet ${requirement.payTo}` };
+    }
+    if (terms.value < BigInt(requirement.maxAmountRequired)) {
+      return {
+        valid: false,
+        error: `Payment of ${atomicToDecimal(terms.value.toString())} USDC is less than the required ${atomicToDecimal(requirement.maxAmountRequired)} USDC`,
+      };
+    }
+
+    const nowSeconds = BigInt(Math.floor(this.now() / 1000));
+    if (nowSeconds < terms.validAfter) {
+      return { valid: false, error: 'Authorization is not valid yet' };
+    }
+    if (nowSeconds >= terms.validBefore) {
+      return { valid: false, error: 'Authorization has expired' };
+    }
+
+    const nonceKey = `${terms.from}:${terms.nonce}`.toLowerCase();
+    if (this.usedNonces.has(nonceKey)) {
+      return { valid: false, error: 'Authorization nonce has already been used' };
+    }
+
+    const verification = await verifyPaymentSignature(paymentPayload, buildRequirementDomain(requirement, this.network));
+    if (!verification.valid) {
+      return { valid: false, error: verification.error ?? 'Invalid signature' };
+    }
+
+    this.usedNonces.add(nonceKey);
+    return {
+      valid: true,
+      payer: terms.from,
+      version: v2Header ? 2 : 1,
+      settlement: {
+        payer: terms.from,
+        amount: terms.value.toString(),
+        transaction: keccak256(paymentPayload.payload.signature as `0x${string}`),
+        resource: requirement.resource,
+        nonce: terms.nonce,
+      },
+    };
+  }
+
+  /**
+   * Record an accepted payment and attach the settlement response header
+   */
+  private settle(res: Response, payment: Extract<VerifiedPayment, { valid: true }>): void {
+    this.settlements.push(payment.settlement);
+    res.set(
+      X402_HEADERS[payment.version].paymentResponse,
+      encodeSettlementResponse({
+        success: true,
+        transaction: payment.settlement.transaction,
+        network: this.network.name,
+        payer: payment.payer,
+      })
+    );
+  }
+
+  private creditBalance(agentWallet: string): CreditBalance {
+    const balance = atomicToDecimal(this.getCredits(agentWallet).toString());
+    return { agentWallet, balance, reserved: '0', available: balance };
+  }
+}
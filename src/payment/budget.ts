@@ -0,0 +1,177 @@
+// ABOUTME: Spending limits enforced before any payment authorization is signed
+// ABOUTME: Tracks per-call, rolling daily and per-publisher budgets in memory
+
+import { config } from '../config/index.js';
+import { decimalToAtomic, formatUsdc } from '../utils/usdc.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BudgetLimitType = 'per_call' | 'daily' | 'per_publisher';
+
+/**
+ * Spending limits in atomic USDC units (6 decimals). Unset limits are not enforced.
+ */
+export interface SpendingLimits {
+  perCall?: bigint;
+  daily?: bigint;
+  perPublisher?: bigint;
+}
+
+/**
+ * Structured details of a rejected spend, suitable for tool and API responses
+ */
+export interface BudgetExceededDetails {
+  limit: BudgetLimitType;
+  /** Configured limit (human-readable USDC) */
+  max: string;
+  /** Amount the gateway asked for (human-readable USDC) */
+  requested: string;
+  /** Amount still available under the limit (human-readable USDC) */
+  remaining: string;
+  publisherId?: string;
+}
+
+/**
+ * Error thrown when a payment would exceed a configured spending limit
+ */
+export class BudgetExceededError extends Error {
+  readonly details: BudgetExceededDetails;
+
+  constructor(details: BudgetExceededDetails) {
+    super(describeLimit(details));
+    this.name = 'BudgetExceededError';
+    this.details = details;
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
+/**
+ * A recorded spend that can be released if it was never used
+ */
+export interface SpendReservation {
+  amount: bigint;
+  publisherId?: string;
+  timestamp: number;
+}
+
+/**
+ * Enforces spending limits for the lifetime of the process.
+ * Reservations are counted as soon as an authorization is about to be signed,
+ * because a signed authorization can be settled even if the paid request fails.
+ */
+export class SpendingLimiter {
+  private readonly limits: SpendingLimits;
+  private readonly now: () => number;
+  private spends: SpendReservation[] = [];
+
+  constructor(limits: SpendingLimits = {}, options: { now?: () => number } = {}) {
+    this.limits = limits;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check an amount against every limit and reserve it
+   * @param amount - Atomic USDC amount (PaymentRequirement.maxAmountRequired)
+   * @param publisherId - Publisher the payment is for, when known
+   * @throws BudgetExceededError if any limit would be exceeded
+   */
+  reserve(amount: string | bigint, publisherId?: string): SpendReservation {
+    const value = BigInt(amount);
+    const { perCall, daily, perPublisher } = this.limits;
+
+    if (perCall !== undefined && value > perCall) {
+      throw this.exceeded('per_call', perCall, value, perCall, publisherId);
+    }
+
+    const recent = this.recentSpends();
+
+    if (daily !== undefined) {
+      const spent = sum(recent);
+      if (spent + value > daily) {
+        throw this.exceeded('daily', daily, value, daily - spent, publisherId);
+      }
+    }
+
+    if (perPublisher !== undefined && publisherId) {
+      const spent = sum(recent.filter((spend) => spend.publisherId === publisherId));
+      if (spent + value > perPublisher) {
+        throw this.exceeded('per_publisher', perPublisher, value, perPublisher - spent, publisherId);
+      }
+    }
+
+    const reservation: SpendReservation = { amount: value, publisherId, timestamp: this.now() };
+    this.spends.push(reservation);
+    return reservation;
+  }
+
+  /**
+   * Release a reservation whose authorization was never signed
+   */
+  release(reservation: SpendReservation): void {
+    this.spends = this.spends.filter((spend) => spend !== reservation);
+  }
+
+  /**
+   * Total spent within the rolling 24h window (atomic units)
+   */
+  getDailySpend(publisherId?: string): bigint {
+    const recent = this.recentSpends();
+    return sum(publisherId ? recent.filter((spend) => spend.publisherId === publisherId) : recent);
+  }
+
+  getLimits(): SpendingLimits {
+    return { ...this.limits };
+  }
+
+  private recentSpends(): SpendReservation[] {
+    const cutoff = this.now() - DAY_MS;
+    this.spends = this.spends.filter((spend) => spend.timestamp > cutoff);
+    return this.spends;
+  }
+
+  private exceeded(
+    limit: BudgetLimitType,
+    max: bigint,
+    requested: bigint,
+    remaining: bigint,
+    publisherId?: string
+  ): BudgetExceededError {
+    return new BudgetExceededError({
+      limit,
+      max: formatUsdc(max.toString()),
+      requested: formatUsdc(requested.toString()),
+      remaining: formatUsdc((remaining > 0n ? remaining : 0n).toString()),
+      publisherId,
+    });
+  }
+}
+
+/**
+ * Build a limiter from the MAX_*_USDC environment settings
+ */
+export function createSpendingLimiterFromConfig(): SpendingLimiter {
+  return new SpendingLimiter({
+    perCall: toAtomic(config.MAX_PAYMENT_PER_CALL_USDC),
+    daily: toAtomic(config.MAX_DAILY_SPEND_USDC),
+    perPublisher: toAtomic(config.MAX_PUBLISHER_DAILY_SPEND_USDC),
+  });
+}
+
+function toAtomic(amount: string | undefined): bigint | undefined {
+  return amount === undefined ? undefined : BigInt(decimalToAtomic(amount));
+}
+
+function sum(spends: SpendReservation[]): bigint {
+  return spends.reduce((total, spend) => total + spend.amount, 0n);
+}
+
+function describeLimit(details: BudgetExceededDetails): string {
+  switch (details.limit) {
+    case 'per_call':
+      return `Budget exceeded: payment of ${details.requested} is above the per-call limit of ${details.max}`;
+    case 'daily':
+      return `Budget exceeded: payment of ${details.requested} would exceed the daily limit of ${details.max} (${details.remaining} remaining)`;
+    case 'per_publisher':
+      return `Budget exceeded: payment of ${details.requested} would exceed the daily limit of ${details.max} for publisher ${details.publisherId} (${details.remaining} remaining)`;
+  }
+}
@@ -0,0 +1,320 @@
+// ABOUTME: Local payment ledger persisted to SQLite via better-sqlite3
+// ABOUTME: Records every signed authorization and its settlement outcome
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type { PaymentPayload } from '../gateway/types.js';
+import { getPaymentTerms } from '../signing/schemes.js';
+
+export type PaymentStatus = 'pending' | 'settled' | 'failed';
+
+/**
+ * Details of a signed authorization at the moment it is recorded
+ */
+export interface NewPaymentRecord {
+  paymentPayload: PaymentPayload;
+  /** Token contract the authorization is for */
+  asset?: string;
+  publisherId?: string;
+  /** SQL text or "METHOD /path" of the paid request */
+  request?: string;
+  /** Wallet profile that signed the authorization */
+  wallet?: string;
+}
+
+/**
+ * A ledger row as returned to tools and web routes
+ */
+export interface PaymentRecord {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  status: PaymentStatus;
+  publisherId: string | null;
+  request: string | null;
+  wallet: string | null;
+  network: string;
+  scheme: string;
+  from: string;
+  payTo: string;
+  /** Atomic USDC units */
+  amount: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+  txHash: string | null;
+  error: string | null;
+}
+
+export interface PaymentFilters {
+  /** Inclusive lower bound (ISO 8601 date or timestamp) */
+  from?: string;
+  /** Inclusive upper bound (ISO 8601 date or timestamp) */
+  to?: string;
+  publisherId?: string;
+  wallet?: string;
+  status?: PaymentStatus;
+  limit?: number;
+}
+
+interface PaymentRow {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  status: PaymentStatus;
+  publisher_id: string | null;
+  request: string | null;
+  wallet: string | null;
+  network: string;
+  scheme: string;
+  from_address: string;
+  pay_to: string;
+  amount: string;
+  valid_after: string;
+  valid_before: string;
+  nonce: string;
+  tx_hash: string | null;
+  error: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS payments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    publisher_id TEXT,
+    request TEXT,
+    wallet TEXT,
+    network TEXT NOT NULL,
+    scheme TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    pay_to TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    valid_after TEXT NOT NULL,
+    valid_before TEXT NOT NULL,
+    method TEXT,
+    asset TEXT,
+    nonce TEXT NOT NULL,
+    tx_hash TEXT,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS payments_created_at ON payments (created_at);
+  CREATE INDEX IF NOT EXISTS payments_publisher_id ON payments (publisher_id);
+`;
+
+// Columns added after the first release, applied to existing ledgers on open
+const MIGRATIONS: Array<{ column: string; definition: string }> = [
+  { column: 'wallet', definition: 'wallet TEXT' },
+  { column: 'method', definition: 'method TEXT' },
+  { column: 'asset', definition: 'asset TEXT' },
+];
+
+// EIP-3009 nonces are unique per payer and token. Permits are left out: a permit that was never
+// used does not advance nonces(owner) on-chain, so the next permit correctly signs the same nonce.
+const AUTHORIZATION_INDEX = `
+  CREATE UNIQUE INDEX IF NOT EXISTS payments_authorization ON payments (from_address, asset, method, nonce)
+    WHERE method IS NOT 'permit';
+`;
+
+/**
+ * SQLite-backed record of every payment authorization signed by this server
+ */
+export class PaymentLedger {
+  private db: Database.Database;
+
+  /**
+   * @param filePath - SQLite file path, or ':memory:' for an in-memory ledger
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrate();
+    this.db.exec(AUTHORIZATION_INDEX);
+  }
+
+  /**
+   * Record a freshly signed authorization as pending
+   * @returns Ledger row ID used to record the outcome
+   */
+  recordAuthorization(record: NewPaymentRecord): number {
+    const { paymentPayload } = record;
+    const terms = getPaymentTerms(paymentPayload);
+    const now = new Date().toISOString();
+
+    const result = this.db.prepare(`
+      INSERT INTO payments (
+        created_at, updated_at, status, publisher_id, request, wallet, network, scheme,
+        from_address, pay_to, amount, valid_after, valid_before, method, asset, nonce
+      ) VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      now,
+      now,
+      record.publisherId ?? null,
+      record.request ?? null,
+      record.wallet ?? null,
+      paymentPayload.network,
+      paymentPayload.scheme,
+      terms.from,
+      terms.to,
+      terms.value.toString(),
+      terms.validAfter.toString(),
+      terms.validBefore.toString(),
+      terms.method,
+      record.asset?.toLowerCase() ?? null,
+      terms.nonce
+    );
+
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Record the settlement outcome of a previously recorded authorization
+   */
+  recordOutcome(
+    id: number,
+    outcome: { status: Exclude<PaymentStatus, 'pending'>; txHash?: string; error?: string }
+  ): void {
+    this.db.prepare(`
+      UPDATE payments SET status = ?, tx_hash = COALESCE(?, tx_hash), error = ?, updated_at = ?
+      WHERE id = ?
+    `).run(outcome.status, outcome.txHash ?? null, outcome.error ?? null, new Date().toISOString(), id);
+  }
+
+  /**
+   * List payments, newest first
+   */
+  listPayments(filters: PaymentFilters = {}): PaymentRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(toIsoBound(filters.from, 'start'));
+    }
+    if (filters.to) {
+      conditions.push('created_at <= ?');
+      params.push(toIsoBound(filters.to, 'end'));
+    }
+    if (filters.publisherId) {
+      conditions.push('publisher_id = ?');
+      params.push(filters.publisherId);
+    }
+    if (filters.wallet) {
+      conditions.push('wallet = ?');
+      params.push(filters.wallet);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM payments ${where} ORDER BY created_at DESC, id DESC LIMIT ?
+    `).all(...params, filters.limit ?? 100) as PaymentRow[];
+
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Count and total (atomic USDC) of settled payments, optionally for one wallet profile
+   */
+  getSettledTotal(wallet?: string): { count: number; amount: string } {
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS count, COALESCE(SUM(CAST(amount AS INTEGER)), 0) AS amount
+      FROM payments WHERE status = 'settled' ${wallet ? 'AND wallet = ?' : ''}
+    `).get(...(wallet ? [wallet] : [])) as { count: number; amount: number };
+
+    return { count: row.count, amount: BigInt(row.amount).toString() };
+  }
+
+  /**
+   * Add columns missing from ledgers created by earlier versions,
+   * and drop nonce constraints that rejected permits sharing a sequential nonce
+   */
+  private migrate(): void {
+    const columns = new Set(this.columnNames());
+    for (const { column, definition } of MIGRATIONS) {
+      if (!columns.has(column)) {
+        this.db.exec(`ALTER TABLE payments ADD COLUMN ${definition}`);
+      }
+    }
+
+    const table = this.db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'payments'`)
+      .get() as { sql: string };
+    if (/nonce TEXT NOT NULL UNIQUE/.test(table.sql)) {
+      // SQLite cannot drop a column constraint, so copy the rows into a table created from SCHEMA
+      const copied = this.columnNames().join(', ');
+      this.db.transaction(() => {
+        this.db.exec(`
+          DROP INDEX IF EXISTS payments_created_at;
+          DROP INDEX IF EXISTS payments_publisher_id;
+          ALTER TABLE payments RENAME TO payments_unique_nonce;
+        `);
+        this.db.exec(SCHEMA);
+        this.db.exec(`
+          INSERT INTO payments (${copied}) SELECT ${copied} FROM payments_unique_nonce;
+          DROP TABLE payments_unique_nonce;
+        `);
+      })();
+    }
+
+    const index = this.db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = 'payments_authorization'`)
+      .get() as { sql: string } | undefined;
+    if (index && !/WHERE/.test(index.sql)) {
+      this.db.exec('DROP INDEX payments_authorization');
+    }
+  }
+
+  private columnNames(): string[] {
+    return (this.db.prepare('PRAGMA table_info(payments)').all() as Array<{ name: string }>).map((c) => c.name);
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Expand date-only bounds so that "2026-01-31" covers the whole day
+ */
+function toIsoBound(value: string, edge: 'start' | 'end'): string {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T${edge === 'start' ? '00:00:00.000' : '23:59:59.999'}Z`
+    : value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+function toRecord(row: PaymentRow): PaymentRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    status: row.status,
+    publisherId: row.publisher_id,
+    request: row.request,
+    wallet: row.wallet,
+    network: row.network,
+    scheme: row.scheme,
+    from: row.from_address,
+    payTo: row.pay_to,
+    amount: row.amount,
+    validAfter: row.valid_after,
+    validBefore: row.valid_before,
+    nonce: row.nonce,
+    txHash: row.tx_hash,
+    error: row.error,
+  };
+}
@@ -0,0 +1,231 @@
+// ABOUTME: Registry of issued EIP-3009 authorizations and their on-chain nonce state
+// ABOUTME: Tells used from expired authorizations via USDC authorizationState and cancels unused ones
+
+import { createPublicClient, http, parseAbi, type PublicClient } from 'viem';
+import { getNetwork, type NetworkConfig } from '../config/networks.js';
+import type { PaymentPayload } from '../gateway/types.js';
+import type { CancellationParams, TransactionResult } from '../relay/types.js';
+import type { Eip712Domain } from '../signing/eip712.js';
+import { isAuthorizationPayload } from '../signing/schemes.js';
+import type { WalletProvider } from '../wallet/types.js';
+import { formatUsdc } from '../utils/usdc.js';
+
+const AUTHORIZATION_STATE_ABI = parseAbi([
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+const PERMIT_NONCES_ABI = parseAbi([
+  'function nonces(address owner) view returns (uint256)',
+]);
+
+/**
+ * Where an issued authorization stands
+ * - unused: not yet settled and still inside its validity window, so it can still be settled or canceled
+ * - used: settled on-chain
+ * - canceled: canceled on-chain by this server
+ * - expired: never settled and past validBefore, so it can no longer move funds
+ */
+export type AuthorizationStatus = 'unused' | 'used' | 'canceled' | 'expired';
+
+/**
+ * An authorization signed by this server
+ */
+export interface IssuedAuthorization {
+  nonce: `0x${string}`;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  /** Atomic USDC units */
+  value: string;
+  /** Unix seconds */
+  validAfter: number;
+  /** Unix seconds */
+  validBefore: number;
+  network: string;
+  issuedAt: string;
+  /** Transaction that canceled the authorization, if this server canceled it */
+  cancelTxHash?: string;
+}
+
+/**
+ * Issued authorization with its current on-chain status
+ */
+export interface AuthorizationCheck extends IssuedAuthorization {
+  status: AuthorizationStatus;
+  /** Human-readable amount (e.g., "0.05 USDC") */
+  amount: string;
+  /** validBefore as an ISO 8601 timestamp */
+  expiresAt: string;
+}
+
+interface RegistryEntry extends IssuedAuthorization {
+  domain: Eip712Domain;
+}
+
+/**
+ * Submits signed cancelAuthorization calls (usually DirectRelay)
+ */
+export interface CancellationRelay {
+  submitCancellation(params: CancellationParams): Promise<TransactionResult>;
+}
+
+/**
+ * Remembers every authorization signed in this process and checks its nonce on-chain
+ */
+export class NonceRegistry {
+  readonly network: NetworkConfig;
+  private client?: PublicClient;
+  private readonly now: () => number;
+  private entries = new Map<string, RegistryEntry>();
+
+  /**
+   * @param network - Network whose USDC contract is queried (defaults to NETWORK with BASE_RPC_URL)
+   * @param options.client - Public client to use instead of one created from the network RPC URL
+   */
+  constructor(
+    network: NetworkConfig = getNetwork(),
+    options: { client?: PublicClient; now?: () => number } = {}
+  ) {
+    this.network = network;
+    this.client = options.client;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record a freshly signed authorization and the domain it was signed under
+   * Permits are skipped: their nonces are sequential and cannot be canceled with cancelAuthorization.
+   */
+  record(paymentPayload: PaymentPayload, domain: Eip712Domain): void {
+    if (!isAuthorizationPayload(paymentPayload.payload)) {
+      return;
+    }
+
+    const { authorization } = paymentPayload.payload;
+    this.entries.set(authorization.nonce.toLowerCase(), {
+      nonce: authorization.nonce as `0x${string}`,
+      from: authorization.from as `0x${string}`,
+      to: authorization.to as `0x${string}`,
+      value: authorization.value,
+      validAfter: Number(authorization.validAfter),
+      validBefore: Number(authorization.validBefore),
+      network: paymentPayload.network,
+      issuedAt: new Date(this.now()).toISOString(),
+      domain,
+    });
+  }
+
+  /**
+   * Issued authorizations, newest first
+   */
+  list(): IssuedAuthorization[] {
+    return [...this.entries.values()].reverse().map(toIssued);
+  }
+
+  /**
+   * Whether USDC has marked the nonce as used (settled or canceled)
+   */
+  async getAuthorizationState(authorizer: `0x${string}`, nonce: `0x${string}`): Promise<boolean> {
+    return this.getClient().readContract({
+      address: this.network.usdc,
+      abi: AUTHORIZATION_STATE_ABI,
+      functionName: 'authorizationState',
+      args: [authorizer, nonce],
+    });
+  }
+
+  /**
+   * Next EIP-2612 permit nonce of the owner (USDC nonces(owner))
+   */
+  async getPermitNonce(owner: `0x${string}`): Promise<bigint> {
+    return this.getClient().readContract({
+      address: this.network.usdc,
+      abi: PERMIT_NONCES_ABI,
+      functionName: 'nonces',
+      args: [owner],
+    });
+  }
+
+  /**
+   * Check one issued authorization against the chain
+   * @throws Error when the nonce was not issued by this server
+   */
+  async check(nonce: string): Promise<AuthorizationCheck> {
+    const entry = this.getEntry(nonce);
+    const consumed = await this.getAuthorizationState(entry.from, entry.nonce);
+
+    let status: AuthorizationStatus;
+    if (consumed) {
+      status = entry.cancelTxHash ? 'canceled' : 'used';
+    } else if (Math.floor(this.now() / 1000) >= entry.validBefore) {
+      status = 'expired';
+    } else {
+      status = 'unused';
+    }
+
+    return {
+      ...toIssued(entry),
+      status,
+      amount: formatUsdc(entry.value),
+      expiresAt: new Date(entry.validBefore * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Check every issued authorization, newest first
+   */
+  async checkAll(): Promise<AuthorizationCheck[]> {
+    return Promise.all(this.list().map((entry) => this.check(entry.nonce)));
+  }
+
+  /**
+   * Cancel an unused authorization so the gateway can no longer settle it
+   * @param wallet - Wallet that signed the authorization; signs the CancelAuthorization message
+   * @param relay - Broadcasts the cancellation and pays its gas
+   * @throws Error when the authorization is not unused or the wallet is not its signer
+   */
+  async cancel(
+    nonce: string,
+    wallet: WalletProvider,
+    relay: CancellationRelay
+  ): Promise<TransactionResult> {
+    const entry = this.getEntry(nonce);
+    const { status } = await this.check(entry.nonce);
+    if (status !== 'unused') {
+      throw new Error(`Authorization ${entry.nonce} is ${status} and cannot be canceled`);
+    }
+
+    const signer = await wallet.getAddress();
+    if (signer.toLowerCase() !== entry.from.toLowerCase()) {
+      throw new Error(`Authorization ${entry.nonce} was signed by ${entry.from}, not the connected wallet ${signer}`);
+    }
+
+    const signature = await wallet.signCancelAuthorization(entry.domain, {
+      authorizer: entry.from,
+      nonce: entry.nonce,
+    });
+    const result = await relay.submitCancellation({ authorizer: entry.from, nonce: entry.nonce, signature });
+    entry.cancelTxHash = result.txHash;
+    return result;
+  }
+
+  private getEntry(nonce: string): RegistryEntry {
+    const entry = this.entries.get(nonce.toLowerCase());
+    if (!entry) {
+      throw new Error(`No authorization with nonce ${nonce} was issued by this server`);
+    }
+    return entry;
+  }
+
+  private getClient(): PublicClient {
+    if (!this.client) {
+      this.client = createPublicClient({
+        chain: this.network.chain,
+        transport: http(this.network.rpcUrl),
+      }) as PublicClient;
+    }
+    return this.client;
+  }
+}
+
+function toIssued({ domain: _domain, ...issued }: RegistryEntry): IssuedAuthorization {
+  return issued;
+}
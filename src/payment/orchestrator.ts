@@ -0,0 +1,473 @@
+// ABOUTME: Shared x402 payment orchestrator used by every paid tool and web route
+// ABOUTME: Runs the 402 -> sign -> retry flow once and returns a typed outcome
+
+import type { WalletProvider } from '../wallet/types.js';
+import { UserRejectedError } from '../wallet/types.js';
+import type { PaymentPayload, PaymentRequirement } from '../gateway/types.js';
+import { isInsufficientCreditError } from '../gateway/types.js';
+import {
+  buildDomain,
+  buildAuthorizationMessage,
+  buildPermitMessage,
+  buildTypedData,
+  type Eip712Domain,
+} from '../signing/eip712.js';
+import { resolveTransferMethod } from '../signing/schemes.js';
+import {
+  negotiateVersion,
+  X402ProtocolError,
+  type SettlementResponse,
+  type X402Version,
+} from '../gateway/x402.js';
+import { formatUsdc } from '../utils/usdc.js';
+import { BudgetExceededError, type SpendReservation } from './budget.js';
+import type { PaymentLedger } from './ledger.js';
+import type {
+  InsufficientFundsOutcome,
+  PaymentContext,
+  PaymentOutcome,
+  PaymentQuote,
+  SendWithPayment,
+  SettlementFailedOutcome,
+} from './types.js';
+import type { SelfSettlementReport } from './settlement.js';
+import { NonceRegistry } from './nonces.js';
+import { getNetwork, type NetworkConfig } from '../config/networks.js';
+import { formatRejections, selectRequirement } from './selection.js';
+
+export interface PaymentFlowOptions<T> extends PaymentContext {
+  /** Wallet used to sign the EIP-712 authorization */
+  wallet: WalletProvider;
+  /** Address of the connected wallet (the authorization `from`) */
+  agentWallet: `0x${string}`;
+  /** Decodes the X-PAYMENT-RESPONSE / PAYMENT-RESPONSE header (usually GatewayClient.decodePaymentResponse) */
+  decodePaymentResponse?: (encoded: string) => SettlementResponse;
+  /** Reads a settlement transaction hash from the response body, if the endpoint returns one */
+  getSettlementTx?: (data: T) => string | undefined;
+  /** Publisher being paid, used for per-publisher limits and the ledger */
+  publisherId?: string;
+  /** Description of the paid request (SQL text or "METHOD /path") for the ledger */
+  request?: string;
+  /** Stop after the first gateway call and return the quote instead of paying */
+  dryRun?: boolean;
+  /** Refuse to pay when the quote exceeds this amount (atomic units) */
+  maxCost?: string;
+}
+
+/**
+ * Ensure the wallet is connected and return its address
+ */
+export async function ensureWalletConnected(wallet: WalletProvider): Promise<`0x${string}`> {
+  const connected = await wallet.isConnected();
+  if (!connected) {
+    await wallet.connect();
+  }
+  return wallet.getAddress();
+}
+
+/**
+ * Execute a request through the x402 payment flow
+ * Sends without payment first; on 402 signs the requirement and retries once.
+ * Gateway and transport errors are not caught and propagate to the caller.
+ */
+export async function executeWithPayment<T>(
+  send: SendWithPayment<T>,
+  options: PaymentFlowOptions<T>
+): Promise<PaymentOutcome<T>> {
+  const initialResult = await send();
+
+  // Not a 402: no payment needed
+  if (initialResult.status !== 402 || !initialResult.paymentRequired) {
+    return { status: 'free', data: initialResult.data };
+  }
+
+  // Prepaid credits publisher without enough balance - signing would not help
+  if (isInsufficientCreditError(initialResult.paymentRequired)) {
+    const creditError = initialResult.paymentRequired;
+    return {
+      status: 'insufficient_credit',
+      error: `Insufficient credit balance. Minimum required: ${creditError.minimumRequired} USDC. Please deposit funds to continue.`,
+      minimumRequired: creditError.minimumRequired,
+      depositEndpoint: creditError.depositEndpoint,
+    };
+  }
+
+  const accepts = initialResult.paymentRequired.accepts ?? [];
+  if (accepts.length === 0) {
+    return { status: 'no_payment_method', error: 'No payment method available' };
+  }
+
+  let x402Version: X402Version;
+  try {
+    x402Version = negotiateVersion(initialResult.paymentRequired);
+  } catch (error) {
+    if (error instanceof X402ProtocolError) {
+      return { status: 'no_payment_method', error: error.message };
+    }
+    throw error;
+  }
+
+  const network = options.network ?? getNetwork();
+  // Never sign for an unexpected token, recipient or validity window
+  const selection = selectRequirement(accepts, network, options.requirementPolicy, options.selectionStrategy);
+  const requirement = selection.requirement;
+  if (!requirement) {
+    return {
+      status: 'requirement_rejected',
+      error: formatRejections(selection.rejected),
+      rejected: selection.rejected,
+    };
+  }
+
+  const quote = toQuote(requirement);
+  if (options.dryRun) {
+    return { status: 'quote', quote };
+  }
+
+  if (options.maxCost !== undefined && BigInt(requirement.maxAmountRequired) > BigInt(options.maxCost)) {
+    return {
+      status: 'max_cost_exceeded',
+      error: `Quoted price ${quote.price} exceeds max_cost of ${formatUsdc(options.maxCost)}`,
+      quote,
+    };
+  }
+
+  const fundsError = await checkWalletFunds(requirement, options);
+  if (fundsError) {
+    return fundsError;
+  }
+
+  // Enforce spending limits before anything is signed
+  let reservation: SpendReservation | undefined;
+  try {
+    reservation = options.budget?.reserve(requirement.maxAmountRequired, options.publisherId);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return { status: 'budget_exceeded', error: error.message, budget: error.details };
+    }
+    throw error;
+  }
+
+  let paymentPayload: PaymentPayload;
+  try {
+    paymentPayload = await buildPaymentPayload(requirement, options.agentWallet, options.wallet, network, {
+      x402Version,
+      permitNonces: options.nonceRegistry,
+    });
+  } catch (error) {
+    // Nothing was signed, so the reserved amount was never spent
+    if (reservation) {
+      options.budget?.release(reservation);
+    }
+    if (error instanceof UserRejectedError) {
+      return { status: 'user_rejected', error: 'User rejected the payment request' };
+    }
+    throw error;
+  }
+
+  const ledgerId = recordAuthorization(paymentPayload, requirement, options);
+  options.nonceRegistry?.record(paymentPayload, buildRequirementDomain(requirement, network));
+
+  let paidResult: Awaited<ReturnType<SendWithPayment<T>>>;
+  try {
+    paidResult = await send(paymentPayload);
+  } catch (error) {
+    recordOutcome(ledgerId, options, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+
+  // Another 402 after sending payment means settlement failed
+  if (paidResult.status === 402) {
+    const error = (paidResult.paymentRequired as { error?: string } | undefined)?.error ?? 'Payment settlement failed';
+    return settlementFailed(error, requirement, paymentPayload, ledgerId, options);
+  }
+
+  const settlement = decodeSettlement(paidResult.paymentResponse, options);
+  const txHash = extractTxHash(paidResult.data, settlement, options);
+  recordOutcome(ledgerId, options, { status: 'settled', txHash });
+
+  return {
+    status: 'paid',
+    data: paidResult.data,
+    requirement,
+    paymentPayload,
+    cost: formatUsdc(requirement.maxAmountRequired),
+    txHash,
+    ...(settlement && { settlement }),
+  };
+}
+
+/**
+ * Handle a paid retry the gateway could not settle
+ * With self-settlement enabled the signed authorization is broadcast and credited instead of discarded.
+ */
+async function settlementFailed<T>(
+  gatewayError: string,
+  requirement: PaymentRequirement,
+  paymentPayload: PaymentPayload,
+  ledgerId: number | undefined,
+  options: PaymentFlowOptions<T>
+): Promise<SettlementFailedOutcome> {
+  if (!options.selfSettlement) {
+    recordOutcome(ledgerId, options, { status: 'failed', error: gatewayError });
+    return { status: 'settlement_failed', error: gatewayError, requirement, paymentPayload };
+  }
+
+  let selfSettlement: SelfSettlementReport;
+  try {
+    selfSettlement = await options.selfSettlement.settle(paymentPayload);
+  } catch (error) {
+    const message = `${gatewayError}. Self-settlement failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    recordOutcome(ledgerId, options, { status: 'failed', error: message });
+    return { status: 'settlement_failed', error: message, requirement, paymentPayload };
+  }
+
+  // The transfer is on-chain whether or not the gateway credited it
+  recordOutcome(ledgerId, options, { status: 'settled', txHash: selfSettlement.txHash });
+  const detail = selfSettlement.credited
+    ? `Settled ${selfSettlement.amount} on-chain in ${selfSettlement.txHash} and credited it to the prepaid balance; retry the request`
+    : `Settled ${selfSettlement.amount} on-chain in ${selfSettlement.txHash} but it was not credited: ${selfSettlement.error}`;
+  return {
+    status: 'settlement_failed',
+    error: `${gatewayError}. ${detail}`,
+    requirement,
+    paymentPayload,
+    selfSettlement,
+  };
+}
+
+/**
+ * Pre-flight check that the wallet holds enough USDC for the requirement
+ * An unreachable RPC skips the check rather than blocking the payment.
+ */
+async function checkWalletFunds<T>(
+  requirement: PaymentRequirement,
+  options: PaymentFlowOptions<T>
+): Promise<InsufficientFundsOutcome | null> {
+  if (!options.balanceReader) {
+    return null;
+  }
+
+  let balance: bigint;
+  try {
+    balance = await options.balanceReader.getUsdcBalance(options.agentWallet);
+  } catch (error) {
+    console.error('Skipping USDC balance check:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  if (balance >= BigInt(requirement.maxAmountRequired)) {
+    return null;
+  }
+  const available = formatUsdc(balance.toString());
+  const required = formatUsdc(requirement.maxAmountRequired);
+  return {
+    status: 'insufficient_funds',
+    error: `Insufficient USDC: wallet has ${available}, payment needs ${required}`,
+    balance: available,
+    required,
+  };
+}
+
+/**
+ * Write a signed authorization to the ledger
+ * Ledger failures are logged rather than thrown so bookkeeping never blocks a payment.
+ */
+function recordAuthorization<T>(
+  paymentPayload: PaymentPayload,
+  requirement: PaymentRequirement,
+  options: PaymentFlowOptions<T>
+): number | undefined {
+  if (!options.ledger) {
+    return undefined;
+  }
+  try {
+    return options.ledger.recordAuthorization({
+      paymentPayload,
+      asset: requirement.asset,
+      publisherId: options.publisherId,
+      request: options.request,
+      wallet: options.walletProfile,
+    });
+  } catch (error) {
+    console.error('Failed to record payment in ledger:', error);
+    return undefined;
+  }
+}
+
+function recordOutcome<T>(
+  ledgerId: number | undefined,
+  options: PaymentFlowOptions<T>,
+  outcome: Parameters<PaymentLedger['recordOutcome']>[1]
+): void {
+  if (!options.ledger || ledgerId === undefined) {
+    return;
+  }
+  try {
+    options.ledger.recordOutcome(ledgerId, outcome);
+  } catch (error) {
+    console.error('Failed to record payment outcome in ledger:', error);
+  }
+}
+
+/**
+ * Decode a payment requirement into a quote agents can show to the user
+ */
+export function toQuote(requirement: PaymentRequirement): PaymentQuote {
+  return {
+    price: formatUsdc(requirement.maxAmountRequired),
+    amount: requirement.maxAmountRequired,
+    estimatedCost: requirement.extra?.estimatedCost,
+    scheme: requirement.scheme,
+    network: requirement.network,
+    asset: requirement.asset,
+    payTo: requirement.payTo,
+    maxTimeoutSeconds: requirement.maxTimeoutSeconds,
+    resource: requirement.resource,
+    description: requirement.description,
+  };
+}
+
+/**
+ * Decode the X-PAYMENT-RESPONSE / PAYMENT-RESPONSE header
+ * The payment already went through, so an unreadable header only loses the receipt.
+ */
+function decodeSettlement<T>(
+  paymentResponse: string | undefined,
+  options: PaymentFlowOptions<T>
+): SettlementResponse | undefined {
+  if (!paymentResponse || !options.decodePaymentResponse) {
+    return undefined;
+  }
+  try {
+    return options.decodePaymentResponse(paymentResponse);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the settlement transaction hash from the body or the settlement response header
+ */
+function extractTxHash<T>(
+  data: T | undefined,
+  settlement: SettlementResponse | undefined,
+  options: PaymentFlowOptions<T>
+): string | undefined {
+  if (data !== undefined && options.getSettlementTx) {
+    const fromBody = options.getSettlementTx(data);
+    if (fromBody) {
+      return fromBody;
+    }
+  }
+
+  return settlement?.transaction || undefined;
+}
+
+/**
+ * EIP-712 domain a requirement is signed under (its extra.eip712, defaulting to the network's USDC)
+ */
+export function buildRequirementDomain(
+  requirement: PaymentRequirement,
+  network: NetworkConfig = getNetwork()
+): Eip712Domain {
+  const eip712Config = requirement.extra?.eip712;
+  return buildDomain({
+    chainId: eip712Config?.chainId ?? network.chainId,
+    verifyingContract: eip712Config?.verifyingContract ?? requirement.asset,
+    name: eip712Config?.name,
+    version: eip712Config?.version,
+  });
+}
+
+/**
+ * Build and sign a PaymentPayload for the given requirement
+ * The transfer method comes from requirement.scheme and extra.assetTransferMethod.
+ * @param options.x402Version - Protocol version negotiated from the 402 body (defaults to 1)
+ * @param options.permitNonces - Reads the owner's permit nonce for permit requirements (defaults to the network's USDC)
+ * @throws UnsupportedPaymentSchemeError when the scheme or transfer method cannot be signed
+ */
+export async function buildPaymentPayload(
+  requirement: PaymentRequirement,
+  fromAddress: `0x${string}`,
+  wallet: WalletProvider,
+  network: NetworkConfig = getNetwork(),
+  options: { x402Version?: X402Version; permitNonces?: Pick<NonceRegistry, 'getPermitNonce'> } = {}
+): Promise<PaymentPayload> {
+  const envelope = {
+    x402Version: options.x402Version ?? 1,
+    scheme: requirement.scheme,
+    network: requirement.network,
+    // v2 gateways expect the accepted requirement echoed back
+    ...(options.x402Version === 2 && { accepted: requirement }),
+  };
+  const method = resolveTransferMethod(requirement);
+  const domain = buildRequirementDomain(requirement, network);
+
+  // Calculate validity window
+  const now = Math.floor(Date.now() / 1000);
+  const validAfter = now - 60; // Valid from 1 minute ago
+  const validBefore = now + requirement.maxTimeoutSeconds;
+
+  if (method === 'permit') {
+    const nonce = await (options.permitNonces ?? new NonceRegistry(network)).getPermitNonce(fromAddress);
+    const message = buildPermitMessage({
+      owner: fromAddress,
+      spender: requirement.payTo,
+      value: requirement.maxAmountRequired,
+      nonce,
+      deadline: validBefore,
+    });
+    const signature = await wallet.signPermit(domain, message);
+
+    return {
+      ...envelope,
+      payload: {
+        signature,
+        assetTransferMethod: 'permit',
+        permit: {
+          owner: fromAddress,
+          spender: requirement.payTo,
+          value: requirement.maxAmountRequired,
+          nonce: nonce.toString(),
+          deadline: validBefore.toString(),
+        },
+      },
+    };
+  }
+
+  // Build authorization message
+  const message = buildAuthorizationMessage({
+    from: fromAddress,
+    to: requirement.payTo,
+    value: requirement.maxAmountRequired,
+    validAfter,
+    validBefore,
+  });
+
+  // Build typed data and sign
+  const typedData = buildTypedData(domain, message);
+  const signature = method === 'receiveWithAuthorization'
+    ? await wallet.signReceiveAuthorization(typedData.domain, typedData.message)
+    : await wallet.signTypedData(typedData.domain, typedData.message);
+
+  return {
+    ...envelope,
+    payload: {
+      signature,
+      // transferWithAuthorization payloads keep the original shape
+      ...(method === 'receiveWithAuthorization' && { assetTransferMethod: method }),
+      authorization: {
+        from: fromAddress,
+        to: requirement.payTo,
+        value: requirement.maxAmountRequired,
+        validAfter: validAfter.toString(),
+        validBefore: validBefore.toString(),
+        nonce: message.nonce,
+      },
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// ABOUTME: Chooses which of the gateway's offered payment requirements to pay
+// ABOUTME: Drops options we cannot pay (network, scheme, asset, payTo) and ranks the rest by price
+
+import { config } from '../config/index.js';
+import type { NetworkConfig } from '../config/networks.js';
+import type { PaymentRequirement } from '../gateway/types.js';
+import { validateRequirement, type RequirementPolicy } from './validator.js';
+
+/**
+ * cheapest: lowest maxAmountRequired wins, gateway order breaks ties
+ * gateway_order: first acceptable option in the order the gateway listed them
+ */
+export type SelectionStrategy = 'cheapest' | 'gateway_order';
+
+/**
+ * An offered requirement that failed validation
+ */
+export interface RejectedRequirement {
+  /** Position in the 402 `accepts` array */
+  index: number;
+  requirement: PaymentRequirement;
+  problems: string[];
+}
+
+export interface RequirementSelection {
+  /** Requirement to pay, or undefined when none is acceptable */
+  requirement?: PaymentRequirement;
+  rejected: RejectedRequirement[];
+}
+
+/**
+ * Pick the requirement to pay from a 402 `accepts` array
+ */
+export function selectRequirement(
+  accepts: PaymentRequirement[],
+  network: NetworkConfig,
+  policy?: RequirementPolicy,
+  strategy: SelectionStrategy = config.PAYMENT_SELECTION_STRATEGY
+): RequirementSelection {
+  const acceptable: PaymentRequirement[] = [];
+  const rejected: RejectedRequirement[] = [];
+
+  accepts.forEach((requirement, index) => {
+    const problems = validateRequirement(requirement, network, policy);
+    if (problems.length > 0) {
+      rejected.push({ index, requirement, problems });
+    } else {
+      acceptable.push(requirement);
+    }
+  });
+
+  if (strategy === 'cheapest') {
+    // Array.prototype.sort is stable, so equal prices keep gateway order
+    acceptable.sort((a, b) => {
+      const difference = BigInt(a.maxAmountRequired) - BigInt(b.maxAmountRequired);
+      return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+    });
+  }
+
+  return { requirement: acceptable[0], rejected };
+}
+
+/**
+ * Describe why every offered requirement was rejected
+ */
+export function formatRejections(rejected: RejectedRequirement[]): string {
+  if (rejected.length === 1) {
+    return `Payment requirement rejected: ${rejected[0].problems.join('; ')}`;
+  }
+
+  const options = rejected.map(({ index, requirement, problems }) =>
+    `option ${index + 1} (${requirement.scheme} on ${requirement.network}): ${problems.join('; ')}`
+  );
+  return `No acceptable payment requirement among ${rejected.length} options: ${options.join(' | ')}`;
+}
@@ -0,0 +1,126 @@
+// ABOUTME: Opt-in self-settlement when the gateway answers a paid retry with another 402
+// ABOUTME: Submits the signed authorization through the relay layer, then credits it with confirmDeposit
+
+import { config } from '../config/index.js';
+import { getNetwork, type NetworkConfig } from '../config/networks.js';
+import type { CreditBalance, PaymentPayload } from '../gateway/types.js';
+import { DirectRelay, PalomaRelay, RelayManager, type AuthorizationParams, type ManagedRelay, type RelayType } from '../relay/index.js';
+import { getPayloadTransferMethod, isAuthorizationPayload } from '../signing/schemes.js';
+import { atomicToDecimal, formatUsdc } from '../utils/usdc.js';
+
+/**
+ * Credits an on-chain transfer to the prepaid balance (usually GatewayClient.confirmDeposit)
+ */
+export type ConfirmDeposit = (agentWallet: string, txHash: string, amount: string) => Promise<CreditBalance>;
+
+/**
+ * Authorization settled by this server after the gateway failed to settle it
+ */
+export interface SelfSettlementReport {
+  txHash: string;
+  /** Relay that broadcast the transaction */
+  relay: RelayType;
+  /** Whether a receipt arrived before the relay stopped waiting */
+  confirmed: boolean;
+  /** Human-readable amount transferred (e.g., "0.05 USDC") */
+  amount: string;
+  /** Whether the gateway credited the transfer to the prepaid balance */
+  credited: boolean;
+  balance?: CreditBalance;
+  /** Why the transfer was not credited; call confirm_deposit with txHash to retry */
+  error?: string;
+}
+
+/**
+ * Convert a signed x402 payload into transferWithAuthorization parameters
+ * @throws Error for receiveWithAuthorization and permit payloads, which only payTo can submit
+ */
+export function toAuthorizationParams(paymentPayload: PaymentPayload): AuthorizationParams {
+  const method = getPayloadTransferMethod(paymentPayload);
+  if (method !== 'transferWithAuthorization' || !isAuthorizationPayload(paymentPayload.payload)) {
+    throw new Error(`Only transferWithAuthorization payments can be self-settled; this payment uses ${method}`);
+  }
+
+  const { authorization, signature } = paymentPayload.payload;
+  return {
+    from: authorization.from as `0x${string}`,
+    to: authorization.to as `0x${string}`,
+    value: BigInt(authorization.value),
+    validAfter: Number(authorization.validAfter),
+    validBefore: Number(authorization.validBefore),
+    nonce: authorization.nonce as `0x${string}`,
+    signature: signature as `0x${string}`,
+  };
+}
+
+/**
+ * Settles signed authorizations on-chain and credits them to the payer's prepaid balance
+ */
+export class SelfSettlement {
+  constructor(
+    private readonly relay: RelayManager,
+    private readonly confirmDeposit: ConfirmDeposit
+  ) {}
+
+  /**
+   * Broadcast the authorization and credit the transfer
+   * A transfer that lands but is not credited is reported rather than thrown, so its txHash is never lost.
+   * @throws NoRelayAvailableError or RelaySubmissionError when nothing was settled,
+   * or Error when the payload was not signed with transferWithAuthorization
+   */
+  async settle(paymentPayload: PaymentPayload): Promise<SelfSettlementReport> {
+    const params = toAuthorizationParams(paymentPayload);
+    const result = await this.relay.submitAuthorization(params);
+    const report = {
+      txHash: result.txHash,
+      relay: result.relay,
+      confirmed: result.confirmed,
+      amount: formatUsdc(params.value.toString()),
+    };
+
+    if (!result.confirmed) {
+      return {
+        ...report,
+        credited: false,
+        error: `Transaction ${result.txHash} is not confirmed yet; call confirm_deposit once it is mined`,
+      };
+    }
+
+    try {
+      const balance = await this.confirmDeposit(params.from, result.txHash, atomicToDecimal(params.value.toString()));
+      return { ...report, credited: true, balance };
+    } catch (error) {
+      return {
+        ...report,
+        credited: false,
+        error: `Gateway did not credit the transfer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
+
+/**
+ * Build self-settlement from SELF_SETTLEMENT, RELAY_PRIVATE_KEY and PALOMA_RELAY_URL
+ * DirectRelay is tried first and needs RELAY_PRIVATE_KEY to pay gas; PalomaRelay is the fallback.
+ * @returns undefined when self-settlement is not enabled
+ */
+export function createSelfSettlementFromConfig(
+  confirmDeposit: ConfirmDeposit,
+  network: NetworkConfig = getNetwork()
+): SelfSettlement | undefined {
+  if (!config.SELF_SETTLEMENT) {
+    return undefined;
+  }
+
+  const relays: ManagedRelay[] = [
+    {
+      type: 'direct',
+      relay: new DirectRelay({ rpcUrl: network.rpcUrl, chainId: network.chainId, privateKey: config.RELAY_PRIVATE_KEY }),
+    },
+    {
+      type: 'paloma',
+      relay: new PalomaRelay({ endpoint: config.PALOMA_RELAY_URL, chainId: network.chainId }),
+    },
+  ];
+  return new SelfSettlement(new RelayManager({ relays }), confirmDeposit);
+}
@@ -0,0 +1,174 @@
+// ABOUTME: Opt-in automatic credit top-up when a prepaid-credit query runs out of balance
+// ABOUTME: Deposits a configured amount (at least the gateway minimum) under a monthly ceiling, then retries
+
+import { config } from '../config/index.js';
+import type { CreditBalance } from '../gateway/types.js';
+import { atomicToDecimal, decimalToAtomic, formatUsdc, isDecimalAmount } from '../utils/usdc.js';
+import type { PaymentOutcome } from './types.js';
+
+/**
+ * Top-up settings in atomic USDC units
+ */
+export interface AutoTopUpSettings {
+  /** Amount deposited per top-up (raised to the gateway's minimum when lower) */
+  amount: bigint;
+  /** Most that may be deposited automatically per calendar month (UTC) */
+  monthlyLimit: bigint;
+}
+
+/**
+ * Result of the deposit flow used for a top-up (matches depositCredits output)
+ */
+export interface TopUpDepositResult {
+  success: boolean;
+  deposited?: string;
+  balance?: CreditBalance;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Deposit made automatically before retrying a query, reported alongside the query cost
+ */
+export interface AutoTopUpReport {
+  /** Human-readable amount deposited (e.g., "5 USDC") */
+  deposited: string;
+  txHash?: string;
+  balance?: CreditBalance;
+  /** Automatic deposits so far this month, including this one */
+  monthlyTotal: string;
+  monthlyLimit: string;
+}
+
+interface TopUp {
+  amount: bigint;
+  timestamp: number;
+}
+
+/**
+ * Tracks automatic deposits against the monthly ceiling for the lifetime of the process
+ * The total is kept in memory only, so restarting the server resets it to zero.
+ */
+export class AutoTopUp {
+  private readonly settings: AutoTopUpSettings;
+  private readonly now: () => number;
+  private topUps: TopUp[] = [];
+
+  constructor(settings: AutoTopUpSettings, options: { now?: () => number } = {}) {
+    this.settings = settings;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Deposit enough credit to cover a shortfall
+   * @param minimumRequired - Gateway's minimum deposit (decimal USDC, from InsufficientCreditError)
+   * @param deposit - Runs the deposit flow for a decimal USDC amount
+   */
+  async topUp(
+    minimumRequired: string,
+    deposit: (amount: string) => Promise<TopUpDepositResult>
+  ): Promise<{ success: true; report: AutoTopUpReport } | { success: false; error: string }> {
+    if (!isDecimalAmount(minimumRequired)) {
+      return { success: false, error: `gateway minimum ${minimumRequired} is not a decimal USDC amount` };
+    }
+    const minimum = BigInt(decimalToAtomic(minimumRequired));
+    const amount = minimum > this.settings.amount ? minimum : this.settings.amount;
+
+    const { monthlyLimit } = this.settings;
+    const spent = this.getMonthlyTotal();
+    if (spent + amount > monthlyLimit) {
+      const remaining = spent < monthlyLimit ? monthlyLimit - spent : 0n;
+      return {
+        success: false,
+        error: `top-up of ${formatUsdc(amount.toString())} would exceed the monthly limit of ${formatUsdc(monthlyLimit.toString())} (${formatUsdc(remaining.toString())} remaining)`,
+      };
+    }
+
+    // Reserve before depositing so concurrent top-ups cannot pass the check together
+    const reservation: TopUp = { amount, timestamp: this.now() };
+    this.topUps.push(reservation);
+
+    let result: TopUpDepositResult;
+    try {
+      result = await deposit(atomicToDecimal(amount.toString()));
+    } catch (error) {
+      this.release(reservation);
+      throw error;
+    }
+    if (!result.success) {
+      this.release(reservation);
+      return { success: false, error: result.error ?? 'Deposit failed' };
+    }
+
+    return {
+      success: true,
+      report: {
+        deposited: formatUsdc(amount.toString()),
+        txHash: result.txHash,
+        balance: result.balance,
+        monthlyTotal: formatUsdc((spent + amount).toString()),
+        monthlyLimit: formatUsdc(monthlyLimit.toString()),
+      },
+    };
+  }
+
+  /**
+   * Total deposited automatically in the current calendar month (atomic units)
+   */
+  getMonthlyTotal(): bigint {
+    const now = new Date(this.now());
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    this.topUps = this.topUps.filter((topUp) => topUp.timestamp >= monthStart);
+    return this.topUps.reduce((total, topUp) => total + topUp.amount, 0n);
+  }
+
+  private release(reservation: TopUp): void {
+    this.topUps = this.topUps.filter((topUp) => topUp !== reservation);
+  }
+}
+
+export interface WithAutoTopUpOptions {
+  /** Dry runs only quote, so they never deposit */
+  dryRun?: boolean;
+  /** Called once a deposit succeeds, before the retry, so callers can report it even if the retry throws */
+  onTopUp?: (report: AutoTopUpReport) => void;
+}
+
+/**
+ * Run a paid request, topping up credits and retrying once if the balance is too low
+ * Without an AutoTopUp, or on a dry run, the first outcome is returned unchanged.
+ */
+export async function withAutoTopUp<T>(
+  run: () => Promise<PaymentOutcome<T>>,
+  autoTopUp: AutoTopUp | undefined,
+  deposit: (amount: string) => Promise<TopUpDepositResult>,
+  options: WithAutoTopUpOptions = {}
+): Promise<{ outcome: PaymentOutcome<T>; topUp?: AutoTopUpReport }> {
+  const outcome = await run();
+  if (outcome.status !== 'insufficient_credit' || !autoTopUp || options.dryRun) {
+    return { outcome };
+  }
+
+  const result = await autoTopUp.topUp(outcome.minimumRequired, deposit);
+  if (!result.success) {
+    return { outcome: { ...outcome, error: `${outcome.error} Auto top-up failed: ${result.error}` } };
+  }
+
+  console.error(`Auto top-up deposited ${result.report.deposited}, retrying request`);
+  options.onTopUp?.(result.report);
+  return { outcome: await run(), topUp: result.report };
+}
+
+/**
+ * Build the top-up policy from AUTO_TOPUP_AMOUNT_USDC and AUTO_TOPUP_MONTHLY_LIMIT_USDC
+ * @returns undefined when auto top-up is not enabled
+ */
+export function createAutoTopUpFromConfig(): AutoTopUp | undefined {
+  if (!config.AUTO_TOPUP_AMOUNT_USDC || !config.AUTO_TOPUP_MONTHLY_LIMIT_USDC) {
+    return undefined;
+  }
+  return new AutoTopUp({
+    amount: BigInt(decimalToAtomic(config.AUTO_TOPUP_AMOUNT_USDC)),
+    monthlyLimit: BigInt(decimalToAtomic(config.AUTO_TOPUP_MONTHLY_LIMIT_USDC)),
+  });
+}
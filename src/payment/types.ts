@@ -0,0 +1,210 @@
+// ABOUTME: Type definitions for the shared x402 payment orchestrator
+// ABOUTME: Describes the send callback contract and the typed payment outcomes
+
+import type {
+  PaymentPayload,
+  PaymentRequirement,
+  PaymentRequirementsResponse,
+} from '../gateway/types.js';
+import type { BudgetExceededDetails, SpendingLimiter } from './budget.js';
+import type { PaymentLedger } from './ledger.js';
+import type { NetworkConfig } from '../config/networks.js';
+import type { RequirementPolicy } from './validator.js';
+import type { RejectedRequirement, SelectionStrategy } from './selection.js';
+import type { AutoTopUp } from './topup.js';
+import type { WalletBalanceReader } from '../wallet/balance.js';
+import type { SelfSettlement, SelfSettlementReport } from './settlement.js';
+import type { NonceRegistry } from './nonces.js';
+import type { SettlementResponse } from '../gateway/x402.js';
+
+/**
+ * Optional payment safeguards shared by tools, services and web routes
+ */
+export interface PaymentContext {
+  /** Spending limits checked before every signature */
+  budget?: SpendingLimiter;
+  /** Ledger that records every signed authorization and its outcome */
+  ledger?: PaymentLedger;
+  /** Name of the wallet profile paying, recorded in the ledger */
+  walletProfile?: string;
+  /** Network payments must be made on (defaults to NETWORK) */
+  network?: NetworkConfig;
+  /** payTo allowlist and timeout bound (defaults to the configured policy) */
+  requirementPolicy?: RequirementPolicy;
+  /** How to choose among several acceptable requirements (defaults to PAYMENT_SELECTION_STRATEGY) */
+  selectionStrategy?: SelectionStrategy;
+  /** Deposits credits and retries when a prepaid-credit query runs out of balance */
+  autoTopUp?: AutoTopUp;
+  /** Reads the wallet's on-chain USDC balance for a pre-flight check before signing */
+  balanceReader?: Pick<WalletBalanceReader, 'getUsdcBalance'>;
+  /** Settles the signed authorization on-chain when the gateway's settlement fails */
+  selfSettlement?: Pick<SelfSettlement, 'settle'>;
+  /** Remembers every signed authorization so its nonce can be checked or canceled, and reads permit nonces */
+  nonceRegistry?: Pick<NonceRegistry, 'record' | 'getPermitNonce'>;
+}
+
+/**
+ * Decoded payment requirement returned to agents before anything is signed
+ */
+export interface PaymentQuote {
+  /** Human-readable price (e.g., "0.05 USDC") */
+  price: string;
+  /** Price in atomic units (maxAmountRequired) */
+  amount: string;
+  /** Gateway's human-readable estimate, when provided */
+  estimatedCost?: string;
+  scheme: string;
+  network: string;
+  asset: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  resource: string;
+  description: string;
+}
+
+/**
+ * Response shape returned by every gateway call that may require payment
+ */
+export interface PaymentGatedResponse<T> {
+  status: number;
+  data?: T;
+  paymentRequired?: PaymentRequirementsResponse;
+  paymentResponse?: string;
+}
+
+/**
+ * Sends the underlying request, attaching the payment payload when provided
+ */
+export type SendWithPayment<T> = (
+  paymentPayload?: PaymentPayload
+) => Promise<PaymentGatedResponse<T>>;
+
+/**
+ * Request completed without requiring payment
+ */
+export interface FreeOutcome<T> {
+  status: 'free';
+  data?: T;
+}
+
+/**
+ * Request was paid for and the paid retry succeeded
+ */
+export interface PaidOutcome<T> {
+  status: 'paid';
+  data?: T;
+  requirement: PaymentRequirement;
+  paymentPayload: PaymentPayload;
+  /** Human-readable cost (e.g., "0.05 USDC") */
+  cost: string;
+  txHash?: string;
+  /** Settlement response header, when the gateway sent one */
+  settlement?: SettlementResponse;
+}
+
+/**
+ * Prepaid-credit publisher rejected the request for lack of balance
+ */
+export interface InsufficientCreditOutcome {
+  status: 'insufficient_credit';
+  error: string;
+  minimumRequired: string;
+  depositEndpoint: string;
+}
+
+/**
+ * The 402 response did not offer any payment method
+ */
+export interface NoPaymentMethodOutcome {
+  status: 'no_payment_method';
+  error: string;
+}
+
+/**
+ * Gateway answered the paid retry with another 402
+ */
+export interface SettlementFailedOutcome {
+  status: 'settlement_failed';
+  error: string;
+  requirement: PaymentRequirement;
+  paymentPayload: PaymentPayload;
+  /** Transfer settled by this server instead, when self-settlement is enabled and succeeded */
+  selfSettlement?: SelfSettlementReport;
+}
+
+/**
+ * User declined to sign the payment authorization
+ */
+export interface UserRejectedOutcome {
+  status: 'user_rejected';
+  error: string;
+}
+
+/**
+ * Payment was refused locally because it would exceed a spending limit
+ */
+export interface BudgetExceededOutcome {
+  status: 'budget_exceeded';
+  error: string;
+  budget: BudgetExceededDetails;
+}
+
+/**
+ * Dry run stopped after the first gateway call and returns the quote
+ */
+export interface QuoteOutcome {
+  status: 'quote';
+  quote: PaymentQuote;
+}
+
+/**
+ * Quote is higher than the caller's max_cost, so nothing was signed
+ */
+export interface MaxCostExceededOutcome {
+  status: 'max_cost_exceeded';
+  error: string;
+  quote: PaymentQuote;
+}
+
+/**
+ * None of the 402 requirements passed local validation (network, asset, payTo, ...), so nothing was signed
+ */
+export interface RequirementRejectedOutcome {
+  status: 'requirement_rejected';
+  error: string;
+  /** Every offered requirement with the checks it failed */
+  rejected: RejectedRequirement[];
+}
+
+/**
+ * Wallet does not hold enough USDC to cover the payment, so nothing was signed
+ */
+export interface InsufficientFundsOutcome {
+  status: 'insufficient_funds';
+  error: string;
+  /** Human-readable on-chain USDC balance */
+  balance: string;
+  /** Human-readable amount the payment needs */
+  required: string;
+}
+
+export type PaymentOutcome<T> =
+  | FreeOutcome<T>
+  | PaidOutcome<T>
+  | InsufficientCreditOutcome
+  | NoPaymentMethodOutcome
+  | SettlementFailedOutcome
+  | UserRejectedOutcome
+  | BudgetExceededOutcome
+  | QuoteOutcome
+  | MaxCostExceededOutcome
+  | RequirementRejectedOutcome
+  | InsufficientFundsOutcome;
+
+/**
+ * Outcomes that did not produce a usable response
+ */
+export type FailedPaymentOutcome = Exclude<
+  PaymentOutcome<unknown>,
+  FreeOutcome<unknown> | PaidOutcome<unknown> | QuoteOutcome
+>;
@@ -0,0 +1,134 @@
+// ABOUTME: Validates gateway payment requirements before anything is signed
+// ABOUTME: Checks network, scheme and transfer method, USDC contract, payTo allowlist, timeout and amount
+
+import { isAddress } from 'viem';
+import { config } from '../config/index.js';
+import { matchesNetwork, type NetworkConfig } from '../config/networks.js';
+import type { PaymentRequirement } from '../gateway/types.js';
+import { getSchemeProblem } from '../signing/schemes.js';
+import { decimalToAtomic } from '../utils/usdc.js';
+
+/**
+ * Local rules a payment requirement must satisfy
+ */
+export interface RequirementPolicy {
+  /** Gateway wallets allowed as payTo; every address is rejected when empty unless allowAnyPayTo is set */
+  payToAllowlist: string[];
+  /** Accept any payTo when the allowlist is empty */
+  allowAnyPayTo?: boolean;
+  /** Longest authorization validity window we will sign */
+  maxTimeoutSeconds: number;
+}
+
+/**
+ * Build the requirement policy from PAYMENT_PAYTO_ALLOWLIST, PAYMENT_PAYTO_ALLOW_ANY and MAX_PAYMENT_TIMEOUT_SECONDS
+ */
+export function getRequirementPolicy(): RequirementPolicy {
+  return {
+    payToAllowlist: config.PAYMENT_PAYTO_ALLOWLIST,
+    allowAnyPayTo: config.PAYMENT_PAYTO_ALLOW_ANY,
+    maxTimeoutSeconds: config.MAX_PAYMENT_TIMEOUT_SECONDS,
+  };
+}
+
+/**
+ * Check a requirement against the network and policy
+ * @returns Every problem found; empty when the requirement is safe to sign
+ */
+export function validateRequirement(
+  requirement: PaymentRequirement,
+  network: NetworkConfig,
+  policy: RequirementPolicy = getRequirementPolicy()
+): string[] {
+  const problems: string[] = [];
+
+  const networkError = checkRequirementNetwork(requirement, network);
+  if (networkError) {
+    problems.push(networkError);
+  }
+
+  const schemeProblem = getSchemeProblem(requirement);
+  if (schemeProblem) {
+    problems.push(schemeProblem);
+  }
+
+  if (!sameAddress(requirement.asset, network.usdc)) {
+    problems.push(`Payment asset ${requirement.asset} is not USDC on ${network.name} (${network.usdc})`);
+  }
+
+  const verifyingContract = requirement.extra?.eip712?.verifyingContract;
+  if (verifyingContract !== undefined && !sameAddress(verifyingContract, network.usdc)) {
+    problems.push(`EIP-712 verifyingContract ${verifyingContract} is not USDC on ${network.name} (${network.usdc})`);
+  }
+
+  if (!isAddress(requirement.payTo, { strict: false })) {
+    problems.push(`payTo ${requirement.payTo} is not a valid address`);
+  } else if (policy.payToAllowlist.length === 0) {
+    // Fail closed so a compromised gateway cannot redirect funds on an unconfigured server
+    if (!policy.allowAnyPayTo) {
+      problems.push(`payTo ${requirement.payTo} is not an allowed gateway wallet (PAYMENT_PAYTO_ALLOWLIST is not set)`);
+    }
+  } else if (!policy.payToAllowlist.some((allowed) => sameAddress(allowed, requirement.payTo))) {
+    problems.push(`payTo ${requirement.payTo} is not an allowed gateway wallet`);
+  }
+
+  const timeout = requirement.maxTimeoutSeconds;
+  if (!Number.isInteger(timeout) || timeout <= 0 || timeout > policy.maxTimeoutSeconds) {
+    problems.push(`maxTimeoutSeconds ${timeout} must be between 1 and ${policy.maxTimeoutSeconds}`);
+  }
+
+  const amountError = checkRequirementAmount(requirement);
+  if (amountError) {
+    problems.push(amountError);
+  }
+
+  return problems;
+}
+
+/**
+ * Check that a requirement asks for payment on the expected network
+ * @returns Error message, or null when the requirement matches
+ */
+export function checkRequirementNetwork(
+  requirement: PaymentRequirement,
+  network: NetworkConfig
+): string | null {
+  if (!matchesNetwork(network, requirement.network)) {
+    return `Payment requirement is for network "${requirement.network}" but this server pays on "${network.name}"`;
+  }
+
+  const chainId = requirement.extra?.eip712?.chainId;
+  if (chainId !== undefined && chainId !== network.chainId) {
+    return `Payment requirement EIP-712 chainId ${chainId} does not match ${network.name} (${network.chainId})`;
+  }
+  return null;
+}
+
+/**
+ * Check that maxAmountRequired is a positive atomic amount no higher than extra.estimatedCost
+ */
+function checkRequirementAmount(requirement: PaymentRequirement): string | null {
+  const amount = requirement.maxAmountRequired;
+  if (!/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+    return `maxAmountRequired ${amount} is not a positive atomic amount`;
+  }
+
+  const estimatedCost = requirement.extra?.estimatedCost;
+  if (estimatedCost === undefined) {
+    return null;
+  }
+  // Gateway estimates may carry more than 6 decimals, so this is looser than isDecimalAmount
+  if (!/^\d+(\.\d+)?$/.test(estimatedCost.trim())) {
+    return `estimatedCost ${estimatedCost} is not a decimal USDC amount`;
+  }
+
+  // Allow one atomic unit for estimates with more than 6 decimals, which are truncated
+  if (BigInt(amount) > BigInt(decimalToAtomic(estimatedCost)) + 1n) {
+    return `maxAmountRequired ${amount} exceeds estimatedCost of ${estimatedCost} USDC`;
+  }
+  return null;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
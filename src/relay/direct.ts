@@ -1,11 +1,24 @@
 // ABOUTME: Direct RPC transaction relay (primary method)
-// ABOUTME: Submits transferWithAuthorization directly to Base via RPC
+// ABOUTME: Broadcasts transferWithAuthorization to Base via RPC, paying gas from a configured key
 
-import { encodeFunctionData, createPublicClient, http, isAddress } from 'viem';
+import {
+  BaseError,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  ExecutionRevertedError,
+  http,
+  isAddress,
+  WaitForTransactionReceiptTimeoutError,
+  type PublicClient,
+  type TransactionReceipt,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import { base, baseSepolia } from 'viem/chains';
 import type {
   TransactionRelay,
   AuthorizationParams,
+  CancellationParams,
   TransactionResult,
   DirectRelayConfig,
 } from './types.js';
@@ -13,7 +26,6 @@ import {
   RelaySubmissionError,
   RelayNotAvailableError,
   USDC_CONTRACTS,
-  DEFAULT_RPC_URLS,
 } from './types.js';
 
 /**
@@ -39,14 +51,41 @@ const TRANSFER_WITH_AUTHORIZATION_ABI = [
   },
 ] as const;
 
+/**
+ * USDC cancelAuthorization ABI
+ */
+const CANCEL_AUTHORIZATION_ABI = [
+  {
+    name: 'cancelAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+] as const;
+
 /**
  * Direct RPC relay for submitting transactions to Base
- * This is the primary relay method - always available if user has RPC access
+ * This is the primary relay method - always available if user has RPC access.
+ * Submitting requires a privateKey whose account pays gas.
  */
 export class DirectRelay implements TransactionRelay {
   readonly chainId: number;
   private readonly rpcUrl: string;
   private readonly usdcContract: `0x${string}`;
+  private readonly account?: PrivateKeyAccount;
+  private readonly confirmations: number;
+  private readonly receiptTimeoutMs: number;
+  private readonly pollingIntervalMs?: number;
+  // Next nonce to use; undefined until read from the chain or after a failed send
+  private nextNonce?: number;
+  private nonceQueue: Promise<unknown> = Promise.resolve();
 
   constructor(config: DirectRelayConfig) {
     if (!config.rpcUrl) {
@@ -56,10 +95,24 @@ export class DirectRelay implements TransactionRelay {
     this.rpcUrl = config.rpcUrl;
     this.chainId = config.chainId ?? 8453;
     this.usdcContract = USDC_CONTRACTS[this.chainId];
+    this.confirmations = config.confirmations ?? 1;
+    this.receiptTimeoutMs = config.receiptTimeoutMs ?? 60000;
+    this.pollingIntervalMs = config.pollingIntervalMs;
 
     if (!this.usdcContract) {
       throw new Error(`Unsupported chainId: ${this.chainId}`);
     }
+    if (config.privateKey) {
+      const key = config.privateKey.startsWith('0x') ? config.privateKey : `0x${config.privateKey}`;
+      this.account = privateKeyToAccount(key as `0x${string}`);
+    }
+  }
+
+  /**
+   * Address of the gas-paying account, if a private key is configured
+   */
+  get senderAddress(): `0x${string}` | undefined {
+    return this.account?.address;
   }
 
   /**
@@ -76,50 +129,121 @@ export class DirectRelay implements TransactionRelay {
   }
 
   /**
-   * Submit a signed authorization to the USDC contract
-   * Note: For x402, the gateway typically handles settlement.
-   * This method is for future use cases where MCP server submits directly.
+   * Submit a signed authorization to the USDC contract and wait for the receipt
+   * Returns confirmed: false when no receipt arrives within receiptTimeoutMs.
+   * @throws RelayNotAvailableError when no gas-paying key is configured or the RPC endpoint fails before broadcasting
+   * @throws RelaySubmissionError when the call would revert, the receipt cannot be read or the transaction reverts
    */
   async submitAuthorization(params: AuthorizationParams): Promise<TransactionResult> {
     // Validate params
     this.validateParams(params);
+    return this.broadcast(this.buildTransferAuthorizationCallData(params), 'authorization');
+  }
 
-    // Parse signature into v, r, s components
-    const { v, r, s } = this.parseSignature(params.signature);
+  /**
+   * Submit a signed cancelAuthorization so an unused authorization can never be settled
+   * @throws RelayNotAvailableError when no gas-paying key is configured or the RPC endpoint fails before broadcasting
+   * @throws RelaySubmissionError when the authorization was already used or canceled, or the transaction fails
+   */
+  async submitCancellation(params: CancellationParams): Promise<TransactionResult> {
+    if (!isAddress(params.authorizer)) {
+      throw new Error(`Invalid authorizer address: ${params.authorizer}`);
+    }
+    this.validateSignatureAndNonce(params.signature, params.nonce);
+    return this.broadcast(this.buildCancelAuthorizationCallData(params), 'cancellation');
+  }
 
-    // Build transaction call data
-    const callData = this.buildTransferAuthorizationCallData(params);
+  /**
+   * Simulate, send and wait for a call to the USDC contract
+   */
+  private async broadcast(
+    callData: `0x${string}`,
+    action: 'authorization' | 'cancellation'
+  ): Promise<TransactionResult> {
+    if (!this.account) {
+      throw new RelayNotAvailableError('direct', 'DirectRelay requires a privateKey to pay gas');
+    }
+    const account = this.account;
+    const client = this.createClient();
+    const label = action === 'authorization' ? 'Authorization' : 'Cancellation';
 
+    // Simulate first so an invalid signature or used nonce never costs gas
+    let gas: bigint;
+    let fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
     try {
-      const client = this.createClient();
+      await client.call({ account: account.address, to: this.usdcContract, data: callData });
+      [gas, fees] = await Promise.all([
+        client.estimateGas({ account: account.address, to: this.usdcContract, data: callData }),
+        client.estimateFeesPerGas({ chain: this.getChain(), type: 'eip1559' }),
+      ]);
+    } catch (error) {
+      if (isRevert(error)) {
+        throw new RelaySubmissionError(
+          `${label} would fail on-chain: ${errorMessage(error)}`,
+          'direct',
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw new RelayNotAvailableError('direct', `Failed to prepare ${action}: ${errorMessage(error)}`);
+    }
 
-      // For now, we simulate the call to validate it would succeed
-      // Actual submission would require a wallet client with private key
-      await client.call({
+    let txHash: `0x${string}`;
+    try {
+      const nonce = await this.allocateNonce(client, account.address);
+      txHash = await this.createWalletClient(account).sendTransaction({
+        account,
+        chain: this.getChain(),
         to: this.usdcContract,
         data: callData,
+        nonce,
+        gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
       });
+    } catch (error) {
+      // The nonce may not have been consumed; re-read it from the chain next time
+      this.nextNonce = undefined;
+      if (isRevert(error)) {
+        throw new RelaySubmissionError(
+          `Failed to submit ${action}: ${errorMessage(error)}`,
+          'direct',
+          error instanceof Error ? error : undefined
+        );
+      }
+      // Rejected by the node (fees, gas-payer balance, transport); the authorization can still go through another relay
+      throw new RelayNotAvailableError('direct', `Failed to submit ${action}: ${errorMessage(error)}`);
+    }
 
-      // In a full implementation, we would:
-      // 1. Use a wallet client to sign and send the transaction
-      // 2. Wait for confirmation
-      // 3. Return the actual tx hash
-
-      // For now, return a placeholder indicating the call was validated
-      throw new RelaySubmissionError(
-        'Direct submission not implemented - gateway handles settlement',
-        'direct'
-      );
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await client.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: this.confirmations,
+        timeout: this.receiptTimeoutMs,
+        pollingInterval: this.pollingIntervalMs,
+      });
     } catch (error) {
-      if (error instanceof RelaySubmissionError) {
-        throw error;
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        return { txHash, confirmed: false };
       }
+      // Final even for transport failures: the transaction is already broadcast
       throw new RelaySubmissionError(
-        `Failed to submit authorization: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to read receipt for ${txHash}: ${errorMessage(error)}`,
         'direct',
         error instanceof Error ? error : undefined
       );
     }
+
+    if (receipt.status !== 'success') {
+      throw new RelaySubmissionError(`Transaction ${txHash} reverted`, 'direct');
+    }
+
+    return {
+      txHash,
+      confirmed: true,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed,
+    };
   }
 
   /**
@@ -145,6 +269,19 @@ export class DirectRelay implements TransactionRelay {
     });
   }
 
+  /**
+   * Build the call data for cancelAuthorization
+   */
+  buildCancelAuthorizationCallData(params: CancellationParams): `0x${string}` {
+    const { v, r, s } = this.parseSignature(params.signature);
+
+    return encodeFunctionData({
+      abi: CANCEL_AUTHORIZATION_ABI,
+      functionName: 'cancelAuthorization',
+      args: [params.authorizer, params.nonce, v, r, s],
+    });
+  }
+
   /**
    * Validate authorization parameters
    */
@@ -155,10 +292,14 @@ export class DirectRelay implements TransactionRelay {
     if (!isAddress(params.to)) {
       throw new Error(`Invalid to address: ${params.to}`);
     }
-    if (!params.signature.match(/^0x[a-fA-F0-9]{130}$/)) {
+    this.validateSignatureAndNonce(params.signature, params.nonce);
+  }
+
+  private validateSignatureAndNonce(signature: string, nonce: string): void {
+    if (!signature.match(/^0x[a-fA-F0-9]{130}$/)) {
       throw new Error(`Invalid signature format: must be 65 bytes hex`);
     }
-    if (!params.nonce.match(/^0x[a-fA-F0-9]{64}$/)) {
+    if (!nonce.match(/^0x[a-fA-F0-9]{64}$/)) {
       throw new Error(`Invalid nonce format: must be 32 bytes hex`);
     }
   }
@@ -188,14 +329,55 @@ export class DirectRelay implements TransactionRelay {
   }
 
   /**
-   * Create a viem public client
+   * Hand out sequential nonces so concurrent submissions never collide
    */
-  private createClient() {
-    const chain = this.chainId === 8453 ? base : baseSepolia;
+  private async allocateNonce(client: PublicClient, address: `0x${string}`): Promise<number> {
+    const allocation = this.nonceQueue.then(async () => {
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await client.getTransactionCount({ address, blockTag: 'pending' });
+      }
+      return this.nextNonce++;
+    });
+    this.nonceQueue = allocation.catch(() => undefined);
+    return allocation;
+  }
 
+  private getChain() {
+    return this.chainId === 8453 ? base : baseSepolia;
+  }
+
+  /**
+   * Create a viem public client
+   */
+  private createClient(): PublicClient {
     return createPublicClient({
-      chain,
+      chain: this.getChain(),
+      transport: http(this.rpcUrl),
+    }) as PublicClient;
+  }
+
+  /**
+   * Create a viem wallet client for the gas-paying account
+   */
+  private createWalletClient(account: PrivateKeyAccount) {
+    return createWalletClient({
+      account,
+      chain: this.getChain(),
       transport: http(this.rpcUrl),
     });
   }
 }
+
+/**
+ * Whether the node reported an EVM revert, as opposed to a transport or RPC failure
+ */
+function isRevert(error: unknown): boolean {
+  return error instanceof BaseError && error.walk((cause) => cause instanceof ExecutionRevertedError) !== null;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -1,6 +1,7 @@
 // ABOUTME: Relay module exports
-// ABOUTME: DirectRelay (primary) and PalomaRelay (fallback) for transaction submission
+// ABOUTME: DirectRelay (primary) and PalomaRelay (fallback), composed by RelayManager
 
 export * from './types.js';
 export { DirectRelay } from './direct.js';
 export { PalomaRelay } from './paloma.js';
+export * from './manager.js';
@@ -0,0 +1,153 @@
+// ABOUTME: Relay manager that fails over between transaction relays in priority order
+// ABOUTME: Caches relay availability and reports which relay settled each authorization
+
+import type { AuthorizationParams, RelayType, TransactionRelay, TransactionResult } from './types.js';
+import { RelayNotAvailableError } from './types.js';
+
+/**
+ * A relay and the name it is reported under
+ */
+export interface ManagedRelay {
+  type: RelayType;
+  relay: TransactionRelay;
+}
+
+export interface RelayManagerConfig {
+  /** Relays in priority order (usually DirectRelay, then PalomaRelay) */
+  relays: ManagedRelay[];
+  /** How long an isAvailable() result is trusted (default: 30000) */
+  availabilityTtlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * A relay that was skipped before one settled the authorization
+ */
+export interface SkippedRelay {
+  type: RelayType;
+  reason: string;
+}
+
+/**
+ * Transaction result with the relay that settled it
+ */
+export interface RelayedTransactionResult extends TransactionResult {
+  relay: RelayType;
+  /** Higher-priority relays that were unavailable */
+  skipped: SkippedRelay[];
+}
+
+/**
+ * Error thrown when every relay is unavailable
+ * Retryable: nothing was submitted.
+ */
+export class NoRelayAvailableError extends Error {
+  constructor(public readonly skipped: SkippedRelay[]) {
+    super(`No relay available: ${skipped.map((relay) => `${relay.type} (${relay.reason})`).join(', ')}`);
+    this.name = 'NoRelayAvailableError';
+    Object.setPrototypeOf(this, NoRelayAvailableError.prototype);
+  }
+}
+
+interface AvailabilityEntry {
+  available: boolean;
+  checkedAt: number;
+}
+
+/**
+ * Submits authorizations through the first available relay
+ * A RelayNotAvailableError moves on to the next relay; a RelaySubmissionError
+ * (or any other error) is final, because the authorization may already be on-chain.
+ */
+export class RelayManager implements TransactionRelay {
+  private readonly relays: ManagedRelay[];
+  private readonly availabilityTtlMs: number;
+  private readonly now: () => number;
+  private availability = new Map<RelayType, AvailabilityEntry>();
+
+  constructor(config: RelayManagerConfig) {
+    if (config.relays.length === 0) {
+      throw new Error('RelayManager requires at least one relay');
+    }
+    this.relays = config.relays;
+    this.availabilityTtlMs = config.availabilityTtlMs ?? 30000;
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * Whether any relay is available
+   */
+  async isAvailable(): Promise<boolean> {
+    for (const entry of this.relays) {
+      if (await this.checkAvailable(entry)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Submit through the highest-priority available relay
+   * @throws NoRelayAvailableError when every relay is unavailable
+   * @throws RelaySubmissionError when the chosen relay fails after submitting
+   */
+  async submitAuthorization(params: AuthorizationParams): Promise<RelayedTransactionResult> {
+    const skipped: SkippedRelay[] = [];
+
+    for (const entry of this.relays) {
+      if (!(await this.checkAvailable(entry))) {
+        skipped.push({ type: entry.type, reason: 'unavailable' });
+        continue;
+      }
+
+      try {
+        const result = await entry.relay.submitAuthorization(params);
+        this.setAvailability(entry.type, true);
+        return { ...result, relay: entry.type, skipped };
+      } catch (error) {
+        if (error instanceof RelayNotAvailableError) {
+          this.setAvailability(entry.type, false);
+          skipped.push({ type: entry.type, reason: error.message });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new NoRelayAvailableError(skipped);
+  }
+
+  /**
+   * Cached availability of each relay, for diagnostics
+   */
+  getAvailability(): Array<{ type: RelayType; available?: boolean; checkedAt?: string }> {
+    return this.relays.map(({ type }) => {
+      const entry = this.availability.get(type);
+      return {
+        type,
+        available: entry?.available,
+        checkedAt: entry ? new Date(entry.checkedAt).toISOString() : undefined,
+      };
+    });
+  }
+
+  private async checkAvailable(entry: ManagedRelay): Promise<boolean> {
+    const cached = this.availability.get(entry.type);
+    if (cached && this.now() - cached.checkedAt < this.availabilityTtlMs) {
+      return cached.available;
+    }
+
+    let available: boolean;
+    try {
+      available = await entry.relay.isAvailable();
+    } catch {
+      available = false;
+    }
+    this.setAvailability(entry.type, available);
+    return available;
+  }
+
+  private setAvailability(type: RelayType, available: boolean): void {
+    this.availability.set(type, { available, checkedAt: this.now() });
+  }
+}
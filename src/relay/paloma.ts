@@ -24,14 +24,19 @@ import {
  */
 export class PalomaRelay implements TransactionRelay {
   readonly endpoint: string;
-  readonly chainId: number = 8453; // Base mainnet
+  readonly chainId: number;
   private readonly timeout: number;
   private readonly usdcContract: `0x${string}`;
 
   constructor(config: PalomaRelayConfig = {}) {
     this.endpoint = config.endpoint ?? DEFAULT_PALOMA_ENDPOINT;
     this.timeout = config.timeout ?? 30000; // 30 seconds default
+    this.chainId = config.chainId ?? 8453; // Base mainnet
     this.usdcContract = USDC_CONTRACTS[this.chainId];
+
+    if (!this.usdcContract) {
+      throw new Error(`Unsupported chainId: ${this.chainId}`);
+    }
   }
 
   /**
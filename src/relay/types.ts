@@ -21,6 +21,18 @@ export interface AuthorizationParams {
   signature: `0x${string}`;
 }
 
+/**
+ * Parameters for USDC cancelAuthorization
+ */
+export interface CancellationParams {
+  /** Wallet that signed the authorization being canceled */
+  authorizer: `0x${string}`;
+  /** Nonce of the authorization being canceled */
+  nonce: `0x${string}`;
+  /** EIP-712 CancelAuthorization signature from the authorizer */
+  signature: `0x${string}`;
+}
+
 /**
  * Result of submitting a transaction
  */
@@ -62,8 +74,14 @@ export interface DirectRelayConfig {
   rpcUrl: string;
   /** Chain ID (default: 8453 for Base mainnet) */
   chainId?: number;
-  /** Private key for transaction submission (optional, for server-side relay) */
+  /** Private key of the account that pays gas; required for submitAuthorization */
   privateKey?: string;
+  /** Block confirmations to wait for (default: 1) */
+  confirmations?: number;
+  /** How long to wait for a receipt before returning unconfirmed (default: 60000) */
+  receiptTimeoutMs?: number;
+  /** Receipt polling interval in milliseconds (default: viem's block time based interval) */
+  pollingIntervalMs?: number;
 }
 
 /**
@@ -72,6 +90,8 @@ export interface DirectRelayConfig {
 export interface PalomaRelayConfig {
   /** Paloma relay endpoint */
   endpoint?: string;
+  /** Chain ID (default: 8453 for Base mainnet) */
+  chainId?: number;
   /** Request timeout in milliseconds */
   timeout?: number;
 }
@@ -111,13 +131,19 @@ export interface PalomaRelayResponse {
   validator?: string;
 }
 
+/**
+ * Relay implementations, in default priority order
+ */
+export type RelayType = 'direct' | 'paloma';
+
 /**
  * Error thrown when relay submission fails
+ * Final: the authorization may already be on-chain, so it is not retried on another relay.
  */
 export class RelaySubmissionError extends Error {
   constructor(
     message: string,
-    public readonly relayType: 'direct' | 'paloma',
+    public readonly relayType: RelayType,
     public readonly cause?: Error
   ) {
     super(message);
@@ -128,10 +154,11 @@ export class RelaySubmissionError extends Error {
 
 /**
  * Error thrown when relay is not available
+ * Retryable: nothing was submitted, so another relay may be tried.
  */
 export class RelayNotAvailableError extends Error {
   constructor(
-    public readonly relayType: 'direct' | 'paloma',
+    public readonly relayType: RelayType,
     message = `${relayType} relay is not available`
   ) {
     super(message);
@@ -5,23 +5,37 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config/index.js';
 import { SerenService } from './services/serenService.js';
+import { createLocalWalletFromConfig } from './wallet/local.js';
+import { createSpendingLimiterFromConfig } from './payment/budget.js';
+import { createAutoTopUpFromConfig } from './payment/topup.js';
+import { createSelfSettlementFromConfig } from './payment/settlement.js';
+import { GatewayClient } from './gateway/client.js';
+import { httpStatusFor } from './gateway/errors.js';
+import { gatewayCircuitBreakers } from './gateway/circuitBreaker.js';
+import { WalletBalanceReader } from './wallet/balance.js';
+import { PaymentLedger } from './payment/ledger.js';
+import { NonceRegistry } from './payment/nonces.js';
+import { DirectRelay } from './relay/direct.js';
+import { listPayments } from './tools/listPayments.js';
+import { listAuthorizations } from './tools/listAuthorizations.js';
+import { cancelAuthorization } from './tools/cancelAuthorization.js';
 import { z } from 'zod';
 import pg from 'pg';
 import Database from 'better-sqlite3';
 
-const app = express();
+export const app = express();
 
 // Enable CORS for frontend
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));  // Increase limit for embedding payloads
 
 // Validate environment variables
-const privateKey = process.env.WALLET_PRIVATE_KEY;
+const localWallet = createLocalWalletFromConfig();
 const gatewayUrl = config.X402_GATEWAY_URL;
 const apiKey = process.env.SEREN_API_KEY;
 
-if (!privateKey) {
-  throw new Error('WALLET_PRIVATE_KEY environment variable is required');
+if (!localWallet) {
+  throw new Error('WALLET_KEYSTORE_PATH or WALLET_PRIVATE_KEY environment variable is required');
 }
 
 // Warn if API key is missing (admin functions will fail)
@@ -29,8 +43,34 @@ if (!apiKey) {
   console.warn('⚠️  WARNING: SEREN_API_KEY is not set. Admin console functions will not work.');
 }
 
-// Initialize SerenService
-const serenService = new SerenService(privateKey, gatewayUrl);
+// Local ledger of every payment signed by this server
+const paymentLedger = new PaymentLedger(config.PAYMENT_LEDGER_PATH);
+
+// On-chain balance reader for /api/wallet/balance and pre-flight checks
+const balanceReader = new WalletBalanceReader();
+
+// Signed authorizations for /api/authorizations and cancellation
+const nonceRegistry = new NonceRegistry();
+// Pays gas for cancellations with RELAY_PRIVATE_KEY
+const cancellationRelay = new DirectRelay({
+  rpcUrl: nonceRegistry.network.rpcUrl,
+  chainId: nonceRegistry.network.chainId,
+  privateKey: config.RELAY_PRIVATE_KEY,
+});
+
+// Initialize SerenService with the configured spending limits, ledger, auto top-up, balance checks,
+// self-settlement and nonce registry
+const serenService = new SerenService(localWallet, gatewayUrl, {
+  network: nonceRegistry.network,
+  nonceRegistry,
+  budget: createSpendingLimiterFromConfig(),
+  ledger: paymentLedger,
+  autoTopUp: createAutoTopUpFromConfig(),
+  balanceReader,
+  selfSettlement: createSelfSettlementFromConfig(
+    (agentWallet, txHash, amount) => new GatewayClient(gatewayUrl).confirmDeposit(agentWallet, txHash, amount)
+  ),
+});
 
 // Request validation schema
 const executeSqlSchema = z.object({
@@ -119,11 +159,22 @@ app.post('/api/execute-sql', async (req, res) => {
         actualCost: result.actualCost,
         executionTime: result.executionTime,
         txHash: result.txHash,
+        topUp: result.topUp,
+      });
+    } else if (result.budgetExceeded) {
+      // Refused locally before signing - nothing was paid
+      return res.status(402).json({
+        success: false,
+        error: result.error,
+        budgetExceeded: result.budgetExceeded,
       });
     } else {
-      return res.status(500).json({
+      return res.status(httpStatusFor(result.gatewayError)).json({
         success: false,
         error: result.error || 'Query execution failed',
+        selfSettlement: result.selfSettlement,
+        topUp: result.topUp,
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -227,11 +278,12 @@ app.post('/api/admin/execute', async (req, res) => {
     } else {
       // Log the error for debugging
       console.error('Admin query execution failed:', result.error);
-      // Determine appropriate status code based on error
-      const statusCode = result.error?.includes('authentication') || result.error?.includes('401') || result.error?.includes('403') ? 401 : 500;
+      // Gateway errors carry the status to answer with
+      const statusCode = httpStatusFor(result.gatewayError);
       return res.status(statusCode).json({
         success: false,
         error: result.error || 'Query execution failed',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -268,10 +320,11 @@ app.get('/api/admin/publisher', async (req, res) => {
         publisher: result.publisher,
       });
     } else {
-      const statusCode = result.error?.includes('authentication') ? 401 : 500;
+      const statusCode = httpStatusFor(result.gatewayError);
       return res.status(statusCode).json({
         success: false,
         error: result.error || 'Failed to get publisher info',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -306,10 +359,11 @@ app.get('/api/admin/tables', async (req, res) => {
         tables: result.rows?.map((row) => (row as { table_name: string }).table_name) || [],
       });
     } else {
-      const statusCode = result.error?.includes('authentication') ? 401 : 500;
+      const statusCode = httpStatusFor(result.gatewayError);
       return res.status(statusCode).json({
         success: false,
         error: result.error || 'Failed to list tables',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -360,10 +414,11 @@ app.patch('/api/admin/publisher/connection', async (req, res) => {
         message: result.message || 'Connection string updated successfully',
       });
     } else {
-      const statusCode = result.error?.includes('authentication') || result.error?.includes('401') || result.error?.includes('403') ? 401 : 500;
+      const statusCode = httpStatusFor(result.gatewayError);
       return res.status(statusCode).json({
         success: false,
         error: result.error || 'Failed to update connection string',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -403,10 +458,11 @@ app.get('/api/admin/tables/:name', async (req, res) => {
         columns: result.rows || [],
       });
     } else {
-      const statusCode = result.error?.includes('authentication') ? 401 : 500;
+      const statusCode = httpStatusFor(result.gatewayError);
       return res.status(statusCode).json({
         success: false,
         error: result.error || 'Failed to get table schema',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -452,11 +508,22 @@ app.post('/api/proxy', async (req, res) => {
         data: result.data,
         cost: result.cost,
         txHash: result.txHash,
+        topUp: result.topUp,
+      });
+    } else if (result.budgetExceeded) {
+      // Refused locally before signing - nothing was paid
+      return res.status(402).json({
+        success: false,
+        error: result.error,
+        budgetExceeded: result.budgetExceeded,
       });
     } else {
-      return res.status(500).json({
+      return res.status(httpStatusFor(result.gatewayError)).json({
         success: false,
         error: result.error || 'API call failed',
+        selfSettlement: result.selfSettlement,
+        topUp: result.topUp,
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -490,9 +557,10 @@ app.get('/api/providers', async (req, res) => {
         providers: result.publishers || [],
       });
     } else {
-      return res.status(500).json({
+      return res.status(httpStatusFor(result.gatewayError)).json({
         success: false,
         error: result.error || 'Failed to list providers',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -528,6 +596,30 @@ app.get('/api/wallet', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/wallet/balance
+ * On-chain USDC and ETH balances of the configured wallet
+ * Query: transfers=true to include recent USDC transfers
+ */
+app.get('/api/wallet/balance', async (req, res) => {
+  try {
+    const wallet = await serenService.getWalletProvider();
+    const walletAddress = await wallet.getAddress();
+    const balances = await balanceReader.getBalances(walletAddress, req.query.transfers === 'true');
+
+    return res.status(200).json({
+      success: true,
+      ...balances,
+    });
+  } catch (error) {
+    console.error('Error checking wallet balance:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
 /**
  * GET /api/credits/balance
  * Check prepaid credit balance for the wallet
@@ -588,10 +680,18 @@ app.post('/api/credits/deposit', async (req, res) => {
         balance: result.balance,
         txHash: result.txHash,
       });
+    } else if (result.budgetExceeded) {
+      // Refused locally before signing - nothing was paid
+      return res.status(402).json({
+        success: false,
+        error: result.error,
+        budgetExceeded: result.budgetExceeded,
+      });
     } else {
-      return res.status(500).json({
+      return res.status(httpStatusFor(result.gatewayError)).json({
         success: false,
         error: result.error || 'Deposit failed',
+        gatewayError: result.gatewayError,
       });
     }
   } catch (error) {
@@ -603,6 +703,146 @@ app.post('/api/credits/deposit', async (req, res) => {
   }
 });
 
+// Validation schema for payment history filters
+const listPaymentsSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  publisherId: z.string().optional(),
+  wallet: z.string().optional(),
+  status: z.enum(['pending', 'settled', 'failed']).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+/**
+ * GET /api/payments
+ * List payments recorded in the local ledger
+ * Optional query params: from, to, publisherId, wallet (profile name), status (pending|settled|failed), limit
+ */
+app.get('/api/payments', async (req, res) => {
+  try {
+    const validationResult = listPaymentsSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { from, to, publisherId, wallet, status, limit } = validationResult.data;
+    const result = await listPayments({ from, to, publisher_id: publisherId, wallet, status, limit }, paymentLedger);
+
+    if (result.success) {
+      return res.status(200).json({
+        success: true,
+        payments: result.payments,
+        count: result.count,
+        totalSettled: result.totalSettled,
+      });
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: result.error || 'Failed to list payments',
+      });
+    }
+  } catch (error) {
+    console.error('Error listing payments:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+// Validation schemas for authorization listing and cancellation
+const listAuthorizationsSchema = z.object({
+  status: z.enum(['unused', 'used', 'canceled', 'expired']).optional(),
+});
+
+const cancelAuthorizationSchema = z.object({
+  nonce: z.string().min(1, 'nonce is required'),
+});
+
+/**
+ * GET /api/authorizations
+ * List authorizations signed by this server since it started, with their on-chain state
+ * Optional query params: status (unused|used|canceled|expired)
+ */
+app.get('/api/authorizations', async (req, res) => {
+  try {
+    const validationResult = listAuthorizationsSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const result = await listAuthorizations(validationResult.data, nonceRegistry);
+
+    if (result.success) {
+      return res.status(200).json({
+        success: true,
+        authorizations: result.authorizations,
+        count: result.count,
+      });
+    } else {
+      return res.status(502).json({
+        success: false,
+        error: result.error || 'Failed to list authorizations',
+      });
+    }
+  } catch (error) {
+    console.error('Error listing authorizations:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * POST /api/authorizations/cancel
+ * Cancel an unused authorization on-chain so the gateway can no longer settle it
+ */
+app.post('/api/authorizations/cancel', async (req, res) => {
+  try {
+    const validationResult = cancelAuthorizationSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const wallet = await serenService.getWalletProvider();
+    const result = await cancelAuthorization(validationResult.data, wallet, nonceRegistry, cancellationRelay);
+
+    if (result.success) {
+      return res.status(200).json({
+        success: true,
+        nonce: result.nonce,
+        txHash: result.txHash,
+        confirmed: result.confirmed,
+      });
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: result.error || 'Failed to cancel authorization',
+        code: result.code,
+      });
+    }
+  } catch (error) {
+    console.error('Error canceling authorization:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
 /**
  * Helper function to get or create SQLite connection
  */
@@ -1205,12 +1445,12 @@ app.delete('/api/sqlite/close', async (req, res) => {
 
 // Health check endpoint
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', service: 'seren-sql-api' });
+  res.json({ status: 'ok', service: 'seren-sql-api', circuitBreakers: gatewayCircuitBreakers.snapshot() });
 });
 
 const PORT = process.env.PORT || 3000;
 
-const server = app.listen(PORT, () => {
+export const server = app.listen(PORT, () => {
   console.log(`Seren SQL API server running on http://localhost:${PORT}`);
 });
 
@@ -1220,6 +1460,7 @@ function gracefulShutdown(signal: string) {
   
   // Close all SQLite connections
   closeAllSqliteConnections();
+  paymentLedger.close();
   
   // Close the HTTP server
   server.close(() => {
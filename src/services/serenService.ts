@@ -4,13 +4,32 @@
 import { GatewayClient } from '../gateway/client.js';
 import { PrivateKeyWalletProvider } from '../wallet/privatekey.js';
 import type { WalletProvider } from '../wallet/types.js';
-import { buildDomain, buildAuthorizationMessage, buildTypedData } from '../signing/eip712.js';
-import type { PaymentPayload, PaymentRequirement, QueryResult, Publisher, CreditBalance } from '../gateway/types.js';
+import type { QueryResult, Publisher, CreditBalance } from '../gateway/types.js';
 import { UserRejectedError } from '../wallet/types.js';
+import { ensureWalletConnected, executeWithPayment } from '../payment/orchestrator.js';
+import type { PaymentContext, PaymentQuote } from '../payment/types.js';
+import type { BudgetExceededDetails } from '../payment/budget.js';
+import { withAutoTopUp, type AutoTopUpReport } from '../payment/topup.js';
+import { depositContext } from '../tools/depositCredits.js';
+import type { SelfSettlementReport } from '../payment/settlement.js';
+import { decimalToAtomic, isDecimalAmount } from '../utils/usdc.js';
+import { getNetwork } from '../config/networks.js';
+import {
+  GatewayHttpError,
+  InvalidSqlError,
+  gatewayErrorFromOutcome,
+  getGatewayErrorInfo,
+  type GatewayErrorInfo,
+} from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, toolErrorForOutcome, type ToolErrorFields } from '../tools/errors.js';
 
 export interface ExecuteQueryParams {
   sql: string;
   providerId: string;
+  /** Return the payment quote without signing or paying */
+  dryRun?: boolean;
+  /** Refuse to pay when the quoted price exceeds this amount (decimal USDC) */
+  maxCost?: string;
 }
 
 export interface ExecuteApiCallParams {
@@ -19,17 +38,30 @@ export interface ExecuteApiCallParams {
   path: string;
   body?: unknown;
   headers?: Record<string, string>;
+  /** Return the payment quote without signing or paying */
+  dryRun?: boolean;
+  /** Refuse to pay when the quoted price exceeds this amount (decimal USDC) */
+  maxCost?: string;
 }
 
-export interface ExecuteApiCallResult {
+export interface ExecuteApiCallResult extends ToolErrorFields {
   success: boolean;
   data?: unknown;
   cost?: string;
   txHash?: string;
   error?: string;
+  budgetExceeded?: BudgetExceededDetails;
+  dryRun?: boolean;
+  quote?: PaymentQuote;
+  /** Credits deposited automatically before the request was retried */
+  topUp?: AutoTopUpReport;
+  /** Transfer this server settled after the gateway failed to */
+  selfSettlement?: SelfSettlementReport;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
-export interface ExecuteQueryResult {
+export interface ExecuteQueryResult extends ToolErrorFields {
   success: boolean;
   rows?: unknown[];
   rowCount?: number;
@@ -38,6 +70,15 @@ export interface ExecuteQueryResult {
   executionTime?: number;
   txHash?: string;
   error?: string;
+  budgetExceeded?: BudgetExceededDetails;
+  dryRun?: boolean;
+  quote?: PaymentQuote;
+  /** Credits deposited automatically before the request was retried */
+  topUp?: AutoTopUpReport;
+  /** Transfer this server settled after the gateway failed to */
+  selfSettlement?: SelfSettlementReport;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -46,33 +87,34 @@ export interface ExecuteQueryResult {
  */
 export class SerenService {
   private gatewayClient: GatewayClient;
-  private walletProvider: WalletProvider | null = null;
-  private privateKey: string;
+  private walletProvider: WalletProvider;
   private gatewayUrl: string;
+  private payment: PaymentContext;
 
   /**
    * Creates a new SerenService instance
-   * @param privateKey - Wallet private key for signing payments
+   * @param wallet - Wallet provider, or a raw private key, for signing payments
    * @param gatewayUrl - Base URL of the x402 Gateway
+   * @param payment - Spending limits for paid queries and API calls, and the ledger for every payment
    */
-  constructor(privateKey: string, gatewayUrl: string) {
-    this.privateKey = privateKey;
+  constructor(wallet: WalletProvider | string, gatewayUrl: string, payment: PaymentContext = {}) {
+    const { chain, rpcUrl } = getNetwork();
+    this.walletProvider = typeof wallet === 'string'
+      ? new PrivateKeyWalletProvider({ privateKey: wallet, chain, rpcUrl })
+      : wallet;
     this.gatewayUrl = gatewayUrl;
+    this.payment = payment;
     this.gatewayClient = new GatewayClient(gatewayUrl);
   }
 
   /**
-   * Get or initialize the wallet provider (public for credit management)
+   * Get the connected wallet provider (public for credit management)
    */
   async getWalletProvider(): Promise<WalletProvider> {
-    if (this.walletProvider) {
-      return this.walletProvider;
+    if (!(await this.walletProvider.isConnected())) {
+      await this.walletProvider.connect();
     }
-
-    const provider = new PrivateKeyWalletProvider();
-    await provider.connect(this.privateKey);
-    this.walletProvider = provider;
-    return provider;
+    return this.walletProvider;
   }
 
   /**
@@ -93,91 +135,81 @@ export class SerenService {
     balance?: CreditBalance;
     txHash?: string;
     error?: string;
-  }> {
+    budgetExceeded?: BudgetExceededDetails;
+    gatewayError?: GatewayErrorInfo;
+  } & ToolErrorFields> {
     // Validate amount
     if (!amount || !amount.trim()) {
-      return { success: false, error: 'amount is required' };
+      return invalidInput('amount is required');
     }
 
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount)) {
-      return { success: false, error: 'amount must be a valid number' };
+      return invalidInput('amount must be a valid number');
     }
     if (numAmount <= 0) {
-      return { success: false, error: 'amount must be greater than zero' };
+      return invalidInput('amount must be greater than zero');
     }
 
     try {
       // Get wallet provider
       const wallet = await this.getWalletProvider();
-      
-      // Ensure wallet is connected
-      const connected = await wallet.isConnected();
-      if (!connected) {
-        await wallet.connect();
-      }
+      const agentWallet = await ensureWalletConnected(wallet);
 
-      const agentWallet = await wallet.getAddress();
-
-      // Make initial request to get payment requirements
-      const initialResult = await this.gatewayClient.depositCredits(amount);
+      const outcome = await executeWithPayment(
+        (paymentPayload) => this.gatewayClient.depositCredits(amount, paymentPayload),
+        {
+          ...depositContext(this.payment),
+          wallet,
+          agentWallet,
+          request: `Deposit ${amount} USDC`,
+          getSettlementTx: (data) => data.transaction,
+        }
+      );
 
-      // If not 402, something unexpected happened
-      if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-        // Already succeeded without payment (shouldn't happen)
-        if (initialResult.data) {
+      switch (outcome.status) {
+        case 'free':
+          // Already succeeded without payment (shouldn't happen)
+          if (outcome.data) {
+            return {
+              success: true,
+              deposited: outcome.data.deposited,
+              balance: outcome.data.balance,
+              txHash: outcome.data.transaction,
+            };
+          }
+          return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false };
+        case 'paid':
+          if (!outcome.data) {
+            return { success: false, error: 'Deposit failed: no response data', code: 'GATEWAY_ERROR', retryable: false };
+          }
           return {
             success: true,
-            deposited: initialResult.data.deposited,
-            balance: initialResult.data.balance,
-            txHash: initialResult.data.transaction,
+            deposited: outcome.data.deposited,
+            balance: outcome.data.balance,
+            txHash: outcome.txHash,
+          };
+        case 'quote':
+          // Dry run is never requested for deposits
+          return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false };
+        case 'budget_exceeded':
+          return { success: false, error: outcome.error, budgetExceeded: outcome.budget, ...toolErrorForOutcome(outcome) };
+        default:
+          return {
+            success: false,
+            error: outcome.error,
+            gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+            ...toolErrorForOutcome(outcome),
           };
-        }
-        return { success: false, error: 'Unexpected response from gateway' };
-      }
-
-      // Extract payment requirement
-      const paymentRequirement = initialResult.paymentRequired.accepts[0];
-      if (!paymentRequirement) {
-        return { success: false, error: 'No payment method available' };
-      }
-
-      // Build and sign the payment authorization
-      const paymentPayload = await this.buildPaymentPayload(
-        paymentRequirement,
-        agentWallet,
-        wallet
-      );
-
-      // Retry request with payment
-      const paidResult = await this.gatewayClient.depositCredits(amount, paymentPayload);
-
-      // Check if settlement failed (got another 402 after sending payment)
-      if (paidResult.status === 402) {
-        const errorMsg =
-          (paidResult.paymentRequired as { error?: string })?.error ??
-          'Payment settlement failed';
-        return { success: false, error: errorMsg };
-      }
-
-      if (!paidResult.data) {
-        return { success: false, error: 'Deposit failed: no response data' };
       }
-
-      return {
-        success: true,
-        deposited: paidResult.data.deposited,
-        balance: paidResult.data.balance,
-        txHash: paidResult.data.transaction,
-      };
     } catch (error) {
       if (error instanceof UserRejectedError) {
-        return { success: false, error: 'User rejected the payment request' };
+        return { success: false, error: 'User rejected the payment request', ...toolErrorFor(error) };
       }
       if (error instanceof Error) {
-        return { success: false, error: error.message };
+        return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), ...toolErrorFor(error) };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
     }
   }
 
@@ -190,108 +222,114 @@ export class SerenService {
   async executeQuery(params: ExecuteQueryParams): Promise<ExecuteQueryResult> {
     // Validate input
     if (!params.providerId) {
-      return { success: false, error: 'providerId is required' };
+      return invalidInput('providerId is required');
     }
     if (!params.sql) {
-      return { success: false, error: 'sql is required' };
+      return invalidInput('sql is required');
     }
 
     // Basic SQL validation - must start with SELECT
     const trimmedSql = params.sql.trim().toUpperCase();
     if (!trimmedSql.startsWith('SELECT')) {
-      return { success: false, error: 'Only SELECT queries are allowed' };
+      return failure(new InvalidSqlError('Only SELECT queries are allowed'));
+    }
+    if (params.maxCost !== undefined && !isDecimalAmount(params.maxCost)) {
+      return invalidInput('maxCost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")');
     }
 
+    let topUp: AutoTopUpReport | undefined;
     try {
       // Get wallet provider
       const wallet = await this.getWalletProvider();
-      
-      // Ensure wallet is connected
-      const connected = await wallet.isConnected();
-      if (!connected) {
-        await wallet.connect();
-      }
-
-      const agentWallet = await wallet.getAddress();
+      const agentWallet = await ensureWalletConnected(wallet);
 
-      // Make initial request to get payment requirements
-      const initialResult = await this.gatewayClient.queryDatabase({
+      const queryRequest = {
         publisherId: params.providerId,
         agentWallet,
         sql: params.sql,
-      });
+      };
 
-      // If not 402, something unexpected or no payment needed
-      if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-        // This shouldn't happen for database queries, but handle it
-        if (initialResult.data) {
+      const { outcome } = await withAutoTopUp(
+        () => executeWithPayment<QueryResult>(
+          (paymentPayload) => this.gatewayClient.queryDatabase(queryRequest, paymentPayload),
+          {
+            ...this.payment,
+            wallet,
+            agentWallet,
+            publisherId: params.providerId,
+            dryRun: params.dryRun,
+            maxCost: params.maxCost !== undefined ? decimalToAtomic(params.maxCost) : undefined,
+            request: params.sql,
+            decodePaymentResponse: (encoded) => this.gatewayClient.decodePaymentResponse(encoded),
+            getSettlementTx: (data) => data.settlement?.transaction,
+          }
+        ),
+        this.payment.autoTopUp,
+        (amount) => this.depositCredits(amount),
+        { dryRun: params.dryRun, onTopUp: (report) => { topUp = report; } }
+      );
+
+      switch (outcome.status) {
+        case 'free':
+          // This shouldn't happen for database queries, but handle it
+          if (outcome.data) {
+            return {
+              success: true,
+              rows: outcome.data.rows,
+              rowCount: outcome.data.rowCount,
+              estimatedCost: outcome.data.estimatedCost,
+              actualCost: outcome.data.actualCost,
+              executionTime: outcome.data.executionTime,
+              topUp,
+            };
+          }
+          return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false, topUp };
+        case 'paid':
+          if (!outcome.data) {
+            return { success: false, error: 'No data returned from gateway', code: 'GATEWAY_ERROR', retryable: false, topUp };
+          }
           return {
             success: true,
-            rows: initialResult.data.rows,
-            rowCount: initialResult.data.rowCount,
-            estimatedCost: initialResult.data.estimatedCost,
-            actualCost: initialResult.data.actualCost,
-            executionTime: initialResult.data.executionTime,
+            rows: outcome.data.rows,
+            rowCount: outcome.data.rowCount,
+            estimatedCost: outcome.data.estimatedCost,
+            actualCost: outcome.data.actualCost,
+            executionTime: outcome.data.executionTime,
+            txHash: outcome.txHash,
+            topUp,
+          };
+        case 'quote':
+          return { success: true, dryRun: true, quote: outcome.quote };
+        case 'max_cost_exceeded':
+          return { success: false, error: outcome.error, quote: outcome.quote, topUp, ...toolErrorForOutcome(outcome) };
+        case 'budget_exceeded':
+          return { success: false, error: outcome.error, budgetExceeded: outcome.budget, topUp, ...toolErrorForOutcome(outcome) };
+        case 'settlement_failed':
+          return {
+            success: false,
+            error: outcome.error,
+            selfSettlement: outcome.selfSettlement,
+            gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+            topUp,
+            ...toolErrorForOutcome(outcome),
+          };
+        default:
+          return {
+            success: false,
+            error: outcome.error,
+            gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+            topUp,
+            ...toolErrorForOutcome(outcome),
           };
-        }
-        return { success: false, error: 'Unexpected response from gateway' };
-      }
-
-      // Extract payment requirement
-      const paymentRequirement = initialResult.paymentRequired.accepts[0];
-      if (!paymentRequirement) {
-        return { success: false, error: 'No payment method available' };
-      }
-
-      // Build and sign the payment authorization
-      const paymentPayload = await this.buildPaymentPayload(
-        paymentRequirement,
-        agentWallet,
-        wallet
-      );
-
-      // Retry request with payment
-      const paidResult = await this.gatewayClient.queryDatabase(
-        {
-          publisherId: params.providerId,
-          agentWallet,
-          sql: params.sql,
-        },
-        paymentPayload
-      );
-
-      if (!paidResult.data) {
-        return { success: false, error: 'No data returned from gateway' };
-      }
-
-      // Extract transaction hash from settlement or payment response
-      let txHash: string | undefined;
-      if (paidResult.data.settlement?.transaction) {
-        txHash = paidResult.data.settlement.transaction;
-      } else if (paidResult.paymentResponse) {
-        const paymentResponse = this.gatewayClient.decodePaymentResponse(paidResult.paymentResponse) as {
-          transaction?: string;
-        };
-        txHash = paymentResponse.transaction;
       }
-
-      return {
-        success: true,
-        rows: paidResult.data.rows,
-        rowCount: paidResult.data.rowCount,
-        estimatedCost: paidResult.data.estimatedCost,
-        actualCost: paidResult.data.actualCost,
-        executionTime: paidResult.data.executionTime,
-        txHash,
-      };
     } catch (error) {
       if (error instanceof UserRejectedError) {
-        return { success: false, error: 'User rejected the payment request' };
+        return { success: false, error: 'User rejected the payment request', topUp, ...toolErrorFor(error) };
       }
       if (error instanceof Error) {
-        return { success: false, error: error.message };
+        return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), topUp, ...toolErrorFor(error) };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', topUp, ...toolErrorFor(error) };
     }
   }
 
@@ -347,10 +385,11 @@ export class SerenService {
         } catch {
           errorBody = { error: errorText || 'Authentication failed' };
         }
-        return { 
-          success: false, 
-          error: `Admin authentication failed: ${errorBody.error || 'Please check your SEREN_API_KEY.'}` 
-        };
+        return failure(new GatewayHttpError(
+          `Admin authentication failed: ${errorBody.error || 'Please check your SEREN_API_KEY.'}`,
+          response.status,
+          { statusText: response.statusText, body: errorBody }
+        ));
       }
 
       if (!response.ok) {
@@ -362,10 +401,11 @@ export class SerenService {
           errorBody = { error: errorText || `HTTP ${response.status}` };
         }
         const errorMessage = errorBody.error || errorBody.message || `Query failed with status ${response.status}`;
-        return { 
-          success: false, 
-          error: errorMessage
-        };
+        const details = { statusText: response.statusText, body: errorBody };
+        // The gateway rejects malformed SQL before running it
+        return failure(response.status === 400 || response.status === 422
+          ? new InvalidSqlError(errorMessage, details)
+          : new GatewayHttpError(errorMessage, response.status, details));
       }
 
       const data = await response.json() as QueryResult;
@@ -382,7 +422,7 @@ export class SerenService {
       if (error instanceof Error) {
         return { success: false, error: `Network error: ${error.message}` };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
     }
   }
 
@@ -391,7 +431,12 @@ export class SerenService {
    * @param apiKey - SerenDB API key for authentication
    * @returns Publisher information
    */
-  async getPublisherInfo(apiKey: string): Promise<{ success: boolean; publisher?: Publisher; error?: string }> {
+  async getPublisherInfo(apiKey: string): Promise<{
+    success: boolean;
+    publisher?: Publisher;
+    error?: string;
+    gatewayError?: GatewayErrorInfo;
+  }> {
     try {
       if (!apiKey || !apiKey.trim()) {
         return { success: false, error: 'API key is required' };
@@ -411,10 +456,11 @@ export class SerenService {
       });
 
       if (response.status === 401 || response.status === 403) {
-        return {
-          success: false,
-          error: 'Admin authentication failed. Please check your SEREN_API_KEY.',
-        };
+        return failure(new GatewayHttpError(
+          'Admin authentication failed. Please check your SEREN_API_KEY.',
+          response.status,
+          { statusText: response.statusText }
+        ));
       }
 
       if (!response.ok) {
@@ -444,10 +490,11 @@ export class SerenService {
         } catch {
           errorBody = { error: errorText || `HTTP ${response.status}` };
         }
-        return {
-          success: false,
-          error: errorBody.error || errorBody.message || `Failed to fetch publisher info: ${response.status}`,
-        };
+        return failure(new GatewayHttpError(
+          errorBody.error || errorBody.message || `Failed to fetch publisher info: ${response.status}`,
+          response.status,
+          { statusText: response.statusText, body: errorBody }
+        ));
       }
 
       const data = await response.json() as Record<string, unknown>;
@@ -462,7 +509,7 @@ export class SerenService {
       if (error instanceof Error) {
         return { success: false, error: `Network error: ${error.message}` };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
     }
   }
 
@@ -483,7 +530,12 @@ export class SerenService {
    * @param apiKey - SerenDB API key for authentication
    * @returns Success status and message
    */
-  async updatePublisherConnection(connectionString: string, apiKey: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  async updatePublisherConnection(connectionString: string, apiKey: string): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    gatewayError?: GatewayErrorInfo;
+  }> {
     try {
       if (!connectionString || !connectionString.trim()) {
         return { success: false, error: 'Connection string is required' };
@@ -495,9 +547,9 @@ export class SerenService {
       return await this.gatewayClient.updatePublisherConnection(connectionString, apiKey);
     } catch (error) {
       if (error instanceof Error) {
-        return { success: false, error: error.message };
+        return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), ...toolErrorFor(error) };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
     }
   }
 
@@ -533,7 +585,7 @@ export class SerenService {
   async listPublishers(options?: {
     category?: string;
     type?: 'database' | 'api' | 'both';
-  }): Promise<{ success: boolean; publishers?: Publisher[]; error?: string }> {
+  }): Promise<{ success: boolean; publishers?: Publisher[]; error?: string; gatewayError?: GatewayErrorInfo }> {
     try {
       const publishers = await this.gatewayClient.listPublishers(options);
       return {
@@ -544,6 +596,7 @@ export class SerenService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        gatewayError: getGatewayErrorInfo(error),
       };
     }
   }
@@ -557,26 +610,22 @@ export class SerenService {
   async executeApiCall(params: ExecuteApiCallParams): Promise<ExecuteApiCallResult> {
     // Validate input
     if (!params.publisherId) {
-      return { success: false, error: 'publisherId is required' };
+      return invalidInput('publisherId is required');
     }
     if (!params.path) {
-      return { success: false, error: 'path is required' };
+      return invalidInput('path is required');
+    }
+    if (params.maxCost !== undefined && !isDecimalAmount(params.maxCost)) {
+      return invalidInput('maxCost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")');
     }
 
+    let topUp: AutoTopUpReport | undefined;
     try {
       // Get wallet provider
       const wallet = await this.getWalletProvider();
-      
-      // Ensure wallet is connected
-      const connected = await wallet.isConnected();
-      if (!connected) {
-        await wallet.connect();
-      }
+      const agentWallet = await ensureWalletConnected(wallet);
 
-      const agentWallet = await wallet.getAddress();
-
-      // Make initial request to get payment requirements
-      const initialResult = await this.gatewayClient.proxyRequest({
+      const proxyRequest = {
         publisherId: params.publisherId,
         agentWallet,
         request: {
@@ -585,139 +634,77 @@ export class SerenService {
           body: params.body,
           headers: params.headers,
         },
-      });
-
-      // If not 402, no payment needed or something unexpected
-      if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-        return {
-          success: true,
-          data: initialResult.data,
-        };
-      }
-
-      // Extract payment requirement
-      const paymentRequirement = initialResult.paymentRequired.accepts[0];
-      if (!paymentRequirement) {
-        return { success: false, error: 'No payment method available' };
-      }
-
-      // Build and sign the payment authorization
-      const paymentPayload = await this.buildPaymentPayload(
-        paymentRequirement,
-        agentWallet,
-        wallet
-      );
+      };
 
-      // Retry request with payment
-      const paidResult = await this.gatewayClient.proxyRequest(
-        {
-          publisherId: params.publisherId,
-          agentWallet,
-          request: {
-            method: params.method ?? 'GET',
-            path: params.path,
-            body: params.body,
-            headers: params.headers,
-          },
-        },
-        paymentPayload
+      const { outcome } = await withAutoTopUp(
+        () => executeWithPayment(
+          (paymentPayload) => this.gatewayClient.proxyRequest(proxyRequest, paymentPayload),
+          {
+            ...this.payment,
+            wallet,
+            agentWallet,
+            publisherId: params.publisherId,
+            dryRun: params.dryRun,
+            maxCost: params.maxCost !== undefined ? decimalToAtomic(params.maxCost) : undefined,
+            request: `${proxyRequest.request.method} ${proxyRequest.request.path}`,
+            decodePaymentResponse: (encoded) => this.gatewayClient.decodePaymentResponse(encoded),
+          }
+        ),
+        this.payment.autoTopUp,
+        (amount) => this.depositCredits(amount),
+        { dryRun: params.dryRun, onTopUp: (report) => { topUp = report; } }
       );
 
-      // Check if settlement failed
-      if (paidResult.status === 402) {
-        const errorMsg = (paidResult.paymentRequired as { error?: string })?.error ?? 'Payment settlement failed';
-        return { success: false, error: errorMsg };
-      }
-
-      // Extract transaction hash
-      let txHash: string | undefined;
-      if (paidResult.paymentResponse) {
-        const paymentResponse = this.gatewayClient.decodePaymentResponse(paidResult.paymentResponse) as {
-          transaction?: string;
-          txHash?: string;
-        };
-        txHash = paymentResponse.transaction || paymentResponse.txHash;
+      switch (outcome.status) {
+        case 'free':
+          return { success: true, data: outcome.data, topUp };
+        case 'paid':
+          return {
+            success: true,
+            data: outcome.data,
+            cost: outcome.cost,
+            txHash: outcome.txHash,
+            topUp,
+          };
+        case 'quote':
+          return { success: true, dryRun: true, quote: outcome.quote };
+        case 'max_cost_exceeded':
+          return { success: false, error: outcome.error, quote: outcome.quote, topUp, ...toolErrorForOutcome(outcome) };
+        case 'budget_exceeded':
+          return { success: false, error: outcome.error, budgetExceeded: outcome.budget, topUp, ...toolErrorForOutcome(outcome) };
+        case 'settlement_failed':
+          return {
+            success: false,
+            error: outcome.error,
+            selfSettlement: outcome.selfSettlement,
+            gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+            topUp,
+            ...toolErrorForOutcome(outcome),
+          };
+        default:
+          return {
+            success: false,
+            error: outcome.error,
+            gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+            topUp,
+            ...toolErrorForOutcome(outcome),
+          };
       }
-
-      return {
-        success: true,
-        data: paidResult.data,
-        cost: this.formatUsdc(paymentRequirement.maxAmountRequired),
-        txHash,
-      };
     } catch (error) {
       if (error instanceof UserRejectedError) {
-        return { success: false, error: 'User rejected the payment request' };
+        return { success: false, error: 'User rejected the payment request', topUp, ...toolErrorFor(error) };
       }
       if (error instanceof Error) {
-        return { success: false, error: error.message };
+        return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), topUp, ...toolErrorFor(error) };
       }
-      return { success: false, error: 'Unknown error occurred' };
+      return { success: false, error: 'Unknown error occurred', topUp, ...toolErrorFor(error) };
     }
   }
-
-  /**
-   * Format USDC amount for display
-   */
-  private formatUsdc(amount: string): string {
-    const value = BigInt(amount);
-    const decimals = 6n;
-    const whole = value / (10n ** decimals);
-    const fraction = value % (10n ** decimals);
-    return `${whole}.${fraction.toString().padStart(6, '0')} USDC`;
-  }
-
-  /**
-   * Build payment payload from payment requirement
-   */
-  private async buildPaymentPayload(
-    requirement: PaymentRequirement,
-    fromAddress: `0x${string}`,
-    wallet: WalletProvider
-  ): Promise<PaymentPayload> {
-    // Get EIP-712 domain from payment requirement
-    const eip712Config = requirement.extra?.eip712;
-    const domain = buildDomain({
-      chainId: eip712Config?.chainId ?? 8453,
-      verifyingContract: eip712Config?.verifyingContract ?? requirement.asset,
-      name: eip712Config?.name,
-      version: eip712Config?.version,
-    });
-
-    // Calculate validity window
-    const now = Math.floor(Date.now() / 1000);
-    const validAfter = now - 60; // Valid from 1 minute ago
-    const validBefore = now + requirement.maxTimeoutSeconds;
-
-    // Build authorization message
-    const message = buildAuthorizationMessage({
-      from: fromAddress,
-      to: requirement.payTo,
-      value: requirement.maxAmountRequired,
-      validAfter,
-      validBefore,
-    });
-
-    // Build typed data and sign
-    const typedData = buildTypedData(domain, message);
-    const signature = await wallet.signTypedData(typedData.domain, typedData.message);
-
-    return {
-      x402Version: 1,
-      scheme: requirement.scheme,
-      network: requirement.network,
-      payload: {
-        signature,
-        authorization: {
-          from: fromAddress,
-          to: requirement.payTo,
-          value: requirement.maxAmountRequired,
-          validAfter: validAfter.toString(),
-          validBefore: validBefore.toString(),
-          nonce: message.nonce,
-        },
-      },
-    };
-  }
 }
 
+/**
+ * Failed result carrying a gateway error's message and info
+ */
+function failure(error: GatewayHttpError): { success: false; error: string; gatewayError: GatewayErrorInfo } & ToolErrorFields {
+  return { success: false, error: error.message, gatewayError: error.toInfo(), ...toolErrorFor(error) };
+}
@@ -1,4 +1,4 @@
-// ABOUTME: EIP-712 typed data construction for USDC transferWithAuthorization
+// ABOUTME: EIP-712 typed data construction for USDC transfer/receiveWithAuthorization and permit
 // ABOUTME: Builds domain, message, and typed data structures for wallet signing
 
 import { randomBytes } from 'crypto';
@@ -49,6 +49,57 @@ export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
   ],
 } as const;
 
+/**
+ * EIP-712 type definitions for ReceiveWithAuthorization (EIP-3009)
+ * Same fields as TransferWithAuthorization; only the payee (`to`) can submit it.
+ */
+export const RECEIVE_WITH_AUTHORIZATION_TYPES = {
+  ReceiveWithAuthorization: TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization,
+} as const;
+
+/**
+ * EIP-2612 Permit message
+ */
+export interface PermitMessage {
+  owner: `0x${string}`;
+  spender: `0x${string}`;
+  value: bigint;
+  /** Sequential per-owner nonce from the token's nonces(owner) */
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/**
+ * EIP-712 type definitions for Permit (EIP-2612)
+ */
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * EIP-3009 CancelAuthorization message
+ */
+export interface CancelAuthorizationMessage {
+  authorizer: `0x${string}`;
+  nonce: `0x${string}`;
+}
+
+/**
+ * EIP-712 type definitions for CancelAuthorization (EIP-3009)
+ */
+export const CANCEL_AUTHORIZATION_TYPES = {
+  CancelAuthorization: [
+    { name: 'authorizer', type: 'address' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
 /**
  * Parameters for building EIP-712 domain
  */
@@ -97,6 +148,30 @@ export function buildAuthorizationMessage(params: BuildAuthorizationParams): Tra
   };
 }
 
+/**
+ * Parameters for building a permit message
+ */
+export interface BuildPermitParams {
+  owner: string;
+  spender: string;
+  value: string | bigint;
+  nonce: string | number | bigint;
+  deadline: string | number | bigint;
+}
+
+/**
+ * Builds the EIP-2612 Permit message
+ */
+export function buildPermitMessage(params: BuildPermitParams): PermitMessage {
+  return {
+    owner: params.owner as `0x${string}`,
+    spender: params.spender as `0x${string}`,
+    value: BigInt(params.value),
+    nonce: BigInt(params.nonce),
+    deadline: BigInt(params.deadline),
+  };
+}
+
 /**
  * Builds complete EIP-712 typed data structure for signing
  */
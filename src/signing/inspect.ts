@@ -0,0 +1,228 @@
+// ABOUTME: Verifies and explains signed x402 payment payloads
+// ABOUTME: Recovers the EIP-712 signer, checks it against the payer and renders a readable summary
+
+import { recoverTypedDataAddress } from 'viem';
+import type { PaymentPayload } from '../gateway/types.js';
+import { formatUsdc } from '../utils/usdc.js';
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  type Eip712Domain,
+  type PermitMessage,
+  type TransferAuthorizationMessage,
+} from './eip712.js';
+import {
+  getPaymentTerms,
+  getPaymentTypedData,
+  isPermitPayload,
+  type AssetTransferMethod,
+  type PaymentTerms,
+  type PaymentTypedData,
+} from './schemes.js';
+
+/**
+ * Result of checking a payload signature against its payer
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  /** Address recovered from the signature */
+  signer?: `0x${string}`;
+  /** authorization.from, or permit.owner for permits */
+  expected: string;
+  error?: string;
+}
+
+/**
+ * Everything a payload authorizes, decoded for a human reviewer
+ */
+export interface PaymentInspection {
+  /** One-line summary (e.g., "transfer 0.05 USDC to 0x7099…79C8 valid until 14:32 UTC") */
+  summary: string;
+  scheme: string;
+  assetTransferMethod: AssetTransferMethod;
+  network: string;
+  from: string;
+  to: string;
+  /** Human-readable amount (e.g., "0.05 USDC") */
+  amount: string;
+  /** ISO 8601 timestamps of the validity window */
+  validAfter: string;
+  validBefore: string;
+  /** bytes32 authorization nonce, or the sequential permit nonce */
+  nonce: string;
+  expired: boolean;
+  signature: SignatureVerification;
+}
+
+/**
+ * Decode an EIP-3009 payload's authorization into the signed message
+ * @throws Error for permit payloads, which sign a Permit message instead
+ */
+export function toAuthorizationMessage(paymentPayload: PaymentPayload): TransferAuthorizationMessage {
+  const typedData = getPaymentTypedData(paymentPayload);
+  if (typedData.primaryType === 'Permit') {
+    throw new Error('Permit payloads do not carry an EIP-3009 authorization');
+  }
+  return typedData.message;
+}
+
+/**
+ * Recover the address that signed payment typed data under the given domain
+ */
+export async function recoverTypedDataSigner(
+  domain: Eip712Domain,
+  typedData: PaymentTypedData,
+  signature: `0x${string}`
+): Promise<`0x${string}`> {
+  switch (typedData.primaryType) {
+    case 'Permit':
+      return recoverTypedDataAddress({ domain, ...typedData, signature });
+    case 'ReceiveWithAuthorization':
+      return recoverTypedDataAddress({ domain, ...typedData, signature });
+    case 'TransferWithAuthorization':
+      return recoverTypedDataAddress({ domain, ...typedData, signature });
+  }
+}
+
+/**
+ * Recover the address that signed a TransferWithAuthorization message
+ */
+export async function recoverAuthorizationSigner(
+  domain: Eip712Domain,
+  message: TransferAuthorizationMessage,
+  signature: `0x${string}`
+): Promise<`0x${string}`> {
+  return recoverTypedDataSigner(
+    domain,
+    { primaryType: 'TransferWithAuthorization', types: TRANSFER_WITH_AUTHORIZATION_TYPES, message },
+    signature
+  );
+}
+
+/**
+ * Recover the address that signed a payload under the given domain
+ */
+export async function recoverPaymentSigner(
+  paymentPayload: PaymentPayload,
+  domain: Eip712Domain
+): Promise<`0x${string}`> {
+  return recoverTypedDataSigner(
+    domain,
+    getPaymentTypedData(paymentPayload),
+    paymentPayload.payload.signature as `0x${string}`
+  );
+}
+
+/**
+ * Check that a payload was signed by its payer (authorization.from or permit.owner)
+ * A malformed signature is reported as invalid rather than thrown.
+ */
+export async function verifyPaymentSignature(
+  paymentPayload: PaymentPayload,
+  domain: Eip712Domain
+): Promise<SignatureVerification> {
+  const expected = getPaymentTerms(paymentPayload).from;
+  const field = isPermitPayload(paymentPayload.payload) ? 'permit.owner' : 'authorization.from';
+  if (!paymentPayload.payload.signature) {
+    return { valid: false, expected, error: 'Payload is not signed' };
+  }
+
+  let signer: `0x${string}`;
+  try {
+    signer = await recoverPaymentSigner(paymentPayload, domain);
+  } catch (error) {
+    return { valid: false, expected, error: `Invalid signature: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  if (signer.toLowerCase() !== expected.toLowerCase()) {
+    return { valid: false, signer, expected, error: `Signed by ${signer}, not ${field} ${expected}` };
+  }
+  return { valid: true, signer, expected };
+}
+
+/**
+ * Describe what a payment allows, e.g. "transfer 0.05 USDC to 0x7099…79C8 valid until 14:32 UTC"
+ * or "allow 0x7099…79C8 to spend 0.05 USDC valid until 14:32 UTC" for permits.
+ * The date is included when the window does not end on the current UTC day.
+ */
+export function describePaymentTerms(
+  terms: Pick<PaymentTerms, 'method' | 'to' | 'value' | 'validAfter' | 'validBefore'>,
+  now: number = Date.now()
+): string {
+  const amount = formatUsdc(terms.value.toString());
+  const parts = [
+    terms.method === 'permit'
+      ? `allow ${shortAddress(terms.to)} to spend ${amount}`
+      : `transfer ${amount} to ${shortAddress(terms.to)}`,
+  ];
+
+  const validAfter = Number(terms.validAfter) * 1000;
+  if (validAfter > now) {
+    parts.push(`valid from ${formatUtc(validAfter, now)}`);
+  }
+
+  const validBefore = Number(terms.validBefore) * 1000;
+  parts.push(`${validBefore <= now ? 'expired at' : 'valid until'} ${formatUtc(validBefore, now)}`);
+  return parts.join(' ');
+}
+
+/**
+ * Describe a TransferWithAuthorization or ReceiveWithAuthorization message
+ */
+export function describeAuthorization(
+  message: TransferAuthorizationMessage,
+  now: number = Date.now()
+): string {
+  return describePaymentTerms({ method: 'transferWithAuthorization', ...message }, now);
+}
+
+/**
+ * Describe an EIP-2612 permit message
+ */
+export function describePermit(message: PermitMessage, now: number = Date.now()): string {
+  return describePaymentTerms(
+    { method: 'permit', to: message.spender, value: message.value, validAfter: 0n, validBefore: message.deadline },
+    now
+  );
+}
+
+/**
+ * Verify and summarize a payment payload
+ */
+export async function inspectPaymentPayload(
+  paymentPayload: PaymentPayload,
+  domain: Eip712Domain,
+  now: number = Date.now()
+): Promise<PaymentInspection> {
+  const terms = getPaymentTerms(paymentPayload);
+
+  return {
+    summary: describePaymentTerms(terms, now),
+    scheme: paymentPayload.scheme,
+    assetTransferMethod: terms.method,
+    network: paymentPayload.network,
+    from: terms.from,
+    to: terms.to,
+    amount: formatUsdc(terms.value.toString()),
+    validAfter: new Date(Number(terms.validAfter) * 1000).toISOString(),
+    validBefore: new Date(Number(terms.validBefore) * 1000).toISOString(),
+    nonce: terms.nonce,
+    expired: Number(terms.validBefore) * 1000 <= now,
+    signature: await verifyPaymentSignature(paymentPayload, domain),
+  };
+}
+
+/**
+ * Shorten an address for display (0x7099…79C8)
+ */
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * HH:MM UTC, with the date when it is not on the same UTC day as now
+ */
+function formatUtc(timestamp: number, now: number): string {
+  const iso = new Date(timestamp).toISOString();
+  const time = `${iso.slice(11, 16)} UTC`;
+  return iso.slice(0, 10) === new Date(now).toISOString().slice(0, 10) ? time : `${iso.slice(0, 10)} ${time}`;
+}
@@ -0,0 +1,194 @@
+// ABOUTME: Asset transfer methods a payment can be signed with and how one is chosen
+// ABOUTME: Maps requirement.scheme and extra.assetTransferMethod to typed data and normalizes signed payloads
+
+import type {
+  AuthorizationPayload,
+  PaymentPayload,
+  PaymentRequirement,
+  PermitPayload,
+} from '../gateway/types.js';
+import {
+  PERMIT_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  type PermitMessage,
+  type TransferAuthorizationMessage,
+} from './eip712.js';
+
+/**
+ * How a signed payment moves USDC
+ * - transferWithAuthorization: EIP-3009, anyone holding the signature can submit it
+ * - receiveWithAuthorization: EIP-3009, only the payee can submit it, so it cannot be front-run
+ * - permit: EIP-2612 allowance for payTo, which then pulls the amount with transferFrom
+ */
+export type AssetTransferMethod = 'transferWithAuthorization' | 'receiveWithAuthorization' | 'permit';
+
+/** Used when a requirement does not set extra.assetTransferMethod */
+export const DEFAULT_ASSET_TRANSFER_METHOD: AssetTransferMethod = 'transferWithAuthorization';
+
+/** x402 schemes we can sign and the transfer methods each accepts */
+export const SUPPORTED_SCHEMES: Record<string, readonly AssetTransferMethod[]> = {
+  exact: ['transferWithAuthorization', 'receiveWithAuthorization', 'permit'],
+};
+
+/**
+ * Error thrown when a requirement asks for a scheme or transfer method we cannot sign
+ */
+export class UnsupportedPaymentSchemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedPaymentSchemeError';
+    Object.setPrototypeOf(this, UnsupportedPaymentSchemeError.prototype);
+  }
+}
+
+/**
+ * Explain why a requirement's scheme or transfer method cannot be signed
+ * @returns undefined when it is supported
+ */
+export function getSchemeProblem(requirement: PaymentRequirement): string | undefined {
+  const methods = SUPPORTED_SCHEMES[requirement.scheme];
+  if (!methods) {
+    const supported = Object.keys(SUPPORTED_SCHEMES).map((scheme) => `"${scheme}"`).join(', ');
+    return `Unsupported payment scheme "${requirement.scheme}" (expected ${supported})`;
+  }
+
+  const method = requirement.extra?.assetTransferMethod ?? DEFAULT_ASSET_TRANSFER_METHOD;
+  if (!methods.includes(method as AssetTransferMethod)) {
+    return `Unsupported asset transfer method "${method}" for scheme "${requirement.scheme}" (expected ${methods.join(', ')})`;
+  }
+  return undefined;
+}
+
+/**
+ * Pick the transfer method to sign a requirement with
+ * @throws UnsupportedPaymentSchemeError when the scheme or method is not supported
+ */
+export function resolveTransferMethod(requirement: PaymentRequirement): AssetTransferMethod {
+  const problem = getSchemeProblem(requirement);
+  if (problem) {
+    throw new UnsupportedPaymentSchemeError(problem);
+  }
+  return (requirement.extra?.assetTransferMethod ?? DEFAULT_ASSET_TRANSFER_METHOD) as AssetTransferMethod;
+}
+
+/**
+ * Check whether a signed payload is an EIP-2612 permit
+ */
+export function isPermitPayload(payload: PaymentPayload['payload']): payload is PermitPayload {
+  return payload.assetTransferMethod === 'permit';
+}
+
+/**
+ * Check whether a signed payload is an EIP-3009 authorization (transfer or receive)
+ */
+export function isAuthorizationPayload(payload: PaymentPayload['payload']): payload is AuthorizationPayload {
+  return !isPermitPayload(payload);
+}
+
+/**
+ * Transfer method a payload was signed with
+ */
+export function getPayloadTransferMethod(paymentPayload: PaymentPayload): AssetTransferMethod {
+  return paymentPayload.payload.assetTransferMethod ?? DEFAULT_ASSET_TRANSFER_METHOD;
+}
+
+/**
+ * What a payload lets payTo collect, in one shape for every transfer method
+ * Permits have no start time (validAfter is 0), their deadline is validBefore
+ * and their nonce is the owner's sequential permit nonce.
+ */
+export interface PaymentTerms {
+  method: AssetTransferMethod;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  /** Atomic USDC units */
+  value: bigint;
+  /** Unix seconds */
+  validAfter: bigint;
+  /** Unix seconds */
+  validBefore: bigint;
+  nonce: string;
+}
+
+/**
+ * Normalize a signed payload into its payment terms
+ */
+export function getPaymentTerms(paymentPayload: PaymentPayload): PaymentTerms {
+  const { payload } = paymentPayload;
+  if (isPermitPayload(payload)) {
+    return {
+      method: 'permit',
+      from: payload.permit.owner as `0x${string}`,
+      to: payload.permit.spender as `0x${string}`,
+      value: BigInt(payload.permit.value),
+      validAfter: 0n,
+      validBefore: BigInt(payload.permit.deadline),
+      nonce: payload.permit.nonce,
+    };
+  }
+
+  const { authorization } = payload;
+  return {
+    method: getPayloadTransferMethod(paymentPayload),
+    from: authorization.from as `0x${string}`,
+    to: authorization.to as `0x${string}`,
+    value: BigInt(authorization.value),
+    validAfter: BigInt(authorization.validAfter),
+    validBefore: BigInt(authorization.validBefore),
+    nonce: authorization.nonce,
+  };
+}
+
+/**
+ * Typed data (without the domain) a payload was signed as
+ */
+export type PaymentTypedData =
+  | {
+      primaryType: 'TransferWithAuthorization';
+      types: typeof TRANSFER_WITH_AUTHORIZATION_TYPES;
+      message: TransferAuthorizationMessage;
+    }
+  | {
+      primaryType: 'ReceiveWithAuthorization';
+      types: typeof RECEIVE_WITH_AUTHORIZATION_TYPES;
+      message: TransferAuthorizationMessage;
+    }
+  | {
+      primaryType: 'Permit';
+      types: typeof PERMIT_TYPES;
+      message: PermitMessage;
+    };
+
+/**
+ * Rebuild the typed data a payload was signed as, for signature recovery
+ */
+export function getPaymentTypedData(paymentPayload: PaymentPayload): PaymentTypedData {
+  const terms = getPaymentTerms(paymentPayload);
+
+  if (terms.method === 'permit') {
+    return {
+      primaryType: 'Permit',
+      types: PERMIT_TYPES,
+      message: {
+        owner: terms.from,
+        spender: terms.to,
+        value: terms.value,
+        nonce: BigInt(terms.nonce),
+        deadline: terms.validBefore,
+      },
+    };
+  }
+
+  const message: TransferAuthorizationMessage = {
+    from: terms.from,
+    to: terms.to,
+    value: terms.value,
+    validAfter: terms.validAfter,
+    validBefore: terms.validBefore,
+    nonce: terms.nonce as `0x${string}`,
+  };
+  return terms.method === 'receiveWithAuthorization'
+    ? { primaryType: 'ReceiveWithAuthorization', types: RECEIVE_WITH_AUTHORIZATION_TYPES, message }
+    : { primaryType: 'TransferWithAuthorization', types: TRANSFER_WITH_AUTHORIZATION_TYPES, message };
+}
@@ -0,0 +1,57 @@
+// ABOUTME: MCP tool to cancel an unused payment authorization on-chain
+// ABOUTME: Signs CancelAuthorization with the paying wallet and broadcasts it through DirectRelay
+
+import type { WalletProvider } from '../wallet/types.js';
+import { UserRejectedError } from '../wallet/types.js';
+import type { CancellationRelay, NonceRegistry } from '../payment/nonces.js';
+import { RelayNotAvailableError } from '../relay/types.js';
+import { ensureWalletConnected } from '../payment/orchestrator.js';
+import { invalidInput, toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface CancelAuthorizationInput {
+  nonce: string;
+}
+
+export interface CancelAuthorizationOutput extends ToolErrorFields {
+  success: boolean;
+  nonce?: string;
+  txHash?: string;
+  confirmed?: boolean;
+  error?: string;
+}
+
+/**
+ * Cancel an authorization that was signed but never settled, e.g. after aborting a paid request
+ */
+export async function cancelAuthorization(
+  input: CancelAuthorizationInput,
+  wallet: WalletProvider,
+  registry: Pick<NonceRegistry, 'cancel'>,
+  relay: CancellationRelay
+): Promise<CancelAuthorizationOutput> {
+  if (!/^0x[a-fA-F0-9]{64}$/.test(input.nonce ?? '')) {
+    return invalidInput('nonce must be a 32-byte hex string (0x followed by 64 hex characters)');
+  }
+
+  try {
+    await ensureWalletConnected(wallet);
+    const result = await registry.cancel(input.nonce, wallet, relay);
+    return { success: true, nonce: input.nonce, txHash: result.txHash, confirmed: result.confirmed };
+  } catch (error) {
+    if (error instanceof UserRejectedError) {
+      return { success: false, error: 'User rejected the cancellation request', ...toolErrorFor(error) };
+    }
+    if (error instanceof RelayNotAvailableError) {
+      return {
+        success: false,
+        error: `${error.message}. Set RELAY_PRIVATE_KEY to pay gas for cancellations.`,
+        ...toolErrorFor(error),
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
@@ -3,14 +3,18 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { WalletProvider } from '../wallet/types.js';
+import { getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
 
-export interface CheckCreditBalanceOutput {
+export interface CheckCreditBalanceOutput extends ToolErrorFields {
   success: boolean;
   wallet?: string;
   balance?: string;
   reserved?: string;
   available?: string;
   error?: string;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -35,6 +39,8 @@ export async function checkCreditBalance(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      gatewayError: getGatewayErrorInfo(error),
+      ...toolErrorFor(error),
     };
   }
 }
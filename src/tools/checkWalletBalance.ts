@@ -0,0 +1,52 @@
+// ABOUTME: MCP tool to check the connected wallet's on-chain USDC and ETH balances
+// ABOUTME: Optionally lists recent USDC transfers into and out of the wallet
+
+import type { WalletProvider } from '../wallet/types.js';
+import type { UsdcTransfer, WalletBalanceReader } from '../wallet/balance.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface CheckWalletBalanceInput {
+  /** Include USDC transfers from roughly the last few hours */
+  include_transfers?: boolean;
+}
+
+export interface CheckWalletBalanceOutput extends ToolErrorFields {
+  success: boolean;
+  wallet?: string;
+  network?: string;
+  usdc?: string;
+  eth?: string;
+  usdcContract?: string;
+  recentTransfers?: UsdcTransfer[];
+  error?: string;
+}
+
+/**
+ * Check on-chain balances for the connected wallet
+ */
+export async function checkWalletBalance(
+  input: CheckWalletBalanceInput,
+  wallet: WalletProvider,
+  reader: WalletBalanceReader
+): Promise<CheckWalletBalanceOutput> {
+  try {
+    const address = await wallet.getAddress();
+    const balances = await reader.getBalances(address, input.include_transfers ?? false);
+
+    return {
+      success: true,
+      wallet: balances.address,
+      network: balances.network,
+      usdc: balances.usdc.balance,
+      eth: `${balances.eth.balance} ETH`,
+      usdcContract: balances.usdc.contract,
+      recentTransfers: balances.recentTransfers,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
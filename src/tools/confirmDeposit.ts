@@ -3,19 +3,23 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { WalletProvider } from '../wallet/types.js';
+import { getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, type ToolErrorFields } from './errors.js';
 
 export interface ConfirmDepositInput {
   txHash: string;
   amount: string;
 }
 
-export interface ConfirmDepositOutput {
+export interface ConfirmDepositOutput extends ToolErrorFields {
   success: boolean;
   wallet?: string;
   balance?: string;
   reserved?: string;
   available?: string;
   error?: string;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -29,13 +33,13 @@ export async function confirmDeposit(
   // Validate txHash
   const txHashError = validateTxHash(input.txHash);
   if (txHashError) {
-    return { success: false, error: txHashError };
+    return invalidInput(txHashError);
   }
 
   // Validate amount
   const amountError = validateAmount(input.amount);
   if (amountError) {
-    return { success: false, error: amountError };
+    return invalidInput(amountError);
   }
 
   try {
@@ -53,6 +57,8 @@ export async function confirmDeposit(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      gatewayError: getGatewayErrorInfo(error),
+      ...toolErrorFor(error),
     };
   }
 }
@@ -0,0 +1,84 @@
+// ABOUTME: MCP tool to pair a mobile wallet over WalletConnect
+// ABOUTME: Returns the pairing URI and a terminal QR code, then waits for approval on request
+
+import QRCode from 'qrcode';
+import type { WalletConnectProvider } from '../wallet/walletconnect.js';
+import { WalletConnectTimeoutError } from '../wallet/walletconnect.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface ConnectWalletInput {
+  /** Block until the wallet approves the pending pairing */
+  wait_for_approval?: boolean;
+  timeout_seconds?: number;
+}
+
+export interface ConnectWalletOutput extends ToolErrorFields {
+  success: boolean;
+  status?: 'connected' | 'pending_approval';
+  address?: string;
+  /** wc: URI to paste into a wallet or open as a deep link */
+  pairingUri?: string;
+  /** QR code of the pairing URI rendered for a terminal */
+  qrCode?: string;
+  error?: string;
+}
+
+/**
+ * Connect a mobile wallet via WalletConnect.
+ * The first call returns the pairing URI and QR code; call again with
+ * wait_for_approval to block until the wallet approves the session.
+ */
+export async function connectWallet(
+  input: ConnectWalletInput,
+  provider: WalletConnectProvider
+): Promise<ConnectWalletOutput> {
+  try {
+    if (provider.restoreSession()) {
+      return {
+        success: true,
+        status: 'connected',
+        address: await provider.getAddress(),
+      };
+    }
+
+    const pairingUri = await provider.startPairing();
+
+    if (!input.wait_for_approval) {
+      return {
+        success: true,
+        status: 'pending_approval',
+        pairingUri,
+        qrCode: await QRCode.toString(pairingUri, { type: 'terminal', small: true }),
+      };
+    }
+
+    try {
+      await provider.waitForApproval((input.timeout_seconds ?? 120) * 1000);
+    } catch (error) {
+      if (error instanceof WalletConnectTimeoutError) {
+        return {
+          success: false,
+          status: 'pending_approval',
+          pairingUri,
+          error: error.message,
+          // The pairing stays open, so waiting again can still succeed
+          code: 'WALLET_ERROR',
+          retryable: true,
+        };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      status: 'connected',
+      address: await provider.getAddress(),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
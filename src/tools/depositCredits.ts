@@ -3,20 +3,28 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { WalletProvider } from '../wallet/types.js';
-import type { PaymentPayload, PaymentRequirement, CreditBalance } from '../gateway/types.js';
+import type { CreditBalance } from '../gateway/types.js';
 import { UserRejectedError } from '../wallet/types.js';
-import { buildDomain, buildAuthorizationMessage, buildTypedData } from '../signing/eip712.js';
+import { ensureWalletConnected, executeWithPayment } from '../payment/orchestrator.js';
+import type { PaymentContext } from '../payment/types.js';
+import type { BudgetExceededDetails } from '../payment/budget.js';
+import { gatewayErrorFromOutcome, getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, toolErrorForOutcome, type ToolErrorFields } from './errors.js';
 
 export interface DepositCreditsInput {
   amount: string;
 }
 
-export interface DepositCreditsOutput {
+export interface DepositCreditsOutput extends ToolErrorFields {
   success: boolean;
   deposited?: string;
   balance?: CreditBalance;
   txHash?: string;
   error?: string;
+  /** Spending limit that refused the deposit */
+  budgetExceeded?: BudgetExceededDetails;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -25,85 +33,84 @@ export interface DepositCreditsOutput {
 export async function depositCredits(
   input: DepositCreditsInput,
   wallet: WalletProvider,
-  gateway: GatewayClient
+  gateway: GatewayClient,
+  payment: PaymentContext = {}
 ): Promise<DepositCreditsOutput> {
   // Validate amount
   const validationError = validateAmount(input.amount);
   if (validationError) {
-    return { success: false, error: validationError };
+    return invalidInput(validationError);
   }
 
   try {
-    // Ensure wallet is connected
-    const connected = await wallet.isConnected();
-    if (!connected) {
-      await wallet.connect();
-    }
-
-    const agentWallet = await wallet.getAddress();
-
-    // Make initial request to get payment requirements
-    const initialResult = await gateway.depositCredits(input.amount);
+    const agentWallet = await ensureWalletConnected(wallet);
+
+    const outcome = await executeWithPayment(
+      (paymentPayload) => gateway.depositCredits(input.amount, paymentPayload),
+      {
+        ...payment,
+        wallet,
+        agentWallet,
+        request: `Deposit ${input.amount} USDC`,
+        getSettlementTx: (data) => data.transaction,
+      }
+    );
 
-    // If not 402, something unexpected happened
-    if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-      // Already succeeded without payment (shouldn't happen)
-      if (initialResult.data) {
+    switch (outcome.status) {
+      case 'free':
+        // Already succeeded without payment (shouldn't happen)
+        if (outcome.data) {
+          return {
+            success: true,
+            deposited: outcome.data.deposited,
+            balance: outcome.data.balance,
+            txHash: outcome.data.transaction,
+          };
+        }
+        return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false };
+      case 'paid':
+        if (!outcome.data) {
+          return { success: false, error: 'Deposit failed: no response data', code: 'GATEWAY_ERROR', retryable: false };
+        }
         return {
           success: true,
-          deposited: initialResult.data.deposited,
-          balance: initialResult.data.balance,
-          txHash: initialResult.data.transaction,
+          deposited: outcome.data.deposited,
+          balance: outcome.data.balance,
+          txHash: outcome.txHash,
+        };
+      case 'quote':
+        // Dry run is never requested for deposits
+        return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false };
+      case 'budget_exceeded':
+        return { success: false, error: outcome.error, budgetExceeded: outcome.budget, ...toolErrorForOutcome(outcome) };
+      default:
+        return {
+          success: false,
+          error: outcome.error,
+          gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+          ...toolErrorForOutcome(outcome),
         };
-      }
-      return { success: false, error: 'Unexpected response from gateway' };
-    }
-
-    // Extract payment requirement
-    const paymentRequirement = initialResult.paymentRequired.accepts[0];
-    if (!paymentRequirement) {
-      return { success: false, error: 'No payment method available' };
-    }
-
-    // Build and sign the payment authorization
-    const paymentPayload = await buildPaymentPayload(
-      paymentRequirement,
-      agentWallet,
-      wallet
-    );
-
-    // Retry request with payment
-    const paidResult = await gateway.depositCredits(input.amount, paymentPayload);
-
-    // Check if settlement failed (got another 402 after sending payment)
-    if (paidResult.status === 402) {
-      const errorMsg =
-        (paidResult.paymentRequired as { error?: string })?.error ??
-        'Payment settlement failed';
-      return { success: false, error: errorMsg };
-    }
-
-    if (!paidResult.data) {
-      return { success: false, error: 'Deposit failed: no response data' };
     }
-
-    return {
-      success: true,
-      deposited: paidResult.data.deposited,
-      balance: paidResult.data.balance,
-      txHash: paidResult.data.transaction,
-    };
   } catch (error) {
     if (error instanceof UserRejectedError) {
-      return { success: false, error: 'User rejected the payment request' };
+      return { success: false, error: 'User rejected the payment request', ...toolErrorFor(error) };
     }
     if (error instanceof Error) {
-      return { success: false, error: error.message };
+      return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), ...toolErrorFor(error) };
     }
-    return { success: false, error: 'Unknown error occurred' };
+    return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
   }
 }
 
+/**
+ * Payment context for deposits, made directly or on behalf of a paid query
+ * Keeps the ledger, nonce registry and wallet profile so the authorization can be listed and canceled.
+ * Deposits count against spending limits like any other signed payment, but never trigger another top-up.
+ */
+export function depositContext(payment: PaymentContext): PaymentContext {
+  return { ...payment, autoTopUp: undefined };
+}
+
 function validateAmount(amount: string): string | null {
   if (!amount) {
     return 'amount is required';
@@ -119,53 +126,3 @@ function validateAmount(amount: string): string | null {
 
   return null;
 }
-
-async function buildPaymentPayload(
-  requirement: PaymentRequirement,
-  fromAddress: `0x${string}`,
-  wallet: WalletProvider
-): Promise<PaymentPayload> {
-  // Get EIP-712 domain from payment requirement
-  const eip712Config = requirement.extra?.eip712;
-  const domain = buildDomain({
-    chainId: eip712Config?.chainId ?? 8453,
-    verifyingContract: eip712Config?.verifyingContract ?? requirement.asset,
-    name: eip712Config?.name,
-    version: eip712Config?.version,
-  });
-
-  // Calculate validity window
-  const now = Math.floor(Date.now() / 1000);
-  const validAfter = now - 60; // Valid from 1 minute ago
-  const validBefore = now + requirement.maxTimeoutSeconds;
-
-  // Build authorization message
-  const message = buildAuthorizationMessage({
-    from: fromAddress,
-    to: requirement.payTo,
-    value: requirement.maxAmountRequired,
-    validAfter,
-    validBefore,
-  });
-
-  // Build typed data and sign
-  const typedData = buildTypedData(domain, message);
-  const signature = await wallet.signTypedData(typedData.domain, typedData.message);
-
-  return {
-    x402Version: 1,
-    scheme: requirement.scheme,
-    network: requirement.network,
-    payload: {
-      signature,
-      authorization: {
-        from: fromAddress,
-        to: requirement.payTo,
-        value: requirement.maxAmountRequired,
-        validAfter: validAfter.toString(),
-        validBefore: validBefore.toString(),
-        nonce: message.nonce,
-      },
-    },
-  };
-}
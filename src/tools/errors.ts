@@ -0,0 +1,171 @@
+// ABOUTME: Machine-readable error codes, retry hints and suggested next tools for failed tool results
+// ABOUTME: Maps failed payment outcomes and thrown errors so agents never have to parse error text
+
+import type { FailedPaymentOutcome } from '../payment/types.js';
+import { BudgetExceededError } from '../payment/budget.js';
+import { GatewayError, InsufficientCreditBalanceError, type GatewayErrorKind } from '../gateway/errors.js';
+import { X402FetchError } from '../gateway/fetch.js';
+import { X402ProtocolError } from '../gateway/x402.js';
+import { UserRejectedError, WalletNotAvailableError, WalletNotConnectedError } from '../wallet/types.js';
+import { KeystoreError } from '../wallet/keystore.js';
+import { HardwareWalletError } from '../wallet/hardware.js';
+import { UnknownWalletProfileError } from '../wallet/profiles.js';
+import { NoRelayAvailableError } from '../relay/manager.js';
+import { RelayNotAvailableError, RelaySubmissionError } from '../relay/types.js';
+import { isRetryableError } from '../utils/retry.js';
+
+export type ToolErrorCode =
+  | 'INVALID_INPUT'
+  | 'INSUFFICIENT_CREDIT'
+  | 'INSUFFICIENT_FUNDS'
+  | 'BUDGET_EXCEEDED'
+  | 'MAX_COST_EXCEEDED'
+  | 'USER_REJECTED'
+  | 'PAYMENT_REJECTED'
+  | 'REQUIREMENT_REJECTED'
+  | 'NO_PAYMENT_METHOD'
+  | 'SQL_REJECTED'
+  | 'PUBLISHER_NOT_FOUND'
+  | 'GATEWAY_TIMEOUT'
+  | 'GATEWAY_UNAVAILABLE'
+  | 'GATEWAY_ERROR'
+  | 'HTTP_ERROR'
+  | 'NETWORK_ERROR'
+  | 'WALLET_ERROR'
+  | 'RELAY_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Tool call an agent can make to recover from a failure
+ */
+export interface SuggestedToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Fields every failed tool result carries alongside its error message
+ */
+export interface ToolErrorFields {
+  /** Machine-readable failure code */
+  code?: ToolErrorCode;
+  /** Whether repeating the same call may succeed */
+  retryable?: boolean;
+  /** Tool to call before retrying, with suggested arguments */
+  nextTool?: SuggestedToolCall;
+}
+
+const GATEWAY_ERROR_CODES: Record<GatewayErrorKind, ToolErrorCode> = {
+  gateway_http: 'GATEWAY_ERROR',
+  gateway_timeout: 'GATEWAY_TIMEOUT',
+  circuit_open: 'GATEWAY_UNAVAILABLE',
+  payment_rejected: 'PAYMENT_REJECTED',
+  insufficient_credit: 'INSUFFICIENT_CREDIT',
+  publisher_not_found: 'PUBLISHER_NOT_FOUND',
+  invalid_sql: 'SQL_REJECTED',
+};
+
+/**
+ * Failed result for input the tool refused before doing anything
+ */
+export function invalidInput(error: string): { success: false; error: string } & ToolErrorFields {
+  return { success: false, error, code: 'INVALID_INPUT', retryable: false };
+}
+
+/**
+ * Code and hints for a payment that did not produce a usable response
+ */
+export function toolErrorForOutcome(outcome: FailedPaymentOutcome): ToolErrorFields {
+  switch (outcome.status) {
+    case 'insufficient_credit':
+      return {
+        code: 'INSUFFICIENT_CREDIT',
+        retryable: false,
+        nextTool: { tool: 'deposit_credits', arguments: { amount: outcome.minimumRequired } },
+      };
+    case 'insufficient_funds':
+      return { code: 'INSUFFICIENT_FUNDS', retryable: false, nextTool: { tool: 'check_wallet_balance', arguments: {} } };
+    case 'budget_exceeded':
+      return { code: 'BUDGET_EXCEEDED', retryable: false };
+    case 'max_cost_exceeded':
+      return { code: 'MAX_COST_EXCEEDED', retryable: false };
+    case 'user_rejected':
+      return { code: 'USER_REJECTED', retryable: false };
+    case 'requirement_rejected':
+      return { code: 'REQUIREMENT_REJECTED', retryable: false };
+    case 'no_payment_method':
+      return { code: 'NO_PAYMENT_METHOD', retryable: false };
+    case 'settlement_failed': {
+      const report = outcome.selfSettlement;
+      if (report && !report.credited) {
+        // The transfer went out but the gateway has not credited it yet
+        return {
+          code: 'PAYMENT_REJECTED',
+          retryable: false,
+          nextTool: {
+            tool: 'confirm_deposit',
+            arguments: { txHash: report.txHash, amount: report.amount.replace(/ USDC$/, '') },
+          },
+        };
+      }
+      // A credited self-settlement pays for the retry from the prepaid balance
+      return { code: 'PAYMENT_REJECTED', retryable: report?.credited ?? false };
+    }
+  }
+}
+
+/**
+ * Code and hints for an error thrown while running a tool
+ */
+export function toolErrorFor(error: unknown): ToolErrorFields {
+  if (error instanceof UserRejectedError) {
+    return { code: 'USER_REJECTED', retryable: false };
+  }
+  if (error instanceof BudgetExceededError) {
+    return { code: 'BUDGET_EXCEEDED', retryable: false };
+  }
+  if (error instanceof InsufficientCreditBalanceError) {
+    return toolErrorForOutcome({
+      status: 'insufficient_credit',
+      error: error.message,
+      minimumRequired: error.minimumRequired,
+      depositEndpoint: error.depositEndpoint,
+    });
+  }
+  if (error instanceof GatewayError) {
+    const code = GATEWAY_ERROR_CODES[error.kind];
+    return code === 'PUBLISHER_NOT_FOUND'
+      ? { code, retryable: false, nextTool: { tool: 'list_publishers', arguments: {} } }
+      : { code, retryable: error.retryable };
+  }
+  if (error instanceof X402FetchError) {
+    return { code: 'HTTP_ERROR', retryable: error.status >= 500 };
+  }
+  if (error instanceof X402ProtocolError) {
+    return { code: 'GATEWAY_ERROR', retryable: false };
+  }
+  if (error instanceof UnknownWalletProfileError) {
+    return { code: 'WALLET_ERROR', retryable: false, nextTool: { tool: 'list_wallets', arguments: {} } };
+  }
+  if (error instanceof WalletNotConnectedError) {
+    return { code: 'WALLET_ERROR', retryable: false, nextTool: { tool: 'connect_wallet', arguments: {} } };
+  }
+  if (
+    error instanceof WalletNotAvailableError ||
+    error instanceof KeystoreError ||
+    error instanceof HardwareWalletError
+  ) {
+    return { code: 'WALLET_ERROR', retryable: false };
+  }
+  if (
+    error instanceof NoRelayAvailableError ||
+    error instanceof RelayNotAvailableError ||
+    error instanceof RelaySubmissionError
+  ) {
+    return { code: 'RELAY_ERROR', retryable: false };
+  }
+  if (isRetryableError(error)) {
+    return { code: 'NETWORK_ERROR', retryable: true };
+  }
+  return { code: 'INTERNAL_ERROR', retryable: false };
+}
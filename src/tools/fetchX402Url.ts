@@ -0,0 +1,154 @@
+// ABOUTME: MCP tool for fetching any x402-protected URL, paying its 402 response with the configured wallet
+// ABOUTME: Wraps X402Fetch and reads the response body as JSON or text
+
+import type { WalletProvider } from '../wallet/types.js';
+import { UserRejectedError } from '../wallet/types.js';
+import { X402Fetch, X402FetchError } from '../gateway/fetch.js';
+import type { SettlementResponse } from '../gateway/x402.js';
+import type { PaymentContext, PaymentQuote } from '../payment/types.js';
+import type { BudgetExceededDetails } from '../payment/budget.js';
+import { decimalToAtomic, isDecimalAmount } from '../utils/usdc.js';
+import { invalidInput, toolErrorFor, toolErrorForOutcome, type ToolErrorFields } from './errors.js';
+
+/** Response bodies longer than this are truncated before being returned to the agent */
+export const MAX_RESPONSE_CHARS = 100_000;
+
+export interface FetchX402UrlInput {
+  url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  /** Request body; non-string values are sent as JSON */
+  body?: unknown;
+  /** Return the payment quote without signing or paying */
+  dry_run?: boolean;
+  /** Refuse to pay when the quoted price exceeds this amount (decimal USDC, e.g., "0.10") */
+  max_cost?: string;
+}
+
+export interface FetchX402UrlOutput extends ToolErrorFields {
+  success: boolean;
+  /** HTTP status of the final response */
+  status?: number;
+  data?: unknown;
+  /** True when data was cut to MAX_RESPONSE_CHARS */
+  truncated?: boolean;
+  cost?: string;
+  txHash?: string;
+  settlement?: SettlementResponse;
+  error?: string;
+  budgetExceeded?: BudgetExceededDetails;
+  dryRun?: boolean;
+  quote?: PaymentQuote;
+}
+
+/**
+ * Fetch an arbitrary x402-protected URL, paying once if it responds with 402
+ */
+export async function fetchX402Url(
+  input: FetchX402UrlInput,
+  wallet: WalletProvider,
+  payment: PaymentContext = {},
+  fetchImpl?: typeof fetch
+): Promise<FetchX402UrlOutput> {
+  const validationError = validateInput(input);
+  if (validationError) {
+    return invalidInput(validationError);
+  }
+
+  try {
+    const client = new X402Fetch(wallet, payment, fetchImpl);
+    const headers = new Headers(input.headers);
+    let body: string | undefined;
+    if (typeof input.body === 'string') {
+      body = input.body;
+    } else if (input.body !== undefined) {
+      body = JSON.stringify(input.body);
+      if (!headers.has('content-type')) {
+        headers.set('content-type', 'application/json');
+      }
+    }
+
+    const outcome = await client.fetchWithPayment(input.url, {
+      method: input.method ?? 'GET',
+      headers,
+      body,
+      dryRun: input.dry_run,
+      maxCost: input.max_cost !== undefined ? decimalToAtomic(input.max_cost) : undefined,
+    });
+
+    switch (outcome.status) {
+      case 'free':
+        return { ...(await readResponse(outcome.data as Response)) };
+      case 'paid':
+        return {
+          ...(await readResponse(outcome.data as Response)),
+          cost: outcome.cost,
+          txHash: outcome.txHash,
+          settlement: outcome.settlement,
+        };
+      case 'quote':
+        return { success: true, dryRun: true, quote: outcome.quote };
+      case 'max_cost_exceeded':
+        return { success: false, error: outcome.error, quote: outcome.quote, ...toolErrorForOutcome(outcome) };
+      case 'budget_exceeded':
+        return { success: false, error: outcome.error, budgetExceeded: outcome.budget, ...toolErrorForOutcome(outcome) };
+      default:
+        return { success: false, error: outcome.error, ...toolErrorForOutcome(outcome) };
+    }
+  } catch (error) {
+    if (error instanceof UserRejectedError) {
+      return { success: false, error: 'User rejected the payment request', ...toolErrorFor(error) };
+    }
+    if (error instanceof X402FetchError) {
+      return {
+        success: false,
+        status: error.status,
+        error: error.message,
+        data: truncate(error.body).data,
+        ...toolErrorFor(error),
+      };
+    }
+    if (error instanceof Error) {
+      return { success: false, error: error.message, ...toolErrorFor(error) };
+    }
+    return { success: false, error: 'Unknown error occurred', ...toolErrorFor(error) };
+  }
+}
+
+async function readResponse(response: Response): Promise<FetchX402UrlOutput> {
+  const text = await response.text();
+  const contentType = response.headers.get('content-type') ?? '';
+  const result: FetchX402UrlOutput = { success: response.ok, status: response.status };
+
+  if (contentType.includes('json') && text.length <= MAX_RESPONSE_CHARS) {
+    try {
+      result.data = JSON.parse(text);
+    } catch {
+      result.data = text;
+    }
+  } else {
+    Object.assign(result, truncate(text));
+  }
+
+  if (!response.ok) {
+    result.error = `HTTP ${response.status}`;
+  }
+  return result;
+}
+
+function truncate(text: string): { data: string; truncated?: boolean } {
+  if (text.length <= MAX_RESPONSE_CHARS) {
+    return { data: text };
+  }
+  return { data: text.slice(0, MAX_RESPONSE_CHARS), truncated: true };
+}
+
+function validateInput(input: FetchX402UrlInput): string | null {
+  if (!input.url) {
+    return 'url is required';
+  }
+  if (input.max_cost !== undefined && !isDecimalAmount(input.max_cost)) {
+    return 'max_cost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")';
+  }
+  return null;
+}
@@ -3,15 +3,19 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { Publisher } from '../gateway/types.js';
+import { getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, type ToolErrorFields } from './errors.js';
 
 export interface GetPublisherDetailsInput {
   publisher_id: string;
 }
 
-export interface GetPublisherDetailsOutput {
+export interface GetPublisherDetailsOutput extends ToolErrorFields {
   success: boolean;
   publisher?: Publisher;
   error?: string;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -23,10 +27,7 @@ export async function getPublisherDetails(
 ): Promise<GetPublisherDetailsOutput> {
   // Validate input
   if (!input.publisher_id || input.publisher_id.trim() === '') {
-    return {
-      success: false,
-      error: 'publisher_id is required',
-    };
+    return invalidInput('publisher_id is required');
   }
 
   try {
@@ -40,6 +41,8 @@ export async function getPublisherDetails(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      gatewayError: getGatewayErrorInfo(error),
+      ...toolErrorFor(error),
     };
   }
 }
@@ -3,15 +3,19 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { PublisherPricingConfig } from '../gateway/types.js';
+import { getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, type ToolErrorFields } from './errors.js';
 
 export interface GetPublisherPricingDetailsInput {
   publisher_id: string;
 }
 
-export interface GetPublisherPricingDetailsOutput {
+export interface GetPublisherPricingDetailsOutput extends ToolErrorFields {
   success: boolean;
   pricing?: PublisherPricingConfig;
   error?: string;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -22,10 +26,7 @@ export async function getPublisherPricingDetails(
   gateway: GatewayClient
 ): Promise<GetPublisherPricingDetailsOutput> {
   if (!input.publisher_id) {
-    return {
-      success: false,
-      error: 'Publisher ID is required',
-    };
+    return invalidInput('Publisher ID is required');
   }
 
   try {
@@ -38,6 +39,8 @@ export async function getPublisherPricingDetails(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      gatewayError: getGatewayErrorInfo(error),
+      ...toolErrorFor(error),
     };
   }
 }
@@ -0,0 +1,112 @@
+// ABOUTME: MCP tool to audit a payment payload before or after signing
+// ABOUTME: Decodes JSON or a base64 X-PAYMENT header, verifies the signer and summarizes the authorization or permit
+
+import { z } from 'zod';
+import { NETWORKS, matchesNetwork } from '../config/networks.js';
+import type { PaymentPayload } from '../gateway/types.js';
+import { normalizePaymentPayload } from '../gateway/x402.js';
+import { buildDomain } from '../signing/eip712.js';
+import { inspectPaymentPayload, type PaymentInspection } from '../signing/inspect.js';
+import { invalidInput, type ToolErrorFields } from './errors.js';
+
+export interface InspectPaymentInput {
+  /** Payment payload as JSON or as the base64 X-PAYMENT / PAYMENT-SIGNATURE header value */
+  payment: string;
+  /** EIP-712 domain name the payload was signed under (defaults to "USD Coin") */
+  eip712_name?: string;
+  /** EIP-712 domain version (defaults to "2") */
+  eip712_version?: string;
+}
+
+export interface InspectPaymentOutput extends ToolErrorFields {
+  success: boolean;
+  inspection?: PaymentInspection;
+  error?: string;
+}
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be an address');
+const atomicAmount = z.string().regex(/^\d+$/, 'must be an atomic amount');
+const timestamp = z.string().regex(/^\d+$/, 'must be a unix timestamp');
+
+const authorizationPayloadSchema = z.object({
+  signature: z.string().default(''),
+  assetTransferMethod: z.enum(['transferWithAuthorization', 'receiveWithAuthorization']).optional(),
+  authorization: z.object({
+    from: address,
+    to: address,
+    value: atomicAmount,
+    validAfter: timestamp,
+    validBefore: timestamp,
+    nonce: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'must be 32 bytes hex'),
+  }),
+});
+
+const permitPayloadSchema = z.object({
+  signature: z.string().default(''),
+  assetTransferMethod: z.literal('permit'),
+  permit: z.object({
+    owner: address,
+    spender: address,
+    value: atomicAmount,
+    nonce: z.string().regex(/^\d+$/, 'must be a permit nonce'),
+    deadline: timestamp,
+  }),
+});
+
+const paymentPayloadSchema = z.object({
+  x402Version: z.number(),
+  scheme: z.string(),
+  network: z.string(),
+  // Non-permit payloads fail the permit literal, so the authorization schema reports their errors
+  payload: z.union([permitPayloadSchema, authorizationPayloadSchema]),
+});
+
+/**
+ * Verify who signed a payment payload and describe what it authorizes
+ */
+export async function inspectPayment(input: InspectPaymentInput): Promise<InspectPaymentOutput> {
+  let paymentPayload: PaymentPayload;
+  try {
+    paymentPayload = decodePaymentPayload(input.payment);
+  } catch (error) {
+    return invalidInput(error instanceof Error ? error.message : 'Invalid payment payload');
+  }
+
+  const network = Object.values(NETWORKS).find((candidate) => matchesNetwork(candidate, paymentPayload.network));
+  if (!network) {
+    return invalidInput(`Unsupported payment network "${paymentPayload.network}"`);
+  }
+
+  const domain = buildDomain({
+    chainId: network.chainId,
+    verifyingContract: network.usdc,
+    name: input.eip712_name,
+    version: input.eip712_version,
+  });
+
+  return { success: true, inspection: await inspectPaymentPayload(paymentPayload, domain) };
+}
+
+/**
+ * Parse a payload from JSON or a base64-encoded X-PAYMENT / PAYMENT-SIGNATURE header
+ */
+function decodePaymentPayload(payment: string): PaymentPayload {
+  const text = (payment ?? '').trim();
+  if (!text) {
+    throw new Error('payment is required');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.startsWith('{') ? text : Buffer.from(text, 'base64').toString('utf8'));
+  } catch {
+    throw new Error('payment must be a JSON payment payload or a base64 X-PAYMENT header');
+  }
+
+  const result = paymentPayloadSchema.safeParse(normalizePaymentPayload(parsed));
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Invalid payment payload: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,39 @@
+// ABOUTME: MCP tool to list payment authorizations signed in this session with their on-chain state
+// ABOUTME: Uses USDC authorizationState to tell used authorizations from unused and expired ones
+
+import type { AuthorizationCheck, AuthorizationStatus, NonceRegistry } from '../payment/nonces.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface ListAuthorizationsInput {
+  status?: AuthorizationStatus;
+}
+
+export interface ListAuthorizationsOutput extends ToolErrorFields {
+  success: boolean;
+  authorizations?: AuthorizationCheck[];
+  count?: number;
+  error?: string;
+}
+
+/**
+ * List issued authorizations, newest first, with their nonce state read from USDC
+ */
+export async function listAuthorizations(
+  input: ListAuthorizationsInput,
+  registry: Pick<NonceRegistry, 'checkAll'>
+): Promise<ListAuthorizationsOutput> {
+  try {
+    const checks = await registry.checkAll();
+    const authorizations = input.status
+      ? checks.filter((check) => check.status === input.status)
+      : checks;
+
+    return { success: true, authorizations, count: authorizations.length };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
@@ -0,0 +1,60 @@
+// ABOUTME: MCP tool to list payments recorded in the local payment ledger
+// ABOUTME: Supports date range, publisher and settlement status filters
+
+import type { PaymentLedger, PaymentRecord, PaymentStatus } from '../payment/ledger.js';
+import { formatUsdc } from '../utils/usdc.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface ListPaymentsInput {
+  from?: string;
+  to?: string;
+  publisher_id?: string;
+  wallet?: string;
+  status?: PaymentStatus;
+  limit?: number;
+}
+
+export interface ListPaymentsOutput extends ToolErrorFields {
+  success: boolean;
+  payments?: PaymentRecord[];
+  count?: number;
+  /** Sum of settled payments in the result set (human-readable USDC) */
+  totalSettled?: string;
+  error?: string;
+}
+
+/**
+ * List recorded payment authorizations, newest first
+ */
+export async function listPayments(
+  input: ListPaymentsInput,
+  ledger: PaymentLedger
+): Promise<ListPaymentsOutput> {
+  try {
+    const payments = ledger.listPayments({
+      from: input.from,
+      to: input.to,
+      publisherId: input.publisher_id,
+      wallet: input.wallet,
+      status: input.status,
+      limit: input.limit,
+    });
+
+    const settled = payments
+      .filter((payment) => payment.status === 'settled')
+      .reduce((total, payment) => total + BigInt(payment.amount), 0n);
+
+    return {
+      success: true,
+      payments,
+      count: payments.length,
+      totalSettled: formatUsdc(settled.toString()),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
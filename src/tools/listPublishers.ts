@@ -3,16 +3,20 @@
 
 import type { GatewayClient } from '../gateway/client.js';
 import type { Publisher } from '../gateway/types.js';
+import { getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
 
 export interface ListPublishersInput {
   category?: string;
   type?: 'database' | 'api' | 'both';
 }
 
-export interface ListPublishersOutput {
+export interface ListPublishersOutput extends ToolErrorFields {
   success: boolean;
   publishers?: Publisher[];
   error?: string;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -42,6 +46,8 @@ export async function listPublishers(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      gatewayError: getGatewayErrorInfo(error),
+      ...toolErrorFor(error),
     };
   }
 }
@@ -0,0 +1,81 @@
+// ABOUTME: MCP tool to list configured wallet profiles
+// ABOUTME: Reports each profile's address, prepaid credit balance and settled payments
+
+import type { GatewayClient } from '../gateway/client.js';
+import type { PaymentLedger } from '../payment/ledger.js';
+import type { WalletProfiles } from '../wallet/profiles.js';
+import { formatUsdc } from '../utils/usdc.js';
+import { toolErrorFor, type ToolErrorFields } from './errors.js';
+
+export interface WalletProfileSummary {
+  name: string;
+  isDefault: boolean;
+  address?: string;
+  credits?: {
+    balance: string;
+    reserved: string;
+    available: string;
+  };
+  /** Settled payments recorded in the ledger for this profile */
+  payments: {
+    count: number;
+    totalSettled: string;
+  };
+  /** Why the address or credits could not be read (e.g., locked keystore) */
+  error?: string;
+}
+
+export interface ListWalletsOutput extends ToolErrorFields {
+  success: boolean;
+  wallets?: WalletProfileSummary[];
+  error?: string;
+}
+
+/**
+ * Summarize every wallet profile
+ * Profiles that fail to connect are still listed, with the error.
+ */
+export async function listWallets(
+  profiles: WalletProfiles,
+  gateway: GatewayClient,
+  ledger: PaymentLedger
+): Promise<ListWalletsOutput> {
+  try {
+    const wallets: WalletProfileSummary[] = [];
+
+    for (const name of profiles.names()) {
+      const settled = ledger.getSettledTotal(name);
+      const summary: WalletProfileSummary = {
+        name,
+        isDefault: name === profiles.defaultProfile,
+        payments: {
+          count: settled.count,
+          totalSettled: formatUsdc(settled.amount),
+        },
+      };
+
+      try {
+        const wallet = await profiles.getWallet(name);
+        summary.address = await wallet.getAddress();
+        const credits = await gateway.getCreditBalance(summary.address);
+        summary.credits = {
+          balance: credits.balance,
+          reserved: credits.reserved,
+          available: credits.available,
+        };
+      } catch (error) {
+        summary.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      wallets.push(summary);
+    }
+
+    return { success: true, wallets };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...toolErrorFor(error),
+    };
+  }
+}
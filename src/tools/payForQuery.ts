@@ -3,11 +3,16 @@
 
 import type { WalletProvider } from '../wallet/types.js';
 import type { GatewayClient } from '../gateway/client.js';
-import type { PaymentPayload, PaymentRequirement } from '../gateway/types.js';
-import { isInsufficientCreditError } from '../gateway/types.js';
 import { UserRejectedError } from '../wallet/types.js';
-import { buildDomain, buildAuthorizationMessage, buildTypedData } from '../signing/eip712.js';
-import { formatUsdc } from '../utils/usdc.js';
+import { ensureWalletConnected, executeWithPayment } from '../payment/orchestrator.js';
+import type { PaymentContext, PaymentQuote } from '../payment/types.js';
+import type { BudgetExceededDetails } from '../payment/budget.js';
+import { withAutoTopUp, type AutoTopUpReport } from '../payment/topup.js';
+import type { SelfSettlementReport } from '../payment/settlement.js';
+import { decimalToAtomic, isDecimalAmount } from '../utils/usdc.js';
+import { depositCredits, depositContext } from './depositCredits.js';
+import { gatewayErrorFromOutcome, getGatewayErrorInfo, type GatewayErrorInfo } from '../gateway/errors.js';
+import { invalidInput, toolErrorFor, toolErrorForOutcome, type ToolErrorFields } from './errors.js';
 
 export interface PayForQueryInput {
   publisher_id: string;
@@ -17,14 +22,27 @@ export interface PayForQueryInput {
     body?: unknown;
     headers?: Record<string, string>;
   };
+  /** Return the payment quote without signing or paying */
+  dry_run?: boolean;
+  /** Refuse to pay when the quoted price exceeds this amount (decimal USDC, e.g., "0.10") */
+  max_cost?: string;
 }
 
-export interface PayForQueryOutput {
+export interface PayForQueryOutput extends ToolErrorFields {
   success: boolean;
   data?: unknown;
   cost?: string;
   txHash?: string;
   error?: string;
+  budgetExceeded?: BudgetExceededDetails;
+  dryRun?: boolean;
+  quote?: PaymentQuote;
+  /** Credits deposited automatically before the request was retried */
+  topUp?: AutoTopUpReport;
+  /** Transfer this server settled after the gateway failed to */
+  selfSettlement?: SelfSettlementReport;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -33,25 +51,20 @@ export interface PayForQueryOutput {
 export async function payForQuery(
   input: PayForQueryInput,
   wallet: WalletProvider,
-  gateway: GatewayClient
+  gateway: GatewayClient,
+  payment: PaymentContext = {}
 ): Promise<PayForQueryOutput> {
   // Validate input
   const validationError = validateInput(input);
   if (validationError) {
-    return { success: false, error: validationError };
+    return invalidInput(validationError);
   }
 
+  let topUp: AutoTopUpReport | undefined;
   try {
-    // Ensure wallet is connected
-    const connected = await wallet.isConnected();
-    if (!connected) {
-      await wallet.connect();
-    }
-
-    const agentWallet = await wallet.getAddress();
+    const agentWallet = await ensureWalletConnected(wallet);
 
-    // Make initial request to get payment requirements
-    const initialResult = await gateway.proxyRequest({
+    const proxyRequest = {
       publisherId: input.publisher_id,
       agentWallet,
       request: {
@@ -60,90 +73,70 @@ export async function payForQuery(
         body: input.request.body,
         headers: input.request.headers,
       },
-    });
-
-    // If not 402, something is wrong or no payment needed
-    if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-      return {
-        success: true,
-        data: initialResult.data,
-      };
-    }
-
-    // Check if this is an insufficient credit error (prepaid credits publisher)
-    if (isInsufficientCreditError(initialResult.paymentRequired)) {
-      const creditError = initialResult.paymentRequired;
-      return {
-        success: false,
-        error: `Insufficient credit balance. Minimum required: ${creditError.minimumRequired} USDC. Please deposit funds to continue.`,
-      };
-    }
-
-    // Extract payment requirement
-    const paymentRequirement = initialResult.paymentRequired.accepts[0];
-    if (!paymentRequirement) {
-      return { success: false, error: 'No payment method available' };
-    }
-
-    // Build and sign the payment authorization
-    const paymentPayload = await buildPaymentPayload(
-      paymentRequirement,
-      agentWallet,
-      wallet
-    );
+    };
 
-    // Retry request with payment
-    const paidResult = await gateway.proxyRequest(
-      {
-        publisherId: input.publisher_id,
-        agentWallet,
-        request: {
-          method: input.request.method ?? 'GET',
-          path: input.request.path,
-          body: input.request.body,
-          headers: input.request.headers,
-        },
-      },
-      paymentPayload
+    const { outcome } = await withAutoTopUp(
+      () => executeWithPayment(
+        (paymentPayload) => gateway.proxyRequest(proxyRequest, paymentPayload),
+        {
+          ...payment,
+          wallet,
+          agentWallet,
+          publisherId: input.publisher_id,
+          dryRun: input.dry_run,
+          maxCost: input.max_cost !== undefined ? decimalToAtomic(input.max_cost) : undefined,
+          request: `${proxyRequest.request.method} ${proxyRequest.request.path}`,
+          decodePaymentResponse: (encoded) => gateway.decodePaymentResponse(encoded),
+        }
+      ),
+      payment.autoTopUp,
+      (amount) => depositCredits({ amount }, wallet, gateway, depositContext(payment)),
+      { dryRun: input.dry_run, onTopUp: (report) => { topUp = report; } }
     );
 
-    // Check if settlement failed (got another 402 after sending payment)
-    if (paidResult.status === 402) {
-      const errorMsg =
-        (paidResult.paymentRequired as { error?: string })?.error ??
-        'Payment settlement failed';
-      return { success: false, error: errorMsg };
+    switch (outcome.status) {
+      case 'free':
+        return { success: true, data: outcome.data, topUp };
+      case 'paid':
+        return {
+          success: true,
+          data: outcome.data,
+          cost: outcome.cost,
+          txHash: outcome.txHash,
+          topUp,
+        };
+      case 'quote':
+        return { success: true, dryRun: true, quote: outcome.quote };
+      case 'max_cost_exceeded':
+        return { success: false, error: outcome.error, quote: outcome.quote, topUp, ...toolErrorForOutcome(outcome) };
+      case 'budget_exceeded':
+        return { success: false, error: outcome.error, budgetExceeded: outcome.budget, topUp, ...toolErrorForOutcome(outcome) };
+      case 'settlement_failed':
+        return {
+          success: false,
+          error: outcome.error,
+          selfSettlement: outcome.selfSettlement,
+          gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+          topUp,
+          ...toolErrorForOutcome(outcome),
+        };
+      default:
+        return {
+          success: false,
+          error: outcome.error,
+          gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+          topUp,
+          ...toolErrorForOutcome(outcome),
+        };
     }
-
-    // Extract transaction hash from payment response
-    let txHash: string | undefined;
-    if (paidResult.paymentResponse) {
-      const paymentResponse = gateway.decodePaymentResponse(paidResult.paymentResponse) as {
-        txHash?: string;
-      };
-      txHash = paymentResponse.txHash;
-    }
-
-    return {
-      success: true,
-      data: paidResult.data,
-      cost: formatUsdc(paymentRequirement.maxAmountRequired),
-      txHash,
-    };
   } catch (error) {
     if (error instanceof UserRejectedError) {
-      return { success: false, error: 'User rejected the payment request' };
+      return { success: false, error: 'User rejected the payment request', topUp, ...toolErrorFor(error) };
     }
     if (error instanceof Error) {
-      if (error.message.includes('Gateway') || error.message.includes('unavailable')) {
-        return { success: false, error: error.message };
-      }
-      if (error.message.includes('Payment') || error.message.includes('rejected')) {
-        return { success: false, error: error.message };
-      }
-      return { success: false, error: error.message };
+      return { success: false, error: error.message, gatewayError: getGatewayErrorInfo(error), topUp, ...toolErrorFor(error) };
     }
-    return { success: false, error: 'Unknown error occurred' };
+    return { success: false, error: 'Unknown error occurred', topUp, ...toolErrorFor(error) };
   }
 }
 
@@ -157,55 +150,8 @@ function validateInput(input: PayForQueryInput): string | null {
   if (!input.request.path) {
     return 'request.path is required';
   }
+  if (input.max_cost !== undefined && !isDecimalAmount(input.max_cost)) {
+    return 'max_cost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")';
+  }
   return null;
 }
-
-async function buildPaymentPayload(
-  requirement: PaymentRequirement,
-  fromAddress: `0x${string}`,
-  wallet: WalletProvider
-): Promise<PaymentPayload> {
-  // Get EIP-712 domain from payment requirement
-  const eip712Config = requirement.extra?.eip712;
-  const domain = buildDomain({
-    chainId: eip712Config?.chainId ?? 8453,
-    verifyingContract: eip712Config?.verifyingContract ?? requirement.asset,
-    name: eip712Config?.name,
-    version: eip712Config?.version,
-  });
-
-  // Calculate validity window
-  const now = Math.floor(Date.now() / 1000);
-  const validAfter = now - 60; // Valid from 1 minute ago
-  const validBefore = now + requirement.maxTimeoutSeconds;
-
-  // Build authorization message
-  const message = buildAuthorizationMessage({
-    from: fromAddress,
-    to: requirement.payTo,
-    value: requirement.maxAmountRequired,
-    validAfter,
-    validBefore,
-  });
-
-  // Build typed data and sign
-  const typedData = buildTypedData(domain, message);
-  const signature = await wallet.signTypedData(typedData.domain, typedData.message);
-
-  return {
-    x402Version: 1,
-    scheme: requirement.scheme,
-    network: requirement.network,
-    payload: {
-      signature,
-      authorization: {
-        from: fromAddress,
-        to: requirement.payTo,
-        value: requirement.maxAmountRequired,
-        validAfter: validAfter.toString(),
-        validBefore: validBefore.toString(),
-        nonce: message.nonce,
-      },
-    },
-  };
-}
@@ -3,20 +3,37 @@
 
 import type { WalletProvider } from '../wallet/types.js';
 import type { GatewayClient } from '../gateway/client.js';
-import type { PaymentPayload, PaymentRequirement, QueryResult } from '../gateway/types.js';
-import { isInsufficientCreditError } from '../gateway/types.js';
+import type { QueryResult } from '../gateway/types.js';
 import { UserRejectedError } from '../wallet/types.js';
-import { buildDomain, buildAuthorizationMessage, buildTypedData } from '../signing/eip712.js';
-import { formatUsdc } from '../utils/usdc.js';
+import { ensureWalletConnected, executeWithPayment } from '../payment/orchestrator.js';
+import type { PaymentContext, PaymentQuote } from '../payment/types.js';
+import type { BudgetExceededDetails } from '../payment/budget.js';
+import { withAutoTopUp, type AutoTopUpReport } from '../payment/topup.js';
+import type { SelfSettlementReport } from '../payment/settlement.js';
+import { decimalToAtomic, isDecimalAmount } from '../utils/usdc.js';
+import { depositCredits, depositContext } from './depositCredits.js';
 import { retryWithBackoff, isRetryableError } from '../utils/retry.js';
+import {
+  GatewayHttpError,
+  GatewayTimeoutError,
+  InvalidSqlError,
+  gatewayErrorFromOutcome,
+  getGatewayErrorInfo,
+  type GatewayErrorInfo,
+} from '../gateway/errors.js';
 import { config } from '../config/index.js';
+import { invalidInput, toolErrorFor, toolErrorForOutcome, type ToolErrorFields } from './errors.js';
 
 export interface QueryDatabaseInput {
   publisher_id: string;
   sql: string;
+  /** Return the payment quote without signing or paying */
+  dry_run?: boolean;
+  /** Refuse to pay when the quoted price exceeds this amount (decimal USDC, e.g., "0.10") */
+  max_cost?: string;
 }
 
-export interface QueryDatabaseOutput {
+export interface QueryDatabaseOutput extends ToolErrorFields {
   success: boolean;
   rows?: unknown[];
   rowCount?: number;
@@ -25,6 +42,15 @@ export interface QueryDatabaseOutput {
   executionTime?: number;
   txHash?: string;
   error?: string;
+  budgetExceeded?: BudgetExceededDetails;
+  dryRun?: boolean;
+  quote?: PaymentQuote;
+  /** Credits deposited automatically before the query was retried */
+  topUp?: AutoTopUpReport;
+  /** Transfer this server settled after the gateway failed to */
+  selfSettlement?: SelfSettlementReport;
+  /** Kind, HTTP status and retryability of the gateway failure behind error */
+  gatewayError?: GatewayErrorInfo;
 }
 
 /**
@@ -33,191 +59,165 @@ export interface QueryDatabaseOutput {
 export async function queryDatabase(
   input: QueryDatabaseInput,
   wallet: WalletProvider,
-  gateway: GatewayClient
+  gateway: GatewayClient,
+  payment: PaymentContext = {}
 ): Promise<QueryDatabaseOutput> {
   // Validate input
   const validationError = validateInput(input);
   if (validationError) {
-    return { success: false, error: validationError };
+    return invalidInput(validationError);
+  }
+  if (!input.sql.trim().toUpperCase().startsWith('SELECT')) {
+    // Basic SQL validation - must start with SELECT
+    const sqlError = new InvalidSqlError('Only SELECT queries are allowed');
+    return { success: false, error: sqlError.message, gatewayError: sqlError.toInfo(), ...toolErrorFor(sqlError) };
   }
 
+  let topUp: AutoTopUpReport | undefined;
   try {
     // Log query before execution
     console.log('\n📝 Executing query:');
     console.log('SQL:', input.sql.trim());
     console.log('Publisher ID:', input.publisher_id);
     
-    // Ensure wallet is connected
-    const connected = await wallet.isConnected();
-    if (!connected) {
-      await wallet.connect();
-    }
-
-    const agentWallet = await wallet.getAddress();
+    const agentWallet = await ensureWalletConnected(wallet);
     console.log('Agent Wallet:', agentWallet);
 
-    // Make initial request to get payment requirements (with retry for connection issues)
-    const initialResult = await retryWithBackoff(
-      async () => {
-        return await gateway.queryDatabase({
-          publisherId: input.publisher_id,
-          agentWallet,
-          sql: input.sql,
-        });
-      },
-      {
-        maxAttempts: config.QUERY_RETRY_ATTEMPTS + 1, // +1 because first attempt is not a retry
-        delayMs: config.QUERY_RETRY_DELAY_MS,
-        shouldRetry: (error, attempt) => {
-          // Only retry on retryable errors (timeouts, connection issues, 5xx errors)
-          // Note: 402 responses are returned normally, not thrown, so they won't trigger retries
-          return isRetryableError(error);
-        },
-        onRetry: (error, attempt) => {
-          console.warn(`⚠️  Query request failed (attempt ${attempt}), retrying...`);
-          if (error instanceof Error) {
-            const errorAny = error as any;
-            if (errorAny.errorBody?.details) {
-              console.warn(`   Error: ${errorAny.errorBody.details}`);
-            }
-          }
-        }
-      }
-    );
-
-    // If not 402, something unexpected or no payment needed
-    if (initialResult.status !== 402 || !initialResult.paymentRequired) {
-      // This shouldn't happen for database queries, but handle it
-      if (initialResult.data) {
-        return {
-          success: true,
-          rows: initialResult.data.rows,
-          rowCount: initialResult.data.rowCount,
-          estimatedCost: initialResult.data.estimatedCost,
-          actualCost: initialResult.data.actualCost,
-          executionTime: initialResult.data.executionTime,
-        };
-      }
-      return { success: false, error: 'Unexpected response from gateway' };
-    }
-
-    // Check if this is an insufficient credit error (prepaid credits publisher)
-    if (isInsufficientCreditError(initialResult.paymentRequired)) {
-      const creditError = initialResult.paymentRequired;
-      return {
-        success: false,
-        error: `Insufficient credit balance. Minimum required: ${creditError.minimumRequired} USDC. Please deposit funds to continue.`,
-      };
-    }
-
-    // Extract payment requirement
-    const paymentRequirement = initialResult.paymentRequired.accepts[0];
-    if (!paymentRequirement) {
-      return { success: false, error: 'No payment method available' };
-    }
-
-    // Build and sign the payment authorization
-    const paymentPayload = await buildPaymentPayload(
-      paymentRequirement,
+    const queryRequest = {
+      publisherId: input.publisher_id,
       agentWallet,
-      wallet
-    );
+      sql: input.sql,
+    };
 
-    // Retry request with payment (with retry for connection issues)
-    const paidResult = await retryWithBackoff(
-      async () => {
-        return await gateway.queryDatabase(
-          {
-            publisherId: input.publisher_id,
-            agentWallet,
-            sql: input.sql,
-          },
-          paymentPayload
-        );
-      },
-      {
-        maxAttempts: config.QUERY_RETRY_ATTEMPTS + 1, // +1 because first attempt is not a retry
-        delayMs: config.QUERY_RETRY_DELAY_MS,
-        shouldRetry: (error, attempt) => {
-          // Don't retry on 402 (payment settlement issues shouldn't be retried automatically)
-          if (error && typeof error === 'object' && 'status' in error && (error as any).status === 402) {
-            return false;
-          }
-          return isRetryableError(error);
+    // Each attempt (initial and paid) is retried for connection issues
+    const runQuery = () => executeWithPayment<QueryResult>(
+      (paymentPayload) => retryWithBackoff(
+        async () => {
+          return await gateway.queryDatabase(queryRequest, paymentPayload);
         },
-        onRetry: (error, attempt) => {
-          console.warn(`⚠️  Paid query request failed (attempt ${attempt}), retrying...`);
-          if (error instanceof Error) {
-            const errorAny = error as any;
-            if (errorAny.errorBody?.details) {
-              console.warn(`   Error: ${errorAny.errorBody.details}`);
+        {
+          maxAttempts: config.QUERY_RETRY_ATTEMPTS + 1, // +1 because first attempt is not a retry
+          delayMs: config.QUERY_RETRY_DELAY_MS,
+          maxDelayMs: config.QUERY_RETRY_MAX_DELAY_MS,
+          shouldRetry: (error, attempt) => {
+            // Only retry on retryable errors (timeouts, connection issues, 5xx errors)
+            // Note: 402 responses are returned normally, not thrown, so they won't trigger retries
+            return isRetryableError(error);
+          },
+          onRetry: (error, attempt) => {
+            const label = paymentPayload ? 'Paid query request' : 'Query request';
+            console.warn(`⚠️  ${label} failed (attempt ${attempt}), retrying...`);
+            const details = error instanceof GatewayHttpError
+              ? (error.details.body as { details?: unknown } | undefined)?.details
+              : undefined;
+            if (details) {
+              console.warn(`   Error: ${details}`);
+            } else if (error instanceof GatewayTimeoutError) {
+              console.warn(`   Error: ${error.message}`);
             }
           }
         }
+      ),
+      {
+        ...payment,
+        wallet,
+        agentWallet,
+        publisherId: input.publisher_id,
+        dryRun: input.dry_run,
+        maxCost: input.max_cost !== undefined ? decimalToAtomic(input.max_cost) : undefined,
+        request: input.sql,
+        decodePaymentResponse: (encoded) => gateway.decodePaymentResponse(encoded),
+        getSettlementTx: (data) => data.settlement?.transaction,
       }
     );
 
-    // Check if settlement failed (got another 402 after sending payment)
-    if (paidResult.status === 402) {
-      const errorMsg =
-        (paidResult.paymentRequired as { error?: string })?.error ??
-        'Payment settlement failed';
-      return { success: false, error: errorMsg };
-    }
-
-    if (!paidResult.data) {
-      return { success: false, error: 'No data returned from gateway' };
-    }
+    const { outcome } = await withAutoTopUp(
+      runQuery,
+      payment.autoTopUp,
+      (amount) => depositCredits({ amount }, wallet, gateway, depositContext(payment)),
+      { dryRun: input.dry_run, onTopUp: (report) => { topUp = report; } }
+    );
 
-    // Extract transaction hash from settlement or payment response
-    let txHash: string | undefined;
-    if (paidResult.data.settlement?.transaction) {
-      txHash = paidResult.data.settlement.transaction;
-    } else if (paidResult.paymentResponse) {
-      const paymentResponse = gateway.decodePaymentResponse(paidResult.paymentResponse) as {
-        transaction?: string;
-      };
-      txHash = paymentResponse.transaction;
+    switch (outcome.status) {
+      case 'free':
+        // This shouldn't happen for database queries, but handle it
+        if (outcome.data) {
+          return {
+            success: true,
+            rows: outcome.data.rows,
+            rowCount: outcome.data.rowCount,
+            estimatedCost: outcome.data.estimatedCost,
+            actualCost: outcome.data.actualCost,
+            executionTime: outcome.data.executionTime,
+            topUp,
+          };
+        }
+        return { success: false, error: 'Unexpected response from gateway', code: 'GATEWAY_ERROR', retryable: false, topUp };
+      case 'paid':
+        if (!outcome.data) {
+          return { success: false, error: 'No data returned from gateway', code: 'GATEWAY_ERROR', retryable: false, topUp };
+        }
+        return {
+          success: true,
+          rows: outcome.data.rows,
+          rowCount: outcome.data.rowCount,
+          estimatedCost: outcome.data.estimatedCost,
+          actualCost: outcome.data.actualCost,
+          executionTime: outcome.data.executionTime,
+          txHash: outcome.txHash,
+          topUp,
+        };
+      case 'quote':
+        return { success: true, dryRun: true, quote: outcome.quote };
+      case 'max_cost_exceeded':
+        return { success: false, error: outcome.error, quote: outcome.quote, topUp, ...toolErrorForOutcome(outcome) };
+      case 'budget_exceeded':
+        return { success: false, error: outcome.error, budgetExceeded: outcome.budget, topUp, ...toolErrorForOutcome(outcome) };
+      case 'settlement_failed':
+        return {
+          success: false,
+          error: outcome.error,
+          selfSettlement: outcome.selfSettlement,
+          gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+          topUp,
+          ...toolErrorForOutcome(outcome),
+        };
+      default:
+        return {
+          success: false,
+          error: outcome.error,
+          gatewayError: gatewayErrorFromOutcome(outcome)?.toInfo(),
+          topUp,
+          ...toolErrorForOutcome(outcome),
+        };
     }
-
-    return {
-      success: true,
-      rows: paidResult.data.rows,
-      rowCount: paidResult.data.rowCount,
-      estimatedCost: paidResult.data.estimatedCost,
-      actualCost: paidResult.data.actualCost,
-      executionTime: paidResult.data.executionTime,
-      txHash,
-    };
   } catch (error) {
     if (error instanceof UserRejectedError) {
-      return { success: false, error: 'User rejected the payment request' };
+      return { success: false, error: 'User rejected the payment request', topUp, ...toolErrorFor(error) };
     }
     if (error instanceof Error) {
       // Build detailed error message
       let errorMessage = error.message;
       
-      // If error has additional context, include it
-      const errorAny = error as any;
-      if (errorAny.statusCode || errorAny.errorBody || errorAny.requestDetails) {
+      // If the gateway responded, include its status, body and the request
+      if (error instanceof GatewayHttpError) {
+        const { statusText, body, request } = error.details;
         const details: string[] = [errorMessage];
-        
-        if (errorAny.statusCode) {
-          details.push(`HTTP Status: ${errorAny.statusCode} ${errorAny.statusText || ''}`.trim());
-        }
-        
-        if (errorAny.errorBody) {
-          const errorBodyStr = typeof errorAny.errorBody === 'string' 
-            ? errorAny.errorBody 
-            : JSON.stringify(errorAny.errorBody, null, 2);
+
+        details.push(`HTTP Status: ${error.statusCode} ${statusText || ''}`.trim());
+
+        if (body) {
+          const errorBodyStr = typeof body === 'string' ? body : JSON.stringify(body, null, 2);
           details.push(`Error Details: ${errorBodyStr}`);
         }
-        
-        if (errorAny.requestDetails) {
-          details.push(`Request Context: ${JSON.stringify(errorAny.requestDetails, null, 2)}`);
+
+        if (request) {
+          details.push(`Request Context: ${JSON.stringify(request, null, 2)}`);
         }
-        
+
         errorMessage = details.join('\n');
+      } else if (error instanceof GatewayTimeoutError && error.request) {
+        errorMessage += `\nRequest Context: ${JSON.stringify(error.request, null, 2)}`;
       }
       
       // Include stack trace if available (for debugging)
@@ -225,9 +225,9 @@ export async function queryDatabase(
         errorMessage += `\nStack trace: ${error.stack}`;
       }
       
-      return { success: false, error: errorMessage };
+      return { success: false, error: errorMessage, gatewayError: getGatewayErrorInfo(error), topUp, ...toolErrorFor(error) };
     }
-    return { success: false, error: 'Unknown error occurred' };
+    return { success: false, error: 'Unknown error occurred', topUp, ...toolErrorFor(error) };
   }
 }
 
@@ -238,60 +238,8 @@ function validateInput(input: QueryDatabaseInput): string | null {
   if (!input.sql) {
     return 'sql is required';
   }
-  // Basic SQL validation - must start with SELECT
-  const trimmedSql = input.sql.trim().toUpperCase();
-  if (!trimmedSql.startsWith('SELECT')) {
-    return 'Only SELECT queries are allowed';
+  if (input.max_cost !== undefined && !isDecimalAmount(input.max_cost)) {
+    return 'max_cost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")';
   }
   return null;
 }
-
-async function buildPaymentPayload(
-  requirement: PaymentRequirement,
-  fromAddress: `0x${string}`,
-  wallet: WalletProvider
-): Promise<PaymentPayload> {
-  // Get EIP-712 domain from payment requirement
-  const eip712Config = requirement.extra?.eip712;
-  const domain = buildDomain({
-    chainId: eip712Config?.chainId ?? 8453,
-    verifyingContract: eip712Config?.verifyingContract ?? requirement.asset,
-    name: eip712Config?.name,
-    version: eip712Config?.version,
-  });
-
-  // Calculate validity window
-  const now = Math.floor(Date.now() / 1000);
-  const validAfter = now - 60; // Valid from 1 minute ago
-  const validBefore = now + requirement.maxTimeoutSeconds;
-
-  // Build authorization message
-  const message = buildAuthorizationMessage({
-    from: fromAddress,
-    to: requirement.payTo,
-    value: requirement.maxAmountRequired,
-    validAfter,
-    validBefore,
-  });
-
-  // Build typed data and sign
-  const typedData = buildTypedData(domain, message);
-  const signature = await wallet.signTypedData(typedData.domain, typedData.message);
-
-  return {
-    x402Version: 1,
-    scheme: requirement.scheme,
-    network: requirement.network,
-    payload: {
-      signature,
-      authorization: {
-        from: fromAddress,
-        to: requirement.payTo,
-        value: requirement.maxAmountRequired,
-        validAfter: validAfter.toString(),
-        validBefore: validBefore.toString(),
-        nonce: message.nonce,
-      },
-    },
-  };
-}
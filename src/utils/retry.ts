@@ -1,16 +1,29 @@
 // ABOUTME: Retry utility for handling transient errors like timeouts and connection issues
+// ABOUTME: Full-jitter exponential backoff that honors Retry-After from the gateway
+
+import { GatewayError } from '../gateway/errors.js';
 
 export interface RetryOptions {
   maxAttempts: number;
+  /** Base delay; the wait before retry n is a random time up to delayMs * 2^(n-1) */
   delayMs: number;
+  /** Cap on any single wait. A Retry-After longer than this stops retrying. Defaults to 10s. */
+  maxDelayMs?: number;
+  /** Random source in [0, 1), replaceable in tests */
+  random?: () => number;
   shouldRetry?: (error: unknown, attempt: number) => boolean;
   onRetry?: (error: unknown, attempt: number) => void;
 }
 
 /**
- * Check if an error is retryable (timeout, connection error, or 5xx errors)
+ * Check if an error is retryable
+ * Gateway errors decide for themselves (timeouts and 5xx); transport errors are matched by message.
  */
 export function isRetryableError(error: unknown): boolean {
+  if (error instanceof GatewayError) {
+    return error.retryable;
+  }
+
   if (error instanceof Error) {
     // Check for timeout/abort errors
     if (error.name === 'AbortError' || error.message.includes('timeout') || error.message.includes('Connection terminated')) {
@@ -24,29 +37,43 @@ export function isRetryableError(error: unknown): boolean {
         error.message.includes('ECONNREFUSED')) {
       return true;
     }
-    
-    // Check for 5xx HTTP errors (retryable server errors)
-    const errorAny = error as any;
-    if (errorAny.statusCode && errorAny.statusCode >= 500 && errorAny.statusCode < 600) {
-      // Check error details for connection timeout
-      if (errorAny.errorBody?.details?.includes('timeout') || 
-          errorAny.errorBody?.details?.includes('Connection terminated')) {
-        return true;
-      }
-    }
   }
   
   return false;
 }
 
 /**
- * Retry a function with exponential backoff
+ * Parse a Retry-After header, given either as seconds or as an HTTP date
+ * @returns Milliseconds to wait, or undefined when the header is missing or malformed
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Retry a function with full-jitter exponential backoff
+ * Gateway errors carrying a Retry-After wait exactly that long instead.
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions
 ): Promise<T> {
-  const { maxAttempts, delayMs, shouldRetry = isRetryableError, onRetry } = options;
+  const {
+    maxAttempts,
+    delayMs,
+    maxDelayMs = 10000,
+    random = Math.random,
+    shouldRetry = isRetryableError,
+    onRetry,
+  } = options;
   
   let lastError: unknown;
   
@@ -57,13 +84,18 @@ export async function retryWithBackoff<T>(
       lastError = error;
       
       // Check if we should retry
-      if (attempt < maxAttempts && shouldRetry(error, attempt)) {
+      const retryAfterMs = error instanceof GatewayError ? error.retryAfterMs : undefined;
+      if (
+        attempt < maxAttempts &&
+        shouldRetry(error, attempt) &&
+        (retryAfterMs === undefined || retryAfterMs <= maxDelayMs)
+      ) {
         if (onRetry) {
           onRetry(error, attempt);
         }
         
-        // Exponential backoff: delayMs * 2^(attempt - 1)
-        const backoffDelay = delayMs * Math.pow(2, attempt - 1);
+        // Full jitter: a random delay up to min(maxDelayMs, delayMs * 2^(attempt - 1))
+        const backoffDelay = retryAfterMs ?? random() * Math.min(maxDelayMs, delayMs * Math.pow(2, attempt - 1));
         await new Promise(resolve => setTimeout(resolve, backoffDelay));
         continue;
       }
@@ -76,12 +108,3 @@ export async function retryWithBackoff<T>(
   // This should never be reached, but TypeScript needs it
   throw lastError;
 }
-
-
-
-
-
-
-
-
-
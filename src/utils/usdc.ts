@@ -34,6 +34,14 @@ export function atomicToDecimal(amount: string, decimals = 6): string {
   return trimmedFraction.length > 0 ? `${stripLeadingZeros(whole)}.${trimmedFraction}` : stripLeadingZeros(whole);
 }
 
+/**
+ * Checks whether a string is a non-negative decimal amount (e.g., "0.025") with at most 6 decimal places,
+ * so decimalToAtomic converts it without truncating
+ */
+export function isDecimalAmount(amount: string): boolean {
+  return /^\d+(\.\d{1,6})?$/.test(amount.trim());
+}
+
 /**
  * Formats an atomic amount as a human-readable USDC string.
  */
@@ -0,0 +1,150 @@
+// ABOUTME: Reads a wallet's on-chain USDC and ETH balances and recent USDC transfers via BASE_RPC_URL
+// ABOUTME: Also backs the pre-flight balance check paid tools run before signing
+
+import { createPublicClient, erc20Abi, http, parseAbiItem, type PublicClient } from 'viem';
+import { getNetwork, type NetworkConfig } from '../config/networks.js';
+import { atomicToDecimal, formatUsdc } from '../utils/usdc.js';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+// About 3 hours of Base blocks (2s block time), within public RPC getLogs range limits
+const DEFAULT_LOOKBACK_BLOCKS = 5000n;
+
+/**
+ * A USDC transfer into or out of the wallet
+ */
+export interface UsdcTransfer {
+  direction: 'in' | 'out';
+  from: string;
+  to: string;
+  /** Human-readable amount (e.g., "0.05 USDC") */
+  amount: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+/**
+ * On-chain balances of a wallet
+ */
+export interface WalletBalances {
+  address: string;
+  network: string;
+  usdc: {
+    /** Human-readable balance (e.g., "12.5 USDC") */
+    balance: string;
+    /** Atomic units */
+    atomic: string;
+    contract: string;
+  };
+  eth: {
+    /** Balance in ETH (e.g., "0.0021") */
+    balance: string;
+    /** Wei */
+    wei: string;
+  };
+  recentTransfers?: UsdcTransfer[];
+}
+
+/**
+ * Reads USDC and ETH balances from the configured network
+ */
+export class WalletBalanceReader {
+  readonly network: NetworkConfig;
+  private client?: PublicClient;
+
+  /**
+   * @param network - Network to read from (defaults to NETWORK with BASE_RPC_URL)
+   * @param client - Public client to use instead of one created from the network RPC URL
+   */
+  constructor(network: NetworkConfig = getNetwork(), client?: PublicClient) {
+    this.network = network;
+    this.client = client;
+  }
+
+  /**
+   * USDC balance in atomic units
+   */
+  async getUsdcBalance(address: `0x${string}`): Promise<bigint> {
+    return this.getClient().readContract({
+      address: this.network.usdc,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [address],
+    });
+  }
+
+  /**
+   * Native ETH balance in wei (pays gas for self-settlement)
+   */
+  async getEthBalance(address: `0x${string}`): Promise<bigint> {
+    return this.getClient().getBalance({ address });
+  }
+
+  /**
+   * USDC transfers into or out of the wallet within the last lookbackBlocks blocks, newest first
+   */
+  async getRecentTransfers(
+    address: `0x${string}`,
+    options: { lookbackBlocks?: bigint; limit?: number } = {}
+  ): Promise<UsdcTransfer[]> {
+    const client = this.getClient();
+    const latest = await client.getBlockNumber();
+    const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+    const fromBlock = latest > lookback ? latest - lookback : 0n;
+    const query = { address: this.network.usdc, event: TRANSFER_EVENT, fromBlock, toBlock: latest };
+
+    const [outgoing, incoming] = await Promise.all([
+      client.getLogs({ ...query, args: { from: address } }),
+      client.getLogs({ ...query, args: { to: address } }),
+    ]);
+
+    const transfers = [...outgoing, ...incoming]
+      .sort((a, b) => Number((b.blockNumber ?? 0n) - (a.blockNumber ?? 0n)) || (b.logIndex ?? 0) - (a.logIndex ?? 0))
+      .map((log): UsdcTransfer => ({
+        direction: log.args.from?.toLowerCase() === address.toLowerCase() ? 'out' : 'in',
+        from: log.args.from ?? '',
+        to: log.args.to ?? '',
+        amount: formatUsdc((log.args.value ?? 0n).toString()),
+        txHash: log.transactionHash ?? '',
+        blockNumber: Number(log.blockNumber ?? 0n),
+      }));
+
+    return transfers.slice(0, options.limit ?? 20);
+  }
+
+  /**
+   * Read USDC and ETH balances, plus recent transfers when requested
+   */
+  async getBalances(address: `0x${string}`, includeTransfers = false): Promise<WalletBalances> {
+    const [usdc, eth, recentTransfers] = await Promise.all([
+      this.getUsdcBalance(address),
+      this.getEthBalance(address),
+      includeTransfers ? this.getRecentTransfers(address) : Promise.resolve(undefined),
+    ]);
+
+    return {
+      address,
+      network: this.network.name,
+      usdc: {
+        balance: formatUsdc(usdc.toString()),
+        atomic: usdc.toString(),
+        contract: this.network.usdc,
+      },
+      eth: {
+        balance: atomicToDecimal(eth.toString(), 18),
+        wei: eth.toString(),
+      },
+      recentTransfers,
+    };
+  }
+
+  private getClient(): PublicClient {
+    if (!this.client) {
+      this.client = createPublicClient({
+        chain: this.network.chain,
+        transport: http(this.network.rpcUrl),
+      }) as PublicClient;
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,349 @@
+// ABOUTME: Hardware wallet provider speaking the Ledger Ethereum app APDU protocol
+// ABOUTME: Uses a pluggable transport so real devices and simulators share one code path
+
+import { hashDomain, hashStruct, type TypedData } from 'viem';
+import type { WalletProvider } from './types.js';
+import { WalletNotConnectedError, WalletNotAvailableError, UserRejectedError } from './types.js';
+import type {
+  CancelAuthorizationMessage,
+  Eip712Domain,
+  PermitMessage,
+  TransferAuthorizationMessage,
+} from '../signing/eip712.js';
+import {
+  CANCEL_AUTHORIZATION_TYPES,
+  PERMIT_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+} from '../signing/eip712.js';
+import { describeAuthorization, describePermit, recoverTypedDataSigner } from '../signing/inspect.js';
+import type { PaymentTypedData } from '../signing/schemes.js';
+
+/**
+ * Byte-level channel to a hardware wallet (USB HID, BLE, or a simulator).
+ * Matches the `exchange`/`close` shape of @ledgerhq/hw-transport.
+ */
+export interface HardwareTransport {
+  /**
+   * Send a raw APDU and return the raw response, including the trailing 2-byte status word
+   */
+  exchange(apdu: Buffer): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+export type HardwareTransportFactory = () => Promise<HardwareTransport>;
+
+export interface HardwareWalletProviderOptions {
+  /** Opens the device transport (defaults to USB HID via @ledgerhq/hw-transport-node-hid) */
+  transportFactory?: HardwareTransportFactory;
+  /** BIP-32 derivation path of the signing account */
+  derivationPath?: string;
+}
+
+/**
+ * Ledger Ethereum app APDU constants
+ */
+export const LEDGER_CLA = 0xe0;
+export const LEDGER_INS = {
+  GET_ADDRESS: 0x02,
+  SIGN_EIP712_HASHED: 0x0c,
+} as const;
+export const LEDGER_SW = {
+  OK: 0x9000,
+  USER_REJECTED: 0x6985,
+  INS_NOT_SUPPORTED: 0x6d00,
+  CLA_NOT_SUPPORTED: 0x6e00,
+  APP_NOT_OPEN: 0x6511,
+  LOCKED: 0x5515,
+} as const;
+
+export const DEFAULT_DERIVATION_PATH = "44'/60'/0'/0/0";
+
+const EIP712_DOMAIN_TYPES = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+] as const;
+
+/**
+ * Error returned by the device with an unexpected status word
+ */
+export class HardwareWalletError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'HardwareWalletError';
+    Object.setPrototypeOf(this, HardwareWalletError.prototype);
+  }
+}
+
+/**
+ * Hardware wallet provider for Ledger devices running the Ethereum app.
+ * Signs payment authorizations and permits via EIP-712 hashed mode (domain and message hashes).
+ */
+export class HardwareWalletProvider implements WalletProvider {
+  private transport: HardwareTransport | null = null;
+  private address: `0x${string}` | null = null;
+  private readonly transportFactory: HardwareTransportFactory;
+  private readonly pathBytes: Buffer;
+
+  constructor(options: HardwareWalletProviderOptions = {}) {
+    this.transportFactory = options.transportFactory ?? openNodeHidTransport;
+    this.pathBytes = encodeDerivationPath(options.derivationPath ?? DEFAULT_DERIVATION_PATH);
+  }
+
+  /**
+   * Open the device transport and read the account address
+   */
+  async connect(): Promise<void> {
+    const transport = await this.transportFactory();
+
+    try {
+      const response = await this.send(transport, LEDGER_INS.GET_ADDRESS, 0x00, 0x00, this.pathBytes);
+      this.address = parseAddressResponse(response);
+      this.transport = transport;
+    } catch (error) {
+      await transport.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.transport) {
+      await this.transport.close().catch(() => undefined);
+    }
+    this.transport = null;
+    this.address = null;
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.transport !== null && this.address !== null;
+  }
+
+  async getAddress(): Promise<`0x${string}`> {
+    if (!this.address) {
+      throw new WalletNotConnectedError();
+    }
+    return this.address;
+  }
+
+  /**
+   * Sign TransferWithAuthorization typed data on the device
+   * The user confirms the domain and message hashes on screen, so the decoded
+   * authorization is printed alongside and the returned signature is checked
+   * against the device account.
+   */
+  async signTypedData(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Confirm on your Ledger: ${describeAuthorization(message)}`);
+    return this.signPayment(domain, {
+      primaryType: 'TransferWithAuthorization',
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      message,
+    });
+  }
+
+  /**
+   * Sign ReceiveWithAuthorization typed data on the device
+   */
+  async signReceiveAuthorization(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Confirm on your Ledger: ${describeAuthorization(message)}`);
+    return this.signPayment(domain, {
+      primaryType: 'ReceiveWithAuthorization',
+      types: RECEIVE_WITH_AUTHORIZATION_TYPES,
+      message,
+    });
+  }
+
+  /**
+   * Sign an EIP-2612 permit on the device
+   */
+  async signPermit(
+    domain: Eip712Domain,
+    message: PermitMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Confirm on your Ledger: ${describePermit(message)}`);
+    return this.signPayment(domain, { primaryType: 'Permit', types: PERMIT_TYPES, message });
+  }
+
+  /**
+   * Sign CancelAuthorization typed data on the device
+   */
+  async signCancelAuthorization(
+    domain: Eip712Domain,
+    message: CancelAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    return this.signHashed(domain, hashStruct({
+      data: { ...message },
+      primaryType: 'CancelAuthorization',
+      types: CANCEL_AUTHORIZATION_TYPES,
+    }));
+  }
+
+  /**
+   * Sign payment typed data and check the signature recovers to the device account
+   */
+  private async signPayment(domain: Eip712Domain, typedData: PaymentTypedData): Promise<`0x${string}`> {
+    const signature = await this.signHashed(domain, hashStruct<TypedData, string>({
+      data: { ...typedData.message },
+      primaryType: typedData.primaryType,
+      types: typedData.types,
+    }));
+
+    const signer = await recoverTypedDataSigner(domain, typedData, signature);
+    if (signer.toLowerCase() !== this.address?.toLowerCase()) {
+      throw new Error(`Device signature recovers to ${signer}, not the device account ${this.address}`);
+    }
+    return signature;
+  }
+
+  /**
+   * Sign an EIP-712 message hash under the domain in hashed mode
+   */
+  private async signHashed(domain: Eip712Domain, messageHash: `0x${string}`): Promise<`0x${string}`> {
+    if (!this.transport || !this.address) {
+      throw new WalletNotConnectedError();
+    }
+
+    const domainSeparator = hashDomain({
+      domain,
+      types: { EIP712Domain: EIP712_DOMAIN_TYPES },
+    });
+
+    const data = Buffer.concat([
+      this.pathBytes,
+      Buffer.from(domainSeparator.slice(2), 'hex'),
+      Buffer.from(messageHash.slice(2), 'hex'),
+    ]);
+
+    const response = await this.send(this.transport, LEDGER_INS.SIGN_EIP712_HASHED, 0x00, 0x00, data);
+    return parseSignatureResponse(response);
+  }
+
+  /**
+   * Send an APDU and map the status word to wallet errors
+   * @returns Response data without the status word
+   */
+  private async send(
+    transport: HardwareTransport,
+    ins: number,
+    p1: number,
+    p2: number,
+    data: Buffer
+  ): Promise<Buffer> {
+    if (data.length > 255) {
+      throw new Error(`APDU data too long: ${data.length} bytes`);
+    }
+
+    const apdu = Buffer.concat([Buffer.from([LEDGER_CLA, ins, p1, p2, data.length]), data]);
+    const response = await transport.exchange(apdu);
+
+    if (response.length < 2) {
+      throw new HardwareWalletError('Invalid response from hardware wallet', 0);
+    }
+
+    const statusCode = response.readUInt16BE(response.length - 2);
+    switch (statusCode) {
+      case LEDGER_SW.OK:
+        return response.subarray(0, response.length - 2);
+      case LEDGER_SW.USER_REJECTED:
+        throw new UserRejectedError('User rejected the request on the hardware wallet', 4001);
+      case LEDGER_SW.INS_NOT_SUPPORTED:
+      case LEDGER_SW.CLA_NOT_SUPPORTED:
+      case LEDGER_SW.APP_NOT_OPEN:
+        throw new WalletNotAvailableError('Open the Ethereum app on the hardware wallet');
+      case LEDGER_SW.LOCKED:
+        throw new WalletNotAvailableError('Hardware wallet is locked');
+      default:
+        throw new HardwareWalletError(
+          `Hardware wallet returned status 0x${statusCode.toString(16).padStart(4, '0')}`,
+          statusCode
+        );
+    }
+  }
+}
+
+/**
+ * Encode a BIP-32 path ("44'/60'/0'/0/0") as count byte followed by big-endian uint32 indexes
+ */
+export function encodeDerivationPath(path: string): Buffer {
+  const segments = path.replace(/^m\//, '').split('/');
+  if (segments.length === 0 || segments.length > 10) {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  const buffer = Buffer.alloc(1 + segments.length * 4);
+  buffer.writeUInt8(segments.length, 0);
+  segments.forEach((segment, i) => {
+    const match = /^(\d+)('?)$/.exec(segment);
+    if (!match) {
+      throw new Error(`Invalid derivation path: ${path}`);
+    }
+    const index = Number(match[1]) + (match[2] ? 0x80000000 : 0);
+    buffer.writeUInt32BE(index, 1 + i * 4);
+  });
+  return buffer;
+}
+
+/**
+ * Parse GET_ADDRESS response: pubkey length, pubkey, address length, ASCII hex address
+ */
+function parseAddressResponse(response: Buffer): `0x${string}` {
+  const publicKeyLength = response[0];
+  const addressLength = response[1 + publicKeyLength];
+  const address = response.subarray(2 + publicKeyLength, 2 + publicKeyLength + addressLength).toString('ascii');
+
+  if (!/^[0-9a-fA-F]{40}$/.test(address)) {
+    throw new HardwareWalletError('Invalid address returned by hardware wallet', LEDGER_SW.OK);
+  }
+  return `0x${address}` as `0x${string}`;
+}
+
+/**
+ * Parse SIGN response: v (1 byte), r (32 bytes), s (32 bytes)
+ */
+function parseSignatureResponse(response: Buffer): `0x${string}` {
+  if (response.length < 65) {
+    throw new HardwareWalletError('Invalid signature returned by hardware wallet', LEDGER_SW.OK);
+  }
+
+  let v = response[0];
+  if (v < 27) {
+    v += 27;
+  }
+  const r = response.subarray(1, 33).toString('hex');
+  const s = response.subarray(33, 65).toString('hex');
+  return `0x${r}${s}${v.toString(16).padStart(2, '0')}` as `0x${string}`;
+}
+
+/**
+ * Open a USB HID transport via the optional @ledgerhq/hw-transport-node-hid package
+ */
+async function openNodeHidTransport(): Promise<HardwareTransport> {
+  const moduleName = '@ledgerhq/hw-transport-node-hid';
+  let TransportNodeHid: { create(): Promise<HardwareTransport> };
+  try {
+    const module = await import(moduleName) as { default: typeof TransportNodeHid };
+    TransportNodeHid = module.default;
+  } catch {
+    throw new WalletNotAvailableError(
+      `Hardware wallet support requires ${moduleName}. Install it with: npm install ${moduleName}`
+    );
+  }
+
+  try {
+    return await TransportNodeHid.create();
+  } catch (error) {
+    throw new WalletNotAvailableError(
+      `No hardware wallet found: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,337 @@
+// ABOUTME: Ethereum V3 keystore (scrypt/pbkdf2 + aes-128-ctr) encryption and wallet provider
+// ABOUTME: Decrypts the key only into memory inside the provider, never into the environment
+
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { Chain } from 'viem';
+import { keccak256 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { WalletProvider } from './types.js';
+import { PrivateKeyWalletProvider } from './privatekey.js';
+import type {
+  CancelAuthorizationMessage,
+  Eip712Domain,
+  PermitMessage,
+  TransferAuthorizationMessage,
+} from '../signing/eip712.js';
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+export interface ScryptParams {
+  dklen: number;
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  salt: string;
+  c: number;
+  prf: 'hmac-sha256';
+}
+
+/**
+ * Ethereum Web3 Secret Storage (V3 keystore) file contents
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address?: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+export interface EncryptKeystoreOptions {
+  kdf?: KeystoreKdf;
+  /** scrypt cost (must be a power of two) */
+  n?: number;
+  /** pbkdf2 iteration count */
+  c?: number;
+}
+
+/**
+ * Error thrown for unreadable keystores, wrong passphrases and missing passphrases
+ */
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+    Object.setPrototypeOf(this, KeystoreError.prototype);
+  }
+}
+
+// geth defaults for "standard" scrypt and pbkdf2 keystores
+const DEFAULT_SCRYPT_N = 262144;
+const DEFAULT_PBKDF2_C = 262144;
+const SCRYPT_MAXMEM = 512 * 1024 * 1024;
+
+/**
+ * Encrypt a private key into a V3 keystore
+ */
+export function encryptKeystore(
+  privateKey: string,
+  passphrase: string,
+  options: EncryptKeystoreOptions = {}
+): KeystoreV3 {
+  const key = Buffer.from(strip0x(privateKey), 'hex');
+  if (key.length !== 32) {
+    throw new KeystoreError('Private key must be 32 bytes');
+  }
+
+  const salt = randomBytes(32).toString('hex');
+  const kdfparams: ScryptParams | Pbkdf2Params = (options.kdf ?? 'scrypt') === 'scrypt'
+    ? { dklen: 32, salt, n: options.n ?? DEFAULT_SCRYPT_N, r: 8, p: 1 }
+    : { dklen: 32, salt, c: options.c ?? DEFAULT_PBKDF2_C, prf: 'hmac-sha256' };
+  const kdf: KeystoreKdf = 'n' in kdfparams ? 'scrypt' : 'pbkdf2';
+
+  const derivedKey = deriveKey(passphrase, kdf, kdfparams);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(`0x${key.toString('hex')}`).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf,
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt a V3 keystore
+ * @returns 0x-prefixed private key
+ * @throws KeystoreError on a wrong passphrase or malformed keystore
+ */
+export function decryptKeystore(keystore: KeystoreV3, passphrase: string): `0x${string}` {
+  // Older geth versions wrote "Crypto" instead of "crypto"
+  const crypto = keystore.crypto ?? (keystore as unknown as { Crypto?: KeystoreV3['crypto'] }).Crypto;
+  if (keystore.version !== 3 || !crypto) {
+    throw new KeystoreError('Unsupported keystore: expected version 3');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new KeystoreError(`Unsupported keystore cipher: ${crypto.cipher}`);
+  }
+
+  const derivedKey = deriveKey(passphrase, crypto.kdf, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = Buffer.from(strip0x(computeMac(derivedKey, ciphertext)), 'hex');
+  const expected = Buffer.from(strip0x(crypto.mac), 'hex');
+
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    throw new KeystoreError('Invalid passphrase for keystore');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, 'hex')
+  );
+  const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${key.toString('hex')}` as `0x${string}`;
+}
+
+/**
+ * Read and parse a keystore JSON file
+ */
+export async function readKeystoreFile(filePath: string): Promise<KeystoreV3> {
+  let contents: string;
+  try {
+    contents = await readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new KeystoreError(
+      `Cannot read keystore ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  try {
+    return JSON.parse(contents) as KeystoreV3;
+  } catch {
+    throw new KeystoreError(`Keystore ${filePath} is not valid JSON`);
+  }
+}
+
+/**
+ * Write a keystore JSON file readable only by the current user
+ */
+export async function writeKeystoreFile(filePath: string, keystore: KeystoreV3): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(keystore, null, 2), { mode: 0o600, flag: 'wx' });
+}
+
+/**
+ * Read the keystore passphrase from a file, or prompt for it on an interactive terminal
+ */
+export async function readPassphrase(passphraseFile?: string, prompt = 'Keystore passphrase: '): Promise<string> {
+  if (passphraseFile) {
+    try {
+      // Strip the trailing newline most editors add
+      return (await readFile(passphraseFile, 'utf8')).replace(/\r?\n$/, '');
+    } catch (error) {
+      throw new KeystoreError(
+        `Cannot read passphrase file ${passphraseFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return promptHidden(prompt);
+}
+
+/**
+ * Prompt on stderr without echoing input
+ * Requires a TTY: MCP clients talk over stdin, so they must use a passphrase file.
+ */
+export async function promptHidden(question: string): Promise<string> {
+  const { stdin, stderr } = process;
+  if (!stdin.isTTY) {
+    throw new KeystoreError('Keystore passphrase required. Set WALLET_PASSPHRASE_FILE when not running in a terminal');
+  }
+
+  stderr.write(question);
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf8');
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let input = '';
+
+    const cleanup = () => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write('\n');
+    };
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          cleanup();
+          resolve(input);
+          return;
+        }
+        if (char === '\u0003') {
+          cleanup();
+          reject(new KeystoreError('Passphrase prompt cancelled'));
+          return;
+        }
+        input = char === '\u007f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Wallet provider backed by an encrypted keystore file
+ * The decrypted key is handed straight to an in-memory signer on connect.
+ */
+export class KeystoreWalletProvider implements WalletProvider {
+  private signer: PrivateKeyWalletProvider;
+  private keystorePath: string;
+  private passphraseFile?: string;
+
+  constructor(options: { keystorePath: string; passphraseFile?: string; chain?: Chain; rpcUrl?: string }) {
+    this.keystorePath = options.keystorePath;
+    this.passphraseFile = options.passphraseFile;
+    this.signer = new PrivateKeyWalletProvider({ chain: options.chain, rpcUrl: options.rpcUrl });
+  }
+
+  /**
+   * Unlock the keystore with the passphrase file or an interactive prompt
+   */
+  async connect(): Promise<void> {
+    const keystore = await readKeystoreFile(this.keystorePath);
+    const passphrase = await readPassphrase(this.passphraseFile);
+    await this.signer.connect(decryptKeystore(keystore, passphrase));
+  }
+
+  async disconnect(): Promise<void> {
+    await this.signer.disconnect();
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.signer.isConnected();
+  }
+
+  async getAddress(): Promise<`0x${string}`> {
+    return this.signer.getAddress();
+  }
+
+  async signTypedData(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    return this.signer.signTypedData(domain, message);
+  }
+
+  async signReceiveAuthorization(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    return this.signer.signReceiveAuthorization(domain, message);
+  }
+
+  async signPermit(
+    domain: Eip712Domain,
+    message: PermitMessage
+  ): Promise<`0x${string}`> {
+    return this.signer.signPermit(domain, message);
+  }
+
+  async signCancelAuthorization(
+    domain: Eip712Domain,
+    message: CancelAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    return this.signer.signCancelAuthorization(domain, message);
+  }
+}
+
+function deriveKey(passphrase: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params): Buffer {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  if (kdf === 'scrypt' && 'n' in params) {
+    try {
+      return scryptSync(passphrase, salt, params.dklen, {
+        N: params.n,
+        r: params.r,
+        p: params.p,
+        maxmem: SCRYPT_MAXMEM,
+      });
+    } catch (error) {
+      throw new KeystoreError(
+        `Unsupported scrypt parameters: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+  if (kdf === 'pbkdf2' && 'c' in params) {
+    if (params.prf !== 'hmac-sha256') {
+      throw new KeystoreError(`Unsupported pbkdf2 prf: ${params.prf}`);
+    }
+    return pbkdf2Sync(passphrase, salt, params.c, params.dklen, 'sha256');
+  }
+  throw new KeystoreError(`Unsupported keystore kdf: ${kdf}`);
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+function strip0x(value: string): string {
+  return value.startsWith('0x') ? value.slice(2) : value;
+}
@@ -0,0 +1,30 @@
+// ABOUTME: Builds the local signing wallet from WALLET_KEYSTORE_PATH or WALLET_PRIVATE_KEY
+// ABOUTME: Kept apart from the keystore module so the keystore CLI never loads config
+
+import { config } from '../config/index.js';
+import { getNetwork } from '../config/networks.js';
+import type { WalletProvider } from './types.js';
+import { KeystoreWalletProvider } from './keystore.js';
+import { PrivateKeyWalletProvider } from './privatekey.js';
+
+/**
+ * Create the local signing wallet from WALLET_KEYSTORE_PATH or WALLET_PRIVATE_KEY
+ * @returns null when neither is configured
+ */
+export function createLocalWalletFromConfig(): WalletProvider | null {
+  const { chain, rpcUrl } = getNetwork();
+
+  if (config.WALLET_KEYSTORE_PATH) {
+    return new KeystoreWalletProvider({
+      keystorePath: config.WALLET_KEYSTORE_PATH,
+      passphraseFile: config.WALLET_PASSPHRASE_FILE,
+      chain,
+      rpcUrl,
+    });
+  }
+  if (process.env.WALLET_PRIVATE_KEY) {
+    // connect() reads WALLET_PRIVATE_KEY
+    return new PrivateKeyWalletProvider({ chain, rpcUrl });
+  }
+  return null;
+}
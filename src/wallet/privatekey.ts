@@ -13,8 +13,18 @@ import { base } from 'viem/chains';
 
 import type { WalletProvider } from './types.js';
 import { WalletNotConnectedError } from './types.js';
-import type { Eip712Domain, TransferAuthorizationMessage } from '../signing/eip712.js';
-import { TRANSFER_WITH_AUTHORIZATION_TYPES } from '../signing/eip712.js';
+import type {
+  CancelAuthorizationMessage,
+  Eip712Domain,
+  PermitMessage,
+  TransferAuthorizationMessage,
+} from '../signing/eip712.js';
+import {
+  CANCEL_AUTHORIZATION_TYPES,
+  PERMIT_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+} from '../signing/eip712.js';
 
 /**
  * Private key wallet provider for development and testing
@@ -25,10 +35,15 @@ export class PrivateKeyWalletProvider implements WalletProvider {
   private account: PrivateKeyAccount | null = null;
   private chain: Chain;
   private rpcUrl: string;
+  private privateKey?: string;
 
-  constructor(options: { chain?: Chain; rpcUrl?: string } = {}) {
+  /**
+   * @param options.privateKey - Key used by connect() when none is passed
+   */
+  constructor(options: { chain?: Chain; rpcUrl?: string; privateKey?: string } = {}) {
     this.chain = options.chain ?? base;
     this.rpcUrl = options.rpcUrl ?? 'https://mainnet.base.org';
+    this.privateKey = options.privateKey;
   }
 
   /**
@@ -37,8 +52,8 @@ export class PrivateKeyWalletProvider implements WalletProvider {
    */
   async connect(privateKey?: string): Promise<void> {
     if (!privateKey) {
-      // Try to get from environment
-      privateKey = process.env.WALLET_PRIVATE_KEY;
+      // Fall back to the constructor key, then the environment
+      privateKey = this.privateKey ?? process.env.WALLET_PRIVATE_KEY;
     }
 
     if (!privateKey) {
@@ -104,4 +119,55 @@ export class PrivateKeyWalletProvider implements WalletProvider {
 
     return signature;
   }
+
+  async signReceiveAuthorization(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    if (!this.client || !this.account) {
+      throw new WalletNotConnectedError();
+    }
+
+    return this.client.signTypedData({
+      account: this.account,
+      domain,
+      types: RECEIVE_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'ReceiveWithAuthorization',
+      message,
+    });
+  }
+
+  async signPermit(
+    domain: Eip712Domain,
+    message: PermitMessage
+  ): Promise<`0x${string}`> {
+    if (!this.client || !this.account) {
+      throw new WalletNotConnectedError();
+    }
+
+    return this.client.signTypedData({
+      account: this.account,
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message,
+    });
+  }
+
+  async signCancelAuthorization(
+    domain: Eip712Domain,
+    message: CancelAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    if (!this.client || !this.account) {
+      throw new WalletNotConnectedError();
+    }
+
+    return this.client.signTypedData({
+      account: this.account,
+      domain,
+      types: CANCEL_AUTHORIZATION_TYPES,
+      primaryType: 'CancelAuthorization',
+      message,
+    });
+  }
 }
@@ -0,0 +1,189 @@
+// ABOUTME: Named wallet profiles loaded from a JSON config file
+// ABOUTME: Routes paid requests to a profile by explicit name, publisher ID or publisher category
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import type { WalletProvider } from './types.js';
+import { PrivateKeyWalletProvider } from './privatekey.js';
+import { KeystoreWalletProvider } from './keystore.js';
+import { HardwareWalletProvider } from './hardware.js';
+import { getNetwork } from '../config/networks.js';
+
+const profileSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('keystore'),
+    keystorePath: z.string(),
+    passphraseFile: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('privateKey'),
+    /** Environment variable holding the key; raw keys never go in the profiles file */
+    privateKeyEnv: z.string(),
+  }),
+  z.object({
+    type: z.literal('hardware'),
+    derivationPath: z.string().optional(),
+  }),
+]);
+
+const routeSchema = z.object({
+  publisherId: z.string().optional(),
+  category: z.string().optional(),
+  wallet: z.string(),
+}).refine((route) => route.publisherId || route.category, {
+  message: 'Route needs a publisherId or category',
+});
+
+const profilesFileSchema = z.object({
+  default: z.string(),
+  profiles: z.record(profileSchema),
+  routes: z.array(routeSchema).default([]),
+}).superRefine((file, ctx) => {
+  for (const name of [file.default, ...file.routes.map((route) => route.wallet)]) {
+    if (!file.profiles[name]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown wallet profile: ${name}` });
+    }
+  }
+});
+
+export type WalletProfile = z.infer<typeof profileSchema>;
+export type WalletRoute = z.infer<typeof routeSchema>;
+export type WalletProfilesFile = z.infer<typeof profilesFileSchema>;
+
+/**
+ * What a paid request knows about its target when choosing a wallet
+ */
+export interface WalletTarget {
+  /** Profile named explicitly by the caller */
+  wallet?: string;
+  publisherId?: string;
+  /** Categories of the publisher, needed only for category routes */
+  categories?: string[];
+}
+
+/**
+ * Error thrown when a caller names a profile that is not configured
+ */
+export class UnknownWalletProfileError extends Error {
+  constructor(public readonly profile: string, available: string[]) {
+    super(`Unknown wallet profile: ${profile}. Available profiles: ${available.join(', ')}`);
+    this.name = 'UnknownWalletProfileError';
+    Object.setPrototypeOf(this, UnknownWalletProfileError.prototype);
+  }
+}
+
+/**
+ * Create an unconnected wallet provider for a profile
+ */
+export function createProfileProvider(profile: WalletProfile): WalletProvider {
+  const { chain, rpcUrl } = getNetwork();
+
+  switch (profile.type) {
+    case 'keystore':
+      return new KeystoreWalletProvider({
+        keystorePath: profile.keystorePath,
+        passphraseFile: profile.passphraseFile,
+        chain,
+        rpcUrl,
+      });
+    case 'privateKey': {
+      const privateKey = process.env[profile.privateKeyEnv];
+      if (!privateKey) {
+        throw new Error(`${profile.privateKeyEnv} environment variable required`);
+      }
+      return new PrivateKeyWalletProvider({ privateKey, chain, rpcUrl });
+    }
+    case 'hardware':
+      return new HardwareWalletProvider({ derivationPath: profile.derivationPath });
+  }
+}
+
+/**
+ * Named wallet profiles with per-publisher routing rules
+ * Wallets are created and connected on first use.
+ */
+export class WalletProfiles {
+  private wallets = new Map<string, WalletProvider>();
+
+  constructor(
+    private readonly file: WalletProfilesFile,
+    private readonly createProvider: (profile: WalletProfile) => WalletProvider = createProfileProvider
+  ) {}
+
+  get defaultProfile(): string {
+    return this.file.default;
+  }
+
+  names(): string[] {
+    return Object.keys(this.file.profiles);
+  }
+
+  /**
+   * Whether resolving a wallet may need the publisher's categories
+   */
+  hasCategoryRoutes(): boolean {
+    return this.file.routes.some((route) => route.category);
+  }
+
+  /**
+   * Pick the profile for a request: explicit name, then publisher ID routes,
+   * then category routes (in file order), then the default profile
+   */
+  resolve(target: WalletTarget = {}): string {
+    if (target.wallet) {
+      if (!this.file.profiles[target.wallet]) {
+        throw new UnknownWalletProfileError(target.wallet, this.names());
+      }
+      return target.wallet;
+    }
+
+    const byPublisher = this.file.routes.find(
+      (route) => route.publisherId && route.publisherId === target.publisherId
+    );
+    if (byPublisher) {
+      return byPublisher.wallet;
+    }
+
+    const categories = target.categories ?? [];
+    const byCategory = this.file.routes.find(
+      (route) => route.category && categories.includes(route.category)
+    );
+    return byCategory?.wallet ?? this.file.default;
+  }
+
+  /**
+   * Get the connected wallet for a profile
+   */
+  async getWallet(name: string): Promise<WalletProvider> {
+    const profile = this.file.profiles[name];
+    if (!profile) {
+      throw new UnknownWalletProfileError(name, this.names());
+    }
+
+    let wallet = this.wallets.get(name);
+    if (!wallet) {
+      wallet = this.createProvider(profile);
+      this.wallets.set(name, wallet);
+    }
+    if (!(await wallet.isConnected())) {
+      await wallet.connect();
+    }
+    return wallet;
+  }
+}
+
+/**
+ * Load wallet profiles from a JSON file
+ * @returns null when the file does not exist (single-wallet mode)
+ */
+export function loadWalletProfiles(filePath: string): WalletProfiles | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  const result = profilesFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf8')));
+  if (!result.success) {
+    throw new Error(`Invalid wallet profiles in ${filePath}: ${result.error.issues.map((issue) => issue.message).join('; ')}`);
+  }
+  return new WalletProfiles(result.data);
+}
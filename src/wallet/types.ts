@@ -1,7 +1,12 @@
 // ABOUTME: Wallet provider interface and error types
 // ABOUTME: Defines contract for all wallet implementations (browser, WalletConnect, etc.)
 
-import type { Eip712Domain, TransferAuthorizationMessage } from '../signing/eip712.js';
+import type {
+  CancelAuthorizationMessage,
+  Eip712Domain,
+  PermitMessage,
+  TransferAuthorizationMessage,
+} from '../signing/eip712.js';
 
 /**
  * Common interface for all wallet providers
@@ -23,6 +28,36 @@ export interface WalletProvider {
     message: TransferAuthorizationMessage
   ): Promise<`0x${string}`>;
 
+  /**
+   * Sign EIP-712 typed data for receiveWithAuthorization
+   * @throws WalletNotConnectedError if not connected
+   * @throws UserRejectedError if user rejects the signature
+   */
+  signReceiveAuthorization(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`>;
+
+  /**
+   * Sign an EIP-2612 permit
+   * @throws WalletNotConnectedError if not connected
+   * @throws UserRejectedError if user rejects the signature
+   */
+  signPermit(
+    domain: Eip712Domain,
+    message: PermitMessage
+  ): Promise<`0x${string}`>;
+
+  /**
+   * Sign EIP-712 typed data for cancelAuthorization of an unused authorization
+   * @throws WalletNotConnectedError if not connected
+   * @throws UserRejectedError if user rejects the signature
+   */
+  signCancelAuthorization(
+    domain: Eip712Domain,
+    message: CancelAuthorizationMessage
+  ): Promise<`0x${string}`>;
+
   /**
    * Check if wallet is currently connected
    */
@@ -5,8 +5,19 @@ import { SignClient } from '@walletconnect/sign-client';
 import type { SessionTypes, SignClientTypes } from '@walletconnect/types';
 import type { WalletProvider } from './types.js';
 import { WalletNotConnectedError, WalletNotAvailableError } from './types.js';
-import type { Eip712Domain, TransferAuthorizationMessage } from '../signing/eip712.js';
-import { TRANSFER_WITH_AUTHORIZATION_TYPES } from '../signing/eip712.js';
+import type {
+  CancelAuthorizationMessage,
+  Eip712Domain,
+  PermitMessage,
+  TransferAuthorizationMessage,
+} from '../signing/eip712.js';
+import {
+  CANCEL_AUTHORIZATION_TYPES,
+  PERMIT_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+} from '../signing/eip712.js';
+import { describeAuthorization, describePermit } from '../signing/inspect.js';
 
 /**
  * Error thrown when WalletConnect connection times out
@@ -22,6 +33,10 @@ export class WalletConnectTimeoutError extends Error {
 export interface WalletConnectProviderOptions {
   chainId?: number;
   metadata?: SignClientTypes.Metadata;
+  /** Directory where sessions are persisted so restarts can restore them */
+  storagePath?: string;
+  /** How long connect() waits for the wallet to approve a pending pairing */
+  approvalTimeoutMs?: number;
 }
 
 /**
@@ -31,8 +46,11 @@ export interface WalletConnectProviderOptions {
 export class WalletConnectProvider implements WalletProvider {
   private client: InstanceType<typeof SignClient> | null = null;
   private session: SessionTypes.Struct | null = null;
+  private pendingPairing: { uri: string; approval: Promise<SessionTypes.Struct> } | null = null;
   private chainId: number;
   private metadata: SignClientTypes.Metadata;
+  private storagePath?: string;
+  private approvalTimeoutMs: number;
 
   constructor(options: WalletConnectProviderOptions = {}) {
     this.chainId = options.chainId ?? 8453; // Base mainnet
@@ -42,6 +60,8 @@ export class WalletConnectProvider implements WalletProvider {
       url: 'https://github.com/serenorg/x402-mcp-server',
       icons: ['https://avatars.githubusercontent.com/u/37784886'],
     };
+    this.storagePath = options.storagePath;
+    this.approvalTimeoutMs = options.approvalTimeoutMs ?? 300000; // 5 minutes
   }
 
   /**
@@ -60,6 +80,7 @@ export class WalletConnectProvider implements WalletProvider {
     this.client = await SignClient.init({
       projectId: wcProjectId,
       metadata: this.metadata,
+      ...(this.storagePath && { storageOptions: { database: this.storagePath } }),
     });
 
     // Set up event listeners
@@ -105,30 +126,100 @@ export class WalletConnectProvider implements WalletProvider {
   }
 
   /**
-   * Connect to wallet. Restores existing session or creates new pairing.
+   * Start a pairing in the background and return its URI for display
+   * Reuses the pending pairing if one is already waiting for approval.
    */
-  async connect(): Promise<void> {
+  async startPairing(): Promise<string> {
+    if (this.pendingPairing) {
+      return this.pendingPairing.uri;
+    }
+
+    const { uri, approval } = await this.createPairing();
+    const pending = { uri, approval: approval() };
+    this.pendingPairing = pending;
+
+    // Clear once the wallet approves, rejects, or the proposal expires
+    pending.approval
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.pendingPairing === pending) {
+          this.pendingPairing = null;
+        }
+      });
+
+    return uri;
+  }
+
+  /**
+   * Check whether a pairing is waiting for wallet approval
+   */
+  hasPendingPairing(): boolean {
+    return this.pendingPairing !== null;
+  }
+
+  /**
+   * Wait for the pending pairing to be approved
+   * @throws WalletConnectTimeoutError if not approved within timeoutMs
+   */
+  async waitForApproval(timeoutMs = this.approvalTimeoutMs): Promise<void> {
+    if (this.session) {
+      return;
+    }
+    if (!this.pendingPairing) {
+      throw new WalletNotConnectedError('No pending WalletConnect pairing');
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new WalletConnectTimeoutError('Timed out waiting for wallet approval')),
+        timeoutMs
+      );
+    });
+
+    try {
+      await Promise.race([this.pendingPairing.approval, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Restore a persisted session for the configured chain
+   * @returns true if a session was restored
+   */
+  restoreSession(): boolean {
     if (!this.client) {
       throw new WalletNotAvailableError('WalletConnect client not initialized. Call init() first.');
     }
+    if (this.session) {
+      return true;
+    }
 
-    // Check for existing sessions
-    const sessions = this.client.session.getAll();
-    if (sessions.length > 0) {
-      // Find session with matching chain
-      const matchingSession = sessions.find((s) =>
-        s.namespaces.eip155?.accounts.some((a) => a.startsWith(`eip155:${this.chainId}:`))
-      );
+    const matchingSession = this.client.session.getAll().find((s) =>
+      s.namespaces.eip155?.accounts.some((a) => a.startsWith(`eip155:${this.chainId}:`))
+    );
+    this.session = matchingSession ?? null;
+    return this.session !== null;
+  }
 
-      if (matchingSession) {
-        this.session = matchingSession;
-        return;
-      }
+  /**
+   * Connect to wallet. Restores an existing session, waits for a pending
+   * pairing, or creates a new pairing.
+   */
+  async connect(): Promise<void> {
+    if (!this.client) {
+      throw new WalletNotAvailableError('WalletConnect client not initialized. Call init() first.');
     }
 
-    // No existing session, create new pairing
-    const { approval } = await this.createPairing();
-    await approval();
+    if (this.restoreSession()) {
+      return;
+    }
+
+    if (!this.pendingPairing) {
+      await this.startPairing();
+    }
+    await this.waitForApproval();
   }
 
   /**
@@ -184,6 +275,72 @@ export class WalletConnectProvider implements WalletProvider {
   async signTypedData(
     domain: Eip712Domain,
     message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Approve in your wallet: ${describeAuthorization(message)}`);
+    return this.requestTypedDataSignature(
+      domain,
+      'TransferWithAuthorization',
+      TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization,
+      authorizationFields(message)
+    );
+  }
+
+  /**
+   * Sign ReceiveWithAuthorization typed data via WalletConnect
+   */
+  async signReceiveAuthorization(
+    domain: Eip712Domain,
+    message: TransferAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Approve in your wallet: ${describeAuthorization(message)}`);
+    return this.requestTypedDataSignature(
+      domain,
+      'ReceiveWithAuthorization',
+      RECEIVE_WITH_AUTHORIZATION_TYPES.ReceiveWithAuthorization,
+      authorizationFields(message)
+    );
+  }
+
+  /**
+   * Sign an EIP-2612 permit via WalletConnect
+   */
+  async signPermit(
+    domain: Eip712Domain,
+    message: PermitMessage
+  ): Promise<`0x${string}`> {
+    console.error(`Approve in your wallet: ${describePermit(message)}`);
+    return this.requestTypedDataSignature(domain, 'Permit', PERMIT_TYPES.Permit, {
+      owner: message.owner,
+      spender: message.spender,
+      value: message.value.toString(),
+      nonce: message.nonce.toString(),
+      deadline: message.deadline.toString(),
+    });
+  }
+
+  /**
+   * Sign CancelAuthorization typed data via WalletConnect
+   */
+  async signCancelAuthorization(
+    domain: Eip712Domain,
+    message: CancelAuthorizationMessage
+  ): Promise<`0x${string}`> {
+    return this.requestTypedDataSignature(
+      domain,
+      'CancelAuthorization',
+      CANCEL_AUTHORIZATION_TYPES.CancelAuthorization,
+      { ...message }
+    );
+  }
+
+  /**
+   * Ask the wallet to sign typed data with eth_signTypedData_v4
+   */
+  private async requestTypedDataSignature(
+    domain: Eip712Domain,
+    primaryType: string,
+    fields: ReadonlyArray<{ name: string; type: string }>,
+    message: Record<string, string>
   ): Promise<`0x${string}`> {
     if (!this.client || !this.session) {
       throw new WalletNotConnectedError();
@@ -200,23 +357,16 @@ export class WalletConnectProvider implements WalletProvider {
           { name: 'chainId', type: 'uint256' },
           { name: 'verifyingContract', type: 'address' },
         ],
-        TransferWithAuthorization: TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization,
+        [primaryType]: fields,
       },
-      primaryType: 'TransferWithAuthorization',
+      primaryType,
       domain: {
         name: domain.name,
         version: domain.version,
         chainId: Number(domain.chainId),
         verifyingContract: domain.verifyingContract,
       },
-      message: {
-        from: message.from,
-        to: message.to,
-        value: message.value.toString(),
-        validAfter: message.validAfter.toString(),
-        validBefore: message.validBefore.toString(),
-        nonce: message.nonce,
-      },
+      message,
     };
 
     const signature = await this.client.request<string>({
@@ -247,3 +397,17 @@ export class WalletConnectProvider implements WalletProvider {
     return this.session?.topic ?? null;
   }
 }
+
+/**
+ * EIP-3009 message fields as JSON-safe strings for eth_signTypedData_v4
+ */
+function authorizationFields(message: TransferAuthorizationMessage): Record<string, string> {
+  return {
+    from: message.from,
+    to: message.to,
+    value: message.value.toString(),
+    validAfter: message.validAfter.toString(),
+    validBefore: message.validBefore.toString(),
+    nonce: message.nonce,
+  };
+}
@@ -0,0 +1,130 @@
+// ABOUTME: End-to-end tests for the web API server against the mock gateway
+// ABOUTME: Checks that authorizations signed for paid web queries are tracked in the nonce registry
+
+import { jest } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, type Server } from 'http';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { encodeAbiParameters, toFunctionSelector, toHex } from 'viem';
+import type { MockGateway } from '../../src/mock/gateway.js';
+import { SEC_FILINGS_PUBLISHER_ID } from '../../src/mock/fixtures.js';
+
+// Hardhat account #0; the mock gateway never touches the chain
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const WALLET_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const BALANCE_OF = toFunctionSelector('balanceOf(address)');
+const AUTHORIZATION_STATE = toFunctionSelector('authorizationState(address,bytes32)');
+
+/**
+ * Base RPC stand-in: the wallet holds 100 USDC and no authorization nonce has been used
+ */
+function startRpc(): Promise<Server> {
+  const rpc = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const request = JSON.parse(body) as { id: number; method: string; params: Array<{ data?: string }> };
+      let result: unknown;
+      if (request.method === 'eth_chainId') {
+        result = toHex(8453);
+      } else if (request.method === 'eth_call' && request.params[0].data?.startsWith(BALANCE_OF)) {
+        result = encodeAbiParameters([{ type: 'uint256' }], [100000000n]);
+      } else if (request.method === 'eth_call' && request.params[0].data?.startsWith(AUTHORIZATION_STATE)) {
+        result = encodeAbiParameters([{ type: 'bool' }], [false]);
+      }
+      res.end(JSON.stringify(result === undefined
+        ? { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `${request.method} not supported` } }
+        : { jsonrpc: '2.0', id: request.id, result }));
+    });
+  });
+  return new Promise((resolve) => rpc.listen(0, '127.0.0.1', () => resolve(rpc)));
+}
+
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe('Web API', () => {
+  let mockGateway: MockGateway;
+  let gatewayWallet: string;
+  let rpc: Server;
+  let server: Server;
+  let baseUrl: string;
+  let ledgerDir: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    rpc = await startRpc();
+    ledgerDir = mkdtempSync(join(tmpdir(), 'web-api-test-'));
+
+    // Config is read once on first import, so every src module is imported after the environment is set
+    const gatewayPort = await freePort();
+    process.env.X402_GATEWAY_URL = `http://127.0.0.1:${gatewayPort}`;
+    process.env.BASE_RPC_URL = `http://127.0.0.1:${(rpc.address() as AddressInfo).port}`;
+    process.env.WALLET_PRIVATE_KEY = PRIVATE_KEY;
+    process.env.PAYMENT_LEDGER_PATH = join(ledgerDir, 'payments.db');
+    process.env.PORT = '0';
+
+    const { MockGateway, MOCK_GATEWAY_WALLET } = await import('../../src/mock/gateway.js');
+    gatewayWallet = MOCK_GATEWAY_WALLET;
+    mockGateway = new MockGateway();
+    await mockGateway.start(gatewayPort);
+
+    ({ server } = await import('../../src/server.js'));
+    if (!server.listening) {
+      await once(server, 'listening');
+    }
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await new Promise((resolve) => rpc.close(resolve));
+    await mockGateway.stop();
+    rmSync(ledgerDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should register the authorization signed for a paid query', async () => {
+    const query = await fetch(`${baseUrl}/api/execute-sql`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sql: 'SELECT COUNT(DISTINCT filing_date) AS filing_date_count FROM filing',
+        providerId: SEC_FILINGS_PUBLISHER_ID,
+      }),
+    });
+    expect(query.status).toBe(200);
+
+    const response = await fetch(`${baseUrl}/api/authorizations?status=unused`);
+    const body = await response.json() as { success: boolean; count: number; authorizations: unknown[] };
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, count: 1 });
+    expect(body.authorizations).toEqual([
+      expect.objectContaining({ from: WALLET_ADDRESS, to: gatewayWallet, status: 'unused' }),
+    ]);
+  });
+
+  it('should reject a malformed cancellation nonce', async () => {
+    const response = await fetch(`${baseUrl}/api/authorizations/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ nonce: '0x01' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, code: 'INVALID_INPUT' });
+  });
+});
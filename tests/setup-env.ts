@@ -0,0 +1,4 @@
+// ABOUTME: Environment shared by every test file, applied before any module reads config
+// ABOUTME: Allows the mock gateway wallet as payTo, since an empty allowlist rejects every payment
+
+process.env.PAYMENT_PAYTO_ALLOWLIST ??= '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
@@ -0,0 +1,152 @@
+// ABOUTME: Tests for the opt-in automatic credit top-up policy
+// ABOUTME: Covers deposit sizing, the monthly ceiling, dry runs and retry after a top-up
+
+import { jest } from '@jest/globals';
+import { AutoTopUp, withAutoTopUp, type TopUpDepositResult } from '../../src/payment/topup.js';
+import type { PaymentOutcome } from '../../src/payment/types.js';
+
+describe('AutoTopUp', () => {
+  const deposited = (): jest.Mock<(amount: string) => Promise<TopUpDepositResult>> =>
+    jest.fn(async () => ({ success: true, txHash: '0xdeposit' }));
+
+  it('should deposit the configured amount when it covers the minimum', async () => {
+    const deposit = deposited();
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    const result = await autoTopUp.topUp('1.00', deposit);
+
+    expect(deposit).toHaveBeenCalledWith('5');
+    expect(result).toEqual({
+      success: true,
+      report: {
+        deposited: '5 USDC',
+        txHash: '0xdeposit',
+        balance: undefined,
+        monthlyTotal: '5 USDC',
+        monthlyLimit: '20 USDC',
+      },
+    });
+  });
+
+  it('should raise the deposit to the minimum required', async () => {
+    const deposit = deposited();
+    const autoTopUp = new AutoTopUp({ amount: 1000000n, monthlyLimit: 20000000n });
+
+    await autoTopUp.topUp('2.5', deposit);
+
+    expect(deposit).toHaveBeenCalledWith('2.5');
+  });
+
+  it('should enforce the monthly limit across top-ups', async () => {
+    const deposit = deposited();
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 12000000n });
+
+    await autoTopUp.topUp('1', deposit);
+    await autoTopUp.topUp('1', deposit);
+    const third = await autoTopUp.topUp('1', deposit);
+
+    expect(third).toEqual({
+      success: false,
+      error: 'top-up of 5 USDC would exceed the monthly limit of 12 USDC (2 USDC remaining)',
+    });
+    expect(deposit).toHaveBeenCalledTimes(2);
+    expect(autoTopUp.getMonthlyTotal()).toBe(10000000n);
+  });
+
+  it('should reset the monthly total at the start of a new month', async () => {
+    let now = Date.UTC(2026, 0, 31, 23, 0);
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 5000000n }, { now: () => now });
+
+    await autoTopUp.topUp('1', deposited());
+    now = Date.UTC(2026, 1, 1, 0, 30);
+
+    expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+    expect((await autoTopUp.topUp('1', deposited())).success).toBe(true);
+  });
+
+  it('should reserve the amount while a deposit is in flight', async () => {
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 8000000n });
+    const deposit = deposited();
+
+    const [first, second] = await Promise.all([autoTopUp.topUp('1', deposit), autoTopUp.topUp('1', deposit)]);
+
+    expect(first.success).toBe(true);
+    expect(second).toEqual({
+      success: false,
+      error: 'top-up of 5 USDC would exceed the monthly limit of 8 USDC (3 USDC remaining)',
+    });
+    expect(deposit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the reservation when the deposit throws', async () => {
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    await expect(autoTopUp.topUp('1', async () => { throw new Error('ECONNRESET'); })).rejects.toThrow('ECONNRESET');
+
+    expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+  });
+
+  it('should not count failed deposits', async () => {
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    const result = await autoTopUp.topUp('1', async () => ({ success: false, error: 'User rejected the payment request' }));
+
+    expect(result).toEqual({ success: false, error: 'User rejected the payment request' });
+    expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+  });
+});
+
+describe('withAutoTopUp', () => {
+  const insufficient: PaymentOutcome<string> = {
+    status: 'insufficient_credit',
+    error: 'Insufficient credit balance. Minimum required: 1.00 USDC. Please deposit funds to continue.',
+    minimumRequired: '1.00',
+    depositEndpoint: '/api/credits/deposit',
+  };
+
+  it('should return the outcome unchanged without a top-up policy', async () => {
+    const run = jest.fn(async () => insufficient);
+
+    const result = await withAutoTopUp(run, undefined, jest.fn(async () => ({ success: true })));
+
+    expect(result).toEqual({ outcome: insufficient });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry once after a successful top-up', async () => {
+    const run = jest.fn<() => Promise<PaymentOutcome<string>>>()
+      .mockResolvedValueOnce(insufficient)
+      .mockResolvedValueOnce({ status: 'free', data: 'rows' });
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    const result = await withAutoTopUp(run, autoTopUp, async () => ({ success: true }));
+
+    expect(result.outcome).toEqual({ status: 'free', data: 'rows' });
+    expect(result.topUp?.deposited).toBe('5 USDC');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not top up on a dry run', async () => {
+    const run = jest.fn(async () => insufficient);
+    const deposit = jest.fn(async () => ({ success: true }));
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    const result = await withAutoTopUp(run, autoTopUp, deposit, { dryRun: true });
+
+    expect(result).toEqual({ outcome: insufficient });
+    expect(deposit).not.toHaveBeenCalled();
+    expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+  });
+
+  it('should report the top-up before retrying', async () => {
+    const run = jest.fn<() => Promise<PaymentOutcome<string>>>()
+      .mockResolvedValueOnce(insufficient)
+      .mockRejectedValueOnce(new Error('ECONNRESET'));
+    const onTopUp = jest.fn();
+    const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+
+    await expect(withAutoTopUp(run, autoTopUp, async () => ({ success: true }), { onTopUp })).rejects.toThrow('ECONNRESET');
+
+    expect(onTopUp).toHaveBeenCalledWith(expect.objectContaining({ deposited: '5 USDC' }));
+  });
+});
@@ -0,0 +1,71 @@
+// ABOUTME: Tests for spending limits enforced before signing
+// ABOUTME: Covers per-call, rolling daily and per-publisher budgets
+
+import { SpendingLimiter, BudgetExceededError } from '../../src/payment/budget.js';
+
+describe('SpendingLimiter', () => {
+  it('should allow any amount when no limits are configured', () => {
+    const limiter = new SpendingLimiter();
+
+    expect(() => limiter.reserve('1000000000')).not.toThrow();
+  });
+
+  it('should reject payments above the per-call limit', () => {
+    const limiter = new SpendingLimiter({ perCall: 100000n });
+
+    expect(() => limiter.reserve('100000')).not.toThrow();
+    try {
+      limiter.reserve('100001');
+      throw new Error('expected BudgetExceededError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect((error as BudgetExceededError).details).toEqual({
+        limit: 'per_call',
+        max: '0.1 USDC',
+        requested: '0.100001 USDC',
+        remaining: '0.1 USDC',
+        publisherId: undefined,
+      });
+    }
+  });
+
+  it('should enforce the daily limit across calls', () => {
+    const limiter = new SpendingLimiter({ daily: 1000000n });
+
+    limiter.reserve('600000');
+    limiter.reserve('300000');
+
+    expect(() => limiter.reserve('200000')).toThrow(/daily limit of 1 USDC \(0.1 USDC remaining\)/);
+    expect(limiter.getDailySpend()).toBe(900000n);
+  });
+
+  it('should forget spends older than 24 hours', () => {
+    let now = Date.UTC(2026, 0, 1);
+    const limiter = new SpendingLimiter({ daily: 1000000n }, { now: () => now });
+
+    limiter.reserve('1000000');
+    expect(() => limiter.reserve('1')).toThrow(BudgetExceededError);
+
+    now += 24 * 60 * 60 * 1000 + 1;
+    expect(() => limiter.reserve('1000000')).not.toThrow();
+  });
+
+  it('should enforce the per-publisher limit independently', () => {
+    const limiter = new SpendingLimiter({ perPublisher: 500000n });
+
+    limiter.reserve('500000', 'publisher-a');
+
+    expect(() => limiter.reserve('1', 'publisher-a')).toThrow(/publisher publisher-a/);
+    expect(() => limiter.reserve('500000', 'publisher-b')).not.toThrow();
+  });
+
+  it('should not count released reservations', () => {
+    const limiter = new SpendingLimiter({ daily: 1000000n });
+
+    const reservation = limiter.reserve('1000000');
+    limiter.release(reservation);
+
+    expect(limiter.getDailySpend()).toBe(0n);
+    expect(() => limiter.reserve('1000000')).not.toThrow();
+  });
+});
@@ -0,0 +1,210 @@
+// ABOUTME: Tests for the gateway circuit breaker, full-jitter backoff and Retry-After handling
+// ABOUTME: Drives breakers with a fake clock and checks GatewayClient stops calling endpoints that keep failing
+
+import { jest } from '@jest/globals';
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../src/gateway/circuitBreaker.js';
+import { GatewayClient } from '../../src/gateway/client.js';
+import { CircuitOpenError, GatewayHttpError } from '../../src/gateway/errors.js';
+import { parseRetryAfter, retryWithBackoff } from '../../src/utils/retry.js';
+import { toolErrorFor } from '../../src/tools/errors.js';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+    breaker = new CircuitBreaker('/api/query', { failureThreshold: 3, resetTimeoutMs: 1000, now: () => now });
+  });
+
+  function fail(times: number): void {
+    for (let i = 0; i < times; i++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+  }
+
+  it('should stay closed until the failure threshold is reached', () => {
+    fail(2);
+    breaker.acquire();
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.snapshot()).toEqual({ state: 'closed', failures: 2 });
+  });
+
+  it('should refuse calls while open', () => {
+    fail(3);
+    now += 400;
+
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    expect(breaker.snapshot()).toEqual({
+      state: 'open',
+      failures: 3,
+      openedAt: '2026-01-01T00:00:00.000Z',
+      retryAfterMs: 600,
+    });
+  });
+
+  it('should let a single trial call through once the reset timeout passes', () => {
+    fail(3);
+    now += 1000;
+
+    expect(breaker.getState()).toBe('half-open');
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toEqual({ state: 'closed', failures: 0 });
+  });
+
+  it('should open again when the trial call fails', () => {
+    fail(3);
+    now += 1000;
+    breaker.acquire();
+    breaker.recordFailure();
+
+    const error = (() => {
+      try {
+        breaker.acquire();
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ endpoint: '/api/query', retryAfterMs: 1000, status: 503, retryable: true });
+  });
+
+  it('should keep one breaker per endpoint in a registry', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+    registry.get('/api/query').recordFailure();
+
+    expect(registry.get('/api/query')).toBe(registry.get('/api/query'));
+    expect(registry.snapshot()).toEqual({
+      '/api/query': expect.objectContaining({ state: 'open', failures: 1 }),
+    });
+  });
+});
+
+describe('retryWithBackoff', () => {
+  let delays: number[];
+
+  beforeEach(() => {
+    delays = [];
+    jest.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+      delays.push(ms ?? 0);
+      callback();
+      return 0;
+    }) as typeof setTimeout);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should wait a random time up to the capped exponential delay', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValue('ok');
+
+    const result = await retryWithBackoff(fn, { maxAttempts: 4, delayMs: 1000, maxDelayMs: 3000, random: () => 0.5 });
+
+    expect(result).toBe('ok');
+    expect(delays).toEqual([500, 1000, 1500]);
+  });
+
+  it('should wait as long as Retry-After asks', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new GatewayHttpError('Slow down', 429, { retryAfterMs: 2000 }))
+      .mockResolvedValue('ok');
+
+    await retryWithBackoff(fn, { maxAttempts: 2, delayMs: 100, random: () => 0.5 });
+
+    expect(delays).toEqual([2000]);
+  });
+
+  it('should give up when Retry-After is longer than the longest wait', async () => {
+    const error = new CircuitOpenError('/api/query', 30000);
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(fn, { maxAttempts: 3, delayMs: 100, maxDelayMs: 10000 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('GatewayClient circuit breaking', () => {
+  const originalFetch = global.fetch;
+  let registry: CircuitBreakerRegistry;
+  let client: GatewayClient;
+
+  beforeEach(() => {
+    registry = new CircuitBreakerRegistry({ failureThreshold: 2, resetTimeoutMs: 60000 });
+    client = new GatewayClient('https://test.gateway.com', { circuitBreakers: registry });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should keep the Retry-After of rate-limited responses', async () => {
+    global.fetch = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse(429, { error: 'Too many requests' }, { 'Retry-After': '3' }));
+
+    const error = await client.getPublisher('abc').catch((e) => e);
+
+    expect(error).toBeInstanceOf(GatewayHttpError);
+    expect(error).toMatchObject({ statusCode: 429, retryable: true, retryAfterMs: 3000 });
+  });
+
+  it('should stop calling an endpoint after repeated failures, across methods', async () => {
+    const fetchMock = jest.fn<typeof fetch>().mockImplementation(async () => jsonResponse(503, { error: 'Maintenance' }));
+    global.fetch = fetchMock;
+
+    await expect(client.listPublishers()).rejects.toThrow(GatewayHttpError);
+    await expect(client.getPublisher('abc')).rejects.toThrow(GatewayHttpError);
+    await expect(client.getPublisher('abc')).rejects.toThrow(CircuitOpenError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(registry.snapshot()).toEqual({
+      'https://test.gateway.com/api/catalog': expect.objectContaining({ state: 'open', failures: 2 }),
+    });
+  });
+
+  it('should keep endpoints apart and treat client errors as the gateway being up', async () => {
+    global.fetch = jest.fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse(404, { error: 'Not found' }))
+      .mockResolvedValueOnce(jsonResponse(404, { error: 'Not found' }))
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    await expect(client.getPublisher('missing')).rejects.toThrow('Publisher not found');
+    await expect(client.getPublisher('missing')).rejects.toThrow('Publisher not found');
+    await expect(client.getCreditBalance('0x1234567890123456789012345678901234567890')).rejects.toThrow('ECONNREFUSED');
+
+    expect(registry.snapshot()).toEqual({
+      'https://test.gateway.com/api/catalog': { state: 'closed', failures: 0 },
+      'https://test.gateway.com/api/credits': { state: 'closed', failures: 1 },
+    });
+  });
+
+  it('should report an open circuit as a retryable GATEWAY_UNAVAILABLE tool error', () => {
+    expect(toolErrorFor(new CircuitOpenError('/api/query', 5000))).toEqual({ code: 'GATEWAY_UNAVAILABLE', retryable: true });
+  });
+});
@@ -0,0 +1,77 @@
+// ABOUTME: Tests for connect_wallet MCP tool
+// ABOUTME: Uses a mocked WalletConnect provider to cover pairing and approval states
+
+import { jest } from '@jest/globals';
+import { connectWallet } from '../../src/tools/connectWallet.js';
+import { WalletConnectProvider, WalletConnectTimeoutError } from '../../src/wallet/walletconnect.js';
+
+describe('connectWallet', () => {
+  const URI = 'wc:abc123@2?relay-protocol=irn&symKey=def456';
+  const ADDRESS = '0x1234567890123456789012345678901234567890';
+
+  function mockProvider(overrides: Partial<Record<keyof WalletConnectProvider, unknown>> = {}) {
+    return {
+      restoreSession: jest.fn().mockReturnValue(false),
+      startPairing: jest.fn<() => Promise<string>>().mockResolvedValue(URI),
+      waitForApproval: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      getAddress: jest.fn<() => Promise<string>>().mockResolvedValue(ADDRESS),
+      ...overrides,
+    } as unknown as WalletConnectProvider;
+  }
+
+  it('should return the address of a restored session without pairing', async () => {
+    const provider = mockProvider({ restoreSession: jest.fn().mockReturnValue(true) });
+
+    const result = await connectWallet({}, provider);
+
+    expect(result).toEqual({ success: true, status: 'connected', address: ADDRESS });
+    expect(provider.startPairing).not.toHaveBeenCalled();
+  });
+
+  it('should return the pairing URI and a terminal QR code', async () => {
+    const provider = mockProvider();
+
+    const result = await connectWallet({}, provider);
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe('pending_approval');
+    expect(result.pairingUri).toBe(URI);
+    expect(result.qrCode).toEqual(expect.any(String));
+    expect(result.qrCode!.split('\n').length).toBeGreaterThan(10);
+    expect(provider.waitForApproval).not.toHaveBeenCalled();
+  });
+
+  it('should wait for approval when requested', async () => {
+    const provider = mockProvider();
+
+    const result = await connectWallet({ wait_for_approval: true, timeout_seconds: 30 }, provider);
+
+    expect(provider.waitForApproval).toHaveBeenCalledWith(30000);
+    expect(result).toEqual({ success: true, status: 'connected', address: ADDRESS });
+  });
+
+  it('should keep the pairing pending when approval times out', async () => {
+    const provider = mockProvider({
+      waitForApproval: jest.fn<() => Promise<void>>().mockRejectedValue(
+        new WalletConnectTimeoutError('Timed out waiting for wallet approval')
+      ),
+    });
+
+    const result = await connectWallet({ wait_for_approval: true }, provider);
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBe('pending_approval');
+    expect(result.pairingUri).toBe(URI);
+    expect(result.error).toBe('Timed out waiting for wallet approval');
+  });
+
+  it('should return an error when the wallet rejects the session', async () => {
+    const provider = mockProvider({
+      waitForApproval: jest.fn<() => Promise<void>>().mockRejectedValue(new Error('User rejected.')),
+    });
+
+    const result = await connectWallet({ wait_for_approval: true }, provider);
+
+    expect(result).toEqual({ success: false, error: 'User rejected.', code: 'INTERNAL_ERROR', retryable: false });
+  });
+});
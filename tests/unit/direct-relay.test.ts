@@ -0,0 +1,333 @@
+// ABOUTME: Tests DirectRelay broadcasting against a local anvil-style JSON-RPC stand-in
+// ABOUTME: Covers simulation, nonce management, EIP-1559 fees and receipt waiting
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  toHex,
+  type Hex,
+  type TransactionSerializedEIP1559,
+} from 'viem';
+import { DirectRelay } from '../../src/relay/direct.js';
+import { RelayManager } from '../../src/relay/manager.js';
+import {
+  RelayNotAvailableError,
+  RelaySubmissionError,
+  USDC_CONTRACTS,
+  type AuthorizationParams,
+  type TransactionRelay,
+} from '../../src/relay/types.js';
+
+const GAS_PAYER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const GAS_PAYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+interface StandInOptions {
+  /** Revert reason returned by eth_call */
+  revert?: string;
+  /** Leave sent transactions unmined */
+  mine?: boolean;
+  /** Receipt status for mined transactions */
+  status?: 'success' | 'reverted';
+  /** Pending nonce of the gas payer */
+  nonce?: number;
+  /** Methods that fail with an internal JSON-RPC error */
+  failing?: string[];
+}
+
+interface SentTransaction {
+  hash: Hex;
+  from: string;
+  nonce: number;
+  to: string;
+  data: Hex;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  chainId: number;
+}
+
+function isEip1559(raw: Hex): raw is TransactionSerializedEIP1559 {
+  return raw.startsWith('0x02');
+}
+
+/**
+ * Minimal Base-like JSON-RPC node: mines each raw transaction into its own block
+ */
+class JsonRpcStandIn {
+  readonly sent: SentTransaction[] = [];
+  readonly calls: string[] = [];
+  private server: Server;
+  private blockNumber = 100n;
+  private nonce: number;
+  private receipts = new Map<Hex, Record<string, unknown>>();
+
+  constructor(private readonly options: StandInOptions = {}) {
+    this.nonce = options.nonce ?? 0;
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', async () => {
+        const request = JSON.parse(body) as { id: number; method: string; params: unknown[] };
+        this.calls.push(request.method);
+        try {
+          const result = await this.handle(request.method, request.params);
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+        } catch (error) {
+          const { code, message } = error as { code: number; message: string };
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, error: { code, message } }));
+        }
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(method: string, params: unknown[]): Promise<unknown> {
+    if (this.options.failing?.includes(method)) {
+      throw { code: -32603, message: 'internal error' };
+    }
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(8453);
+      case 'eth_blockNumber':
+        return toHex(this.blockNumber);
+      case 'eth_getBlockByNumber':
+        return {
+          number: toHex(this.blockNumber),
+          hash: keccak256(toHex(this.blockNumber)),
+          parentHash: keccak256(toHex(this.blockNumber - 1n)),
+          timestamp: toHex(1700000000n + this.blockNumber * 2n),
+          baseFeePerGas: toHex(1000000000n), // 1 gwei
+          gasLimit: toHex(30000000n),
+          gasUsed: '0x0',
+          transactions: [],
+        };
+      case 'eth_maxPriorityFeePerGas':
+        return toHex(100000000n); // 0.1 gwei
+      case 'eth_call':
+        if (this.options.revert) {
+          throw { code: 3, message: `execution reverted: ${this.options.revert}` };
+        }
+        return '0x';
+      case 'eth_estimateGas':
+        return toHex(86000n);
+      case 'eth_getTransactionCount':
+        return toHex(this.nonce);
+      case 'eth_sendRawTransaction':
+        return this.sendRaw(params[0] as Hex);
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(params[0] as Hex) ?? null;
+      case 'eth_getTransactionByHash':
+        return null;
+      default:
+        throw { code: -32601, message: `Method ${method} not supported` };
+    }
+  }
+
+  private async sendRaw(raw: Hex): Promise<Hex> {
+    if (!isEip1559(raw)) {
+      throw { code: -32000, message: 'only EIP-1559 transactions are supported' };
+    }
+    const tx = parseTransaction(raw);
+    const from = await recoverTransactionAddress({ serializedTransaction: raw });
+    const hash = keccak256(raw);
+
+    if (tx.nonce !== this.nonce) {
+      throw { code: -32000, message: `nonce too low: expected ${this.nonce}, got ${tx.nonce}` };
+    }
+    this.nonce += 1;
+    this.sent.push({
+      hash,
+      from,
+      nonce: tx.nonce!,
+      to: tx.to!,
+      data: tx.data!,
+      gas: tx.gas!,
+      maxFeePerGas: tx.maxFeePerGas!,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas!,
+      chainId: tx.chainId!,
+    });
+
+    if (this.options.mine !== false) {
+      this.blockNumber += 1n;
+      this.receipts.set(hash, {
+        transactionHash: hash,
+        transactionIndex: '0x0',
+        blockHash: keccak256(toHex(this.blockNumber)),
+        blockNumber: toHex(this.blockNumber),
+        from,
+        to: tx.to,
+        cumulativeGasUsed: toHex(61234n),
+        gasUsed: toHex(61234n),
+        effectiveGasPrice: toHex(1100000000n),
+        contractAddress: null,
+        logs: [],
+        logsBloom: `0x${'00'.repeat(256)}`,
+        status: this.options.status === 'reverted' ? '0x0' : '0x1',
+        type: '0x2',
+      });
+    }
+    return hash;
+  }
+}
+
+describe('DirectRelay submission', () => {
+  const params: AuthorizationParams = {
+    from: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    to: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    value: 50000n,
+    validAfter: 0,
+    validBefore: Math.floor(Date.now() / 1000) + 300,
+    nonce: `0x${'01'.repeat(32)}`,
+    signature: `0x${'11'.repeat(64)}1b`,
+  };
+
+  let standIn: JsonRpcStandIn;
+
+  async function relayFor(options: StandInOptions = {}, overrides: { receiptTimeoutMs?: number } = {}) {
+    standIn = new JsonRpcStandIn(options);
+    const rpcUrl = await standIn.start();
+    return new DirectRelay({
+      rpcUrl,
+      chainId: 8453,
+      privateKey: GAS_PAYER_KEY,
+      pollingIntervalMs: 20,
+      ...overrides,
+    });
+  }
+
+  afterEach(async () => {
+    await standIn?.stop();
+  });
+
+  it('should broadcast transferWithAuthorization and wait for the receipt', async () => {
+    const relay = await relayFor({ nonce: 7 });
+
+    const result = await relay.submitAuthorization(params);
+
+    expect(result).toEqual({
+      txHash: standIn.sent[0].hash,
+      confirmed: true,
+      blockNumber: 101,
+      gasUsed: 61234n,
+    });
+    expect(standIn.sent[0]).toMatchObject({
+      from: GAS_PAYER,
+      nonce: 7,
+      to: USDC_CONTRACTS[8453].toLowerCase(),
+      data: relay.buildTransferAuthorizationCallData(params),
+      gas: 86000n,
+      chainId: 8453,
+    });
+  });
+
+  it('should set EIP-1559 fees from the base fee and priority fee', async () => {
+    const relay = await relayFor();
+
+    await relay.submitAuthorization(params);
+
+    const [tx] = standIn.sent;
+    expect(tx.maxPriorityFeePerGas).toBe(100000000n);
+    expect(tx.maxFeePerGas).toBeGreaterThan(1000000000n);
+  });
+
+  it('should assign sequential nonces to concurrent submissions', async () => {
+    const relay = await relayFor({ nonce: 3 });
+
+    await Promise.all([
+      relay.submitAuthorization(params),
+      relay.submitAuthorization({ ...params, nonce: `0x${'02'.repeat(32)}` }),
+    ]);
+
+    expect(standIn.sent.map((tx) => tx.nonce).sort()).toEqual([3, 4]);
+    expect(standIn.calls.filter((method) => method === 'eth_getTransactionCount')).toHaveLength(1);
+  });
+
+  it('should not broadcast when the simulation reverts', async () => {
+    const relay = await relayFor({ revert: 'FiatTokenV2: invalid signature' });
+
+    await expect(relay.submitAuthorization(params)).rejects.toThrow(RelaySubmissionError);
+    await expect(relay.submitAuthorization(params)).rejects.toThrow('Authorization would fail on-chain');
+    expect(standIn.sent).toHaveLength(0);
+  });
+
+  it('should report RPC failures before broadcasting as unavailable', async () => {
+    for (const method of ['eth_estimateGas', 'eth_maxPriorityFeePerGas', 'eth_getTransactionCount', 'eth_sendRawTransaction']) {
+      const relay = await relayFor({ failing: [method] });
+
+      await expect(relay.submitAuthorization(params)).rejects.toThrow(RelayNotAvailableError);
+      expect(standIn.sent).toHaveLength(0);
+      await standIn.stop();
+    }
+  });
+
+  it('should report an unreachable RPC endpoint as unavailable', async () => {
+    const relay = await relayFor();
+    await standIn.stop();
+
+    await expect(relay.submitAuthorization(params)).rejects.toThrow(RelayNotAvailableError);
+  });
+
+  it('should let RelayManager fall back when the direct RPC fails', async () => {
+    const relay = await relayFor({ failing: ['eth_estimateGas'] });
+    const paloma = {
+      isAvailable: async () => true,
+      submitAuthorization: async () => ({ txHash: '0xpaloma' as Hex, confirmed: true }),
+    } satisfies TransactionRelay;
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay }, { type: 'paloma', relay: paloma }] });
+
+    const result = await manager.submitAuthorization(params);
+
+    expect(result).toMatchObject({ txHash: '0xpaloma', relay: 'paloma' });
+    expect(result.skipped).toEqual([{ type: 'direct', reason: expect.stringContaining('Failed to prepare authorization') }]);
+  });
+
+  it('should report a reverted transaction', async () => {
+    const relay = await relayFor({ status: 'reverted' });
+
+    await expect(relay.submitAuthorization(params)).rejects.toThrow(/reverted/);
+  });
+
+  it('should return an unconfirmed result when no receipt arrives in time', async () => {
+    const relay = await relayFor({ mine: false }, { receiptTimeoutMs: 200 });
+
+    const result = await relay.submitAuthorization(params);
+
+    expect(result).toEqual({ txHash: standIn.sent[0].hash, confirmed: false });
+  });
+
+  it('should broadcast cancelAuthorization', async () => {
+    const relay = await relayFor();
+    const cancellation = { authorizer: params.from, nonce: params.nonce, signature: params.signature };
+
+    const result = await relay.submitCancellation(cancellation);
+
+    expect(result.confirmed).toBe(true);
+    expect(standIn.sent[0].data).toBe(relay.buildCancelAuthorizationCallData(cancellation));
+  });
+
+  it('should not broadcast a cancellation that would revert', async () => {
+    const relay = await relayFor({ revert: 'FiatTokenV2: authorization is used or canceled' });
+
+    await expect(relay.submitCancellation({ authorizer: params.from, nonce: params.nonce, signature: params.signature }))
+      .rejects.toThrow('Cancellation would fail on-chain');
+    expect(standIn.sent).toHaveLength(0);
+  });
+
+  it('should require a gas-paying key', async () => {
+    standIn = new JsonRpcStandIn();
+    const relay = new DirectRelay({ rpcUrl: await standIn.start() });
+
+    await expect(relay.submitAuthorization(params)).rejects.toThrow(RelayNotAvailableError);
+  });
+});
@@ -5,6 +5,7 @@ import { jest } from '@jest/globals';
 import { GatewayClient } from '../../src/gateway/client.js';
 import type { PaymentPayload, CreditBalance } from '../../src/gateway/types.js';
 import { isInsufficientCreditError } from '../../src/gateway/types.js';
+import { decodePaymentHeader } from '../../src/gateway/x402.js';
 
 describe('GatewayClient', () => {
   let client: GatewayClient;
@@ -88,37 +89,22 @@ describe('GatewayClient', () => {
   });
 
   describe('decodePaymentResponse', () => {
-    it('should decode base64 response', () => {
+    it('should decode a settlement response', () => {
       const original = {
-        txHash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
         success: true,
-        gasUsed: '21000'
+        transaction: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        network: 'base',
+        payer: '0x1234567890123456789012345678901234567890',
       };
       const encoded = Buffer.from(JSON.stringify(original)).toString('base64');
 
-      const decoded = client.decodePaymentResponse(encoded);
-      expect(decoded).toEqual(original);
+      expect(client.decodePaymentResponse(encoded)).toEqual(original);
     });
 
-    it('should handle complex response objects', () => {
-      const original = {
-        status: 'settled',
-        transaction: {
-          hash: '0xabc',
-          blockNumber: 12345678,
-          from: '0x1234',
-          to: '0xabcd',
-          value: '1000000'
-        },
-        receipt: {
-          gasUsed: '50000',
-          effectiveGasPrice: '1000000000'
-        }
-      };
-      const encoded = Buffer.from(JSON.stringify(original)).toString('base64');
+    it('should map legacy txHash responses to a successful settlement', () => {
+      const encoded = Buffer.from(JSON.stringify({ txHash: '0xabc', gasUsed: '21000' })).toString('base64');
 
-      const decoded = client.decodePaymentResponse(encoded);
-      expect(decoded).toEqual(original);
+      expect(client.decodePaymentResponse(encoded)).toEqual({ success: true, transaction: '0xabc', network: '' });
     });
 
     it('should throw on invalid base64', () => {
@@ -127,7 +113,7 @@ describe('GatewayClient', () => {
 
     it('should throw on invalid JSON', () => {
       const invalidJson = Buffer.from('not json').toString('base64');
-      expect(() => client.decodePaymentResponse(invalidJson)).toThrow();
+      expect(() => client.decodePaymentResponse(invalidJson)).toThrow('Invalid payment response header');
     });
   });
 
@@ -151,8 +137,7 @@ describe('GatewayClient', () => {
       };
 
       const encoded = client.encodePaymentPayload(payload);
-      const decoded = client.decodePaymentResponse(encoded);
-      expect(decoded).toEqual(payload);
+      expect(decodePaymentHeader(encoded)).toEqual(payload);
     });
   });
 
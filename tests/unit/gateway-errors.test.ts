@@ -0,0 +1,189 @@
+// ABOUTME: Tests for the typed gateway error hierarchy
+// ABOUTME: Checks the client throws each class and retries, tool results and HTTP statuses map from them
+
+import { jest } from '@jest/globals';
+import { GatewayClient } from '../../src/gateway/client.js';
+import {
+  GatewayError,
+  GatewayHttpError,
+  GatewayTimeoutError,
+  InsufficientCreditBalanceError,
+  InvalidSqlError,
+  PaymentRejectedError,
+  PublisherNotFoundError,
+  gatewayErrorFromOutcome,
+  getGatewayErrorInfo,
+  httpStatusFor,
+} from '../../src/gateway/errors.js';
+import { isRetryableError } from '../../src/utils/retry.js';
+import { queryDatabase } from '../../src/tools/queryDatabase.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+
+const AGENT_WALLET = '0x1234567890123456789012345678901234567890';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('gateway errors', () => {
+  describe('classes', () => {
+    it('should map gateway server errors to 502 and keep client errors', () => {
+      const serverError = new GatewayHttpError('Boom', 500);
+      const clientError = new GatewayHttpError('Bad request', 409);
+
+      expect(serverError).toBeInstanceOf(GatewayError);
+      expect(serverError.toInfo()).toEqual({ kind: 'gateway_http', status: 502, retryable: false });
+      expect(clientError.toInfo()).toEqual({ kind: 'gateway_http', status: 409, retryable: false });
+    });
+
+    it('should retry unavailable upstreams and dropped connections but not other server errors', () => {
+      expect(new GatewayHttpError('Unavailable', 503).retryable).toBe(true);
+      expect(new GatewayHttpError('Failed', 500, { body: { details: 'Connection terminated unexpectedly' } }).retryable).toBe(true);
+      expect(new GatewayHttpError('Failed', 500, { body: { details: 'syntax error' } }).retryable).toBe(false);
+      expect(new GatewayTimeoutError(1000).toInfo()).toEqual({ kind: 'gateway_timeout', status: 504, retryable: true });
+    });
+
+    it('should give each failure its own kind and status', () => {
+      expect(new PublisherNotFoundError('abc').toInfo()).toEqual({ kind: 'publisher_not_found', status: 404, retryable: false });
+      expect(new InvalidSqlError('Only SELECT queries are allowed').toInfo()).toMatchObject({ kind: 'invalid_sql', status: 400 });
+      expect(new PaymentRejectedError('Invalid signature').toInfo()).toMatchObject({ kind: 'payment_rejected', status: 402 });
+      expect(new InsufficientCreditBalanceError('0.01', '/api/credits/deposit').toInfo())
+        .toMatchObject({ kind: 'insufficient_credit', status: 402 });
+      expect(new PublisherNotFoundError('abc')).toBeInstanceOf(GatewayHttpError);
+    });
+
+    it('should only describe gateway errors', () => {
+      expect(getGatewayErrorInfo(new Error('ECONNRESET'))).toBeUndefined();
+      expect(httpStatusFor(getGatewayErrorInfo(new Error('ECONNRESET')))).toBe(500);
+      expect(httpStatusFor(getGatewayErrorInfo(new PublisherNotFoundError('abc')))).toBe(404);
+    });
+
+    it('should map failed payment outcomes that came from the gateway', () => {
+      const credit = gatewayErrorFromOutcome({
+        status: 'insufficient_credit',
+        error: 'Insufficient credit balance',
+        minimumRequired: '0.02',
+        depositEndpoint: '/api/credits/deposit',
+      });
+      const settlement = gatewayErrorFromOutcome({ status: 'settlement_failed', error: 'Settlement failed: nonce used' });
+      const userRejected = gatewayErrorFromOutcome({ status: 'user_rejected', error: 'User rejected the payment request' });
+
+      expect(credit).toBeInstanceOf(InsufficientCreditBalanceError);
+      expect(settlement).toBeInstanceOf(PaymentRejectedError);
+      expect(settlement?.message).toBe('Settlement failed: nonce used');
+      expect(userRejected).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should defer to gateway errors', () => {
+      expect(isRetryableError(new GatewayTimeoutError(1000))).toBe(true);
+      expect(isRetryableError(new GatewayHttpError('Unavailable', 503))).toBe(true);
+      expect(isRetryableError(new InvalidSqlError('Query request failed: timeout column not found'))).toBe(false);
+    });
+
+    it('should still retry transport failures', () => {
+      expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true);
+      expect(isRetryableError(new Error('Unexpected token'))).toBe(false);
+    });
+  });
+
+  describe('GatewayClient', () => {
+    let originalFetch: typeof global.fetch;
+    let client: GatewayClient;
+
+    beforeAll(() => {
+      originalFetch = global.fetch;
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    beforeEach(() => {
+      client = new GatewayClient('https://test.gateway.com');
+    });
+
+    it('should throw PublisherNotFoundError for unknown publishers', async () => {
+      global.fetch = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse(404, { error: 'Not found' }));
+
+      await expect(client.getPublisher('missing')).rejects.toThrow(PublisherNotFoundError);
+      await expect(client.proxyRequest({ publisherId: 'missing', agentWallet: AGENT_WALLET, request: { method: 'GET', path: '/' } }))
+        .rejects.toThrow('Publisher not found: missing');
+    });
+
+    it('should throw InvalidSqlError when the gateway refuses the query', async () => {
+      global.fetch = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse(400, { error: 'syntax error at or near "SELEC"' }));
+
+      const error = await client.queryDatabase({ publisherId: 'db', agentWallet: AGENT_WALLET, sql: 'SELEC 1' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidSqlError);
+      expect(error.message).toContain('syntax error');
+      expect(error.details.request).toMatchObject({ publisherId: 'db', sql: 'SELEC 1', hasPayment: false });
+    });
+
+    it('should throw GatewayTimeoutError when the query times out', async () => {
+      global.fetch = jest.fn<typeof fetch>().mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      }));
+
+      await expect(client.queryDatabase({ publisherId: 'db', agentWallet: AGENT_WALLET, sql: 'SELECT 1' }, undefined, 5))
+        .rejects.toThrow(GatewayTimeoutError);
+    });
+
+    it('should keep the gateway status on other failures', async () => {
+      global.fetch = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse(503, { error: 'Maintenance' }));
+
+      const error = await client.proxyRequest({ publisherId: 'api', agentWallet: AGENT_WALLET, request: { method: 'GET', path: '/' } })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(GatewayHttpError);
+      expect(error).toMatchObject({ statusCode: 503, status: 502, retryable: true, message: 'Proxy request failed: Maintenance' });
+    });
+  });
+
+  describe('tool results', () => {
+    const wallet = {
+      isConnected: jest.fn<WalletProvider['isConnected']>().mockResolvedValue(true),
+      connect: jest.fn<WalletProvider['connect']>().mockResolvedValue(undefined),
+      getAddress: jest.fn<WalletProvider['getAddress']>().mockResolvedValue(AGENT_WALLET),
+      signTypedData: jest.fn<WalletProvider['signTypedData']>(),
+      disconnect: jest.fn<WalletProvider['disconnect']>(),
+    } as WalletProvider;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should report rejected SQL as invalid_sql without calling the gateway', async () => {
+      const gateway = { queryDatabase: jest.fn() } as unknown as GatewayClient;
+
+      const result = await queryDatabase({ publisher_id: 'db', sql: 'DROP TABLE filing' }, wallet, gateway);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Only SELECT queries are allowed',
+        gatewayError: { kind: 'invalid_sql', status: 400, retryable: false },
+        code: 'SQL_REJECTED',
+        retryable: false,
+      });
+      expect(gateway.queryDatabase).not.toHaveBeenCalled();
+    });
+
+    it('should report gateway failures with their info', async () => {
+      const gateway = {
+        queryDatabase: jest.fn<GatewayClient['queryDatabase']>().mockRejectedValue(new PublisherNotFoundError('db')),
+      } as unknown as GatewayClient;
+
+      const result = await queryDatabase({ publisher_id: 'db', sql: 'SELECT 1' }, wallet, gateway);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Publisher not found: db');
+      expect(result.gatewayError).toEqual({ kind: 'publisher_not_found', status: 404, retryable: false });
+    });
+  });
+});
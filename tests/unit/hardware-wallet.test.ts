@@ -0,0 +1,214 @@
+// ABOUTME: Tests for the Ledger hardware wallet provider
+// ABOUTME: Drives the APDU protocol against a simulated device transport
+
+import { concat, keccak256, recoverTypedDataAddress } from 'viem';
+import { privateKeyToAccount, sign } from 'viem/accounts';
+import {
+  HardwareWalletProvider,
+  HardwareWalletError,
+  encodeDerivationPath,
+  LEDGER_SW,
+  type HardwareTransport,
+} from '../../src/wallet/hardware.js';
+import { WalletNotConnectedError, WalletNotAvailableError, UserRejectedError } from '../../src/wallet/types.js';
+import { buildDomain, buildAuthorizationMessage, TRANSFER_WITH_AUTHORIZATION_TYPES } from '../../src/signing/eip712.js';
+
+// Test private key (DO NOT USE IN PRODUCTION - this is a well-known test key)
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const account = privateKeyToAccount(TEST_PRIVATE_KEY);
+
+function statusWord(code: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(code);
+  return buffer;
+}
+
+/**
+ * Simulated Ledger Ethereum app backed by a local private key
+ */
+class SimulatedLedger implements HardwareTransport {
+  apdus: Buffer[] = [];
+  closed = false;
+  /** Status word returned for the next signing request */
+  signStatus: number = LEDGER_SW.OK;
+  /** Status word returned for address requests */
+  addressStatus: number = LEDGER_SW.OK;
+
+  async exchange(apdu: Buffer): Promise<Buffer> {
+    this.apdus.push(apdu);
+    const [cla, ins] = apdu;
+    if (cla !== 0xe0) {
+      return statusWord(LEDGER_SW.CLA_NOT_SUPPORTED);
+    }
+
+    const data = apdu.subarray(5, 5 + apdu[4]);
+    const pathLength = 1 + data[0] * 4;
+
+    if (ins === 0x02) {
+      if (this.addressStatus !== LEDGER_SW.OK) {
+        return statusWord(this.addressStatus);
+      }
+      const publicKey = Buffer.from(account.publicKey.slice(2), 'hex');
+      const address = Buffer.from(account.address.slice(2), 'ascii');
+      return Buffer.concat([
+        Buffer.from([publicKey.length]), publicKey,
+        Buffer.from([address.length]), address,
+        statusWord(LEDGER_SW.OK),
+      ]);
+    }
+
+    if (ins === 0x0c) {
+      if (this.signStatus !== LEDGER_SW.OK) {
+        return statusWord(this.signStatus);
+      }
+      const domainSeparator = data.subarray(pathLength, pathLength + 32);
+      const messageHash = data.subarray(pathLength + 32, pathLength + 64);
+      const digest = keccak256(concat(['0x1901', `0x${domainSeparator.toString('hex')}`, `0x${messageHash.toString('hex')}`]));
+      const signature = await sign({ hash: digest, privateKey: TEST_PRIVATE_KEY });
+      return Buffer.concat([
+        Buffer.from([Number(signature.v)]),
+        Buffer.from(signature.r.slice(2), 'hex'),
+        Buffer.from(signature.s.slice(2), 'hex'),
+        statusWord(LEDGER_SW.OK),
+      ]);
+    }
+
+    return statusWord(LEDGER_SW.INS_NOT_SUPPORTED);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+describe('HardwareWalletProvider', () => {
+  let device: SimulatedLedger;
+  let wallet: HardwareWalletProvider;
+
+  const domain = buildDomain({
+    chainId: 8453,
+    verifyingContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  });
+  const message = buildAuthorizationMessage({
+    from: account.address,
+    to: '0x2222222222222222222222222222222222222222',
+    value: '50000',
+    validAfter: 0,
+    validBefore: 1800000000,
+  });
+
+  beforeEach(() => {
+    device = new SimulatedLedger();
+    wallet = new HardwareWalletProvider({ transportFactory: async () => device });
+  });
+
+  describe('connect', () => {
+    it('should read the account address from the device', async () => {
+      await wallet.connect();
+
+      expect(await wallet.isConnected()).toBe(true);
+      expect((await wallet.getAddress()).toLowerCase()).toBe(account.address.toLowerCase());
+    });
+
+    it('should send the derivation path with the address request', async () => {
+      await wallet.connect();
+
+      const [apdu] = device.apdus;
+      expect(apdu.subarray(0, 4)).toEqual(Buffer.from([0xe0, 0x02, 0x00, 0x00]));
+      expect(apdu.subarray(5)).toEqual(encodeDerivationPath("44'/60'/0'/0/0"));
+    });
+
+    it('should close the transport when the Ethereum app is not open', async () => {
+      device.addressStatus = LEDGER_SW.APP_NOT_OPEN;
+
+      await expect(wallet.connect()).rejects.toThrow(WalletNotAvailableError);
+      expect(device.closed).toBe(true);
+      expect(await wallet.isConnected()).toBe(false);
+    });
+
+    it('should report a locked device', async () => {
+      device.addressStatus = LEDGER_SW.LOCKED;
+
+      await expect(wallet.connect()).rejects.toThrow('Hardware wallet is locked');
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should close the transport and clear state', async () => {
+      await wallet.connect();
+      await wallet.disconnect();
+
+      expect(device.closed).toBe(true);
+      expect(await wallet.isConnected()).toBe(false);
+      await expect(wallet.getAddress()).rejects.toThrow(WalletNotConnectedError);
+    });
+  });
+
+  describe('signTypedData', () => {
+    it('should throw WalletNotConnectedError when not connected', async () => {
+      await expect(wallet.signTypedData(domain, message)).rejects.toThrow(WalletNotConnectedError);
+    });
+
+    it('should return a signature recoverable to the device account', async () => {
+      await wallet.connect();
+
+      const signature = await wallet.signTypedData(domain, message);
+      const signer = await recoverTypedDataAddress({
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message,
+        signature,
+      });
+
+      expect(signature).toMatch(/^0x[a-fA-F0-9]{130}$/);
+      expect(signer.toLowerCase()).toBe(account.address.toLowerCase());
+    });
+
+    it('should match a signature from the same key in software', async () => {
+      await wallet.connect();
+
+      const signature = await wallet.signTypedData(domain, message);
+      const expected = await account.signTypedData({
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message,
+      });
+
+      expect(signature).toBe(expected);
+    });
+
+    it('should throw UserRejectedError when rejected on the device', async () => {
+      await wallet.connect();
+      device.signStatus = LEDGER_SW.USER_REJECTED;
+
+      await expect(wallet.signTypedData(domain, message)).rejects.toThrow(UserRejectedError);
+    });
+
+    it('should surface unknown status words', async () => {
+      await wallet.connect();
+      device.signStatus = 0x6a80;
+
+      const error = await wallet.signTypedData(domain, message).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HardwareWalletError);
+      expect((error as HardwareWalletError).statusCode).toBe(0x6a80);
+      expect((error as Error).message).toContain('0x6a80');
+    });
+  });
+
+  describe('encodeDerivationPath', () => {
+    it('should encode hardened and non-hardened indexes', () => {
+      const encoded = encodeDerivationPath("m/44'/60'/0'/0/1");
+
+      expect(encoded[0]).toBe(5);
+      expect(encoded.readUInt32BE(1)).toBe(0x8000002c);
+      expect(encoded.readUInt32BE(5)).toBe(0x8000003c);
+      expect(encoded.readUInt32BE(17)).toBe(1);
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => encodeDerivationPath("44'/sixty'/0'")).toThrow('Invalid derivation path');
+    });
+  });
+});
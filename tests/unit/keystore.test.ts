@@ -0,0 +1,202 @@
+// ABOUTME: Tests for V3 keystore encryption, the keystore wallet provider and CLI
+// ABOUTME: Includes the Web3 Secret Storage pbkdf2 test vector
+
+import { jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  KeystoreError,
+  KeystoreWalletProvider,
+  writeKeystoreFile,
+  type KeystoreV3,
+} from '../../src/wallet/keystore.js';
+import { runKeystoreCommand } from '../../src/cli/keystore.js';
+
+// Test private key (DO NOT USE IN PRODUCTION - this is a well-known test key)
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const EXPECTED_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+// Test vector from the Web3 Secret Storage definition
+const PBKDF2_VECTOR: KeystoreV3 = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+};
+
+describe('Keystore', () => {
+  describe('decryptKeystore', () => {
+    it('should decrypt the pbkdf2 test vector', () => {
+      expect(decryptKeystore(PBKDF2_VECTOR, 'testpassword')).toBe(
+        '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d'
+      );
+    });
+
+    it('should reject a wrong passphrase', () => {
+      expect(() => decryptKeystore(PBKDF2_VECTOR, 'wrong')).toThrow(KeystoreError);
+      expect(() => decryptKeystore(PBKDF2_VECTOR, 'wrong')).toThrow('Invalid passphrase');
+    });
+
+    it('should reject unsupported keystore versions', () => {
+      expect(() => decryptKeystore({ ...PBKDF2_VECTOR, version: 1 } as unknown as KeystoreV3, 'testpassword'))
+        .toThrow('expected version 3');
+    });
+  });
+
+  describe('encryptKeystore', () => {
+    it('should round-trip with scrypt', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse', { n: 1024 });
+
+      expect(keystore.crypto.kdf).toBe('scrypt');
+      expect(keystore.address).toBe(EXPECTED_ADDRESS.slice(2).toLowerCase());
+      expect(decryptKeystore(keystore, 'correct horse')).toBe(TEST_PRIVATE_KEY);
+    });
+
+    it('should round-trip with pbkdf2', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse', { kdf: 'pbkdf2', c: 1000 });
+
+      expect(keystore.crypto.kdf).toBe('pbkdf2');
+      expect(decryptKeystore(keystore, 'correct horse')).toBe(TEST_PRIVATE_KEY);
+    });
+
+    it('should not contain the plaintext key', () => {
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'correct horse', { n: 1024 });
+
+      expect(JSON.stringify(keystore)).not.toContain(TEST_PRIVATE_KEY.slice(2));
+    });
+
+    it('should reject keys of the wrong length', () => {
+      expect(() => encryptKeystore('0x1234', 'pass', { n: 1024 })).toThrow('32 bytes');
+    });
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'keystore-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write keystores readable only by the owner and never overwrite', async () => {
+      const path = join(dir, 'nested', 'keystore.json');
+      const keystore = encryptKeystore(TEST_PRIVATE_KEY, 'pass', { n: 1024 });
+
+      await writeKeystoreFile(path, keystore);
+
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+      await expect(writeKeystoreFile(path, keystore)).rejects.toThrow('EEXIST');
+    });
+
+    describe('KeystoreWalletProvider', () => {
+      it('should unlock with a passphrase file', async () => {
+        const keystorePath = join(dir, 'keystore.json');
+        const passphraseFile = join(dir, 'passphrase');
+        await writeKeystoreFile(keystorePath, encryptKeystore(TEST_PRIVATE_KEY, 'pass', { n: 1024 }));
+        writeFileSync(passphraseFile, 'pass\n');
+
+        const wallet = new KeystoreWalletProvider({ keystorePath, passphraseFile });
+        expect(await wallet.isConnected()).toBe(false);
+
+        await wallet.connect();
+
+        expect(await wallet.isConnected()).toBe(true);
+        expect(await wallet.getAddress()).toBe(EXPECTED_ADDRESS);
+      });
+
+      it('should fail to unlock with the wrong passphrase', async () => {
+        const keystorePath = join(dir, 'keystore.json');
+        const passphraseFile = join(dir, 'passphrase');
+        await writeKeystoreFile(keystorePath, encryptKeystore(TEST_PRIVATE_KEY, 'pass', { n: 1024 }));
+        writeFileSync(passphraseFile, 'not the pass');
+
+        const wallet = new KeystoreWalletProvider({ keystorePath, passphraseFile });
+
+        await expect(wallet.connect()).rejects.toThrow('Invalid passphrase');
+        expect(await wallet.isConnected()).toBe(false);
+      });
+
+      it('should require a passphrase file when not in a terminal', async () => {
+        const keystorePath = join(dir, 'keystore.json');
+        await writeKeystoreFile(keystorePath, encryptKeystore(TEST_PRIVATE_KEY, 'pass', { n: 1024 }));
+
+        const wallet = new KeystoreWalletProvider({ keystorePath });
+
+        await expect(wallet.connect()).rejects.toThrow('WALLET_PASSPHRASE_FILE');
+      });
+    });
+
+    describe('keystore CLI', () => {
+      let log: jest.SpiedFunction<typeof console.log>;
+
+      beforeEach(() => {
+        log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('should import and export a private key', async () => {
+        const keystorePath = join(dir, 'keystore.json');
+        const passphraseFile = join(dir, 'passphrase');
+        const keyFile = join(dir, 'key');
+        writeFileSync(passphraseFile, 'pass');
+        writeFileSync(keyFile, `${TEST_PRIVATE_KEY}\n`);
+
+        const imported = await runKeystoreCommand([
+          'import', '--keystore', keystorePath, '--passphrase-file', passphraseFile,
+          '--key-file', keyFile, '--kdf', 'pbkdf2',
+        ]);
+        expect(imported).toBe(0);
+        expect(log).toHaveBeenLastCalledWith(EXPECTED_ADDRESS);
+        expect(readFileSync(keystorePath, 'utf8')).not.toContain(TEST_PRIVATE_KEY.slice(2));
+
+        const exported = await runKeystoreCommand([
+          'export', '--keystore', keystorePath, '--passphrase-file', passphraseFile,
+        ]);
+        expect(exported).toBe(0);
+        expect(log).toHaveBeenLastCalledWith(TEST_PRIVATE_KEY);
+      });
+
+      it('should refuse to overwrite an existing keystore', async () => {
+        const keystorePath = join(dir, 'keystore.json');
+        const passphraseFile = join(dir, 'passphrase');
+        const keyFile = join(dir, 'key');
+        writeFileSync(passphraseFile, 'pass');
+        writeFileSync(keyFile, TEST_PRIVATE_KEY);
+        writeFileSync(keystorePath, '{}');
+
+        const code = await runKeystoreCommand([
+          'import', '--keystore', keystorePath, '--passphrase-file', passphraseFile,
+          '--key-file', keyFile, '--kdf', 'pbkdf2',
+        ]);
+
+        expect(code).toBe(1);
+        expect(readFileSync(keystorePath, 'utf8')).toBe('{}');
+      });
+
+      it('should reject unknown options', async () => {
+        expect(await runKeystoreCommand(['create', '--kdf', 'md5'])).toBe(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// ABOUTME: Tests for the mock x402 gateway's payment verification and routes
+// ABOUTME: Sends real signed payloads over HTTP and checks forged, replayed and mismatched payments are refused
+
+import { MockGateway, MOCK_API_KEY, MOCK_GATEWAY_WALLET } from '../../src/mock/gateway.js';
+import { SPORTS_ODDS_PUBLISHER_ID } from '../../src/mock/fixtures.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import { buildPaymentPayload } from '../../src/payment/orchestrator.js';
+import { decodeSettlementResponse, encodePaymentHeader } from '../../src/gateway/x402.js';
+import { PrivateKeyWalletProvider } from '../../src/wallet/privatekey.js';
+import type { PaymentPayload, PaymentRequirement, PaymentRequirementsResponse } from '../../src/gateway/types.js';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+describe('MockGateway', () => {
+  const network = NETWORKS.base;
+  let gateway: MockGateway;
+  let url: string;
+  let wallet: PrivateKeyWalletProvider;
+
+  beforeAll(async () => {
+    wallet = new PrivateKeyWalletProvider({ privateKey: PRIVATE_KEY });
+    await wallet.connect();
+  });
+
+  beforeEach(async () => {
+    gateway = new MockGateway({ network });
+    url = await gateway.start();
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+  });
+
+  function proxy(paymentPayload?: PaymentPayload): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (paymentPayload) {
+      const header = encodePaymentHeader(paymentPayload);
+      headers[header.name] = header.value;
+    }
+    return fetch(`${url}/api/proxy`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ publisherId: SPORTS_ODDS_PUBLISHER_ID, agentWallet: SIGNER, request: { method: 'GET', path: '/sports' } }),
+    });
+  }
+
+  async function requirement(): Promise<PaymentRequirement> {
+    const response = await proxy();
+    const body = await response.json() as PaymentRequirementsResponse;
+    return body.accepts[0];
+  }
+
+  async function rejection(paymentPayload: PaymentPayload): Promise<string | undefined> {
+    const response = await proxy(paymentPayload);
+    expect(response.status).toBe(402);
+    return (await response.json() as PaymentRequirementsResponse).error;
+  }
+
+  it('should return a 402 with an x402 requirement for unpaid calls', async () => {
+    const response = await proxy();
+    const body = await response.json() as PaymentRequirementsResponse;
+
+    expect(response.status).toBe(402);
+    expect(body).toMatchObject({ x402Version: 1, error: 'X-PAYMENT header is required' });
+    expect(body.accepts[0]).toMatchObject({
+      scheme: 'exact',
+      network: 'base',
+      maxAmountRequired: '10000',
+      asset: network.usdc,
+      payTo: MOCK_GATEWAY_WALLET,
+      extra: { estimatedCost: '0.01' },
+    });
+  });
+
+  it('should accept a valid payment and return the settlement header', async () => {
+    const payload = await buildPaymentPayload(await requirement(), SIGNER, wallet, network);
+
+    const response = await proxy(payload);
+
+    expect(response.status).toBe(200);
+    const settlement = decodeSettlementResponse(response.headers.get('X-PAYMENT-RESPONSE') ?? '');
+    expect(settlement).toMatchObject({ success: true, payer: SIGNER, network: 'base' });
+    expect(gateway.settlements).toEqual([expect.objectContaining({ payer: SIGNER, amount: '10000', transaction: settlement.transaction })]);
+  });
+
+  it('should refuse a replayed authorization', async () => {
+    const payload = await buildPaymentPayload(await requirement(), SIGNER, wallet, network);
+    await proxy(payload);
+
+    expect(await rejection(payload)).toBe('Authorization nonce has already been used');
+  });
+
+  it('should refuse payments signed by someone other than the payer', async () => {
+    const other = new PrivateKeyWalletProvider({ privateKey: OTHER_KEY });
+    await other.connect();
+
+    const forged = await buildPaymentPayload(await requirement(), SIGNER, other, network);
+
+    expect(await rejection(forged)).toMatch(/^Signed by 0x70997970C51812dc3A010C7d01b50e0d17dc79C8, not authorization.from/);
+  });
+
+  it('should refuse underpayments and payments to another wallet', async () => {
+    const accepted = await requirement();
+    const underpaid = await buildPaymentPayload({ ...accepted, maxAmountRequired: '9999' }, SIGNER, wallet, network);
+    const misdirected = await buildPaymentPayload(
+      { ...accepted, payTo: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' },
+      SIGNER,
+      wallet,
+      network
+    );
+
+    expect(await rejection(underpaid)).toBe('Payment of 0.009999 USDC is less than the required 0.01 USDC');
+    expect(await rejection(misdirected)).toBe(
+      `Payment is to 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC, not the gateway wallet ${MOCK_GATEWAY_WALLET}`
+    );
+  });
+
+  it('should refuse expired authorizations', async () => {
+    const payload = await buildPaymentPayload({ ...(await requirement()), maxTimeoutSeconds: -120 }, SIGNER, wallet, network);
+
+    expect(await rejection(payload)).toBe('Authorization has expired');
+  });
+
+  it('should filter the catalog and 404 unknown publishers', async () => {
+    const databases = await (await fetch(`${url}/api/catalog?type=database`)).json() as { publishers: { publisherType: string }[] };
+    const missing = await fetch(`${url}/api/catalog/00000000-0000-0000-0000-000000000000`);
+
+    expect(databases.publishers.length).toBeGreaterThan(0);
+    expect(databases.publishers.every((publisher) => publisher.publisherType === 'database')).toBe(true);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should require the API key to update publishers', async () => {
+    const update = (apiKey: string) => fetch(`${url}/api/publishers/update`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({ connectionString: 'postgres://mock' }),
+    });
+
+    expect((await update('wrong')).status).toBe(401);
+    expect((await update(MOCK_API_KEY)).status).toBe(200);
+  });
+
+  it('should confirm each deposit transaction once', async () => {
+    const confirm = () => fetch(`${url}/api/credits/confirm-deposit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ agentWallet: SIGNER, txHash: `0x${'ab'.repeat(32)}`, amount: '1.5' }),
+    });
+
+    expect(await (await confirm()).json()).toEqual({ agentWallet: SIGNER, balance: '1.5', reserved: '0', available: '1.5' });
+    expect((await confirm()).status).toBe(409);
+    expect(gateway.getCredits(SIGNER)).toBe(1500000n);
+  });
+});
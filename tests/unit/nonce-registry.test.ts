@@ -0,0 +1,171 @@
+// ABOUTME: Tests for the nonce registry of issued authorizations
+// ABOUTME: Covers authorizationState lookups, used/expired/unused status and cancelAuthorization
+
+import { jest } from '@jest/globals';
+import { recoverTypedDataAddress, type PublicClient } from 'viem';
+import { NonceRegistry, type CancellationRelay } from '../../src/payment/nonces.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import { buildDomain, CANCEL_AUTHORIZATION_TYPES } from '../../src/signing/eip712.js';
+import { PrivateKeyWalletProvider } from '../../src/wallet/privatekey.js';
+import type { PaymentPayload } from '../../src/gateway/types.js';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+describe('NonceRegistry', () => {
+  const network = NETWORKS.base;
+  const domain = buildDomain({ chainId: network.chainId, verifyingContract: network.usdc });
+  const nowSeconds = 1700000000;
+  const nonce = `0x${'01'.repeat(32)}` as const;
+
+  function payload(overrides: Partial<PaymentPayload['payload']['authorization']> = {}): PaymentPayload {
+    return {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base',
+      payload: {
+        signature: `0x${'ab'.repeat(65)}`,
+        authorization: {
+          from: SIGNER,
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+          value: '50000',
+          validAfter: String(nowSeconds - 60),
+          validBefore: String(nowSeconds + 300),
+          nonce,
+          ...overrides,
+        },
+      },
+    };
+  }
+
+  function registryWithState(used: boolean, now = nowSeconds * 1000) {
+    const readContract = jest.fn(async () => used);
+    const registry = new NonceRegistry(network, {
+      client: { readContract } as unknown as PublicClient,
+      now: () => now,
+    });
+    return { registry, readContract };
+  }
+
+  it('should query authorizationState on the USDC contract', async () => {
+    const { registry, readContract } = registryWithState(false);
+    registry.record(payload(), domain);
+
+    await registry.check(nonce);
+
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: network.usdc,
+      functionName: 'authorizationState',
+      args: [SIGNER, nonce],
+    }));
+  });
+
+  it('should report an authorization inside its window as unused', async () => {
+    const { registry } = registryWithState(false);
+    registry.record(payload(), domain);
+
+    const check = await registry.check(nonce);
+
+    expect(check).toMatchObject({
+      status: 'unused',
+      amount: '0.05 USDC',
+      expiresAt: new Date((nowSeconds + 300) * 1000).toISOString(),
+    });
+  });
+
+  it('should tell used authorizations from expired ones', async () => {
+    const used = registryWithState(true, (nowSeconds + 600) * 1000).registry;
+    used.record(payload(), domain);
+    const expired = registryWithState(false, (nowSeconds + 600) * 1000).registry;
+    expired.record(payload(), domain);
+
+    expect((await used.check(nonce)).status).toBe('used');
+    expect((await expired.check(nonce)).status).toBe('expired');
+  });
+
+  it('should list issued authorizations newest first without their domain', async () => {
+    const { registry } = registryWithState(false);
+    registry.record(payload(), domain);
+    registry.record(payload({ nonce: `0x${'02'.repeat(32)}` }), domain);
+
+    const checks = await registry.checkAll();
+
+    expect(checks.map((check) => check.nonce)).toEqual([`0x${'02'.repeat(32)}`, nonce]);
+    expect(checks[0]).not.toHaveProperty('domain');
+  });
+
+  it('should not record permits', () => {
+    const { registry } = registryWithState(false);
+    registry.record({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base',
+      payload: {
+        signature: `0x${'ab'.repeat(65)}`,
+        assetTransferMethod: 'permit',
+        permit: { owner: SIGNER, spender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', value: '50000', nonce: '0', deadline: String(nowSeconds + 300) },
+      },
+    }, domain);
+
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('should reject nonces it did not issue', async () => {
+    const { registry } = registryWithState(false);
+
+    await expect(registry.check(nonce)).rejects.toThrow('was issued by this server');
+  });
+
+  describe('cancel', () => {
+    let wallet: PrivateKeyWalletProvider;
+    let relay: jest.Mocked<CancellationRelay>;
+
+    beforeEach(async () => {
+      wallet = new PrivateKeyWalletProvider({ privateKey: PRIVATE_KEY });
+      await wallet.connect();
+      relay = {
+        submitCancellation: jest.fn<CancellationRelay['submitCancellation']>().mockResolvedValue({
+          txHash: `0x${'cd'.repeat(32)}`,
+          confirmed: true,
+        }),
+      };
+    });
+
+    it('should sign CancelAuthorization with the authorizer and broadcast it', async () => {
+      const { registry, readContract } = registryWithState(false);
+      registry.record(payload(), domain);
+
+      const result = await registry.cancel(nonce, wallet, relay);
+
+      expect(result.txHash).toBe(`0x${'cd'.repeat(32)}`);
+      const [params] = relay.submitCancellation.mock.calls[0];
+      expect(params).toMatchObject({ authorizer: SIGNER, nonce });
+      const recovered = await recoverTypedDataAddress({
+        domain,
+        types: CANCEL_AUTHORIZATION_TYPES,
+        primaryType: 'CancelAuthorization',
+        message: { authorizer: SIGNER, nonce },
+        signature: params.signature,
+      });
+      expect(recovered).toBe(SIGNER);
+
+      readContract.mockResolvedValue(true);
+      expect((await registry.check(nonce)).status).toBe('canceled');
+    });
+
+    it('should refuse to cancel a used authorization', async () => {
+      const { registry } = registryWithState(true);
+      registry.record(payload(), domain);
+
+      await expect(registry.cancel(nonce, wallet, relay)).rejects.toThrow('is used and cannot be canceled');
+      expect(relay.submitCancellation).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel with a wallet that did not sign the authorization', async () => {
+      const { registry } = registryWithState(false);
+      registry.record(payload({ from: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' }), domain);
+
+      await expect(registry.cancel(nonce, wallet, relay)).rejects.toThrow('not the connected wallet');
+    });
+  });
+});
@@ -6,6 +6,8 @@ import { payForQuery, PayForQueryInput } from '../../src/tools/payForQuery.js';
 import type { WalletProvider } from '../../src/wallet/types.js';
 import type { GatewayClient } from '../../src/gateway/client.js';
 import { UserRejectedError } from '../../src/wallet/types.js';
+import { SpendingLimiter } from '../../src/payment/budget.js';
+import { AutoTopUp } from '../../src/payment/topup.js';
 
 describe('payForQuery', () => {
   let mockWallet: jest.Mocked<WalletProvider>;
@@ -25,7 +27,7 @@ describe('payForQuery', () => {
     network: 'base-mainnet',
     maxAmountRequired: '1000000',
     asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-    payTo: '0xGatewayWallet',
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
     resource: '/query',
     description: 'Database query',
     mimeType: 'application/json',
@@ -56,7 +58,7 @@ describe('payForQuery', () => {
       getPublisher: jest.fn(),
       proxyRequest: jest.fn(),
       encodePaymentPayload: jest.fn().mockReturnValue('base64payload'),
-      decodePaymentResponse: jest.fn().mockReturnValue({ txHash: '0xdefault', success: true }),
+      decodePaymentResponse: jest.fn().mockReturnValue({ success: true, transaction: '0xdefault', network: 'base' }),
     } as unknown as jest.Mocked<GatewayClient>;
   });
 
@@ -123,8 +125,9 @@ describe('payForQuery', () => {
         paymentResponse: 'base64response',
       });
       mockGateway.decodePaymentResponse.mockReturnValue({
-        txHash: '0xtxhash',
         success: true,
+        transaction: '0xtxhash',
+        network: 'base',
       });
 
       const result = await payForQuery(validInput, mockWallet, mockGateway);
@@ -316,4 +319,160 @@ describe('payForQuery', () => {
       expect(mockWallet.signTypedData).toHaveBeenCalled();
     });
   });
+
+  describe('spending limits', () => {
+    it('should return budget exceeded without signing', async () => {
+      mockGateway.proxyRequest.mockResolvedValueOnce({
+        status: 402,
+        paymentRequired: { x402Version: 1, accepts: [mockPaymentRequirement] },
+      });
+
+      const result = await payForQuery(validInput, mockWallet, mockGateway, {
+        budget: new SpendingLimiter({ perCall: 500000n }),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Budget exceeded');
+      expect(result.budgetExceeded).toMatchObject({
+        limit: 'per_call',
+        max: '0.5 USDC',
+        requested: '1 USDC',
+      });
+      expect(mockWallet.signTypedData).not.toHaveBeenCalled();
+      expect(mockGateway.proxyRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should charge per-publisher limits to the requested publisher', async () => {
+      const budget = new SpendingLimiter({ perPublisher: 1000000n });
+      mockGateway.proxyRequest.mockResolvedValueOnce({
+        status: 402,
+        paymentRequired: { x402Version: 1, accepts: [mockPaymentRequirement] },
+      });
+      mockGateway.proxyRequest.mockResolvedValueOnce({ status: 200, data: {} });
+
+      await payForQuery(validInput, mockWallet, mockGateway, { budget });
+
+      expect(budget.getDailySpend(validInput.publisher_id)).toBe(1000000n);
+    });
+  });
+
+  describe('auto top-up', () => {
+    const insufficientCredit = {
+      status: 402,
+      paymentRequired: {
+        error: 'Insufficient credit balance',
+        minimumRequired: '2.00',
+        depositEndpoint: '/api/credits/deposit',
+      },
+    };
+
+    const depositRequirement = {
+      ...mockPaymentRequirement,
+      maxAmountRequired: '5000000',
+      resource: '/api/credits/deposit',
+      extra: { estimatedCost: '5.00' },
+    };
+
+    beforeEach(() => {
+      (mockGateway as unknown as { depositCredits: jest.Mock }).depositCredits = jest.fn();
+    });
+
+    it('should deposit the top-up amount and retry the request', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+      mockGateway.proxyRequest
+        .mockResolvedValueOnce(insufficientCredit)
+        .mockResolvedValueOnce({ status: 200, data: { result: 'ok' } });
+      mockGateway.depositCredits
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [depositRequirement] } })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            deposited: '5.00',
+            balance: { agentWallet: '0xAgentWallet', balance: '5.00', reserved: '0.00', available: '5.00' },
+            transaction: '0xdeposit',
+          },
+        });
+
+      const result = await payForQuery(validInput, mockWallet, mockGateway, { autoTopUp });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ result: 'ok' });
+      expect(result.topUp).toMatchObject({
+        deposited: '5 USDC',
+        txHash: '0xdeposit',
+        monthlyTotal: '5 USDC',
+        monthlyLimit: '20 USDC',
+      });
+      expect(mockGateway.depositCredits).toHaveBeenCalledWith('5', undefined);
+      expect(mockGateway.proxyRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should deposit at least the minimum required', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 1000000n, monthlyLimit: 20000000n });
+      mockGateway.proxyRequest.mockResolvedValueOnce(insufficientCredit);
+      mockGateway.depositCredits.mockResolvedValueOnce({ status: 500 } as never);
+
+      await payForQuery(validInput, mockWallet, mockGateway, { autoTopUp });
+
+      expect(mockGateway.depositCredits).toHaveBeenCalledWith('2', undefined);
+    });
+
+    it('should not top up beyond the monthly limit', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 4000000n });
+      mockGateway.proxyRequest.mockResolvedValueOnce(insufficientCredit);
+
+      const result = await payForQuery(validInput, mockWallet, mockGateway, { autoTopUp });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Auto top-up failed: top-up of 5 USDC would exceed the monthly limit of 4 USDC');
+      expect(mockGateway.depositCredits).not.toHaveBeenCalled();
+      expect(mockGateway.proxyRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count the top-up deposit against the spending limits', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+      const budget = new SpendingLimiter({ daily: 3000000n });
+      mockGateway.proxyRequest.mockResolvedValueOnce(insufficientCredit);
+      mockGateway.depositCredits
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [depositRequirement] } });
+
+      const result = await payForQuery(validInput, mockWallet, mockGateway, { autoTopUp, budget });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Auto top-up failed: Budget exceeded: payment of 5 USDC would exceed the daily limit of 3 USDC');
+      expect(mockWallet.signTypedData).not.toHaveBeenCalled();
+      expect(mockGateway.depositCredits).toHaveBeenCalledTimes(1);
+      expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+    });
+
+    it('should not deposit on a dry run', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+      mockGateway.proxyRequest.mockResolvedValueOnce(insufficientCredit);
+
+      const result = await payForQuery({ ...validInput, dry_run: true }, mockWallet, mockGateway, { autoTopUp });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('INSUFFICIENT_CREDIT');
+      expect(result.topUp).toBeUndefined();
+      expect(mockGateway.depositCredits).not.toHaveBeenCalled();
+      expect(autoTopUp.getMonthlyTotal()).toBe(0n);
+      expect(mockGateway.proxyRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the top-up when the retried request still fails', async () => {
+      const autoTopUp = new AutoTopUp({ amount: 5000000n, monthlyLimit: 20000000n });
+      mockGateway.proxyRequest
+        .mockResolvedValueOnce(insufficientCredit)
+        .mockRejectedValueOnce(new Error('read ECONNRESET'));
+      mockGateway.depositCredits
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [depositRequirement] } })
+        .mockResolvedValueOnce({ status: 200, data: { deposited: '5.00', transaction: '0xdeposit' } });
+
+      const result = await payForQuery(validInput, mockWallet, mockGateway, { autoTopUp });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('read ECONNRESET');
+      expect(result.topUp).toMatchObject({ deposited: '5 USDC', txHash: '0xdeposit' });
+    });
+  });
 });
@@ -0,0 +1,170 @@
+// ABOUTME: Tests for EIP-712 payment verification and the inspect_payment tool
+// ABOUTME: Signs real payloads with a test key and checks signer recovery and summaries
+
+import { buildPaymentPayload } from '../../src/payment/orchestrator.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import { buildDomain } from '../../src/signing/eip712.js';
+import {
+  describeAuthorization,
+  recoverPaymentSigner,
+  toAuthorizationMessage,
+  verifyPaymentSignature,
+} from '../../src/signing/inspect.js';
+import { inspectPayment } from '../../src/tools/inspectPayment.js';
+import { PrivateKeyWalletProvider } from '../../src/wallet/privatekey.js';
+import type { PaymentPayload, PaymentRequirement } from '../../src/gateway/types.js';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('payment inspection', () => {
+  const network = NETWORKS.base;
+  const domain = buildDomain({ chainId: network.chainId, verifyingContract: network.usdc });
+
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '50000',
+    asset: network.usdc,
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    resource: '/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+  };
+
+  let signed: PaymentPayload;
+
+  beforeAll(async () => {
+    const wallet = new PrivateKeyWalletProvider({ privateKey: PRIVATE_KEY });
+    await wallet.connect();
+    signed = await buildPaymentPayload(requirement, SIGNER, wallet, network);
+  });
+
+  describe('verifyPaymentSignature', () => {
+    it('should recover the signer of a payload', async () => {
+      await expect(recoverPaymentSigner(signed, domain)).resolves.toBe(SIGNER);
+      await expect(verifyPaymentSignature(signed, domain)).resolves.toEqual({
+        valid: true,
+        signer: SIGNER,
+        expected: SIGNER,
+      });
+    });
+
+    it('should reject a payload whose from does not match the signer', async () => {
+      const tampered = {
+        ...signed,
+        payload: { ...signed.payload, authorization: { ...signed.payload.authorization, from: OTHER } },
+      };
+
+      const result = await verifyPaymentSignature(tampered, domain);
+
+      expect(result.valid).toBe(false);
+      expect(result.expected).toBe(OTHER);
+      expect(result.error).toContain('not authorization.from');
+    });
+
+    it('should reject a payload signed under another domain', async () => {
+      const sepolia = buildDomain({ chainId: 84532, verifyingContract: NETWORKS['base-sepolia'].usdc });
+
+      expect((await verifyPaymentSignature(signed, sepolia)).valid).toBe(false);
+    });
+
+    it('should report unsigned and malformed signatures without throwing', async () => {
+      const unsigned = { ...signed, payload: { ...signed.payload, signature: '' } };
+      const malformed = { ...signed, payload: { ...signed.payload, signature: '0x1234' } };
+
+      expect(await verifyPaymentSignature(unsigned, domain)).toMatchObject({ valid: false, error: 'Payload is not signed' });
+      expect((await verifyPaymentSignature(malformed, domain)).error).toMatch(/^Invalid signature/);
+    });
+  });
+
+  describe('describeAuthorization', () => {
+    const now = Date.parse('2026-03-10T14:00:00Z');
+    const message = toAuthorizationMessage({
+      ...signed,
+      payload: {
+        signature: '',
+        authorization: {
+          from: SIGNER,
+          to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+          value: '50000',
+          validAfter: String(now / 1000 - 60),
+          validBefore: String(Date.parse('2026-03-10T14:32:00Z') / 1000),
+          nonce: `0x${'01'.repeat(32)}`,
+        },
+      },
+    } as PaymentPayload);
+
+    it('should summarize amount, recipient and expiry', () => {
+      expect(describeAuthorization(message, now)).toBe('transfer 0.05 USDC to 0x7099…79C8 valid until 14:32 UTC');
+    });
+
+    it('should include the date when the window ends on another day', () => {
+      const later = { ...message, validBefore: BigInt(Date.parse('2026-03-11T09:05:00Z') / 1000) };
+
+      expect(describeAuthorization(later, now)).toBe('transfer 0.05 USDC to 0x7099…79C8 valid until 2026-03-11 09:05 UTC');
+    });
+
+    it('should call out future start times and expired windows', () => {
+      const future = { ...message, validAfter: BigInt(Date.parse('2026-03-10T14:10:00Z') / 1000) };
+      const expired = { ...message, validBefore: BigInt(Date.parse('2026-03-10T13:00:00Z') / 1000) };
+
+      expect(describeAuthorization(future, now)).toBe(
+        'transfer 0.05 USDC to 0x7099…79C8 valid from 14:10 UTC valid until 14:32 UTC'
+      );
+      expect(describeAuthorization(expired, now)).toBe('transfer 0.05 USDC to 0x7099…79C8 expired at 13:00 UTC');
+    });
+  });
+
+  describe('inspect_payment tool', () => {
+    it('should inspect a base64 X-PAYMENT header', async () => {
+      const header = Buffer.from(JSON.stringify(signed)).toString('base64');
+
+      const result = await inspectPayment({ payment: header });
+
+      expect(result.success).toBe(true);
+      expect(result.inspection).toMatchObject({
+        scheme: 'exact',
+        network: 'base',
+        from: SIGNER,
+        to: requirement.payTo,
+        amount: '0.05 USDC',
+        expired: false,
+        signature: { valid: true, signer: SIGNER },
+      });
+      expect(result.inspection?.summary).toMatch(/^transfer 0\.05 USDC to 0x7099…79C8 valid until /);
+    });
+
+    it('should inspect a JSON payload', async () => {
+      const result = await inspectPayment({ payment: JSON.stringify(signed) });
+
+      expect(result.inspection?.signature.valid).toBe(true);
+    });
+
+    it('should reject malformed payloads', async () => {
+      const missingNonce = JSON.stringify({
+        ...signed,
+        payload: { ...signed.payload, authorization: { ...signed.payload.authorization, nonce: '0x01' } },
+      });
+
+      expect(await inspectPayment({ payment: 'not a payload' })).toEqual({
+        success: false,
+        error: 'payment must be a JSON payment payload or a base64 X-PAYMENT header',
+        code: 'INVALID_INPUT',
+        retryable: false,
+      });
+      expect((await inspectPayment({ payment: missingNonce })).error).toBe(
+        'Invalid payment payload: payload.authorization.nonce must be 32 bytes hex'
+      );
+    });
+
+    it('should reject unsupported networks', async () => {
+      const result = await inspectPayment({ payment: JSON.stringify({ ...signed, network: 'solana' }) });
+
+      expect(result.error).toBe('Unsupported payment network "solana"');
+    });
+  });
+});
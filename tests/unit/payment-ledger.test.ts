@@ -0,0 +1,283 @@
+// ABOUTME: Tests for the SQLite payment ledger and list_payments tool
+// ABOUTME: Uses an in-memory database and the orchestrator to record outcomes
+
+import { jest } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { PaymentLedger } from '../../src/payment/ledger.js';
+import { executeWithPayment } from '../../src/payment/orchestrator.js';
+import type { SendWithPayment } from '../../src/payment/types.js';
+import { listPayments } from '../../src/tools/listPayments.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+import type { PaymentPayload, PaymentRequirement } from '../../src/gateway/types.js';
+
+describe('PaymentLedger', () => {
+  let ledger: PaymentLedger;
+
+  const payload = (nonce: string, value = '50000'): PaymentPayload => ({
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base',
+    payload: {
+      signature: `0x${'ab'.repeat(65)}`,
+      authorization: {
+        from: '0x1234567890123456789012345678901234567890',
+        to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        value,
+        validAfter: '0',
+        validBefore: '9999999999',
+        nonce,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    ledger = new PaymentLedger(':memory:');
+  });
+
+  afterEach(() => {
+    ledger.close();
+  });
+
+  it('should record a signed authorization as pending', () => {
+    ledger.recordAuthorization({
+      paymentPayload: payload('0x01'),
+      publisherId: 'publisher-a',
+      request: 'SELECT 1',
+    });
+
+    const [record] = ledger.listPayments();
+    expect(record).toMatchObject({
+      status: 'pending',
+      publisherId: 'publisher-a',
+      request: 'SELECT 1',
+      amount: '50000',
+      payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      validBefore: '9999999999',
+      nonce: '0x01',
+      txHash: null,
+    });
+  });
+
+  it('should record settlement outcomes', () => {
+    const settled = ledger.recordAuthorization({ paymentPayload: payload('0x01') });
+    const failed = ledger.recordAuthorization({ paymentPayload: payload('0x02') });
+
+    ledger.recordOutcome(settled, { status: 'settled', txHash: '0xtx' });
+    ledger.recordOutcome(failed, { status: 'failed', error: 'Settlement reverted' });
+
+    expect(ledger.listPayments({ status: 'settled' })).toEqual([
+      expect.objectContaining({ nonce: '0x01', txHash: '0xtx' }),
+    ]);
+    expect(ledger.listPayments({ status: 'failed' })).toEqual([
+      expect.objectContaining({ nonce: '0x02', error: 'Settlement reverted' }),
+    ]);
+  });
+
+  it('should filter by publisher and date range', () => {
+    ledger.recordAuthorization({ paymentPayload: payload('0x01'), publisherId: 'publisher-a' });
+    ledger.recordAuthorization({ paymentPayload: payload('0x02'), publisherId: 'publisher-b' });
+
+    const today = new Date().toISOString().slice(0, 10);
+
+    expect(ledger.listPayments({ publisherId: 'publisher-b' })).toHaveLength(1);
+    expect(ledger.listPayments({ from: today, to: today })).toHaveLength(2);
+    expect(ledger.listPayments({ to: '2000-01-01' })).toHaveLength(0);
+  });
+
+  it('should filter by wallet profile and total settled payments per profile', () => {
+    const first = ledger.recordAuthorization({ paymentPayload: payload('0x01', '50000'), wallet: 'analytics' });
+    const second = ledger.recordAuthorization({ paymentPayload: payload('0x02', '70000'), wallet: 'experiments' });
+    ledger.recordOutcome(first, { status: 'settled' });
+    ledger.recordOutcome(second, { status: 'settled' });
+
+    expect(ledger.listPayments({ wallet: 'analytics' })).toEqual([
+      expect.objectContaining({ nonce: '0x01', wallet: 'analytics' }),
+    ]);
+    expect(ledger.getSettledTotal('experiments')).toEqual({ count: 1, amount: '70000' });
+    expect(ledger.getSettledTotal()).toEqual({ count: 2, amount: '120000' });
+  });
+
+  it('should record permits that share a sequential nonce', () => {
+    const permit = (owner: string): PaymentPayload => ({
+      x402Version: 2,
+      scheme: 'exact',
+      network: 'base',
+      payload: {
+        signature: `0x${'cd'.repeat(65)}`,
+        assetTransferMethod: 'permit',
+        permit: { owner, spender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', value: '50000', nonce: '0', deadline: '9999999999' },
+      },
+    });
+    const usdc = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const otherToken = '0x4200000000000000000000000000000000000006';
+
+    ledger.recordAuthorization({ paymentPayload: permit('0x1234567890123456789012345678901234567890'), asset: usdc });
+    ledger.recordAuthorization({ paymentPayload: permit('0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'), asset: usdc });
+    ledger.recordAuthorization({ paymentPayload: permit('0x1234567890123456789012345678901234567890'), asset: otherToken });
+
+    // An unused permit leaves nonces(owner) unchanged, so the next permit from the same owner and token reuses it
+    ledger.recordAuthorization({ paymentPayload: permit('0x1234567890123456789012345678901234567890'), asset: usdc });
+
+    expect(ledger.listPayments().map((record) => record.nonce)).toEqual(['0', '0', '0', '0']);
+  });
+
+  it('should still reject a reused EIP-3009 authorization nonce', () => {
+    const usdc = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    ledger.recordAuthorization({ paymentPayload: payload('0x01'), asset: usdc });
+
+    expect(() => ledger.recordAuthorization({ paymentPayload: payload('0x01'), asset: usdc })).toThrow(/UNIQUE constraint failed/);
+  });
+
+  it('should migrate ledgers created before profiles and scoped nonces', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ledger-test-'));
+    const path = join(dir, 'payments.db');
+    try {
+      const legacy = new Database(path);
+      legacy.exec(`CREATE TABLE payments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        status TEXT NOT NULL, publisher_id TEXT, request TEXT, network TEXT NOT NULL, scheme TEXT NOT NULL,
+        from_address TEXT NOT NULL, pay_to TEXT NOT NULL, amount TEXT NOT NULL, valid_after TEXT NOT NULL,
+        valid_before TEXT NOT NULL, nonce TEXT NOT NULL UNIQUE, tx_hash TEXT, error TEXT
+      )`);
+      legacy.close();
+
+      const seeded = new Database(path);
+      seeded.prepare(`INSERT INTO payments (
+        created_at, updated_at, status, network, scheme, from_address, pay_to, amount, valid_after, valid_before, nonce
+      ) VALUES ('2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z', 'settled', 'base', 'exact', '0x12', '0x70', '1', '0', '1', '0')`).run();
+      seeded.close();
+
+      const migrated = new PaymentLedger(path);
+      migrated.recordAuthorization({ paymentPayload: payload('0x01'), wallet: 'analytics' });
+      migrated.recordAuthorization({ paymentPayload: payload('0'), asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' });
+      expect(migrated.listPayments().map((record) => record.nonce)).toEqual(['0', '0x01', '0']);
+      expect(migrated.listPayments({ wallet: 'analytics' })[0].wallet).toBe('analytics');
+      migrated.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replace an authorization index that covered permits', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ledger-test-'));
+    const path = join(dir, 'payments.db');
+    try {
+      new PaymentLedger(path).close();
+      const earlier = new Database(path);
+      earlier.exec(`DROP INDEX payments_authorization;
+        CREATE UNIQUE INDEX payments_authorization ON payments (from_address, asset, method, nonce)`);
+      earlier.close();
+
+      const migrated = new PaymentLedger(path);
+      const permit: PaymentPayload = {
+        x402Version: 2,
+        scheme: 'exact',
+        network: 'base',
+        payload: {
+          signature: `0x${'cd'.repeat(65)}`,
+          assetTransferMethod: 'permit',
+          permit: {
+            owner: '0x1234567890123456789012345678901234567890',
+            spender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            value: '50000',
+            nonce: '0',
+            deadline: '9999999999',
+          },
+        },
+      };
+      migrated.recordAuthorization({ paymentPayload: permit });
+      migrated.recordAuthorization({ paymentPayload: permit });
+      expect(migrated.listPayments()).toHaveLength(2);
+      migrated.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => ledger.listPayments({ from: 'yesterday' })).toThrow('Invalid date');
+  });
+
+  describe('orchestrator integration', () => {
+    const requirement: PaymentRequirement = {
+      scheme: 'exact',
+      network: 'base',
+      maxAmountRequired: '50000',
+      asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      resource: '/api/query',
+      description: 'Query',
+      mimeType: 'application/json',
+      outputSchema: null,
+      maxTimeoutSeconds: 300,
+    };
+
+    const wallet = {
+      signTypedData: jest.fn<WalletProvider['signTypedData']>().mockResolvedValue(`0x${'ab'.repeat(65)}`),
+    } as unknown as WalletProvider;
+
+    it('should record the paid request and its transaction hash', async () => {
+      const send = jest.fn<SendWithPayment<unknown>>()
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } })
+        .mockResolvedValueOnce({ status: 200, data: {}, paymentResponse: 'encoded' });
+
+      await executeWithPayment(send, {
+        wallet,
+        agentWallet: '0x1234567890123456789012345678901234567890',
+        ledger,
+        publisherId: 'publisher-a',
+        request: 'SELECT 1',
+        decodePaymentResponse: () => ({ transaction: '0xsettled' }),
+      });
+
+      expect(ledger.listPayments()).toEqual([
+        expect.objectContaining({
+          status: 'settled',
+          txHash: '0xsettled',
+          publisherId: 'publisher-a',
+          request: 'SELECT 1',
+        }),
+      ]);
+    });
+
+    it('should mark the payment failed when the paid request throws', async () => {
+      const send = jest.fn<SendWithPayment<unknown>>()
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } })
+        .mockRejectedValueOnce(new Error('socket hang up'));
+
+      await expect(executeWithPayment(send, {
+        wallet,
+        agentWallet: '0x1234567890123456789012345678901234567890',
+        ledger,
+      })).rejects.toThrow('socket hang up');
+
+      expect(ledger.listPayments()[0]).toMatchObject({ status: 'failed', error: 'socket hang up' });
+    });
+  });
+
+  describe('listPayments tool', () => {
+    it('should return payments with the settled total', async () => {
+      const first = ledger.recordAuthorization({ paymentPayload: payload('0x01', '250000') });
+      const second = ledger.recordAuthorization({ paymentPayload: payload('0x02', '50000') });
+      ledger.recordAuthorization({ paymentPayload: payload('0x03', '1000000') });
+      ledger.recordOutcome(first, { status: 'settled' });
+      ledger.recordOutcome(second, { status: 'settled' });
+
+      const result = await listPayments({}, ledger);
+
+      expect(result.success).toBe(true);
+      expect(result.count).toBe(3);
+      expect(result.totalSettled).toBe('0.3 USDC');
+    });
+
+    it('should return an error for invalid filters', async () => {
+      const result = await listPayments({ from: 'not-a-date' }, ledger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid date');
+    });
+  });
+});
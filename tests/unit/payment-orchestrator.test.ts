@@ -0,0 +1,391 @@
+// ABOUTME: Tests for the shared x402 payment orchestrator
+// ABOUTME: Covers each typed outcome and settlement tx extraction
+
+import { jest } from '@jest/globals';
+import { executeWithPayment, ensureWalletConnected } from '../../src/payment/orchestrator.js';
+import type { SendWithPayment } from '../../src/payment/types.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+import { UserRejectedError } from '../../src/wallet/types.js';
+import type { PaymentPayload, PaymentRequirement } from '../../src/gateway/types.js';
+import { decodeSettlementResponse } from '../../src/gateway/x402.js';
+import { NETWORKS } from '../../src/config/networks.js';
+
+describe('payment orchestrator', () => {
+  const agentWallet = '0x1234567890123456789012345678901234567890' as const;
+
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '50000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    resource: '/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+  };
+
+  let wallet: jest.Mocked<WalletProvider>;
+
+  beforeEach(() => {
+    wallet = {
+      getAddress: jest.fn<WalletProvider['getAddress']>().mockResolvedValue(agentWallet),
+      signTypedData: jest.fn<WalletProvider['signTypedData']>().mockResolvedValue(`0x${'ab'.repeat(65)}`),
+      isConnected: jest.fn<WalletProvider['isConnected']>().mockResolvedValue(true),
+      connect: jest.fn<WalletProvider['connect']>().mockResolvedValue(undefined),
+      disconnect: jest.fn<WalletProvider['disconnect']>().mockResolvedValue(undefined),
+    };
+  });
+
+  function mockSend(...responses: Awaited<ReturnType<SendWithPayment<unknown>>>[]) {
+    const send = jest.fn<SendWithPayment<unknown>>();
+    for (const response of responses) {
+      send.mockResolvedValueOnce(response);
+    }
+    return send;
+  }
+
+  it('should return free outcome when no 402 is received', async () => {
+    const send = mockSend({ status: 200, data: { ok: true } });
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome).toEqual({ status: 'free', data: { ok: true } });
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('should sign and retry with the payment payload', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+      { status: 200, data: { ok: true }, paymentResponse: 'encoded' }
+    );
+
+    const outcome = await executeWithPayment(send, {
+      wallet,
+      agentWallet,
+      decodePaymentResponse: () => ({ transaction: '0xtx' }),
+    });
+
+    expect(outcome.status).toBe('paid');
+    if (outcome.status !== 'paid') return;
+    expect(outcome.cost).toBe('0.05 USDC');
+    expect(outcome.txHash).toBe('0xtx');
+
+    const payload = send.mock.calls[1][0] as PaymentPayload;
+    expect(payload.payload.authorization.from).toBe(agentWallet);
+    expect(payload.payload.authorization.to).toBe(requirement.payTo);
+    expect(payload.payload.authorization.value).toBe('50000');
+  });
+
+  it('should accept legacy txHash in the payment response', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+      { status: 200, data: {}, paymentResponse: Buffer.from(JSON.stringify({ txHash: '0xlegacy' })).toString('base64') }
+    );
+
+    const outcome = await executeWithPayment(send, {
+      wallet,
+      agentWallet,
+      decodePaymentResponse: decodeSettlementResponse,
+    });
+
+    expect(outcome.status === 'paid' && outcome.txHash).toBe('0xlegacy');
+  });
+
+  it('should still report the payment when the payment response header is unreadable', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+      { status: 200, data: {}, paymentResponse: 'not base64 json' }
+    );
+
+    const outcome = await executeWithPayment(send, {
+      wallet,
+      agentWallet,
+      decodePaymentResponse: decodeSettlementResponse,
+    });
+
+    expect(outcome.status).toBe('paid');
+    expect(outcome.status === 'paid' && outcome.txHash).toBeUndefined();
+  });
+
+  it('should sign with the x402 version of the 402 body', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 2, accepts: [requirement] } },
+      { status: 200, data: {} }
+    );
+
+    await executeWithPayment(send, { wallet, agentWallet });
+
+    const payload = send.mock.calls[1][0] as PaymentPayload;
+    expect(payload.x402Version).toBe(2);
+    expect(payload.accepted).toEqual(requirement);
+  });
+
+  it('should not sign for an unsupported x402 version', async () => {
+    const send = mockSend({ status: 402, paymentRequired: { x402Version: 3, accepts: [requirement] } });
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome).toEqual({
+      status: 'no_payment_method',
+      error: 'Gateway requires x402 version 3; this client supports 1, 2',
+    });
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the settlement transaction from the response body', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+      { status: 200, data: { settlement: { transaction: '0xbody' } }, paymentResponse: 'encoded' }
+    );
+
+    const outcome = await executeWithPayment(send, {
+      wallet,
+      agentWallet,
+      decodePaymentResponse: () => ({ transaction: '0xheader' }),
+      getSettlementTx: (data) => (data as { settlement?: { transaction?: string } }).settlement?.transaction,
+    });
+
+    expect(outcome.status === 'paid' && outcome.txHash).toBe('0xbody');
+  });
+
+  it('should report insufficient credit without signing', async () => {
+    const send = mockSend({
+      status: 402,
+      paymentRequired: {
+        error: 'Insufficient credit balance',
+        minimumRequired: '1.00',
+        depositEndpoint: '/api/credits/deposit',
+      } as never,
+    });
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome.status).toBe('insufficient_credit');
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('should report missing payment methods', async () => {
+    const send = mockSend({ status: 402, paymentRequired: { x402Version: 1, accepts: [] } });
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome.status).toBe('no_payment_method');
+  });
+
+  it('should report settlement failure when the paid retry returns 402', async () => {
+    const send = mockSend(
+      { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+      { status: 402, paymentRequired: { x402Version: 1, error: 'Settlement reverted', accepts: [] } }
+    );
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome.status).toBe('settlement_failed');
+    expect(outcome.status === 'settlement_failed' && outcome.error).toBe('Settlement reverted');
+  });
+
+  it('should report user rejection', async () => {
+    wallet.signTypedData.mockRejectedValue(new UserRejectedError());
+    const send = mockSend({ status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } });
+
+    const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+    expect(outcome.status).toBe('user_rejected');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should propagate gateway errors', async () => {
+    const send = jest.fn<SendWithPayment<unknown>>().mockRejectedValue(new Error('Gateway unavailable'));
+
+    await expect(executeWithPayment(send, { wallet, agentWallet })).rejects.toThrow('Gateway unavailable');
+  });
+
+  describe('requirement checks', () => {
+    it('should reject a requirement for another network without signing', async () => {
+      const send = mockSend({
+        status: 402,
+        paymentRequired: { x402Version: 1, accepts: [{ ...requirement, network: 'base-sepolia' }] },
+      });
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+      expect(outcome.status).toBe('requirement_rejected');
+      expect(outcome.status === 'requirement_rejected' && outcome.error).toBe(
+        'Payment requirement rejected: Payment requirement is for network "base-sepolia" but this server pays on "base"'
+      );
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an EIP-712 chainId that does not match the network', async () => {
+      const send = mockSend({
+        status: 402,
+        paymentRequired: {
+          x402Version: 1,
+          accepts: [{
+            ...requirement,
+            extra: { eip712: { name: 'USD Coin', version: '2', chainId: 84532, verifyingContract: requirement.asset } },
+          }],
+        },
+      });
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+      expect(outcome.status).toBe('requirement_rejected');
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should reject a requirement paying an unexpected asset to an unlisted wallet', async () => {
+      const send = mockSend({
+        status: 402,
+        paymentRequired: {
+          x402Version: 1,
+          accepts: [{ ...requirement, asset: '0x4200000000000000000000000000000000000006' }],
+        },
+      });
+
+      const outcome = await executeWithPayment(send, {
+        wallet,
+        agentWallet,
+        requirementPolicy: { payToAllowlist: ['0x1111111111111111111111111111111111111111'], maxTimeoutSeconds: 900 },
+      });
+
+      expect(outcome.status).toBe('requirement_rejected');
+      if (outcome.status !== 'requirement_rejected') return;
+      expect(outcome.rejected[0].problems).toHaveLength(2);
+      expect(outcome.error).toContain('is not USDC on base');
+      expect(outcome.error).toContain('is not an allowed gateway wallet');
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should pay the cheapest acceptable requirement', async () => {
+      const sepoliaOption = { ...requirement, network: 'base-sepolia', maxAmountRequired: '10000' };
+      const pricier = { ...requirement, maxAmountRequired: '90000', extra: { paymentRequestId: 'pricier' } };
+      const cheaper = { ...requirement, maxAmountRequired: '40000', extra: { paymentRequestId: 'cheaper' } };
+      const send = mockSend(
+        { status: 402, paymentRequired: { x402Version: 1, accepts: [sepoliaOption, pricier, cheaper] } },
+        { status: 200, data: {} }
+      );
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+      expect(outcome.status).toBe('paid');
+      expect(outcome.status === 'paid' && outcome.requirement).toBe(cheaper);
+      expect((send.mock.calls[1][0] as PaymentPayload).payload.authorization.value).toBe('40000');
+    });
+
+    it('should report why each option was rejected when none is acceptable', async () => {
+      const send = mockSend({
+        status: 402,
+        paymentRequired: {
+          x402Version: 1,
+          accepts: [{ ...requirement, network: 'solana' }, { ...requirement, scheme: 'upto' }],
+        },
+      });
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+      expect(outcome.status).toBe('requirement_rejected');
+      if (outcome.status !== 'requirement_rejected') return;
+      expect(outcome.rejected.map((option) => option.index)).toEqual([0, 1]);
+      expect(outcome.error).toContain('option 1 (exact on solana)');
+      expect(outcome.error).toContain('option 2 (upto on base): Unsupported payment scheme "upto"');
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should accept gateway aliases for the network', async () => {
+      const send = mockSend(
+        { status: 402, paymentRequired: { x402Version: 1, accepts: [{ ...requirement, network: 'base-mainnet' }] } },
+        { status: 200, data: {} }
+      );
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet });
+
+      expect(outcome.status).toBe('paid');
+    });
+
+    it('should sign with the Base Sepolia chainId in testnet mode', async () => {
+      const sepolia = NETWORKS['base-sepolia'];
+      const send = mockSend(
+        {
+          status: 402,
+          paymentRequired: {
+            x402Version: 1,
+            accepts: [{ ...requirement, network: 'base-sepolia', asset: sepolia.usdc }],
+          },
+        },
+        { status: 200, data: {} }
+      );
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet, network: sepolia });
+
+      expect(outcome.status).toBe('paid');
+      const [domain] = wallet.signTypedData.mock.calls[0];
+      expect(domain.chainId).toBe(84532n);
+      expect(domain.verifyingContract).toBe(sepolia.usdc);
+    });
+  });
+
+  describe('wallet balance pre-flight', () => {
+    it('should refuse to sign when the wallet holds too little USDC', async () => {
+      const send = mockSend({ status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } });
+      const getUsdcBalance = jest.fn(async () => 10000n);
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet, balanceReader: { getUsdcBalance } });
+
+      expect(outcome).toEqual({
+        status: 'insufficient_funds',
+        error: 'Insufficient USDC: wallet has 0.01 USDC, payment needs 0.05 USDC',
+        balance: '0.01 USDC',
+        required: '0.05 USDC',
+      });
+      expect(getUsdcBalance).toHaveBeenCalledWith(agentWallet);
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should pay when the balance covers the requirement', async () => {
+      const send = mockSend(
+        { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+        { status: 200, data: {} }
+      );
+
+      const outcome = await executeWithPayment(send, {
+        wallet,
+        agentWallet,
+        balanceReader: { getUsdcBalance: async () => 50000n },
+      });
+
+      expect(outcome.status).toBe('paid');
+    });
+
+    it('should skip the check when the RPC is unreachable', async () => {
+      const send = mockSend(
+        { status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } },
+        { status: 200, data: {} }
+      );
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const outcome = await executeWithPayment(send, {
+        wallet,
+        agentWallet,
+        balanceReader: { getUsdcBalance: async () => { throw new Error('fetch failed'); } },
+      });
+
+      expect(outcome.status).toBe('paid');
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('ensureWalletConnected', () => {
+    it('should connect a disconnected wallet', async () => {
+      wallet.isConnected.mockResolvedValue(false);
+
+      const address = await ensureWalletConnected(wallet);
+
+      expect(wallet.connect).toHaveBeenCalled();
+      expect(address).toBe(agentWallet);
+    });
+  });
+});
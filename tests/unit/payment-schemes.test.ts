@@ -0,0 +1,197 @@
+// ABOUTME: Tests for transferWithAuthorization, receiveWithAuthorization and permit payment schemes
+// ABOUTME: Checks typehashes against USDC, fixed signature vectors, scheme selection and payload building
+
+import { jest } from '@jest/globals';
+import { hashTypedData, keccak256, toHex, type PublicClient } from 'viem';
+import { NETWORKS } from '../../src/config/networks.js';
+import { buildPaymentPayload } from '../../src/payment/orchestrator.js';
+import { NonceRegistry } from '../../src/payment/nonces.js';
+import { toAuthorizationParams } from '../../src/payment/settlement.js';
+import {
+  buildDomain,
+  PERMIT_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+} from '../../src/signing/eip712.js';
+import { verifyPaymentSignature } from '../../src/signing/inspect.js';
+import {
+  getPaymentTerms,
+  getSchemeProblem,
+  resolveTransferMethod,
+  UnsupportedPaymentSchemeError,
+} from '../../src/signing/schemes.js';
+import { PrivateKeyWalletProvider } from '../../src/wallet/privatekey.js';
+import type { PaymentRequirement } from '../../src/gateway/types.js';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const PAY_TO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/** Solidity type string of a single-struct EIP-712 type, as hashed into its typehash */
+function typeHash(types: Record<string, readonly { name: string; type: string }[]>): string {
+  const [[primaryType, fields]] = Object.entries(types);
+  return keccak256(toHex(`${primaryType}(${fields.map((field) => `${field.type} ${field.name}`).join(',')})`));
+}
+
+describe('payment schemes', () => {
+  const network = NETWORKS.base;
+  const domain = buildDomain({ chainId: network.chainId, verifyingContract: network.usdc });
+  let wallet: PrivateKeyWalletProvider;
+
+  beforeAll(async () => {
+    wallet = new PrivateKeyWalletProvider({ privateKey: PRIVATE_KEY });
+    await wallet.connect();
+  });
+
+  describe('typed-data definitions', () => {
+    // Constants from USDC FiatTokenV2 (EIP3009.sol and EIP2612.sol)
+    it('should match the USDC contract typehashes', () => {
+      expect(typeHash(TRANSFER_WITH_AUTHORIZATION_TYPES)).toBe(
+        '0x7c7c6cdb67a18743f49ec6fa9b35f50d52ed05cbed4cc592e13b44501c1a2267'
+      );
+      expect(typeHash(RECEIVE_WITH_AUTHORIZATION_TYPES)).toBe(
+        '0xd099cc98ef71107a616c4f0f941f04c322d8e254fe26b3c6668db87aae413de8'
+      );
+      expect(typeHash(PERMIT_TYPES)).toBe('0x6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c9');
+    });
+  });
+
+  describe('signature vectors', () => {
+    const authorization = {
+      from: SIGNER,
+      to: PAY_TO,
+      value: 50000n,
+      validAfter: 1767225540n,
+      validBefore: 1767225900n,
+      nonce: `0x${'11'.repeat(32)}`,
+    } as const;
+    const permit = { owner: SIGNER, spender: PAY_TO, value: 50000n, nonce: 7n, deadline: 1767225900n } as const;
+
+    it('should sign TransferWithAuthorization', async () => {
+      expect(hashTypedData({
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message: authorization,
+      })).toBe('0x801a437b3093d0cf141ac64e44a86b5b6fdcb3c7aff3150783c596f1c60c303d');
+      await expect(wallet.signTypedData(domain, authorization)).resolves.toBe(
+        '0x470308abac14e9a07b4f039810d817a5abd7fa7e717328f6ea5544cf5aa489e772851880cd81a73d693e01780088153a2ef9a238cb652448ed8913f0bb9f02b81c'
+      );
+    });
+
+    it('should sign ReceiveWithAuthorization', async () => {
+      expect(hashTypedData({
+        domain,
+        types: RECEIVE_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'ReceiveWithAuthorization',
+        message: authorization,
+      })).toBe('0x67836975d83b400cee5a3939c06044469fc8dcfbd3790de41246ec7136a8a200');
+      await expect(wallet.signReceiveAuthorization(domain, authorization)).resolves.toBe(
+        '0x739d4ad9f842af915975927163e6058a52bbdbc623f5dbbfa4de6f713310f5794ec31f60a385db8287fde6de2c5f0010c412ca5971404aee898829991e1a3fbc1c'
+      );
+    });
+
+    it('should sign Permit', async () => {
+      expect(hashTypedData({ domain, types: PERMIT_TYPES, primaryType: 'Permit', message: permit })).toBe(
+        '0x6bc1addedaeb5743c80de335e3122f01f4b62922ca94e774e08f34c2f0ddd48a'
+      );
+      await expect(wallet.signPermit(domain, permit)).resolves.toBe(
+        '0xcc746e75cd991e86daeaacf299fb5d0433ae8bdf5aa542d491462fcfd07d650f2315ce9a4981f857a9775ce298f1726690a5b919f745a9330c0979081958548e1b'
+      );
+    });
+  });
+
+  describe('scheme selection', () => {
+    function requirement(scheme = 'exact', assetTransferMethod?: string): PaymentRequirement {
+      return {
+        scheme,
+        network: 'base',
+        maxAmountRequired: '50000',
+        asset: network.usdc,
+        payTo: PAY_TO,
+        resource: '/api/query',
+        description: 'Query',
+        mimeType: 'application/json',
+        outputSchema: null,
+        maxTimeoutSeconds: 300,
+        ...(assetTransferMethod && { extra: { assetTransferMethod } }),
+      };
+    }
+
+    it('should default to transferWithAuthorization', () => {
+      expect(resolveTransferMethod(requirement())).toBe('transferWithAuthorization');
+    });
+
+    it('should pick the method from extra.assetTransferMethod', () => {
+      expect(resolveTransferMethod(requirement('exact', 'receiveWithAuthorization'))).toBe('receiveWithAuthorization');
+      expect(resolveTransferMethod(requirement('exact', 'permit'))).toBe('permit');
+    });
+
+    it('should reject unknown schemes and methods', () => {
+      expect(getSchemeProblem(requirement('upto'))).toBe('Unsupported payment scheme "upto" (expected "exact")');
+      expect(getSchemeProblem(requirement('exact', 'permit2'))).toBe(
+        'Unsupported asset transfer method "permit2" for scheme "exact" (expected transferWithAuthorization, receiveWithAuthorization, permit)'
+      );
+      expect(() => resolveTransferMethod(requirement('exact', 'permit2'))).toThrow(UnsupportedPaymentSchemeError);
+    });
+
+    describe('buildPaymentPayload', () => {
+      it('should keep the transferWithAuthorization payload shape', async () => {
+        const payload = await buildPaymentPayload(requirement(), SIGNER, wallet, network);
+
+        expect(payload.payload).not.toHaveProperty('assetTransferMethod');
+        expect(payload.payload).toHaveProperty('authorization');
+        expect((await verifyPaymentSignature(payload, domain)).valid).toBe(true);
+      });
+
+      it('should sign receiveWithAuthorization payloads', async () => {
+        const signReceiveAuthorization = jest.spyOn(wallet, 'signReceiveAuthorization');
+
+        const payload = await buildPaymentPayload(
+          requirement('exact', 'receiveWithAuthorization'),
+          SIGNER,
+          wallet,
+          network
+        );
+
+        expect(signReceiveAuthorization).toHaveBeenCalledTimes(1);
+        expect(payload.payload.assetTransferMethod).toBe('receiveWithAuthorization');
+        expect(getPaymentTerms(payload)).toMatchObject({ method: 'receiveWithAuthorization', from: SIGNER, to: PAY_TO });
+        expect((await verifyPaymentSignature(payload, domain)).valid).toBe(true);
+        signReceiveAuthorization.mockRestore();
+      });
+
+      it('should sign permits with the owner nonce read from USDC', async () => {
+        const readContract = jest.fn(async () => 7n);
+        const permitNonces = new NonceRegistry(network, { client: { readContract } as unknown as PublicClient });
+
+        const payload = await buildPaymentPayload(requirement('exact', 'permit'), SIGNER, wallet, network, { permitNonces });
+
+        expect(readContract).toHaveBeenCalledWith(expect.objectContaining({
+          address: network.usdc,
+          functionName: 'nonces',
+          args: [SIGNER],
+        }));
+        expect(payload.payload).toMatchObject({
+          assetTransferMethod: 'permit',
+          permit: { owner: SIGNER, spender: PAY_TO, value: '50000', nonce: '7' },
+        });
+        expect(getPaymentTerms(payload)).toMatchObject({ method: 'permit', validAfter: 0n, nonce: '7' });
+        expect(await verifyPaymentSignature(payload, domain)).toMatchObject({ valid: true, signer: SIGNER });
+      });
+
+      it('should only self-settle transferWithAuthorization payloads', async () => {
+        const payload = await buildPaymentPayload(
+          requirement('exact', 'receiveWithAuthorization'),
+          SIGNER,
+          wallet,
+          network
+        );
+
+        expect(() => toAuthorizationParams(payload)).toThrow(
+          'Only transferWithAuthorization payments can be self-settled; this payment uses receiveWithAuthorization'
+        );
+      });
+    });
+  });
+});
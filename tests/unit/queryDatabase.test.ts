@@ -89,8 +89,8 @@ describe('queryDatabase', () => {
                 scheme: 'exact',
                 network: 'base-mainnet',
                 maxAmountRequired: '1000000',
-                asset: '0xusdc',
-                payTo: '0xgateway',
+                asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
                 resource: '/api/query',
                 description: 'Query',
                 mimeType: 'application/json',
@@ -134,8 +134,8 @@ describe('queryDatabase', () => {
               scheme: 'exact',
               network: 'base-mainnet',
               maxAmountRequired: '1000000',
-              asset: '0xusdc',
-              payTo: '0xgateway',
+              asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+              payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
               resource: '/api/query',
               description: 'Query',
               mimeType: 'application/json',
@@ -246,8 +246,8 @@ describe('queryDatabase', () => {
                 scheme: 'exact',
                 network: 'base-mainnet',
                 maxAmountRequired: '1000000',
-                asset: '0xusdc',
-                payTo: '0xgateway',
+                asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
                 resource: '/api/query',
                 description: 'Query',
                 mimeType: 'application/json',
@@ -271,4 +271,113 @@ describe('queryDatabase', () => {
       expect(connectMock).toHaveBeenCalled();
     });
   });
+
+  describe('cost preview', () => {
+    const paymentRequired = {
+      x402Version: 1,
+      accepts: [{
+        scheme: 'exact',
+        network: 'base-mainnet',
+        maxAmountRequired: '250000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        resource: '/api/query',
+        description: 'Query',
+        mimeType: 'application/json',
+        outputSchema: null,
+        maxTimeoutSeconds: 300,
+        extra: { estimatedCost: '0.25' },
+      }],
+    } as PaymentRequirementsResponse;
+
+    it('should return the quote without signing on dry run', async () => {
+      const wallet = createMockWallet();
+      const queryDatabaseMock = jest.fn().mockResolvedValue({ status: 402, paymentRequired });
+      const gateway = createMockGateway({ queryDatabase: queryDatabaseMock });
+
+      const result = await queryDatabase(
+        { publisher_id: 'test-id', sql: 'SELECT 1', dry_run: true },
+        wallet,
+        gateway
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.dryRun).toBe(true);
+      expect(result.quote).toEqual({
+        price: '0.25 USDC',
+        amount: '250000',
+        estimatedCost: '0.25',
+        scheme: 'exact',
+        network: 'base-mainnet',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        maxTimeoutSeconds: 300,
+        resource: '/api/query',
+        description: 'Query',
+      });
+      expect(queryDatabaseMock).toHaveBeenCalledTimes(1);
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to pay above max_cost', async () => {
+      const wallet = createMockWallet();
+      const queryDatabaseMock = jest.fn().mockResolvedValue({ status: 402, paymentRequired });
+      const gateway = createMockGateway({ queryDatabase: queryDatabaseMock });
+
+      const result = await queryDatabase(
+        { publisher_id: 'test-id', sql: 'SELECT 1', max_cost: '0.10' },
+        wallet,
+        gateway
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Quoted price 0.25 USDC exceeds max_cost of 0.1 USDC');
+      expect(result.quote?.price).toBe('0.25 USDC');
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should pay when the quote is within max_cost', async () => {
+      const wallet = createMockWallet();
+      const gateway = createMockGateway({
+        queryDatabase: jest.fn()
+          .mockResolvedValueOnce({ status: 402, paymentRequired })
+          .mockResolvedValueOnce({
+            status: 200,
+            data: { rows: [], rowCount: 0, estimatedCost: '0.25', actualCost: '0.25', executionTime: 1 },
+          }),
+      });
+
+      const result = await queryDatabase(
+        { publisher_id: 'test-id', sql: 'SELECT 1', max_cost: '0.25' },
+        wallet,
+        gateway
+      );
+
+      expect(result.success).toBe(true);
+      expect(wallet.signTypedData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an invalid max_cost', async () => {
+      const result = await queryDatabase(
+        { publisher_id: 'test-id', sql: 'SELECT 1', max_cost: 'cheap' },
+        createMockWallet(),
+        createMockGateway()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('max_cost');
+    });
+
+    it('should reject a max_cost with more than 6 decimal places instead of truncating it', async () => {
+      const wallet = createMockWallet();
+      const result = await queryDatabase(
+        { publisher_id: 'test-id', sql: 'SELECT 1', max_cost: '0.0000009' },
+        wallet,
+        createMockGateway()
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_INPUT' });
+      expect(wallet.signTypedData).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,125 @@
+// ABOUTME: Tests for RelayManager failover between transaction relays
+// ABOUTME: Covers availability caching, priority order and retryable vs final errors
+
+import { jest } from '@jest/globals';
+import { NoRelayAvailableError, RelayManager } from '../../src/relay/manager.js';
+import {
+  RelayNotAvailableError,
+  RelaySubmissionError,
+  type AuthorizationParams,
+  type TransactionRelay,
+  type TransactionResult,
+} from '../../src/relay/types.js';
+
+describe('RelayManager', () => {
+  const params: AuthorizationParams = {
+    from: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    value: 50000n,
+    validAfter: 0,
+    validBefore: Math.floor(Date.now() / 1000) + 300,
+    nonce: `0x${'01'.repeat(32)}`,
+    signature: `0x${'11'.repeat(64)}1b`,
+  };
+
+  function mockRelay(available: boolean, result?: TransactionResult | Error) {
+    return {
+      isAvailable: jest.fn(async () => available),
+      submitAuthorization: jest.fn(async () => {
+        if (result instanceof Error) {
+          throw result;
+        }
+        return result ?? { txHash: '0xtx' as `0x${string}`, confirmed: true };
+      }),
+    } satisfies TransactionRelay;
+  }
+
+  it('should submit through the highest-priority available relay', async () => {
+    const direct = mockRelay(true, { txHash: '0xdirect', confirmed: true, blockNumber: 10, gasUsed: 61000n });
+    const paloma = mockRelay(true);
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay: direct }, { type: 'paloma', relay: paloma }] });
+
+    const result = await manager.submitAuthorization(params);
+
+    expect(result).toEqual({
+      txHash: '0xdirect',
+      confirmed: true,
+      blockNumber: 10,
+      gasUsed: 61000n,
+      relay: 'direct',
+      skipped: [],
+    });
+    expect(paloma.submitAuthorization).not.toHaveBeenCalled();
+  });
+
+  it('should fall back when the primary relay is unavailable', async () => {
+    const direct = mockRelay(false);
+    const paloma = mockRelay(true, { txHash: '0xpaloma', confirmed: true });
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay: direct }, { type: 'paloma', relay: paloma }] });
+
+    const result = await manager.submitAuthorization(params);
+
+    expect(result.relay).toBe('paloma');
+    expect(result.skipped).toEqual([{ type: 'direct', reason: 'unavailable' }]);
+    expect(direct.submitAuthorization).not.toHaveBeenCalled();
+  });
+
+  it('should fall back when a relay reports it is not available while submitting', async () => {
+    const direct = mockRelay(true, new RelayNotAvailableError('direct', 'DirectRelay requires a privateKey to pay gas'));
+    const paloma = mockRelay(true, { txHash: '0xpaloma', confirmed: true });
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay: direct }, { type: 'paloma', relay: paloma }] });
+
+    const result = await manager.submitAuthorization(params);
+
+    expect(result.relay).toBe('paloma');
+    expect(result.skipped).toEqual([{ type: 'direct', reason: 'DirectRelay requires a privateKey to pay gas' }]);
+    expect(manager.getAvailability()[0].available).toBe(false);
+  });
+
+  it('should not fail over after a submission error', async () => {
+    const direct = mockRelay(true, new RelaySubmissionError('Transaction 0xabc reverted', 'direct'));
+    const paloma = mockRelay(true);
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay: direct }, { type: 'paloma', relay: paloma }] });
+
+    await expect(manager.submitAuthorization(params)).rejects.toThrow(RelaySubmissionError);
+    expect(paloma.submitAuthorization).not.toHaveBeenCalled();
+  });
+
+  it('should throw a retryable error when no relay is available', async () => {
+    const manager = new RelayManager({
+      relays: [{ type: 'direct', relay: mockRelay(false) }, { type: 'paloma', relay: mockRelay(false) }],
+    });
+
+    await expect(manager.submitAuthorization(params)).rejects.toThrow(NoRelayAvailableError);
+    await expect(manager.submitAuthorization(params)).rejects.toThrow(
+      'No relay available: direct (unavailable), paloma (unavailable)'
+    );
+    expect(await manager.isAvailable()).toBe(false);
+  });
+
+  it('should cache availability for the configured period', async () => {
+    let now = 0;
+    const direct = mockRelay(true);
+    const manager = new RelayManager({
+      relays: [{ type: 'direct', relay: direct }],
+      availabilityTtlMs: 1000,
+      now: () => now,
+    });
+
+    await manager.isAvailable();
+    await manager.submitAuthorization(params);
+    expect(direct.isAvailable).toHaveBeenCalledTimes(1);
+
+    now = 1500;
+    await manager.isAvailable();
+    expect(direct.isAvailable).toHaveBeenCalledTimes(2);
+  });
+
+  it('should treat a throwing availability check as unavailable', async () => {
+    const direct = mockRelay(true);
+    direct.isAvailable.mockRejectedValueOnce(new Error('fetch failed'));
+    const manager = new RelayManager({ relays: [{ type: 'direct', relay: direct }] });
+
+    expect(await manager.isAvailable()).toBe(false);
+  });
+});
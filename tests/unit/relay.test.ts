@@ -76,6 +76,15 @@ describe('TransactionRelay Interface', () => {
       expect(defaultRelay.endpoint).toBe('https://relay.palomachain.com');
     });
 
+    it('should default to Base mainnet and accept Base Sepolia', () => {
+      expect(new PalomaRelay().chainId).toBe(8453);
+      expect(new PalomaRelay({ chainId: 84532 }).chainId).toBe(84532);
+    });
+
+    it('should reject unsupported chains', () => {
+      expect(() => new PalomaRelay({ chainId: 1 })).toThrow('Unsupported chainId: 1');
+    });
+
     it('should validate authorization params', async () => {
       const invalidParams = { ...mockAuthParams, from: 'invalid-address' as `0x${string}` };
 
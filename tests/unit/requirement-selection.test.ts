@@ -0,0 +1,79 @@
+// ABOUTME: Tests for choosing among the payment requirements offered in a 402 response
+// ABOUTME: Covers filtering unpayable options, price ranking and rejection reporting
+
+import { formatRejections, selectRequirement } from '../../src/payment/selection.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import type { PaymentRequirement } from '../../src/gateway/types.js';
+
+describe('selectRequirement', () => {
+  const base = NETWORKS.base;
+  const policy = { payToAllowlist: [], allowAnyPayTo: true, maxTimeoutSeconds: 900 };
+
+  const option = (overrides: Partial<PaymentRequirement>): PaymentRequirement => ({
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '50000',
+    asset: base.usdc,
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    resource: '/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+    ...overrides,
+  });
+
+  it('should rank acceptable options by price', () => {
+    const expensive = option({ maxAmountRequired: '70000' });
+    const cheap = option({ maxAmountRequired: '20000' });
+
+    const selection = selectRequirement([expensive, cheap], base, policy, 'cheapest');
+
+    expect(selection.requirement).toBe(cheap);
+    expect(selection.rejected).toEqual([]);
+  });
+
+  it('should keep gateway order for equal prices', () => {
+    const first = option({ description: 'first' });
+    const second = option({ description: 'second' });
+
+    expect(selectRequirement([first, second], base, policy, 'cheapest').requirement).toBe(first);
+  });
+
+  it('should take the first acceptable option with gateway_order', () => {
+    const expensive = option({ maxAmountRequired: '70000' });
+    const cheap = option({ maxAmountRequired: '20000' });
+
+    expect(selectRequirement([expensive, cheap], base, policy, 'gateway_order').requirement).toBe(expensive);
+  });
+
+  it('should skip options on another chain, scheme or asset even when cheaper', () => {
+    const payable = option({ maxAmountRequired: '50000' });
+    const accepts = [
+      option({ network: 'base-sepolia', asset: NETWORKS['base-sepolia'].usdc, maxAmountRequired: '1' }),
+      option({ scheme: 'upto', maxAmountRequired: '1' }),
+      option({ asset: '0x4200000000000000000000000000000000000006', maxAmountRequired: '1' }),
+      payable,
+    ];
+
+    const selection = selectRequirement(accepts, base, policy, 'cheapest');
+
+    expect(selection.requirement).toBe(payable);
+    expect(selection.rejected.map((rejected) => rejected.index)).toEqual([0, 1, 2]);
+  });
+
+  it('should report every rejected option when none is acceptable', () => {
+    const selection = selectRequirement(
+      [option({ network: 'ethereum' }), option({ maxTimeoutSeconds: 86400 })],
+      base,
+      policy
+    );
+
+    expect(selection.requirement).toBeUndefined();
+    expect(formatRejections(selection.rejected)).toBe(
+      'No acceptable payment requirement among 2 options: '
+      + 'option 1 (exact on ethereum): Payment requirement is for network "ethereum" but this server pays on "base" | '
+      + 'option 2 (exact on base): maxTimeoutSeconds 86400 must be between 1 and 900'
+    );
+  });
+});
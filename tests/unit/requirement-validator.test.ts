@@ -0,0 +1,148 @@
+// ABOUTME: Tests for payment requirement validation before signing
+// ABOUTME: Covers network, scheme, USDC contract, payTo allowlist, timeout and amount checks
+
+import { validateRequirement, type RequirementPolicy } from '../../src/payment/validator.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import type { PaymentRequirement } from '../../src/gateway/types.js';
+
+describe('validateRequirement', () => {
+  const base = NETWORKS.base;
+  const gatewayWallet = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const policy: RequirementPolicy = { payToAllowlist: [gatewayWallet], maxTimeoutSeconds: 900 };
+
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'base-mainnet',
+    maxAmountRequired: '50000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: gatewayWallet,
+    resource: '/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+    extra: {
+      estimatedCost: '0.05',
+      eip712: {
+        name: 'USD Coin',
+        version: '2',
+        chainId: 8453,
+        verifyingContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      },
+    },
+  };
+
+  it('should accept a valid USDC requirement', () => {
+    expect(validateRequirement(requirement, base, policy)).toEqual([]);
+  });
+
+  it('should compare addresses case-insensitively', () => {
+    expect(validateRequirement(
+      { ...requirement, asset: requirement.asset.toLowerCase(), payTo: gatewayWallet.toLowerCase() },
+      base,
+      policy
+    )).toEqual([]);
+  });
+
+  it('should reject assets other than USDC', () => {
+    expect(validateRequirement(
+      { ...requirement, asset: '0x4200000000000000000000000000000000000006' },
+      base,
+      policy
+    )).toEqual([
+      'Payment asset 0x4200000000000000000000000000000000000006 is not USDC on base (0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913)',
+    ]);
+  });
+
+  it('should reject an EIP-712 verifyingContract other than USDC', () => {
+    const problems = validateRequirement(
+      {
+        ...requirement,
+        extra: { ...requirement.extra, eip712: { ...requirement.extra!.eip712!, verifyingContract: '0x4200000000000000000000000000000000000006' } },
+      },
+      base,
+      policy
+    );
+
+    expect(problems).toEqual([expect.stringContaining('EIP-712 verifyingContract 0x4200000000000000000000000000000000000006 is not USDC')]);
+  });
+
+  it('should reject the testnet USDC contract on mainnet', () => {
+    expect(validateRequirement(
+      { ...requirement, asset: NETWORKS['base-sepolia'].usdc, extra: { estimatedCost: '0.05' } },
+      base,
+      policy
+    )).toHaveLength(1);
+  });
+
+  it('should reject payTo addresses outside the allowlist', () => {
+    expect(validateRequirement(
+      { ...requirement, payTo: '0x1111111111111111111111111111111111111111' },
+      base,
+      policy
+    )).toEqual(['payTo 0x1111111111111111111111111111111111111111 is not an allowed gateway wallet']);
+  });
+
+  it('should reject every payTo when the allowlist is empty', () => {
+    const unset = { ...policy, payToAllowlist: [] };
+
+    expect(validateRequirement(requirement, base, unset)).toEqual([
+      `payTo ${gatewayWallet} is not an allowed gateway wallet (PAYMENT_PAYTO_ALLOWLIST is not set)`,
+    ]);
+  });
+
+  it('should accept any valid payTo when explicitly allowed', () => {
+    const open = { ...policy, payToAllowlist: [], allowAnyPayTo: true };
+
+    expect(validateRequirement({ ...requirement, payTo: '0x1111111111111111111111111111111111111111' }, base, open)).toEqual([]);
+    expect(validateRequirement({ ...requirement, payTo: '0xgateway' }, base, open)).toEqual([
+      'payTo 0xgateway is not a valid address',
+    ]);
+  });
+
+  it('should reject schemes other than exact', () => {
+    expect(validateRequirement({ ...requirement, scheme: 'upto' }, base, policy)).toEqual([
+      'Unsupported payment scheme "upto" (expected "exact")',
+    ]);
+  });
+
+  it('should bound the timeout', () => {
+    expect(validateRequirement({ ...requirement, maxTimeoutSeconds: 86400 }, base, policy)).toEqual([
+      'maxTimeoutSeconds 86400 must be between 1 and 900',
+    ]);
+    expect(validateRequirement({ ...requirement, maxTimeoutSeconds: 0 }, base, policy)).toHaveLength(1);
+  });
+
+  it('should reject an amount above the estimated cost', () => {
+    expect(validateRequirement({ ...requirement, maxAmountRequired: '5000000' }, base, policy)).toEqual([
+      'maxAmountRequired 5000000 exceeds estimatedCost of 0.05 USDC',
+    ]);
+  });
+
+  it('should allow rounding of estimates with more than 6 decimals', () => {
+    expect(validateRequirement(
+      { ...requirement, maxAmountRequired: '12346', extra: { estimatedCost: '0.0123456' } },
+      base,
+      policy
+    )).toEqual([]);
+  });
+
+  it('should reject zero or malformed amounts', () => {
+    expect(validateRequirement({ ...requirement, maxAmountRequired: '0' }, base, policy)).toEqual([
+      'maxAmountRequired 0 is not a positive atomic amount',
+    ]);
+    expect(validateRequirement({ ...requirement, extra: { estimatedCost: 'cheap' } }, base, policy)).toEqual([
+      'estimatedCost cheap is not a decimal USDC amount',
+    ]);
+  });
+
+  it('should report every failed check', () => {
+    const problems = validateRequirement(
+      { ...requirement, network: 'ethereum', scheme: 'upto', maxTimeoutSeconds: 3600 },
+      base,
+      policy
+    );
+
+    expect(problems).toHaveLength(3);
+  });
+});
@@ -0,0 +1,195 @@
+// ABOUTME: Tests for self-settlement after the gateway fails to settle a paid retry
+// ABOUTME: Covers relay submission, confirmDeposit crediting and the settlement_failed outcome
+
+import { jest } from '@jest/globals';
+import { executeWithPayment } from '../../src/payment/orchestrator.js';
+import { SelfSettlement, toAuthorizationParams, type ConfirmDeposit } from '../../src/payment/settlement.js';
+import type { SendWithPayment } from '../../src/payment/types.js';
+import { RelayManager } from '../../src/relay/manager.js';
+import { RelayNotAvailableError, RelaySubmissionError, type TransactionRelay } from '../../src/relay/types.js';
+import type { CreditBalance, PaymentPayload, PaymentRequirement } from '../../src/gateway/types.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+
+describe('self-settlement', () => {
+  const agentWallet = '0x1234567890123456789012345678901234567890' as const;
+  const txHash = `0x${'cd'.repeat(32)}` as const;
+
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '50000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    resource: '/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+  };
+
+  const paymentPayload: PaymentPayload = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base',
+    payload: {
+      signature: `0x${'ab'.repeat(65)}`,
+      authorization: {
+        from: agentWallet,
+        to: requirement.payTo,
+        value: '50000',
+        validAfter: '1700000000',
+        validBefore: '1700000300',
+        nonce: `0x${'01'.repeat(32)}`,
+      },
+    },
+  };
+
+  const balance: CreditBalance = {
+    agentWallet,
+    balance: '0.05',
+    reserved: '0',
+    available: '0.05',
+  };
+
+  function relayReturning(result: { confirmed: boolean } | Error) {
+    return {
+      isAvailable: jest.fn(async () => true),
+      submitAuthorization: jest.fn(async () => {
+        if (result instanceof Error) {
+          throw result;
+        }
+        return { txHash, ...result };
+      }),
+    } satisfies TransactionRelay;
+  }
+
+  it('should convert a payment payload to authorization params', () => {
+    expect(toAuthorizationParams(paymentPayload)).toEqual({
+      from: agentWallet,
+      to: requirement.payTo,
+      value: 50000n,
+      validAfter: 1700000000,
+      validBefore: 1700000300,
+      nonce: `0x${'01'.repeat(32)}`,
+      signature: `0x${'ab'.repeat(65)}`,
+    });
+  });
+
+  it('should submit through the relays and credit the transfer', async () => {
+    const direct = relayReturning(new RelayNotAvailableError('direct', 'DirectRelay requires a privateKey to pay gas'));
+    const paloma = relayReturning({ confirmed: true });
+    const confirmDeposit = jest.fn<ConfirmDeposit>().mockResolvedValue(balance);
+    const settlement = new SelfSettlement(
+      new RelayManager({ relays: [{ type: 'direct', relay: direct }, { type: 'paloma', relay: paloma }] }),
+      confirmDeposit
+    );
+
+    const report = await settlement.settle(paymentPayload);
+
+    expect(report).toEqual({
+      txHash,
+      relay: 'paloma',
+      confirmed: true,
+      amount: '0.05 USDC',
+      credited: true,
+      balance,
+    });
+    expect(confirmDeposit).toHaveBeenCalledWith(agentWallet, txHash, '0.05');
+  });
+
+  it('should not credit an unconfirmed transaction', async () => {
+    const confirmDeposit = jest.fn<ConfirmDeposit>();
+    const settlement = new SelfSettlement(
+      new RelayManager({ relays: [{ type: 'direct', relay: relayReturning({ confirmed: false }) }] }),
+      confirmDeposit
+    );
+
+    const report = await settlement.settle(paymentPayload);
+
+    expect(report.credited).toBe(false);
+    expect(report.error).toContain('not confirmed yet');
+    expect(confirmDeposit).not.toHaveBeenCalled();
+  });
+
+  it('should keep the tx hash when the gateway does not credit the transfer', async () => {
+    const settlement = new SelfSettlement(
+      new RelayManager({ relays: [{ type: 'direct', relay: relayReturning({ confirmed: true }) }] }),
+      jest.fn<ConfirmDeposit>().mockRejectedValue(new Error('Transaction not found'))
+    );
+
+    const report = await settlement.settle(paymentPayload);
+
+    expect(report).toMatchObject({
+      txHash,
+      credited: false,
+      error: 'Gateway did not credit the transfer: Transaction not found',
+    });
+  });
+
+  describe('in the payment flow', () => {
+    let wallet: jest.Mocked<WalletProvider>;
+
+    beforeEach(() => {
+      wallet = {
+        getAddress: jest.fn<WalletProvider['getAddress']>().mockResolvedValue(agentWallet),
+        signTypedData: jest.fn<WalletProvider['signTypedData']>().mockResolvedValue(`0x${'ab'.repeat(65)}`),
+        isConnected: jest.fn<WalletProvider['isConnected']>().mockResolvedValue(true),
+        connect: jest.fn<WalletProvider['connect']>().mockResolvedValue(undefined),
+        disconnect: jest.fn<WalletProvider['disconnect']>().mockResolvedValue(undefined),
+      };
+    });
+
+    function failedSettlementSend() {
+      const send = jest.fn<SendWithPayment<unknown>>();
+      send
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, accepts: [requirement] } })
+        .mockResolvedValueOnce({ status: 402, paymentRequired: { x402Version: 1, error: 'Settlement reverted', accepts: [] } as never });
+      return send;
+    }
+
+    it('should settle the signed authorization itself when the paid retry returns 402', async () => {
+      const send = failedSettlementSend();
+      const settle = jest.fn<SelfSettlement['settle']>().mockResolvedValue({
+        txHash,
+        relay: 'direct',
+        confirmed: true,
+        amount: '0.05 USDC',
+        credited: true,
+        balance,
+      });
+      const ledger = { recordAuthorization: jest.fn(() => 1), recordOutcome: jest.fn() };
+
+      const outcome = await executeWithPayment(send, {
+        wallet,
+        agentWallet,
+        selfSettlement: { settle },
+        ledger: ledger as never,
+      });
+
+      expect(outcome.status).toBe('settlement_failed');
+      if (outcome.status !== 'settlement_failed') return;
+      expect(settle).toHaveBeenCalledWith(outcome.paymentPayload);
+      expect(outcome.selfSettlement?.txHash).toBe(txHash);
+      expect(outcome.error).toBe(
+        `Settlement reverted. Settled 0.05 USDC on-chain in ${txHash} and credited it to the prepaid balance; retry the request`
+      );
+      expect(ledger.recordOutcome).toHaveBeenCalledWith(1, { status: 'settled', txHash });
+    });
+
+    it('should report a failed self-settlement alongside the gateway error', async () => {
+      const send = failedSettlementSend();
+      const settle = jest.fn<SelfSettlement['settle']>().mockRejectedValue(
+        new RelaySubmissionError('Authorization would fail on-chain: FiatTokenV2: authorization is used or canceled', 'direct')
+      );
+
+      const outcome = await executeWithPayment(send, { wallet, agentWallet, selfSettlement: { settle } });
+
+      expect(outcome.status).toBe('settlement_failed');
+      if (outcome.status !== 'settlement_failed') return;
+      expect(outcome.selfSettlement).toBeUndefined();
+      expect(outcome.error).toBe(
+        'Settlement reverted. Self-settlement failed: Authorization would fail on-chain: FiatTokenV2: authorization is used or canceled'
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// ABOUTME: Tests for the machine-readable error codes on failed tool results
+// ABOUTME: Checks payment outcomes and thrown errors map to codes, retry hints and suggested next tools
+
+import { invalidInput, toolErrorFor, toolErrorForOutcome } from '../../src/tools/errors.js';
+import {
+  GatewayHttpError,
+  GatewayTimeoutError,
+  InsufficientCreditBalanceError,
+  InvalidSqlError,
+  PublisherNotFoundError,
+} from '../../src/gateway/errors.js';
+import { BudgetExceededError } from '../../src/payment/budget.js';
+import { UserRejectedError, WalletNotConnectedError } from '../../src/wallet/types.js';
+import { UnknownWalletProfileError } from '../../src/wallet/profiles.js';
+import { RelayNotAvailableError } from '../../src/relay/types.js';
+import type { SelfSettlementReport } from '../../src/payment/settlement.js';
+
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+function settlementFailed(selfSettlement?: Partial<SelfSettlementReport>) {
+  return {
+    status: 'settlement_failed' as const,
+    error: 'Payment settlement failed',
+    requirement: {} as never,
+    paymentPayload: {} as never,
+    selfSettlement: selfSettlement && {
+      txHash: TX_HASH,
+      relay: 'direct' as const,
+      confirmed: true,
+      amount: '0.05 USDC',
+      credited: false,
+      ...selfSettlement,
+    },
+  };
+}
+
+describe('tool error codes', () => {
+  describe('toolErrorForOutcome', () => {
+    it('should suggest depositing the minimum when credit runs out', () => {
+      const fields = toolErrorForOutcome({
+        status: 'insufficient_credit',
+        error: 'Insufficient credit balance',
+        minimumRequired: '0.02',
+        depositEndpoint: '/api/credits/deposit',
+      });
+
+      expect(fields).toEqual({
+        code: 'INSUFFICIENT_CREDIT',
+        retryable: false,
+        nextTool: { tool: 'deposit_credits', arguments: { amount: '0.02' } },
+      });
+    });
+
+    it('should code refusals made before signing', () => {
+      expect(toolErrorForOutcome({ status: 'user_rejected', error: 'rejected' }).code).toBe('USER_REJECTED');
+      expect(toolErrorForOutcome({ status: 'no_payment_method', error: 'none' }).code).toBe('NO_PAYMENT_METHOD');
+      expect(toolErrorForOutcome({ status: 'requirement_rejected', error: 'bad', rejected: [] }).code).toBe('REQUIREMENT_REJECTED');
+      expect(toolErrorForOutcome({ status: 'insufficient_funds', error: 'low', balance: '0', required: '0.05' }))
+        .toMatchObject({ code: 'INSUFFICIENT_FUNDS', nextTool: { tool: 'check_wallet_balance' } });
+    });
+
+    it('should point uncredited self-settlements at confirm_deposit', () => {
+      expect(toolErrorForOutcome(settlementFailed())).toEqual({ code: 'PAYMENT_REJECTED', retryable: false });
+      expect(toolErrorForOutcome(settlementFailed({ credited: true }))).toEqual({ code: 'PAYMENT_REJECTED', retryable: true });
+      expect(toolErrorForOutcome(settlementFailed({ credited: false }))).toEqual({
+        code: 'PAYMENT_REJECTED',
+        retryable: false,
+        nextTool: { tool: 'confirm_deposit', arguments: { txHash: TX_HASH, amount: '0.05' } },
+      });
+    });
+  });
+
+  describe('toolErrorFor', () => {
+    it('should map gateway errors and keep their retryability', () => {
+      expect(toolErrorFor(new GatewayTimeoutError(1000))).toEqual({ code: 'GATEWAY_TIMEOUT', retryable: true });
+      expect(toolErrorFor(new GatewayHttpError('Unavailable', 503))).toEqual({ code: 'GATEWAY_ERROR', retryable: true });
+      expect(toolErrorFor(new InvalidSqlError('syntax error'))).toEqual({ code: 'SQL_REJECTED', retryable: false });
+      expect(toolErrorFor(new PublisherNotFoundError('abc'))).toEqual({
+        code: 'PUBLISHER_NOT_FOUND',
+        retryable: false,
+        nextTool: { tool: 'list_publishers', arguments: {} },
+      });
+      expect(toolErrorFor(new InsufficientCreditBalanceError('0.1', '/api/credits/deposit')).nextTool)
+        .toEqual({ tool: 'deposit_credits', arguments: { amount: '0.1' } });
+    });
+
+    it('should map wallet, budget and relay errors', () => {
+      expect(toolErrorFor(new UserRejectedError())).toEqual({ code: 'USER_REJECTED', retryable: false });
+      expect(toolErrorFor(new UnknownWalletProfileError('treasury', ['analytics'])))
+        .toMatchObject({ code: 'WALLET_ERROR', nextTool: { tool: 'list_wallets' } });
+      expect(toolErrorFor(new WalletNotConnectedError())).toEqual({
+        code: 'WALLET_ERROR',
+        retryable: false,
+        nextTool: { tool: 'connect_wallet', arguments: {} },
+      });
+      expect(toolErrorFor(new RelayNotAvailableError('direct')).code).toBe('RELAY_ERROR');
+      expect(toolErrorFor(new BudgetExceededError({ limit: 'daily', max: '1', requested: '2', remaining: '0' })).code)
+        .toBe('BUDGET_EXCEEDED');
+    });
+
+    it('should treat transport failures as retryable and anything else as internal', () => {
+      expect(toolErrorFor(new Error('connect ECONNREFUSED 127.0.0.1:3000'))).toEqual({ code: 'NETWORK_ERROR', retryable: true });
+      expect(toolErrorFor(new Error('Unexpected token'))).toEqual({ code: 'INTERNAL_ERROR', retryable: false });
+      expect(toolErrorFor('not an error')).toEqual({ code: 'INTERNAL_ERROR', retryable: false });
+    });
+  });
+
+  it('should build invalid input results', () => {
+    expect(invalidInput('amount is required')).toEqual({
+      success: false,
+      error: 'amount is required',
+      code: 'INVALID_INPUT',
+      retryable: false,
+    });
+  });
+});
@@ -1,7 +1,7 @@
 // ABOUTME: Tests for USDC amount conversion utilities
 // ABOUTME: Tests decimal/atomic conversions and formatting
 
-import { decimalToAtomic, atomicToDecimal, formatUsdc } from '../../src/utils/usdc.js';
+import { decimalToAtomic, atomicToDecimal, formatUsdc, isDecimalAmount } from '../../src/utils/usdc.js';
 
 describe('USDC Utilities', () => {
   describe('decimalToAtomic', () => {
@@ -90,6 +90,25 @@ describe('USDC Utilities', () => {
     });
   });
 
+  describe('isDecimalAmount', () => {
+    it('should accept amounts with up to 6 decimal places', () => {
+      expect(isDecimalAmount('10')).toBe(true);
+      expect(isDecimalAmount('0.123456')).toBe(true);
+      expect(isDecimalAmount(' 0.05 ')).toBe(true);
+    });
+
+    it('should reject amounts decimalToAtomic would truncate', () => {
+      expect(isDecimalAmount('0.0000009')).toBe(false);
+      expect(isDecimalAmount('0.1234569')).toBe(false);
+    });
+
+    it('should reject anything else', () => {
+      expect(isDecimalAmount('1.')).toBe(false);
+      expect(isDecimalAmount('-1')).toBe(false);
+      expect(isDecimalAmount('ten')).toBe(false);
+    });
+  });
+
   describe('formatUsdc', () => {
     it('should format with USDC suffix', () => {
       expect(formatUsdc('1000000')).toBe('1 USDC');
@@ -0,0 +1,107 @@
+// ABOUTME: Tests for on-chain wallet balance reads and the check_wallet_balance tool
+// ABOUTME: Uses a mocked viem public client instead of a live RPC
+
+import { jest } from '@jest/globals';
+import type { PublicClient } from 'viem';
+import { WalletBalanceReader } from '../../src/wallet/balance.js';
+import { checkWalletBalance } from '../../src/tools/checkWalletBalance.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+
+describe('WalletBalanceReader', () => {
+  const address = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as const;
+  const gateway = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+  function mockClient() {
+    return {
+      readContract: jest.fn(async () => 12500000n),
+      getBalance: jest.fn(async () => 2100000000000000n),
+      getBlockNumber: jest.fn(async () => 20000n),
+      getLogs: jest.fn(async ({ args }: { args: { from?: string; to?: string } }) => args.from
+        ? [{ args: { from: address, to: gateway, value: 50000n }, transactionHash: '0xout', blockNumber: 19990n, logIndex: 1 }]
+        : [{ args: { from: gateway, to: address, value: 5000000n }, transactionHash: '0xin', blockNumber: 19000n, logIndex: 0 }]),
+    };
+  }
+
+  it('should read the USDC balance from the network USDC contract', async () => {
+    const client = mockClient();
+    const reader = new WalletBalanceReader(NETWORKS['base-sepolia'], client as unknown as PublicClient);
+
+    expect(await reader.getUsdcBalance(address)).toBe(12500000n);
+    expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: NETWORKS['base-sepolia'].usdc,
+      functionName: 'balanceOf',
+      args: [address],
+    }));
+  });
+
+  it('should list recent transfers newest first within the lookback window', async () => {
+    const client = mockClient();
+    const reader = new WalletBalanceReader(NETWORKS.base, client as unknown as PublicClient);
+
+    const transfers = await reader.getRecentTransfers(address);
+
+    expect(client.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 15000n, toBlock: 20000n }));
+    expect(transfers).toEqual([
+      { direction: 'out', from: address, to: gateway, amount: '0.05 USDC', txHash: '0xout', blockNumber: 19990 },
+      { direction: 'in', from: gateway, to: address, amount: '5 USDC', txHash: '0xin', blockNumber: 19000 },
+    ]);
+  });
+
+  it('should summarize USDC and ETH balances', async () => {
+    const reader = new WalletBalanceReader(NETWORKS.base, mockClient() as unknown as PublicClient);
+
+    const balances = await reader.getBalances(address);
+
+    expect(balances).toEqual({
+      address,
+      network: 'base',
+      usdc: { balance: '12.5 USDC', atomic: '12500000', contract: NETWORKS.base.usdc },
+      eth: { balance: '0.0021', wei: '2100000000000000' },
+      recentTransfers: undefined,
+    });
+  });
+});
+
+describe('checkWalletBalance', () => {
+  const wallet = {
+    getAddress: jest.fn(async () => '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as `0x${string}`),
+  } as unknown as WalletProvider;
+
+  it('should return balances for the connected wallet', async () => {
+    const reader = {
+      getBalances: jest.fn(async (address: string, includeTransfers: boolean) => ({
+        address,
+        network: 'base',
+        usdc: { balance: '1 USDC', atomic: '1000000', contract: NETWORKS.base.usdc },
+        eth: { balance: '0', wei: '0' },
+        recentTransfers: includeTransfers ? [] : undefined,
+      })),
+    } as unknown as WalletBalanceReader;
+
+    const result = await checkWalletBalance({ include_transfers: true }, wallet, reader);
+
+    expect(result).toEqual({
+      success: true,
+      wallet: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      network: 'base',
+      usdc: '1 USDC',
+      eth: '0 ETH',
+      usdcContract: NETWORKS.base.usdc,
+      recentTransfers: [],
+    });
+  });
+
+  it('should report RPC failures', async () => {
+    const reader = {
+      getBalances: jest.fn(async () => { throw new Error('HTTP request failed'); }),
+    } as unknown as WalletBalanceReader;
+
+    expect(await checkWalletBalance({}, wallet, reader)).toEqual({
+      success: false,
+      error: 'HTTP request failed',
+      code: 'INTERNAL_ERROR',
+      retryable: false,
+    });
+  });
+});
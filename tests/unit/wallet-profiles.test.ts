@@ -0,0 +1,233 @@
+// ABOUTME: Tests for named wallet profiles, routing rules and the list_wallets tool
+// ABOUTME: Uses temp profile files and mocked wallet providers
+
+import { jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadWalletProfiles,
+  UnknownWalletProfileError,
+  WalletProfiles,
+  type WalletProfilesFile,
+} from '../../src/wallet/profiles.js';
+import { PaymentLedger } from '../../src/payment/ledger.js';
+import { listWallets } from '../../src/tools/listWallets.js';
+import type { GatewayClient } from '../../src/gateway/client.js';
+import type { WalletProvider } from '../../src/wallet/types.js';
+import type { PaymentPayload } from '../../src/gateway/types.js';
+
+const PROFILES: WalletProfilesFile = {
+  default: 'analytics',
+  profiles: {
+    analytics: { type: 'privateKey', privateKeyEnv: 'ANALYTICS_KEY' },
+    experiments: { type: 'privateKey', privateKeyEnv: 'EXPERIMENTS_KEY' },
+    ledger: { type: 'hardware' },
+  },
+  routes: [
+    { publisherId: 'publisher-sandbox', wallet: 'experiments' },
+    { category: 'finance', wallet: 'ledger' },
+  ],
+};
+
+const ADDRESSES: Record<string, `0x${string}`> = {
+  analytics: '0x1111111111111111111111111111111111111111',
+  experiments: '0x2222222222222222222222222222222222222222',
+  ledger: '0x3333333333333333333333333333333333333333',
+};
+
+function mockWallet(address: `0x${string}`): WalletProvider {
+  let connected = false;
+  return {
+    connect: jest.fn(async () => {
+      connected = true;
+    }),
+    disconnect: jest.fn(async () => undefined),
+    isConnected: jest.fn(async () => connected),
+    getAddress: jest.fn(async () => address),
+    signTypedData: jest.fn(async () => '0xsig' as `0x${string}`),
+  } as unknown as WalletProvider;
+}
+
+function createProfiles(): WalletProfiles {
+  const wallets = new Map(Object.keys(ADDRESSES).map((name) => [name, mockWallet(ADDRESSES[name])]));
+  return new WalletProfiles(PROFILES, (profile) => {
+    const name = Object.keys(PROFILES.profiles).find((key) => PROFILES.profiles[key] === profile)!;
+    return wallets.get(name)!;
+  });
+}
+
+describe('WalletProfiles', () => {
+  describe('resolve', () => {
+    const profiles = createProfiles();
+
+    it('should use the explicitly requested profile', () => {
+      expect(profiles.resolve({ wallet: 'experiments', publisherId: 'publisher-sandbox' })).toBe('experiments');
+      expect(profiles.resolve({ wallet: 'ledger' })).toBe('ledger');
+    });
+
+    it('should reject unknown profiles', () => {
+      expect(() => profiles.resolve({ wallet: 'missing' })).toThrow(UnknownWalletProfileError);
+      expect(() => profiles.resolve({ wallet: 'missing' })).toThrow('Available profiles: analytics, experiments, ledger');
+    });
+
+    it('should route by publisher ID before category', () => {
+      expect(profiles.resolve({ publisherId: 'publisher-sandbox', categories: ['finance'] })).toBe('experiments');
+    });
+
+    it('should route by publisher category', () => {
+      expect(profiles.resolve({ publisherId: 'publisher-x', categories: ['sports', 'finance'] })).toBe('ledger');
+    });
+
+    it('should fall back to the default profile', () => {
+      expect(profiles.resolve({ publisherId: 'publisher-x', categories: ['sports'] })).toBe('analytics');
+      expect(profiles.resolve()).toBe('analytics');
+    });
+
+    it('should report whether category routes exist', () => {
+      expect(profiles.hasCategoryRoutes()).toBe(true);
+      expect(new WalletProfiles({ ...PROFILES, routes: [] }).hasCategoryRoutes()).toBe(false);
+    });
+  });
+
+  describe('getWallet', () => {
+    it('should connect each profile once and cache it', async () => {
+      const profiles = createProfiles();
+
+      const first = await profiles.getWallet('experiments');
+      const second = await profiles.getWallet('experiments');
+
+      expect(first).toBe(second);
+      expect(first.connect).toHaveBeenCalledTimes(1);
+      expect(await first.getAddress()).toBe(ADDRESSES.experiments);
+    });
+
+    it('should create private key profiles from the named environment variable', async () => {
+      process.env.ANALYTICS_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+      try {
+        const wallet = await new WalletProfiles(PROFILES).getWallet('analytics');
+        expect(await wallet.getAddress()).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+      } finally {
+        delete process.env.ANALYTICS_KEY;
+      }
+    });
+
+    it('should fail when the private key variable is unset', async () => {
+      await expect(new WalletProfiles(PROFILES).getWallet('experiments')).rejects.toThrow(
+        'EXPERIMENTS_KEY environment variable required'
+      );
+    });
+  });
+
+  describe('loadWalletProfiles', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'wallet-profiles-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return null when the file does not exist', () => {
+      expect(loadWalletProfiles(join(dir, 'wallets.json'))).toBeNull();
+    });
+
+    it('should load a valid profiles file', () => {
+      const path = join(dir, 'wallets.json');
+      writeFileSync(path, JSON.stringify(PROFILES));
+
+      const profiles = loadWalletProfiles(path)!;
+
+      expect(profiles.names()).toEqual(['analytics', 'experiments', 'ledger']);
+      expect(profiles.defaultProfile).toBe('analytics');
+    });
+
+    it('should reject routes to unknown profiles', () => {
+      const path = join(dir, 'wallets.json');
+      writeFileSync(path, JSON.stringify({
+        ...PROFILES,
+        routes: [{ category: 'finance', wallet: 'treasury' }],
+      }));
+
+      expect(() => loadWalletProfiles(path)).toThrow('Unknown wallet profile: treasury');
+    });
+
+    it('should reject routes without a publisher or category', () => {
+      const path = join(dir, 'wallets.json');
+      writeFileSync(path, JSON.stringify({ ...PROFILES, routes: [{ wallet: 'analytics' }] }));
+
+      expect(() => loadWalletProfiles(path)).toThrow('Route needs a publisherId or category');
+    });
+  });
+});
+
+describe('listWallets', () => {
+  let ledger: PaymentLedger;
+
+  const payload = (nonce: string, from: string, value: string): PaymentPayload => ({
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base',
+    payload: {
+      signature: `0x${'ab'.repeat(65)}`,
+      authorization: {
+        from,
+        to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        value,
+        validAfter: '0',
+        validBefore: '9999999999',
+        nonce,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    ledger = new PaymentLedger(':memory:');
+  });
+
+  afterEach(() => {
+    ledger.close();
+  });
+
+  it('should report address, credits and settled payments per profile', async () => {
+    const first = ledger.recordAuthorization({ paymentPayload: payload('0x01', ADDRESSES.analytics, '50000'), wallet: 'analytics' });
+    const second = ledger.recordAuthorization({ paymentPayload: payload('0x02', ADDRESSES.analytics, '250000'), wallet: 'analytics' });
+    ledger.recordAuthorization({ paymentPayload: payload('0x03', ADDRESSES.experiments, '10000'), wallet: 'experiments' });
+    ledger.recordOutcome(first, { status: 'settled' });
+    ledger.recordOutcome(second, { status: 'settled' });
+
+    const gateway = {
+      getCreditBalance: jest.fn(async (address: string) => {
+        if (address === ADDRESSES.ledger) {
+          throw new Error('Gateway unavailable');
+        }
+        return { agentWallet: address, balance: '5.00', reserved: '0.00', available: '5.00' };
+      }),
+    } as unknown as GatewayClient;
+
+    const result = await listWallets(createProfiles(), gateway, ledger);
+
+    expect(result.success).toBe(true);
+    expect(result.wallets).toEqual([
+      {
+        name: 'analytics',
+        isDefault: true,
+        address: ADDRESSES.analytics,
+        credits: { balance: '5.00', reserved: '0.00', available: '5.00' },
+        payments: { count: 2, totalSettled: '0.3 USDC' },
+      },
+      expect.objectContaining({
+        name: 'experiments',
+        isDefault: false,
+        payments: { count: 0, totalSettled: '0 USDC' },
+      }),
+      expect.objectContaining({
+        name: 'ledger',
+        address: ADDRESSES.ledger,
+        error: 'Gateway unavailable',
+      }),
+    ]);
+  });
+});
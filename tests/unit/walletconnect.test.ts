@@ -1,8 +1,10 @@
 // ABOUTME: Tests for WalletConnect wallet provider
 // ABOUTME: Tests error classes and constructor; full integration requires manual testing
 
+import { jest } from '@jest/globals';
+import type { SessionTypes } from '@walletconnect/types';
 import { WalletConnectProvider, WalletConnectTimeoutError } from '../../src/wallet/walletconnect.js';
-import { WalletNotAvailableError } from '../../src/wallet/types.js';
+import { WalletNotAvailableError, WalletNotConnectedError } from '../../src/wallet/types.js';
 
 describe('WalletConnectProvider', () => {
   describe('constructor', () => {
@@ -69,6 +71,62 @@ describe('WalletConnectProvider', () => {
       const provider = new WalletConnectProvider();
       expect(provider.getSessionTopic()).toBeNull();
     });
+
+    it('restoreSession should throw if not initialized', () => {
+      const provider = new WalletConnectProvider();
+      expect(() => provider.restoreSession()).toThrow(WalletNotAvailableError);
+    });
+  });
+
+  describe('pending pairing', () => {
+    const URI = 'wc:abc123@2?relay-protocol=irn&symKey=def456';
+
+    function mockPairing(provider: WalletConnectProvider) {
+      let approve: (session: SessionTypes.Struct) => void = () => undefined;
+      const approval = new Promise<SessionTypes.Struct>((resolve) => {
+        approve = resolve;
+      });
+      const createPairing = jest.spyOn(provider, 'createPairing').mockResolvedValue({
+        uri: URI,
+        approval: () => approval,
+      });
+      return { createPairing, approve: (session: SessionTypes.Struct) => approve(session) };
+    }
+
+    it('should reuse the pending pairing URI', async () => {
+      const provider = new WalletConnectProvider();
+      const { createPairing } = mockPairing(provider);
+
+      expect(await provider.startPairing()).toBe(URI);
+      expect(await provider.startPairing()).toBe(URI);
+      expect(createPairing).toHaveBeenCalledTimes(1);
+      expect(provider.hasPendingPairing()).toBe(true);
+    });
+
+    it('should resolve once the wallet approves', async () => {
+      const provider = new WalletConnectProvider();
+      const { approve } = mockPairing(provider);
+      await provider.startPairing();
+
+      const waiting = provider.waitForApproval(1000);
+      approve({ topic: 'topic' } as SessionTypes.Struct);
+
+      await expect(waiting).resolves.toBeUndefined();
+    });
+
+    it('should time out waiting for approval', async () => {
+      const provider = new WalletConnectProvider();
+      mockPairing(provider);
+      await provider.startPairing();
+
+      await expect(provider.waitForApproval(10)).rejects.toThrow(WalletConnectTimeoutError);
+      expect(provider.hasPendingPairing()).toBe(true);
+    });
+
+    it('should throw when there is no pending pairing', async () => {
+      const provider = new WalletConnectProvider();
+      await expect(provider.waitForApproval(10)).rejects.toThrow(WalletNotConnectedError);
+    });
   });
 });
 
@@ -0,0 +1,186 @@
+// ABOUTME: Tests for the versioned x402 codec
+// ABOUTME: Covers version negotiation, v1/v2 payment headers, v2 402 bodies and settlement responses
+
+import {
+  decodePaymentHeader,
+  decodePaymentRequired,
+  decodeSettlementResponse,
+  encodePaymentHeader,
+  encodeSettlementResponse,
+  negotiateVersion,
+  readPaymentResponseHeader,
+  X402ProtocolError,
+} from '../../src/gateway/x402.js';
+import type { PaymentPayload, PaymentRequirement } from '../../src/gateway/types.js';
+
+function base64(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+function fromBase64(value: string): unknown {
+  return JSON.parse(Buffer.from(value, 'base64').toString('utf8'));
+}
+
+describe('x402 codec', () => {
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    maxAmountRequired: '50000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    resource: 'https://gateway.example/api/query',
+    description: 'Query',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+    extra: { name: 'USD Coin', version: '2' },
+  };
+
+  const v1Payload: PaymentPayload = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base',
+    payload: {
+      signature: `0x${'ab'.repeat(65)}`,
+      authorization: {
+        from: '0x1111111111111111111111111111111111111111',
+        to: requirement.payTo,
+        value: '50000',
+        validAfter: '1700000000',
+        validBefore: '1800000000',
+        nonce: `0x${'12'.repeat(32)}`,
+      },
+    },
+  };
+
+  describe('negotiateVersion', () => {
+    it('should use the version of the 402 body, defaulting to 1', () => {
+      expect(negotiateVersion({ x402Version: 2 })).toBe(2);
+      expect(negotiateVersion({})).toBe(1);
+      expect(negotiateVersion(undefined)).toBe(1);
+    });
+
+    it('should reject versions it does not support', () => {
+      expect(() => negotiateVersion({ x402Version: 3 })).toThrow(X402ProtocolError);
+      expect(() => negotiateVersion({ x402Version: 3 })).toThrow(
+        'Gateway requires x402 version 3; this client supports 1, 2'
+      );
+    });
+  });
+
+  describe('payment headers', () => {
+    it('should encode v1 payloads as X-PAYMENT without the accepted requirement', () => {
+      const header = encodePaymentHeader({ ...v1Payload, accepted: requirement });
+
+      expect(header.name).toBe('X-PAYMENT');
+      expect(fromBase64(header.value)).toEqual(v1Payload);
+    });
+
+    it('should encode v2 payloads as PAYMENT-SIGNATURE with the accepted requirement', () => {
+      const header = encodePaymentHeader({ ...v1Payload, x402Version: 2, accepted: requirement });
+
+      expect(header.name).toBe('PAYMENT-SIGNATURE');
+      expect(fromBase64(header.value)).toEqual({
+        x402Version: 2,
+        accepted: {
+          scheme: 'exact',
+          network: 'eip155:8453',
+          amount: '50000',
+          asset: requirement.asset,
+          payTo: requirement.payTo,
+          maxTimeoutSeconds: 300,
+          extra: requirement.extra,
+        },
+        payload: v1Payload.payload,
+      });
+    });
+
+    it('should decode headers of both versions', () => {
+      const v2 = decodePaymentHeader(encodePaymentHeader({ ...v1Payload, x402Version: 2, accepted: requirement }).value);
+
+      expect(decodePaymentHeader(encodePaymentHeader(v1Payload).value)).toEqual(v1Payload);
+      expect(v2).toMatchObject({
+        x402Version: 2,
+        scheme: 'exact',
+        network: 'eip155:8453',
+        payload: v1Payload.payload,
+        accepted: { maxAmountRequired: '50000', payTo: requirement.payTo },
+      });
+    });
+
+    it('should reject headers that are not base64 JSON', () => {
+      expect(() => decodePaymentHeader('not a header')).toThrow('Invalid payment header: expected base64-encoded JSON');
+    });
+  });
+
+  describe('decodePaymentRequired', () => {
+    const v2Body = {
+      x402Version: 2,
+      error: 'Payment required',
+      resource: { url: 'https://gateway.example/api/query', description: 'SQL query', mimeType: 'application/json' },
+      accepts: [{
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '50000',
+        asset: requirement.asset,
+        payTo: requirement.payTo,
+        maxTimeoutSeconds: 300,
+      }],
+    };
+
+    it('should return v1 bodies unchanged', () => {
+      const body = { x402Version: 1, accepts: [requirement] };
+
+      expect(decodePaymentRequired(body)).toBe(body);
+    });
+
+    it('should map v2 requirements to maxAmountRequired and resource fields', () => {
+      expect(decodePaymentRequired(v2Body)).toEqual({
+        x402Version: 2,
+        error: 'Payment required',
+        accepts: [{
+          scheme: 'exact',
+          network: 'eip155:8453',
+          maxAmountRequired: '50000',
+          asset: requirement.asset,
+          payTo: requirement.payTo,
+          maxTimeoutSeconds: 300,
+          resource: 'https://gateway.example/api/query',
+          description: 'SQL query',
+          mimeType: 'application/json',
+          outputSchema: null,
+        }],
+      });
+    });
+
+    it('should prefer the PAYMENT-REQUIRED header over the body', () => {
+      const decoded = decodePaymentRequired(undefined, base64(v2Body));
+
+      expect(decoded.x402Version).toBe(2);
+      expect(decoded.accepts[0].maxAmountRequired).toBe('50000');
+    });
+
+    it('should treat an empty body as offering no payment method', () => {
+      expect(decodePaymentRequired(undefined)).toEqual({ x402Version: 1, accepts: [] });
+    });
+  });
+
+  describe('settlement responses', () => {
+    it('should round-trip a settlement response', () => {
+      const settlement = { success: true, transaction: '0xtx', network: 'base', payer: '0x1111111111111111111111111111111111111111' };
+
+      expect(decodeSettlementResponse(encodeSettlementResponse(settlement))).toEqual(settlement);
+    });
+
+    it('should keep failed settlements and their reason', () => {
+      expect(decodeSettlementResponse(base64({ success: false, errorReason: 'insufficient_funds', network: 'base' })))
+        .toEqual({ success: false, transaction: '', network: 'base', errorReason: 'insufficient_funds' });
+    });
+
+    it('should read the response header of either version', () => {
+      expect(readPaymentResponseHeader(new Headers({ 'X-PAYMENT-RESPONSE': 'v1' }))).toBe('v1');
+      expect(readPaymentResponseHeader(new Headers({ 'PAYMENT-RESPONSE': 'v2' }))).toBe('v2');
+      expect(readPaymentResponseHeader(new Headers())).toBeUndefined();
+    });
+  });
+});
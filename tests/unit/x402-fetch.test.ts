@@ -0,0 +1,233 @@
+// ABOUTME: Tests for the X402Fetch wrapper and the fetch_x402_url tool
+// ABOUTME: Uses a mocked fetch and a real private-key wallet to check signing, safeguards and response handling
+
+import { jest } from '@jest/globals';
+import { X402Fetch, X402FetchError, X402PaymentError } from '../../src/gateway/fetch.js';
+import { decodePaymentHeader, encodeSettlementResponse } from '../../src/gateway/x402.js';
+import { NETWORKS } from '../../src/config/networks.js';
+import { buildDomain } from '../../src/signing/eip712.js';
+import { verifyPaymentSignature } from '../../src/signing/inspect.js';
+import { SpendingLimiter } from '../../src/payment/budget.js';
+import { fetchX402Url, MAX_RESPONSE_CHARS } from '../../src/tools/fetchX402Url.js';
+import { PrivateKeyWalletProvider } from '../../src/wallet/privatekey.js';
+import type { PaymentRequirement } from '../../src/gateway/types.js';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const PAY_TO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const URL_402 = 'https://api.example.com/weather?city=Berlin';
+
+describe('X402Fetch', () => {
+  const network = NETWORKS.base;
+  const requirement: PaymentRequirement = {
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '50000',
+    asset: network.usdc,
+    payTo: PAY_TO,
+    resource: URL_402,
+    description: 'Weather report',
+    mimeType: 'application/json',
+    outputSchema: null,
+    maxTimeoutSeconds: 300,
+    extra: { name: 'USD Coin', version: '2' },
+  };
+  const settlement = { success: true, transaction: `0x${'ef'.repeat(32)}`, network: 'base', payer: SIGNER };
+
+  let wallet: PrivateKeyWalletProvider;
+
+  beforeAll(async () => {
+    wallet = new PrivateKeyWalletProvider({ privateKey: PRIVATE_KEY });
+    await wallet.connect();
+  });
+
+  function paymentRequired(accepts: PaymentRequirement[] = [requirement]): Response {
+    return new Response(JSON.stringify({ x402Version: 1, error: 'Payment required', accepts }), {
+      status: 402,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  function paid(body: unknown = { forecast: 'sunny' }, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json', 'X-PAYMENT-RESPONSE': encodeSettlementResponse(settlement) },
+    });
+  }
+
+  function mockFetch(...responses: Response[]) {
+    const fetchImpl = jest.fn<typeof fetch>();
+    for (const response of responses) {
+      fetchImpl.mockResolvedValueOnce(response);
+    }
+    return fetchImpl;
+  }
+
+  function sentHeaders(fetchImpl: jest.Mock<typeof fetch>, call: number): Headers {
+    return fetchImpl.mock.calls[call][1]?.headers as Headers;
+  }
+
+  it('should return responses that do not require payment unchanged', async () => {
+    const fetchImpl = mockFetch(new Response('hello', { status: 200 }));
+
+    const response = await new X402Fetch(wallet, {}, fetchImpl).fetch('https://api.example.com/free');
+
+    expect(await response.text()).toBe('hello');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(sentHeaders(fetchImpl, 0).has('X-PAYMENT')).toBe(false);
+  });
+
+  it('should sign the 402 requirement and retry with the payment header', async () => {
+    const fetchImpl = mockFetch(paymentRequired(), paid());
+
+    const outcome = await new X402Fetch(wallet, {}, fetchImpl).fetchWithPayment(URL_402, {
+      method: 'POST',
+      headers: { accept: 'application/json' },
+      body: '{"units":"metric"}',
+    });
+
+    expect(outcome).toMatchObject({ status: 'paid', cost: '0.05 USDC', txHash: settlement.transaction, settlement });
+    const [url, init] = fetchImpl.mock.calls[1];
+    expect(String(url)).toBe(URL_402);
+    expect(init).toMatchObject({ method: 'POST', body: '{"units":"metric"}' });
+    expect(sentHeaders(fetchImpl, 1).get('accept')).toBe('application/json');
+
+    const header = sentHeaders(fetchImpl, 1).get('X-PAYMENT');
+    expect(header).toBeTruthy();
+    const payload = decodePaymentHeader(header as string);
+    const domain = buildDomain({ chainId: network.chainId, verifyingContract: network.usdc });
+    expect(await verifyPaymentSignature(payload, domain)).toMatchObject({ valid: true, signer: SIGNER });
+  });
+
+  it('should send the PAYMENT-SIGNATURE header to v2 servers', async () => {
+    const v2Body = {
+      x402Version: 2,
+      resource: { url: URL_402, description: 'Weather report' },
+      accepts: [{ scheme: 'exact', network: 'base', amount: '50000', asset: network.usdc, payTo: PAY_TO, maxTimeoutSeconds: 300 }],
+    };
+    const fetchImpl = mockFetch(
+      new Response(JSON.stringify(v2Body), { status: 402 }),
+      new Response('{}', { status: 200, headers: { 'PAYMENT-RESPONSE': encodeSettlementResponse(settlement) } })
+    );
+
+    const outcome = await new X402Fetch(wallet, {}, fetchImpl).fetchWithPayment(URL_402);
+
+    expect(outcome.status).toBe('paid');
+    expect(sentHeaders(fetchImpl, 1).has('PAYMENT-SIGNATURE')).toBe(true);
+    expect(sentHeaders(fetchImpl, 1).has('X-PAYMENT')).toBe(false);
+  });
+
+  it('should apply the budget before signing', async () => {
+    const fetchImpl = mockFetch(paymentRequired());
+    const budget = new SpendingLimiter({ perCall: 10000n });
+
+    const outcome = await new X402Fetch(wallet, { budget }, fetchImpl).fetchWithPayment(URL_402);
+
+    expect(outcome.status).toBe('budget_exceeded');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse payTo addresses outside the allowlist', async () => {
+    const fetchImpl = mockFetch(paymentRequired());
+    const requirementPolicy = { payToAllowlist: ['0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'], maxTimeoutSeconds: 600 };
+
+    const outcome = await new X402Fetch(wallet, { requirementPolicy }, fetchImpl).fetchWithPayment(URL_402);
+
+    expect(outcome.status).toBe('requirement_rejected');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw X402PaymentError from fetch when nothing was paid', async () => {
+    const fetchImpl = mockFetch(paymentRequired());
+
+    const error = await new X402Fetch(wallet, {}, fetchImpl).fetch(URL_402, { dryRun: true }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(X402PaymentError);
+    expect((error as X402PaymentError).outcome).toMatchObject({ status: 'quote', quote: { price: '0.05 USDC' } });
+  });
+
+  it('should throw X402FetchError when the paid retry fails', async () => {
+    const fetchImpl = mockFetch(paymentRequired(), new Response('upstream down', { status: 502 }));
+
+    const error = await new X402Fetch(wallet, {}, fetchImpl).fetch(URL_402).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(X402FetchError);
+    expect(error).toMatchObject({ status: 502, body: 'upstream down' });
+  });
+
+  it('should only fetch http and https URLs', async () => {
+    const client = new X402Fetch(wallet, {}, mockFetch());
+
+    await expect(client.fetch('file:///etc/passwd')).rejects.toThrow('Only http and https URLs can be fetched, not file:');
+    await expect(client.fetch('not a url')).rejects.toThrow('Invalid URL: not a url');
+  });
+
+  describe('fetchX402Url tool', () => {
+    it('should return the parsed JSON body with the payment details', async () => {
+      const fetchImpl = mockFetch(paymentRequired(), paid());
+
+      const result = await fetchX402Url({ url: URL_402 }, wallet, {}, fetchImpl);
+
+      expect(result).toEqual({
+        success: true,
+        status: 200,
+        data: { forecast: 'sunny' },
+        cost: '0.05 USDC',
+        txHash: settlement.transaction,
+        settlement,
+      });
+    });
+
+    it('should send object bodies as JSON', async () => {
+      const fetchImpl = mockFetch(new Response('ok', { status: 200 }));
+
+      await fetchX402Url({ url: URL_402, method: 'POST', body: { city: 'Berlin' } }, wallet, {}, fetchImpl);
+
+      const [, init] = fetchImpl.mock.calls[0];
+      expect(init?.body).toBe('{"city":"Berlin"}');
+      expect((init?.headers as Headers).get('content-type')).toBe('application/json');
+    });
+
+    it('should report error statuses of unpaid responses', async () => {
+      const fetchImpl = mockFetch(new Response('not found', { status: 404 }));
+
+      const result = await fetchX402Url({ url: URL_402 }, wallet, {}, fetchImpl);
+
+      expect(result).toEqual({ success: false, status: 404, data: 'not found', error: 'HTTP 404' });
+    });
+
+    it('should truncate long text responses', async () => {
+      const fetchImpl = mockFetch(new Response('x'.repeat(MAX_RESPONSE_CHARS + 10), { status: 200 }));
+
+      const result = await fetchX402Url({ url: URL_402 }, wallet, {}, fetchImpl);
+
+      expect(result.truncated).toBe(true);
+      expect((result.data as string).length).toBe(MAX_RESPONSE_CHARS);
+    });
+
+    it('should return the quote on dry runs and validate max_cost', async () => {
+      const dryRun = await fetchX402Url({ url: URL_402, dry_run: true }, wallet, {}, mockFetch(paymentRequired()));
+      const invalid = await fetchX402Url({ url: URL_402, max_cost: 'ten' }, wallet, {}, mockFetch());
+      const tooPrecise = await fetchX402Url({ url: URL_402, max_cost: '0.0000009' }, wallet, {}, mockFetch());
+
+      expect(dryRun).toMatchObject({ success: true, dryRun: true, quote: { amount: '50000', payTo: PAY_TO } });
+      expect(invalid).toEqual({
+        success: false,
+        error: 'max_cost must be a decimal USDC amount with at most 6 decimal places (e.g., "0.10")',
+        code: 'INVALID_INPUT',
+        retryable: false,
+      });
+      expect(tooPrecise).toEqual(invalid);
+    });
+
+    it('should refuse quotes above max_cost', async () => {
+      const fetchImpl = mockFetch(paymentRequired());
+
+      const result = await fetchX402Url({ url: URL_402, max_cost: '0.01' }, wallet, {}, fetchImpl);
+
+      expect(result.success).toBe(false);
+      expect(result.quote?.price).toBe('0.05 USDC');
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+  });
+});